@@ -4,32 +4,47 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import GeminiFruitSlicer from './components/GeminiFruitSlicer';
 import GeminiSlingshot from './components/GeminiSlingshot';
+import HighScoreTable from './components/HighScoreTable';
+import ProfilePanel from './components/ProfilePanel';
+import GlobalLeaderboard from './components/GlobalLeaderboard';
+import AiDevPanel from './components/AiDevPanel';
+import LanguagePicker from './components/LanguagePicker';
+import UpdatePrompt from './components/UpdatePrompt';
+import { useI18n } from './services/useI18n';
+import { soundManager } from './services/soundService';
 import { Gamepad2, ArrowLeft, Zap, Target, Sparkles, ChevronRight } from 'lucide-react';
 
 type GameMode = 'MENU' | 'SLICER' | 'SLINGSHOT';
 
 const App: React.FC = () => {
   const [gameMode, setGameMode] = useState<GameMode>('MENU');
+  const { locale, t } = useI18n();
+
+  useEffect(() => { document.documentElement.lang = locale; }, [locale]);
+  // The games switch between their own menu and game tracks; the main menu idles on the menu track
+  useEffect(() => { if (gameMode === 'MENU') soundManager.playMusic('menu'); }, [gameMode]);
 
   const renderContent = () => {
     switch (gameMode) {
       case 'SLICER':
-        return <GeminiFruitSlicer />;
+        return <GeminiFruitSlicer onExit={() => setGameMode('MENU')} />;
       case 'SLINGSHOT':
-        return <GeminiSlingshot />;
+        return <GeminiSlingshot onExit={() => setGameMode('MENU')} />;
       default:
         return (
-          <div className="w-full h-full flex flex-col items-center justify-center bg-neutral-950 text-white p-6 relative overflow-hidden font-roboto selection:bg-yellow-500/30">
+          <div className="w-full h-full flex flex-col items-center bg-neutral-950 text-white p-6 relative overflow-x-hidden overflow-y-auto font-roboto selection:bg-yellow-500/30">
              {/* Magic UI Backgrounds - Updated to Tropical/Street aesthetic */}
              <div className="absolute inset-0 h-full w-full bg-neutral-950 bg-grid-white/[0.05] bg-[bottom_1px_center] [mask-image:linear-gradient(to_bottom,transparent,black)] pointer-events-none" />
              <div className="absolute -top-40 -right-40 w-96 h-96 bg-yellow-500/20 rounded-full blur-[128px] pointer-events-none animate-pulse" />
              <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[800px] h-[800px] bg-orange-500/10 rounded-full blur-[128px] pointer-events-none" />
              <div className="absolute -bottom-40 -left-40 w-96 h-96 bg-green-500/20 rounded-full blur-[128px] pointer-events-none" />
              
-             <div className="z-10 w-full max-w-5xl animate-in fade-in zoom-in duration-700 flex flex-col items-center">
+             <div className="absolute top-6 right-6 z-20"><LanguagePicker /></div>
+
+             <div className="z-10 w-full max-w-5xl my-auto py-12 animate-in fade-in zoom-in duration-700 flex flex-col items-center">
                 
                 {/* Header Section */}
                 <div className="text-center mb-16 relative group cursor-default">
@@ -48,7 +63,7 @@ const App: React.FC = () => {
                     </h1>
                     <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-white/5 border border-white/10 backdrop-blur-sm">
                         <Sparkles className="w-3 h-3 text-yellow-400" />
-                        <span className="text-xs font-medium tracking-widest uppercase text-neutral-400">Powered by Google Gemini 3 Flash</span>
+                        <span className="text-xs font-medium tracking-widest uppercase text-neutral-400">{t('menu.poweredBy')}</span>
                     </div>
                 </div>
 
@@ -68,13 +83,13 @@ const App: React.FC = () => {
                                 </div>
                                 <h3 className="text-3xl font-black italic text-white mb-3 group-hover:translate-x-1 transition-transform">FRUIT NINJA</h3>
                                 <p className="text-sm text-neutral-400 leading-relaxed max-w-sm">
-                                    Use your hand as a digital blade. Slice fruits, build combos, and listen to the AI Sensei's wisdom.
+                                    {t('menu.slicerBlurb')}
                                 </p>
                             </div>
                             
                             <div className="mt-8 flex items-center justify-between border-t border-white/5 pt-6">
                                 <div className="flex items-center gap-2 text-[10px] font-bold text-yellow-500/80 bg-yellow-500/10 px-3 py-1.5 rounded-full uppercase tracking-wider">
-                                    <span>AI Vision Analysis</span>
+                                    <span>{t('menu.slicerTag')}</span>
                                 </div>
                                 <div className="w-8 h-8 rounded-full bg-white/5 flex items-center justify-center group-hover:bg-yellow-500 group-hover:text-black transition-all duration-300">
                                     <ChevronRight className="w-4 h-4" />
@@ -97,13 +112,13 @@ const App: React.FC = () => {
                                 </div>
                                 <h3 className="text-3xl font-black italic text-white mb-3 group-hover:translate-x-1 transition-transform">BUBBLE SLINGSHOT</h3>
                                 <p className="text-sm text-neutral-400 leading-relaxed max-w-sm">
-                                    Pinch your fingers to aim and shoot. Solve bubble puzzles with tactical support from the AI.
+                                    {t('menu.slingshotBlurb')}
                                 </p>
                             </div>
                             
                             <div className="mt-8 flex items-center justify-between border-t border-white/5 pt-6">
                                 <div className="flex items-center gap-2 text-[10px] font-bold text-blue-500/80 bg-blue-500/10 px-3 py-1.5 rounded-full uppercase tracking-wider">
-                                    <span>Strategic Engine</span>
+                                    <span>{t('menu.slingshotTag')}</span>
                                 </div>
                                 <div className="w-8 h-8 rounded-full bg-white/5 flex items-center justify-center group-hover:bg-blue-500 group-hover:text-black transition-all duration-300">
                                     <ChevronRight className="w-4 h-4" />
@@ -112,6 +127,16 @@ const App: React.FC = () => {
                         </div>
                     </button>
                 </div>
+
+                {/* Local profile & high scores */}
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6 w-full px-4 mt-6">
+                    <ProfilePanel />
+                    <HighScoreTable game="slicer" title={t('menu.slicerTop')} />
+                    <HighScoreTable game="slingshot" title={t('menu.slingshotTop')} />
+                </div>
+                <div className="w-full px-4 mt-6 empty:hidden">
+                    <GlobalLeaderboard />
+                </div>
              </div>
              
              <div className="absolute bottom-6 text-neutral-700 text-[10px] font-mono uppercase tracking-widest hover:text-neutral-500 transition-colors cursor-help">
@@ -125,12 +150,14 @@ const App: React.FC = () => {
   return (
     <div className="w-full h-full relative bg-neutral-950">
       {renderContent()}
+      <AiDevPanel />
+      <UpdatePrompt />
       
       {gameMode !== 'MENU' && (
           <button 
             onClick={() => setGameMode('MENU')}
             className="absolute top-6 left-6 z-[200] bg-black/20 backdrop-blur-xl p-3 rounded-full border border-white/10 hover:bg-white/10 transition-all group shadow-2xl active:scale-95"
-            title="Back to Menu"
+            title={t('menu.back')}
           >
             <ArrowLeft className="w-5 h-5 text-white group-hover:-translate-x-0.5 transition-transform" />
           </button>
@@ -0,0 +1,19 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { clientId, createAiProxy } from '../server/aiProxy';
+import { createAiAdvisor, readAiConfig } from '../services/aiAdvisor';
+
+// Created once per warm instance, so the rate limit is per instance rather than global
+const proxy = createAiProxy({ advisor: createAiAdvisor(readAiConfig('server')) });
+
+/** Vercel function behind `POST /api/hint`; API_KEY lives in the project's server-side environment. */
+export async function POST(request: Request): Promise<Response> {
+  const length = Number(request.headers.get('content-length'));
+  if (length > proxy.maxBodyBytes) return Response.json({ error: 'Request body too large' }, { status: 413 });
+  // Vercel's edge sets X-Forwarded-For to the caller's address
+  const reply = await proxy.handle(await request.text(), clientId(request.headers.get('x-forwarded-for')), request.signal);
+  return Response.json(reply.body, { status: reply.status, headers: reply.headers });
+}
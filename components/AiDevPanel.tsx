@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { Activity, ChevronDown, ChevronRight, Download, FileJson, RotateCcw, X } from 'lucide-react';
+import { downloadAiFixtures } from '../services/aiFixtures';
+import { AiCallRecord, AiUsageStats, downloadAiLog, getAiScheduler } from '../services/aiScheduler';
+
+const TOGGLE_KEY = '`';
+
+type Tab = 'usage' | 'calls';
+
+const Row: React.FC<{ label: string, value: React.ReactNode }> = ({ label, value }) => (
+  <div className="flex justify-between gap-4"><span className="text-neutral-500">{label}</span><span className="text-white tabular-nums">{value}</span></div>
+);
+
+const Block: React.FC<{ label: string, text: string }> = ({ label, text }) => (
+  <div>
+    <p className="text-[9px] uppercase tracking-widest text-neutral-500 mb-1">{label}</p>
+    <pre className="whitespace-pre-wrap break-words bg-black/40 rounded-lg p-2 max-h-40 overflow-y-auto text-neutral-300">{text || '–'}</pre>
+  </div>
+);
+
+const CallEntry: React.FC<{ call: AiCallRecord }> = ({ call }) => {
+  const [open, setOpen] = useState(false);
+  const { debug } = call;
+  const shot = debug.screenshotBase64 && (debug.screenshotBase64.startsWith('data:') ? debug.screenshotBase64 : `data:image/jpeg;base64,${debug.screenshotBase64}`);
+  return (
+    <div className="border-t border-white/5 py-1.5">
+      <button onClick={() => setOpen(o => !o)} className="w-full flex items-center gap-2 text-left hover:text-white text-neutral-300">
+        {open ? <ChevronDown className="w-3 h-3 shrink-0" /> : <ChevronRight className="w-3 h-3 shrink-0" />}
+        <span className="text-neutral-500 tabular-nums">#{call.id}</span>
+        <span className="flex-1 truncate">{call.kind} · {new Date(call.sentAt).toLocaleTimeString()}</span>
+        <span className="tabular-nums">{debug.latency} ms</span>
+        <span className={debug.error ? 'text-red-400' : 'text-green-400'}>{debug.error ? debug.error.code : 'ok'}</span>
+      </button>
+      {open && (
+        <div className="mt-2 space-y-2">
+          {shot && <img src={shot} alt={`Snapshot sent with call ${call.id}`} className="w-full rounded-lg border border-white/10" />}
+          <Row label="Advisor / attempts" value={`${call.advisor} / ${debug.attempts ?? 1}`} />
+          {debug.usage && <Row label="Tokens in / out" value={`${debug.usage.promptTokens} / ${debug.usage.completionTokens}`} />}
+          {debug.error && <Block label="Error" text={debug.error.message} />}
+          <Block label="Prompt" text={debug.promptContext.trim()} />
+          <Block label="Raw response" text={debug.rawResponse} />
+          <Block label="Parsed response" text={debug.parsedResponse === undefined ? '' : JSON.stringify(debug.parsedResponse, null, 2)} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Developer console for the AI scheduler, toggled with the backquote key: the
+ * session's budget, skips, latency, tokens and errors, plus every call with
+ * its snapshot, prompt and responses, exportable as JSON or as fixtures for
+ * the mock advisor.
+ */
+const AiDevPanel: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const [tab, setTab] = useState<Tab>('usage');
+  const [stats, setStats] = useState<AiUsageStats | null>(null);
+  const [calls, setCalls] = useState<readonly AiCallRecord[]>([]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === TOGGLE_KEY && !(e.target instanceof HTMLInputElement)) setOpen(o => !o); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    const scheduler = getAiScheduler();
+    const refresh = () => { setStats(scheduler.getStats()); setCalls(scheduler.getCalls()); };
+    refresh();
+    // The budget window slides with time, so refresh even when nothing new happens
+    const tick = setInterval(refresh, 1000);
+    const unsubscribe = scheduler.subscribe(refresh);
+    return () => { clearInterval(tick); unsubscribe(); };
+  }, [open]);
+
+  if (!open || !stats) return null;
+  const scheduler = getAiScheduler();
+  const { budgetPerMinute } = scheduler.options;
+  const answered = stats.completed + stats.errors;
+  const errors = Object.entries(stats.errorsByCode);
+  const tabClass = (t: Tab) => `px-2 py-0.5 rounded-md ${tab === t ? 'bg-white/10 text-white' : 'text-neutral-500 hover:text-white'}`;
+
+  return (
+    <div className={`absolute bottom-6 right-6 z-[250] ${tab === 'calls' ? 'w-[28rem]' : 'w-72'} max-w-[calc(100%-3rem)] bg-neutral-900/95 backdrop-blur-xl rounded-2xl border border-white/10 shadow-2xl p-4 font-mono text-[11px]`}>
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2 text-yellow-500 font-bold uppercase tracking-widest text-[10px]"><Activity className="w-4 h-4" />AI · {scheduler.advisor.name}</div>
+        <div className="flex gap-1">
+          <button onClick={() => downloadAiFixtures(calls)} disabled={calls.length === 0} className="p-1 rounded-lg text-neutral-400 hover:bg-white/10 disabled:opacity-30" title="Save calls as replay fixtures (AI_PROVIDER=mock)"><FileJson className="w-3.5 h-3.5" /></button>
+          <button onClick={() => downloadAiLog(scheduler)} className="p-1 rounded-lg text-neutral-400 hover:bg-white/10" title="Export session log"><Download className="w-3.5 h-3.5" /></button>
+          <button onClick={() => scheduler.resetStats()} className="p-1 rounded-lg text-neutral-400 hover:bg-white/10" title="Reset counters and log"><RotateCcw className="w-3.5 h-3.5" /></button>
+          <button onClick={() => setOpen(false)} className="p-1 rounded-lg text-neutral-400 hover:bg-white/10" title="Close"><X className="w-3.5 h-3.5" /></button>
+        </div>
+      </div>
+      <div className="flex gap-1 mb-2">
+        <button onClick={() => setTab('usage')} className={tabClass('usage')}>Usage</button>
+        <button onClick={() => setTab('calls')} className={tabClass('calls')}>Calls ({calls.length})</button>
+      </div>
+      {tab === 'usage' ? (
+        <div className="space-y-1">
+          <Row label="Budget (last min)" value={`${scheduler.budgetUsed()} / ${Number.isFinite(budgetPerMinute) ? budgetPerMinute : '∞'}`} />
+          <Row label="Requests sent" value={stats.requests} />
+          <Row label="Answered / errors" value={`${stats.completed} / ${stats.errors}`} />
+          <Row label="Skipped (same state)" value={stats.duplicates} />
+          <Row label="Replaced while waiting" value={stats.superseded} />
+          <Row label="Throttled" value={stats.throttled} />
+          <Row label="Cancelled" value={stats.cancelled} />
+          <Row label="Latency avg / max" value={answered > 0 ? `${Math.round(stats.totalLatency / answered)} / ${stats.maxLatency} ms` : '–'} />
+          <Row label="Tokens in / out" value={`${stats.promptTokens} / ${stats.completionTokens}`} />
+          {errors.length > 0 && (
+            <div className="pt-2 mt-2 border-t border-white/5 space-y-1">
+              {errors.map(([code, count]) => <Row key={code} label={code} value={count} />)}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="max-h-[60vh] overflow-y-auto pr-1">
+          {calls.length === 0 ? <p className="text-neutral-500 py-2">No calls yet.</p> : [...calls].reverse().map(call => <CallEntry key={call.id} call={call} />)}
+        </div>
+      )}
+      <p className="pt-2 text-[9px] text-neutral-600">Since {new Date(stats.since).toLocaleTimeString()} · press {TOGGLE_KEY} to hide</p>
+    </div>
+  );
+};
+
+export default AiDevPanel;
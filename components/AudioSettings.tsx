@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useReducer, useState, useSyncExternalStore } from 'react';
+import { Mic, Volume2, VolumeX } from 'lucide-react';
+import type { MixerBus } from '../services/mixer';
+import { soundManager } from '../services/soundService';
+import { speechManager } from '../services/speechService';
+import { useI18n } from '../services/useI18n';
+import { getVoiceCommandsEnabled, isSpeechRecognitionAvailable, setVoiceCommandsEnabled, subscribeVoiceCommands } from '../services/voiceCommands';
+
+/** Mute and the mixer's bus volumes, the spoken hints (which follow mute and the master and voice volumes) and voice commands. */
+const AudioSettings: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const [muted, setMuted] = useState(soundManager.getMuteState());
+  const [volumes, setVolumes] = useState(() => ({
+    master: soundManager.getBusVolume('master'), sfx: soundManager.getBusVolume('sfx'),
+    music: soundManager.getBusVolume('music'), voice: soundManager.getBusVolume('voice')
+  }));
+  // Voices load asynchronously in most browsers
+  const [, refresh] = useReducer((n: number) => n + 1, 0);
+  const { locale, t } = useI18n();
+  const commands = useSyncExternalStore(subscribeVoiceCommands, getVoiceCommandsEnabled);
+
+  useEffect(() => speechManager.subscribe(refresh), []);
+
+  const prefs = speechManager.getPrefs();
+  const voices = speechManager.voicesFor(locale);
+  const voice = speechManager.voiceFor(locale);
+
+  const toggleMute = () => {
+    const mute = soundManager.toggleMute();
+    if (mute) speechManager.stop();
+    setMuted(mute);
+  };
+
+  const changeVolume = (bus: MixerBus, value: number) => {
+    soundManager.setBusVolume(bus, value);
+    setVolumes(v => ({ ...v, [bus]: value }));
+  };
+
+  const slider = (bus: MixerBus, label: string) => (
+    <label className="flex flex-col gap-1 px-3 py-2">
+      <span>{label}</span>
+      <input type="range" min={0} max={1} step={0.05} value={volumes[bus]} disabled={muted} onChange={e => changeVolume(bus, Number(e.target.value))} className="accent-yellow-500 disabled:opacity-30" />
+    </label>
+  );
+
+  return (
+    <div className="relative pointer-events-auto">
+      <button onClick={() => setOpen(o => !o)} className="p-3 bg-black/40 backdrop-blur-md rounded-full text-white/70 hover:bg-white/10 border border-white/5 transition-all active:scale-95" title={t('audio.settings')}>
+        {muted ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-64 bg-neutral-900/95 backdrop-blur-xl rounded-2xl border border-white/10 shadow-2xl p-2 z-[150] text-sm text-neutral-300">
+          <p className="px-3 py-2 text-[10px] font-bold uppercase tracking-widest text-neutral-500">{t('audio.title')}</p>
+          <label className="flex items-center justify-between gap-3 px-3 py-2 rounded-xl hover:bg-white/5 cursor-pointer">
+            <span>{t('audio.mute')}</span>
+            <input type="checkbox" checked={muted} onChange={toggleMute} className="accent-yellow-500" />
+          </label>
+          {slider('master', t('audio.volume'))}
+          {slider('sfx', t('audio.sfx'))}
+          {slider('music', t('audio.music'))}
+          {speechManager.isSupported() ? (
+            <>
+              <label className="flex items-center justify-between gap-3 px-3 py-2 rounded-xl hover:bg-white/5 cursor-pointer">
+                <span>{t('audio.speech')}</span>
+                <input type="checkbox" checked={prefs.enabled} onChange={e => speechManager.setPrefs({ enabled: e.target.checked })} className="accent-yellow-500" />
+              </label>
+              {prefs.enabled && (
+                <>
+                  <label className="flex flex-col gap-1 px-3 py-2">
+                    <span>{t('audio.voice')}</span>
+                    <select value={voice?.voiceURI ?? ''} onChange={e => speechManager.setPrefs({ voices: { [locale]: e.target.value } })} disabled={voices.length === 0} className="bg-neutral-800 rounded-lg px-2 py-1 text-xs focus:outline-none">
+                      {voices.length === 0 && <option value="">{t('audio.browserVoice')}</option>}
+                      {voices.map(v => <option key={v.voiceURI} value={v.voiceURI}>{v.name}</option>)}
+                    </select>
+                  </label>
+                  {slider('voice', t('audio.voiceVolume'))}
+                </>
+              )}
+            </>
+          ) : (
+            <p className="px-3 py-2 text-xs text-neutral-500">{t('audio.noSpeech')}</p>
+          )}
+          {isSpeechRecognitionAvailable() ? (
+            <>
+              <label className="flex items-center justify-between gap-3 px-3 py-2 rounded-xl hover:bg-white/5 cursor-pointer">
+                <span className="flex items-center gap-2"><Mic className="w-4 h-4" />{t('audio.commands')}</span>
+                <input type="checkbox" checked={commands} onChange={e => setVoiceCommandsEnabled(e.target.checked)} className="accent-yellow-500" />
+              </label>
+              {commands && <p className="px-3 pb-2 text-xs text-neutral-500">{t('audio.commandsHint')}</p>}
+            </>
+          ) : (
+            <p className="px-3 py-2 text-xs text-neutral-500">{t('audio.noCommands')}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioSettings;
@@ -5,24 +5,30 @@
 
 import React, { useEffect, useRef, useState } from 'react';
 import { soundManager } from '../services/soundService';
-import { Point, Fruit, Particle, FruitType, XPPoint } from '../types';
-import { Loader2, Play, RotateCcw, Volume2, VolumeX, Hand, Award, CheckCircle2, Heart, AlertTriangle, Zap } from 'lucide-react';
-
-const GRAVITY = 0.38; 
-const INITIAL_SPAWN_INTERVAL = 1100; 
-const BLADE_TRAIL_LIMIT = 8; 
-const MAX_PARTICLES = 120; 
-const GAME_DURATION = 60; 
-const MAX_LIVES = 3;
-
-// Specialized colors and metadata for realistic fruit rendering
-const FRUIT_CONFIG: Record<FruitType, { hex: string, points: number, label: string, radius: number, fleshColor: string, secondaryColor: string, speckleColor: string }> = {
-  guava:       { hex: '#7CB342', points: 10,  label: 'Jambu Biji',   radius: 42, fleshColor: '#F06292', secondaryColor: '#558B2F', speckleColor: '#33691E' },
-  mango:       { hex: '#AFB42B', points: 20,  label: 'Mangga Hijau', radius: 48, fleshColor: '#FFB300', secondaryColor: '#E65100', speckleColor: '#FBC02D' },
-  pineapple:   { hex: '#FBC02D', points: 50,  label: 'Nanas Madu',   radius: 60, fleshColor: '#FFF176', secondaryColor: '#795548', speckleColor: '#5D4037' },
-  sweet_mango: { hex: '#FF8F00', points: 150, label: 'Mangga Masak', radius: 52, fleshColor: '#FFCC80', secondaryColor: '#BF360C', speckleColor: '#E65100' },
-  bomb:        { hex: '#D32F2F', points: -100, label: 'Botol Sambal', radius: 38, fleshColor: '#FFCDD2', secondaryColor: '#000000', speckleColor: '#FF1744' }
-};
+import { speechManager } from '../services/speechService';
+import { musicIntensity } from '../services/music';
+import { comboPitch, sliceSound } from '../services/soundSets';
+import { getAiScheduler } from '../services/aiScheduler';
+import { statsStore } from '../services/storageService';
+import { getLeaderboardMode, getLeaderboardService, LeaderboardSession } from '../services/leaderboardService';
+import { startGameLoop } from '../engine/gameLoop';
+import { randomSeed } from '../engine/random';
+import { Replay, ReplayPlayer, ReplayRecorder, TickInput, downloadReplay, readReplayFile } from '../engine/replay';
+import { FRUIT_CONFIG, GAME_DURATION, MAX_LIVES, SlicerEvent, SlicerWorld } from '../engine/slicerWorld';
+import { getLocale, translate } from '../services/i18n';
+import { useI18n } from '../services/useI18n';
+import { useVoiceCommands } from '../services/useVoiceCommands';
+import { VoiceCommand } from '../services/voiceCommands';
+import { createInputSource, describeCameraError, getPreferredInputKind, setPreferredInputKind, HandInputSource, InputSource, InputSourceKind, PointerSample } from '../services/inputSources';
+import { HandFrame, handTracker } from '../services/handTracker';
+import InputSettings from './InputSettings';
+import AudioSettings from './AudioSettings';
+import HighScoreTable from './HighScoreTable';
+import { FruitType, StrategicHint } from '../types';
+import { Loader2, Play, Pause, RotateCcw, Hand, Award, CheckCircle2, Heart, AlertTriangle, Zap, BrainCircuit, Lightbulb, Film, Download, Upload } from 'lucide-react';
+
+const SENSEI_INTERVAL = 8000; // ms between Sensei snapshots while playing
+const COMBO_WINDOW_MS = 600; // slices closer together than this build a combo for the music
 
 type GameState = 'START' | 'COUNTDOWN' | 'PLAYING' | 'GAMEOVER';
 
@@ -125,93 +131,104 @@ const GameLogo: React.FC<{ size?: 'xs' | 'sm' | 'lg' }> = ({ size = 'lg' }) => {
   );
 };
 
-const GeminiFruitSlicer: React.FC = () => {
-  const videoRef = useRef<HTMLVideoElement>(null);
+const GeminiFruitSlicer: React.FC<{ onExit?: () => void }> = ({ onExit }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const isDestroyed = useRef<boolean>(false);
   
   const fruitCache = useRef<Record<string, HTMLCanvasElement>>({});
-  const fruits = useRef<Fruit[]>([]);
-  const particles = useRef<Particle[]>([]);
   const ambientParticles = useRef<AmbientParticle[]>([]);
-  const xpPoints = useRef<XPPoint[]>([]);
-  const bladeTrail = useRef<Point[]>([]);
-  const scoreRef = useRef<number>(0);
-  const livesRef = useRef<number>(MAX_LIVES);
-  const levelRef = useRef<number>(1);
-  const lastSpawnTime = useRef<number>(0);
-  const lastSwooshTime = useRef<number>(0);
-  const gameActive = useRef<boolean>(false);
+
+  // Headless simulation, advanced only by the fixed-step loop. Between rounds an idle world
+  // just tracks the blade; a round's world is frozen to its size so replays are screen-independent.
+  const world = useRef<SlicerWorld>(SlicerWorld.idle(0, 0, true));
+  const recorder = useRef<ReplayRecorder | null>(null);
+  const replayPlayer = useRef<ReplayPlayer | null>(null);
+  // Ranked rounds: a session requested during the countdown, then the one the round is played on
+  const pendingSession = useRef<LeaderboardSession | null>(null);
+  const leaderboardSession = useRef<LeaderboardSession | null>(null);
+  const sessionRequest = useRef<number>(0);
+
+  // Latest camera frame and input sample, consumed by the game loop at its own rate
+  const cameraImage = useRef<CanvasImageSource | null>(null);
+  const inputSource = useRef<InputSource | null>(null);
+  const currentSample = useRef<PointerSample | null>(null);
+  const lastSampleTime = useRef<number>(-1);
+  const handDetectedRef = useRef<boolean>(false);
   
   const bgHue = useRef<number>(60); // Start with yellowish background
-  const pulseIntensity = useRef<number>(0);
-  
-  const touchActive = useRef<boolean>(false);
-  const lastTouchPos = useRef<Point | null>(null);
-
-  const timeScale = useRef<number>(1.0);
-  const shakeIntensity = useRef<number>(0);
-  const flashOpacity = useRef<number>(0);
 
+  // AI Sensei: snapshots every SENSEI_INTERVAL, sent through the shared AI scheduler; each cancels the one before, and unmount the last
+  const senseiCancel = useRef<AbortController | null>(null);
+  const senseiSeq = useRef<number>(0);
+  const lastSenseiRequest = useRef<number>(0);
+  const priorityFruitRef = useRef<FruitType | null>(null);
+  // The loop stops stepping the world while paused; the round's clock is tick-based, so it stops too
+  const pausedRef = useRef<boolean>(false);
+  // Slices in quick succession; only drives the music, so wall-clock time is fine here
+  const combo = useRef({ count: 0, at: 0 });
+
+  const { locale, t, formatNumber } = useI18n();
   const [gameState, setGameState] = useState<GameState>('START');
-  const [loading, setLoading] = useState(true);
-  const [cameraError, setCameraError] = useState<string | null>(null);
+  // Only hand tracking waits for the camera and model
+  const [loading, setLoading] = useState(() => getPreferredInputKind() === 'hand');
+  const [cameraError, setCameraError] = useState<Error | null>(null);
   const [score, setScore] = useState(0);
   const [lives, setLives] = useState(MAX_LIVES);
   const [timeLeft, setTimeLeft] = useState(GAME_DURATION);
   const [level, setLevel] = useState(1);
   const [showLevelUp, setShowLevelUp] = useState(false);
-  const [isMuted, setIsMuted] = useState(false);
   const [handDetected, setHandDetected] = useState(false);
+  const [inputKind, setInputKind] = useState<InputSourceKind>(getPreferredInputKind);
   const [countdown, setCountdown] = useState<number | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [senseiHint, setSenseiHint] = useState<StrategicHint | null>(null);
+  const [isSenseiThinking, setIsSenseiThinking] = useState(false);
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [lastRunId, setLastRunId] = useState<string | null>(null);
+  const [globalRank, setGlobalRank] = useState<number | null>(null);
 
   useEffect(() => {
     isDestroyed.current = false;
-    setIsMuted(soundManager.getMuteState());
     initFruitCache();
-    
-    const handleTouchStart = (e: TouchEvent) => {
-        if (gameState !== 'PLAYING') return;
-        touchActive.current = true;
-        const rect = canvasRef.current?.getBoundingClientRect();
-        if (rect && e.touches[0]) {
-            lastTouchPos.current = { x: e.touches[0].clientX - rect.left, y: e.touches[0].clientY - rect.top };
-        }
-    };
-    
-    const handleTouchMove = (e: TouchEvent) => {
-        if (!touchActive.current || gameState !== 'PLAYING') return;
-        const rect = canvasRef.current?.getBoundingClientRect();
-        if (rect && e.touches[0]) {
-            const currentPos = { x: e.touches[0].clientX - rect.left, y: e.touches[0].clientY - rect.top };
-            bladeTrail.current.push(currentPos);
-            if (bladeTrail.current.length > BLADE_TRAIL_LIMIT) bladeTrail.current.shift();
-            lastTouchPos.current = currentPos;
-        }
-    };
-    
-    const handleTouchEnd = () => {
-        touchActive.current = false;
-        lastTouchPos.current = null;
-        bladeTrail.current = [];
-    };
+    return () => { isDestroyed.current = true; senseiCancel.current?.abort(); speechManager.stop(); };
+  }, []);
 
-    window.addEventListener('touchstart', handleTouchStart, { passive: false });
-    window.addEventListener('touchmove', handleTouchMove, { passive: false });
-    window.addEventListener('touchend', handleTouchEnd);
+  useEffect(() => {
+    soundManager.playMusic(gameState === 'PLAYING' && !paused ? 'game' : 'menu');
+  }, [gameState, paused]);
 
-    return () => {
-        isDestroyed.current = true;
-        window.removeEventListener('touchstart', handleTouchStart);
-        window.removeEventListener('touchmove', handleTouchMove);
-        window.removeEventListener('touchend', handleTouchEnd);
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const source = createInputSource(inputKind, { mirrorHand: true });
+    source.attach(container);
+    inputSource.current = source; world.current.bladeTrail = [];
+    return () => { source.detach(); if (inputSource.current === source) inputSource.current = null; };
+  }, [inputKind]);
+
+  // The camera only runs for the hand source; the shared tracker keeps it warm across source and screen switches
+  useEffect(() => {
+    if (inputKind !== 'hand') {
+        setLoading(false); setCameraError(null);
+        cameraImage.current = null; handDetectedRef.current = false; setHandDetected(false);
+        return;
+    }
+    // The hand tracker only samples input; the game loop owns physics and rendering
+    const onFrame = ({ image, landmarks }: HandFrame) => {
+        setLoading(false); setCameraError(null);
+        cameraImage.current = image;
+        const detected = landmarks !== null;
+        if (inputSource.current instanceof HandInputSource) inputSource.current.feed(landmarks);
+        if (detected !== handDetectedRef.current) { handDetectedRef.current = detected; setHandDetected(detected); }
     };
-  }, [gameState]);
+    return handTracker.acquire(onFrame, (e) => { setLoading(false); setCameraError(e); });
+  }, [inputKind]);
 
-  const toggleMute = () => {
-    const newState = soundManager.toggleMute();
-    setIsMuted(newState);
+  const changeInputKind = (kind: InputSourceKind) => {
+    setPreferredInputKind(kind); setInputKind(kind);
   };
 
   const initFruitCache = () => {
@@ -237,9 +254,20 @@ const GeminiFruitSlicer: React.FC = () => {
   };
 
   const startCountdown = () => {
-    soundManager.playClick();
+    soundManager.playClick(); setPaused(false); pausedRef.current = false;
+    // A restart mid-round abandons it: the loop keeps stepping an active world, and its replay and session would never be used
+    if (world.current.active) {
+      world.current = SlicerWorld.idle(0, 0, !!inputSource.current?.alwaysEngaged);
+      recorder.current = null; leaderboardSession.current = null;
+      if (replayPlayer.current) { replayPlayer.current = null; setIsReplaying(false); }
+      speechManager.stop();
+    }
     setGameState('COUNTDOWN');
     setCountdown(3);
+    const request = ++sessionRequest.current;
+    getLeaderboardService()?.requestSession('slicer', getLeaderboardMode('slicer'))
+      .then(session => { if (request === sessionRequest.current) pendingSession.current = session; })
+      .catch(e => console.warn('Leaderboard offline, playing unranked', e));
   };
 
   useEffect(() => {
@@ -251,56 +279,61 @@ const GeminiFruitSlicer: React.FC = () => {
     }
   }, [countdown, gameState]);
 
-  const startGame = () => {
-    scoreRef.current = 0; livesRef.current = MAX_LIVES; levelRef.current = 1;
-    setScore(0); setLives(MAX_LIVES); setTimeLeft(GAME_DURATION); setLevel(1);
-    fruits.current = []; particles.current = []; ambientParticles.current = []; xpPoints.current = []; gameActive.current = true;
-    bgHue.current = 60; pulseIntensity.current = 0;
-    setGameState('PLAYING'); timeScale.current = 1.0; shakeIntensity.current = 0; flashOpacity.current = 0;
+  const setPause = (pause: boolean) => {
+    if (pause && (gameState !== 'PLAYING' || pausedRef.current)) return;
+    pausedRef.current = pause; setPaused(pause);
+    if (pause) speechManager.stop();
+    soundManager.playClick();
   };
 
-  const spawnFruit = (width: number, height: number) => {
-    const currentLevel = levelRef.current;
-    const typeChance = Math.random();
-    let type: FruitType = 'guava';
-    let bombThreshold = currentLevel >= 3 ? Math.min(0.3, 0.05 + ((currentLevel - 3) * 0.02)) : 0;
-    
-    if (typeChance < bombThreshold) { 
-        type = 'bomb'; 
-    } else {
-        const roll = Math.random();
-        if (roll > 0.95) type = 'sweet_mango'; 
-        else if (roll > 0.8) type = 'pineapple'; 
-        else if (roll > 0.4) type = 'mango'; 
-        else type = 'guava';
+  const onVoiceCommand = (command: VoiceCommand) => {
+    switch (command.type) {
+      case 'start':
+        if (paused) setPause(false);
+        else if (gameState === 'START' || gameState === 'GAMEOVER') startCountdown();
+        break;
+      case 'pause': setPause(true); break;
+      case 'resume': if (paused) setPause(false); break;
+      case 'restart': if (gameState === 'PLAYING' || gameState === 'GAMEOVER') startCountdown(); break;
+      case 'menu': onExit?.(); break;
     }
+  };
 
-    const config = FRUIT_CONFIG[type];
-    const launchX = Math.random() * (width - 120) + 60;
-    fruits.current.push({
-      id: Math.random().toString(36).substr(2, 9), 
-      type, x: launchX, y: height + 80,
-      vx: (Math.random() - 0.5) * (6 + (currentLevel * 0.4)), 
-      vy: -(Math.random() * 5 + 16 + currentLevel * 1.2), 
-      radius: config.radius,
-      rotation: Math.random() * Math.PI * 2, 
-      rotationSpeed: (Math.random() - 0.5) * (0.12 + currentLevel * 0.01), 
-      isSliced: false
-    });
+  useVoiceCommands(onVoiceCommand, !loading);
+
+  const startReplay = (replay: Replay) => {
+    soundManager.playClick(); setReplayError(null); startGame(replay);
   };
 
-  const createExplosion = (x: number, y: number, color: string, bladeDx: number, bladeDy: number, isBomb = false) => {
-    const count = (isBomb ? 50 : 30) + Math.random() * 15;
-    for (let i = 0; i < count; i++) {
-      if (particles.current.length >= MAX_PARTICLES) particles.current.shift();
-      const angle = Math.atan2(bladeDy, bladeDx || 1) + (Math.random() - 0.5) * (isBomb ? 6.28 : 2.2); 
-      const speed = Math.random() * (isBomb ? 25 : 18) + 3;
-      particles.current.push({ 
-        x: x + (Math.random() - 0.5) * 10, y: y + (Math.random() - 0.5) * 10,
-        vx: Math.cos(angle) * speed, vy: Math.sin(angle) * speed, 
-        life: 1.0, color: Math.random() > 0.8 ? '#FFFFFF' : color, wait: isBomb ? 0 : Math.random() * 0.15
-      });
-    }
+  const onReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]; e.target.value = '';
+    if (!file) return;
+    try {
+        const replay = await readReplayFile(file);
+        if (replay.game !== 'slicer') throw new Error(t('slicer.wrongReplay'));
+        setLastReplay(replay); startReplay(replay);
+    } catch (err: any) { setReplayError(err.message || t('slicer.badReplay')); }
+  };
+
+  const startGame = (replay?: Replay) => {
+    const canvas = canvasRef.current;
+    // A session that has not arrived by now is dropped; the round is simply unranked
+    leaderboardSession.current = replay ? null : pendingSession.current;
+    pendingSession.current = null; sessionRequest.current++;
+    const seed = replay ? replay.seed : leaderboardSession.current?.seed ?? randomSeed();
+    const width = replay ? replay.width : canvas?.width || 0; const height = replay ? replay.height : canvas?.height || 0;
+    const alwaysEngaged = replay ? replay.alwaysEngaged : !!inputSource.current?.alwaysEngaged;
+    world.current = new SlicerWorld(seed, width, height, { alwaysEngaged });
+    replayPlayer.current = replay ? new ReplayPlayer(replay) : null;
+    recorder.current = replay ? null : new ReplayRecorder('slicer', seed, width, height, alwaysEngaged);
+    setIsReplaying(!!replay);
+    lastSampleTime.current = -1;
+    setScore(0); setLives(MAX_LIVES); setTimeLeft(GAME_DURATION); setLevel(1);
+    ambientParticles.current = []; bgHue.current = 60;
+    lastSenseiRequest.current = performance.now(); priorityFruitRef.current = null; setSenseiHint(null);
+    pausedRef.current = false; setPaused(false);
+    combo.current = { count: 0, at: 0 }; soundManager.setMusicIntensity(0);
+    setGameState('PLAYING');
   };
 
   // RENDERING DETAILED FRUITS
@@ -396,67 +429,45 @@ const GeminiFruitSlicer: React.FC = () => {
     ctx.restore();
   };
 
-  const checkCollisions = () => {
-    if (bladeTrail.current.length < 2) return;
-    const tip = bladeTrail.current[bladeTrail.current.length - 1];
-    const prev = bladeTrail.current[bladeTrail.current.length - 2];
-    const dx = tip.x - prev.x; const dy = tip.y - prev.y;
-    const speed = Math.sqrt(dx*dx + dy*dy);
-    if (speed > 25 && performance.now() - lastSwooshTime.current > 150) {
-        soundManager.playSwoosh(); lastSwooshTime.current = performance.now();
+  const requestSenseiAdvice = async (screenshot: string) => {
+    if (isDestroyed.current) return;
+    // The newer snapshot replaces the last request, whether it is still waiting or in flight
+    senseiCancel.current?.abort();
+    const cancel = new AbortController(); senseiCancel.current = cancel;
+    const round = world.current;
+    const activeFruits = round.fruits.filter(f => !f.isSliced).map(f => ({ type: f.type, y: f.y }));
+    const locale = getLocale();
+    const seq = ++senseiSeq.current; setIsSenseiThinking(true);
+    let hint: StrategicHint | null;
+    try {
+        // null when the scheduler skipped it (same fruit as last time) or a newer snapshot replaced it
+        hint = (await getAiScheduler().requestSenseiAdvice({ imageBase64: screenshot, activeFruits, score: round.score, locale }, { signal: cancel.signal }))?.hint ?? null;
+    } catch (e) {
+        console.error("Sensei error:", e);
+        hint = { message: translate(locale, 'ai.sensei.failed') };
     }
-    fruits.current.forEach(fruit => {
-      if (fruit.isSliced) return;
-      const t = ((fruit.x - prev.x) * dx + (fruit.y - prev.y) * dy) / (speed * speed || 1);
-      const cX = prev.x + Math.max(0, Math.min(1, t)) * dx;
-      const cY = prev.y + Math.max(0, Math.min(1, t)) * dy;
-      if (Math.sqrt((fruit.x - cX)**2 + (fruit.y - cY)**2) < fruit.radius) {
-        fruit.isSliced = true;
-        const config = FRUIT_CONFIG[fruit.type];
-        shakeIntensity.current = fruit.type === 'bomb' ? 25 : 3;
-        pulseIntensity.current = 0.3;
-        if (fruit.type === 'bomb') {
-            soundManager.playBombExplosion(); createExplosion(fruit.x, fruit.y, '#FF4444', dx, dy, true);
-            flashOpacity.current = 0.8; livesRef.current = Math.max(0, livesRef.current - 1); setLives(livesRef.current);
-            timeScale.current = 0.1; setTimeout(() => { if(!isDestroyed.current) timeScale.current = 1.0; }, 400);
-        } else {
-            soundManager.playSlice(); createExplosion(fruit.x, fruit.y, config.fleshColor, dx, dy);
-            scoreRef.current += config.points; setScore(scoreRef.current);
-            const nL = 1 + Math.floor(scoreRef.current / 300);
-            if (nL > levelRef.current) { levelRef.current = nL; setLevel(nL); soundManager.playLevelUp(); pulseIntensity.current = 1.0; setShowLevelUp(true); setTimeout(() => setShowLevelUp(false), 2000); }
-            xpPoints.current.push({ x: fruit.x, y: fruit.y - 30, value: config.points, color: config.hex, life: 1.0, vx: 0, vy: -2 });
-        }
-        (fruit as any).slicedTime = performance.now(); 
-        fruit.sliceAngle = Math.atan2(dy, dx);
-        
-        // --- IMPROVED PHYSICS ---
-        // Store impact intensity for dynamic separation
-        (fruit as any).impactIntensity = Math.min(Math.max(speed, 10), 40);
-        
-        // Strong upward pop regardless of original velocity (pop the halves up)
-        fruit.vy = -12 - Math.random() * 5;
-        
-        // Transfer some lateral blade momentum to the main body
-        fruit.vx = (dx * 0.3);
-        
-        // Add random spin to make it feel chaotic
-        fruit.rotationSpeed += (Math.random() - 0.5) * 0.8;
-      }
-    });
+    if (isDestroyed.current) return;
+    if (seq === senseiSeq.current) setIsSenseiThinking(false);
+    // Ignore late answers once the round is over
+    if (!hint || !round.active || world.current !== round) return;
+    // Advisors validate priorityFruit, so it is never the bomb or an unknown fruit
+    priorityFruitRef.current = hint.priorityFruit || null;
+    setSenseiHint(hint);
+    speechManager.say(hint.message, { kind: 'sensei', locale });
   };
 
-  const updatePhysics = (width: number, height: number) => {
-    const dt = timeScale.current;
-    for (let i = fruits.current.length - 1; i >= 0; i--) {
-      const f = fruits.current[i]; f.x += f.vx * dt; f.y += f.vy * dt; f.vy += GRAVITY * dt; f.rotation += f.rotationSpeed * dt;
-      if (f.y > height + 100) fruits.current.splice(i, 1);
-    }
-    for (let i = particles.current.length - 1; i >= 0; i--) {
-      const p = particles.current[i];
-      if (p.wait && p.wait > 0) { p.wait -= 0.05 * dt; continue; }
-      p.x += p.vx * dt; p.y += p.vy * dt; p.vy += GRAVITY * 0.5 * dt; p.life -= 0.015 * dt;
-      if (p.life <= 0) particles.current.splice(i, 1);
-    }
+  const captureSenseiSnapshot = (canvas: HTMLCanvasElement) => {
+    const now = performance.now();
+    if (now - lastSenseiRequest.current < SENSEI_INTERVAL) return;
+    lastSenseiRequest.current = now;
+    const off = document.createElement('canvas'); off.width = 480; off.height = 360; const oC = off.getContext('2d');
+    if (!oC) return;
+    oC.drawImage(canvas, 0, 0, 480, 360);
+    setTimeout(() => requestSenseiAdvice(off.toDataURL("image/jpeg", 0.6)), 0);
+  };
+
+  const updateAmbient = (width: number, height: number) => {
+    const dt = world.current.timeScale; const simTime = world.current.simTime;
     // Ambient Leaves (Background)
     if (ambientParticles.current.length < 50) {
         ambientParticles.current.push({ 
@@ -474,26 +485,71 @@ const GeminiFruitSlicer: React.FC = () => {
     for (let i = ambientParticles.current.length - 1; i >= 0; i--) {
         const p = ambientParticles.current[i]; 
         p.y += p.vy * dt; 
-        p.x += Math.sin(performance.now() * 0.001 + p.phase) * 1.2 * dt;
+        p.x += Math.sin(simTime * 0.001 + p.phase) * 1.2 * dt;
         if (p.rotation !== undefined) p.rotation += 0.02 * dt;
         if (p.y > height + 100) ambientParticles.current.splice(i, 1);
     }
     bgHue.current = (bgHue.current + 0.05) % 360;
-    if (pulseIntensity.current > 0) pulseIntensity.current = Math.max(0, pulseIntensity.current - 0.05);
-    for (let i = xpPoints.current.length - 1; i >= 0; i--) {
-        const xp = xpPoints.current[i]; xp.x += xp.vx * dt; xp.y += xp.vy * dt; xp.life -= 0.02 * dt;
-        if (xp.life <= 0) xpPoints.current.splice(i, 1);
+  };
+
+  const updateMusic = () => {
+    const state = world.current;
+    // A combo cools off a second after the last slice
+    const streak = performance.now() - combo.current.at < 1000 ? combo.current.count : 0;
+    soundManager.setMusicIntensity(musicIntensity({ level: state.level, combo: streak, remaining: state.timeLeftMs / (GAME_DURATION * 1000) }));
+  };
+
+  const handleEvent = (ev: SlicerEvent) => {
+    switch (ev.type) {
+      case 'swoosh': soundManager.playSwoosh(); break;
+      case 'slice': {
+        const now = performance.now();
+        combo.current = { count: now - combo.current.at < COMBO_WINDOW_MS ? combo.current.count + 1 : 1, at: now };
+        const x = ev.fruit.x / world.current.width;
+        soundManager.play(sliceSound(ev.fruit.type), { x });
+        if (combo.current.count > 1) soundManager.play('combo', { x, pitch: comboPitch(combo.current.count) });
+        setScore(world.current.score); updateMusic();
+        break;
+      }
+      case 'bomb': combo.current.count = 0; soundManager.play('bomb', { x: ev.fruit.x / world.current.width }); setLives(ev.lives); updateMusic(); break;
+      case 'levelUp': setLevel(ev.level); soundManager.playLevelUp(); setShowLevelUp(true); setTimeout(() => setShowLevelUp(false), 2000); updateMusic(); break;
+      case 'timer': setTimeLeft(ev.seconds); updateMusic(); break;
+      case 'gameOver': endGame(); break;
     }
-    if (shakeIntensity.current > 0) shakeIntensity.current *= 0.9;
-    if (flashOpacity.current > 0) flashOpacity.current -= 0.05;
-    if (livesRef.current <= 0 && gameActive.current) { gameActive.current = false; soundManager.playGameOver(); setGameState('GAMEOVER'); }
+  };
+
+  const endGame = () => {
+    soundManager.playGameOver(); speechManager.stop(); setGameState('GAMEOVER');
+    const state = world.current;
+    // Only live rounds count towards high scores and lifetime stats, not replays
+    setGlobalRank(null);
+    if (recorder.current) {
+      const replay = recorder.current.finish(state.score); recorder.current = null;
+      setLastReplay(replay);
+      submitToLeaderboard(replay);
+      statsStore.recordRun({ game: 'slicer', score: state.score, level: state.level, rank: getRank(state.score).title, sliced: { ...state.stats.sliced }, bombsHit: state.stats.bombsHit, durationMs: Math.round(state.simTime) })
+        .then(run => setLastRunId(run.id))
+        .catch(e => console.warn('Could not save run', e));
+    }
+    if (replayPlayer.current) { replayPlayer.current = null; setIsReplaying(false); }
+  };
+
+  const submitToLeaderboard = (replay: Replay) => {
+    const session = leaderboardSession.current; const service = getLeaderboardService();
+    leaderboardSession.current = null;
+    if (!session || !service) return;
+    statsStore.getActiveProfile()
+      .then(profile => service.submitRun(session, profile.name, replay))
+      .then(result => setGlobalRank(result.rank))
+      .catch(e => console.warn('Could not submit run to leaderboard', e));
   };
 
   const draw = (ctx: CanvasRenderingContext2D, width: number, height: number, image: any) => {
     if (width <= 0 || height <= 0) return;
+    const state = world.current;
     ctx.clearRect(0, 0, width, height);
     ctx.save();
-    if (shakeIntensity.current > 0) ctx.translate((Math.random() - 0.5) * shakeIntensity.current, (Math.random() - 0.5) * shakeIntensity.current);
+    if (state.shakeIntensity > 0) ctx.translate((Math.random() - 0.5) * state.shakeIntensity, (Math.random() - 0.5) * state.shakeIntensity);
     
     // Draw Camera Feed (Darkened)
     if (image) { ctx.save(); ctx.scale(-1, 1); ctx.translate(-width, 0); ctx.drawImage(image, 0, 0, width, height); ctx.restore(); }
@@ -501,7 +557,7 @@ const GeminiFruitSlicer: React.FC = () => {
     
     // Ambient Atmosphere Gradient (Yellowish like Colex Image)
     const bgGrad = ctx.createRadialGradient(width/2, height/2, 0, width/2, height/2, width);
-    bgGrad.addColorStop(0, `hsla(45, 100%, 50%, ${0.05 + pulseIntensity.current * 0.2})`);
+    bgGrad.addColorStop(0, `hsla(45, 100%, 50%, ${0.05 + state.pulseIntensity * 0.2})`);
     bgGrad.addColorStop(1, `hsla(30, 100%, 10%, 0.4)`);
     ctx.fillStyle = bgGrad; ctx.fillRect(0, 0, width, height);
     
@@ -518,23 +574,24 @@ const GeminiFruitSlicer: React.FC = () => {
         ctx.restore();
     });
 
-    if (bladeTrail.current.length > 1) {
-        ctx.beginPath(); ctx.moveTo(bladeTrail.current[0].x, bladeTrail.current[0].y);
-        for (let i = 1; i < bladeTrail.current.length; i++) { const p0 = bladeTrail.current[i-1]; const p1 = bladeTrail.current[i]; ctx.quadraticCurveTo(p0.x, p0.y, (p0.x + p1.x)/2, (p0.y + p1.y)/2); }
+    const bladeTrail = state.bladeTrail;
+    if (bladeTrail.length > 1) {
+        ctx.beginPath(); ctx.moveTo(bladeTrail[0].x, bladeTrail[0].y);
+        for (let i = 1; i < bladeTrail.length; i++) { const p0 = bladeTrail[i-1]; const p1 = bladeTrail[i]; ctx.quadraticCurveTo(p0.x, p0.y, (p0.x + p1.x)/2, (p0.y + p1.y)/2); }
         ctx.lineCap = 'round'; ctx.lineJoin = 'round'; ctx.lineWidth = 10; ctx.strokeStyle = '#FFFFFF'; ctx.shadowColor = '#00E5FF'; ctx.shadowBlur = 20; ctx.stroke();
         ctx.lineWidth = 4; ctx.strokeStyle = '#00E5FF'; ctx.stroke(); ctx.shadowBlur = 0;
     }
-    particles.current.forEach(p => { ctx.globalAlpha = p.life; ctx.fillStyle = p.color; ctx.beginPath(); ctx.arc(p.x, p.y, Math.random() * 4 + 2, 0, Math.PI * 2); ctx.fill(); });
+    state.particles.forEach(p => { ctx.globalAlpha = p.life; ctx.fillStyle = p.color; ctx.beginPath(); ctx.arc(p.x, p.y, Math.random() * 4 + 2, 0, Math.PI * 2); ctx.fill(); });
     ctx.globalAlpha = 1.0;
     
-    fruits.current.forEach(f => {
+    state.fruits.forEach(f => {
         ctx.save(); ctx.translate(f.x, f.y);
         if (f.isSliced) {
              const angle = f.sliceAngle || 0; 
-             const tS = performance.now() - ((f as any).slicedTime || 0);
+             const tS = state.simTime - (f.slicedTime || 0);
              
              // --- IMPROVED MASH & SEPARATION LOGIC ---
-             const impact = (f as any).impactIntensity || 15;
+             const impact = f.impactIntensity || 15;
              let sep = 0;
              
              // Phase 1: MASH (0-60ms) - Quick compression/squash effect
@@ -571,109 +628,131 @@ const GeminiFruitSlicer: React.FC = () => {
              });
              ctx.restore();
         } else {
+             if (f.type === priorityFruitRef.current) {
+                 // Sensei highlight: pulsing ring in the fruit's own color
+                 const pulse = 0.5 + 0.5 * Math.sin(performance.now() / 150);
+                 ctx.beginPath(); ctx.arc(0, 0, f.radius + 10 + pulse * 6, 0, Math.PI * 2);
+                 ctx.strokeStyle = FRUIT_CONFIG[f.type].hex; ctx.lineWidth = 4; ctx.shadowColor = FRUIT_CONFIG[f.type].hex; ctx.shadowBlur = 25; ctx.stroke(); ctx.shadowBlur = 0;
+             }
              ctx.rotate(f.rotation); if (fruitCache.current[`${f.type}_intact`]) { ctx.drawImage(fruitCache.current[`${f.type}_intact`], -f.radius*3.5, -f.radius*3.5); }
         }
         ctx.restore();
     });
-    xpPoints.current.forEach(xp => { ctx.save(); ctx.globalAlpha = xp.life; ctx.translate(xp.x, xp.y); ctx.fillStyle = xp.color; ctx.shadowColor = 'black'; ctx.shadowBlur = 4; ctx.font = '900 32px Roboto'; ctx.fillText(`+${xp.value}`, 0, 0); ctx.restore(); });
-    if (flashOpacity.current > 0) { ctx.fillStyle = `rgba(255, 0, 0, ${flashOpacity.current * 0.3})`; ctx.fillRect(0, 0, width, height); }
+    state.xpPoints.forEach(xp => { ctx.save(); ctx.globalAlpha = xp.life; ctx.translate(xp.x, xp.y); ctx.fillStyle = xp.color; ctx.shadowColor = 'black'; ctx.shadowBlur = 4; ctx.font = '900 32px Roboto'; ctx.fillText(`+${xp.value}`, 0, 0); ctx.restore(); });
+    if (state.flashOpacity > 0) { ctx.fillStyle = `rgba(255, 0, 0, ${state.flashOpacity * 0.3})`; ctx.fillRect(0, 0, width, height); }
     ctx.restore();
   };
 
   useEffect(() => {
-    if (!videoRef.current || !canvasRef.current || !containerRef.current) return;
-    const video = videoRef.current; const canvas = canvasRef.current; const container = containerRef.current; const ctx = canvas.getContext('2d', { alpha: false }); if (!ctx) return;
+    if (!canvasRef.current || !containerRef.current) return;
+    const canvas = canvasRef.current; const container = containerRef.current; const ctx = canvas.getContext('2d', { alpha: false }); if (!ctx) return;
     const resizeObserver = new ResizeObserver(() => { if (container) { canvas.width = container.clientWidth; canvas.height = container.clientHeight; } });
     resizeObserver.observe(container);
-    let camera: any = null; let hands: any = null;
-    const onResults = (results: any) => {
-        if (isDestroyed.current) return; setLoading(false); setCameraError(null);
-        if (results.multiHandLandmarks?.length > 0) {
-            setHandDetected(true); const l = results.multiHandLandmarks[0][8]; const x = (1 - l.x) * canvas.width; const y = l.y * canvas.height;
-            bladeTrail.current.push({ x, y }); if (bladeTrail.current.length > BLADE_TRAIL_LIMIT) bladeTrail.current.shift();
-        } else { setHandDetected(false); if (!touchActive.current && bladeTrail.current.length > 0) bladeTrail.current.shift(); }
-        if (gameActive.current) {
-            const now = performance.now(); if (now - lastSpawnTime.current > Math.max(300, INITIAL_SPAWN_INTERVAL - (levelRef.current * 60))) { spawnFruit(canvas.width, canvas.height); lastSpawnTime.current = now; }
-            checkCollisions(); updatePhysics(canvas.width, canvas.height);
+    // Uniform scale + letterbox from the frozen simulation area onto the current canvas
+    const getView = () => {
+        const { width, height } = world.current;
+        const scale = width > 0 && height > 0 ? Math.min(canvas.width / width, canvas.height / height) : 1;
+        return { scale, offsetX: (canvas.width - width * scale) / 2, offsetY: (canvas.height - height * scale) / 2 };
+    };
+    const update = () => {
+        if (pausedRef.current) return;
+        const state = world.current;
+        const player = replayPlayer.current;
+        const source = player || inputSource.current;
+        // Between rounds the idle world follows the canvas and the selected source
+        if (!state.active) { state.width = canvas.width; state.height = canvas.height; state.alwaysEngaged = !!source?.alwaysEngaged; }
+        const { width, height } = state;
+        const raw = source ? source.poll() : null;
+        let input: TickInput;
+        if (player) input = player.input;
+        else {
+            // Live samples are relative to the canvas; recorded/simulated ones to the play area
+            const view = getView();
+            const sample = raw ? { ...raw, x: (raw.x * canvas.width - view.offsetX) / view.scale / (width || 1), y: (raw.y * canvas.height - view.offsetY) / view.scale / (height || 1) } : null;
+            input = { sample, fresh: !!sample && sample.timestamp !== lastSampleTime.current, locked: false };
+            if (sample) lastSampleTime.current = sample.timestamp;
+            if (state.active && recorder.current) input = recorder.current.record(input);
         }
-        draw(ctx, canvas.width, canvas.height, results.image);
+        currentSample.current = input.sample;
+        state.step(input);
+        if (state.active && player?.done) state.end();
+        state.drainEvents().forEach(handleEvent);
+        if (state.active) updateAmbient(width, height);
     };
-    const initMediaPipe = async () => {
-        try {
-            // @ts-ignore
-            hands = new window.Hands({ locateFile: (f: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${f}` });
-            hands.setOptions({ maxNumHands: 1, modelComplexity: 1, minDetectionConfidence: 0.5, minTrackingConfidence: 0.5 });
-            hands.onResults(onResults);
-            // @ts-ignore
-            camera = new window.Camera(video, {
-                onFrame: async () => {
-                   if (!isDestroyed.current && video.readyState >= 2 && video.videoWidth > 0 && hands) { await hands.send({ image: video }); }
-                },
-                width: 1280, height: 720
-            });
-            await camera.start();
-        } catch (e: any) { 
-             console.error("Camera error:", e);
-             setLoading(false); 
-             if (e.name === 'NotReadableError') {
-                 setCameraError("Camera is busy or not available. Please close other apps using the camera.");
-             } else if (e.name === 'NotAllowedError') {
-                 setCameraError("Camera permission denied. Please allow access.");
-             } else {
-                 setCameraError(`Camera Error: ${e.message || "Unknown error"}`);
-             }
+    const render = () => {
+        const { width, height } = world.current;
+        const view = getView();
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        if (width !== canvas.width || height !== canvas.height) { ctx.fillStyle = '#000'; ctx.fillRect(0, 0, canvas.width, canvas.height); }
+        ctx.setTransform(view.scale, 0, 0, view.scale, view.offsetX, view.offsetY);
+        draw(ctx, width, height, cameraImage.current);
+        const source = replayPlayer.current || inputSource.current; const sample = currentSample.current;
+        if (source && sample && !source.alwaysEngaged && source.kind !== 'touch') {
+            // Cursor for sources without a visible finger (mouse hover, gamepad stick)
+            ctx.beginPath(); ctx.arc(sample.x * width, sample.y * height, sample.grabbing ? 8 : 12, 0, Math.PI * 2);
+            ctx.strokeStyle = '#00E5FF'; ctx.lineWidth = 3; ctx.stroke();
         }
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        if (world.current.active && !replayPlayer.current && !pausedRef.current) captureSenseiSnapshot(canvas);
     };
-    if (window.Hands && window.Camera) initMediaPipe();
-    else { const cI = setInterval(() => { if (window.Hands && window.Camera) { clearInterval(cI); initMediaPipe(); } }, 500); }
-    const tI = setInterval(() => { if (gameActive.current && timeLeft > 0) setTimeLeft(prev => prev - 1); else if (gameActive.current) { gameActive.current = false; soundManager.playGameOver(); setGameState('GAMEOVER'); } }, 1000);
+    const stopLoop = startGameLoop({ update, render });
     return () => {
-        isDestroyed.current = true; if (camera) camera.stop(); 
-        if (hands) { hands.close(); hands = null; }
-        resizeObserver.disconnect(); clearInterval(tI);
+        isDestroyed.current = true; stopLoop();
+        resizeObserver.disconnect();
     };
   }, []);
 
   const rank = getRank(score);
+  const senseiColor = senseiHint?.priorityFruit ? FRUIT_CONFIG[senseiHint.priorityFruit].hex : '#EAB308';
 
   return (
     <div className="relative w-full h-full bg-neutral-950 overflow-hidden font-roboto select-none">
-       {/* Removed display:none via 'hidden' class, using opacity-0 and pointer-events-none instead */}
-       <video ref={videoRef} className="absolute inset-0 w-full h-full object-cover opacity-0 pointer-events-none" playsInline muted autoPlay />
        <div ref={containerRef} className="absolute inset-0 w-full h-full">
           <canvas ref={canvasRef} className="block w-full h-full touch-none" />
        </div>
        {loading && (
           <div className="absolute inset-0 bg-black flex flex-col items-center justify-center z-50">
              <div className="relative"><div className="absolute inset-0 blur-xl bg-yellow-500/30 rounded-full animate-pulse" /><Loader2 className="w-16 h-16 text-yellow-500 animate-spin relative z-10" /></div>
-             <p className="text-gray-400 mt-6 tracking-widest uppercase text-sm font-bold animate-pulse">Menyiapkan Alat Potong...</p>
-             {cameraError && <p className="text-red-500 mt-4 bg-red-500/10 px-4 py-2 rounded border border-red-500/20 max-w-md text-center">{cameraError}</p>}
+             <p className="text-gray-400 mt-6 tracking-widest uppercase text-sm font-bold animate-pulse">{t('slicer.loading')}</p>
           </div>
        )}
+       {cameraError && <p role="alert" className="absolute bottom-28 left-1/2 -translate-x-1/2 z-50 text-red-500 bg-neutral-950/90 px-4 py-2 rounded border border-red-500/20 max-w-md text-center">{describeCameraError(cameraError, locale)}</p>}
        <div className="absolute top-0 left-0 w-full p-6 flex justify-between items-start z-30 pointer-events-none">
           <div className="flex flex-col gap-3">
              <div className="flex gap-2 p-2 bg-black/40 backdrop-blur-md rounded-2xl border border-white/10">{[...Array(MAX_LIVES)].map((_, i) => (<Heart key={i} className={`w-6 h-6 transition-all duration-300 ${i < lives ? 'fill-red-500 text-red-500 drop-shadow-[0_0_8px_rgba(239,68,68,0.5)]' : 'fill-neutral-800 text-neutral-700'}`} />))}</div>
-             <div className="bg-black/40 backdrop-blur-xl px-4 py-1.5 rounded-full border border-white/10 flex items-center gap-2 w-fit shadow-lg"><Award className="w-4 h-4 text-yellow-500" /><span className="text-yellow-500 font-bold text-sm tracking-wider">LEVEL {level}</span></div>
+             <div className="bg-black/40 backdrop-blur-xl px-4 py-1.5 rounded-full border border-white/10 flex items-center gap-2 w-fit shadow-lg"><Award className="w-4 h-4 text-yellow-500" /><span className="text-yellow-500 font-bold text-sm tracking-wider">{t('slicer.level', { level })}</span></div>
           </div>
+          {gameState === 'PLAYING' && isReplaying && (<div className="absolute top-24 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-red-600/80 px-4 py-1 rounded-full text-white text-xs font-black tracking-[0.3em] animate-pulse"><Film className="w-4 h-4" />{t('slicer.replayBadge')}</div>)}
           {gameState === 'PLAYING' && (<div className={`relative px-6 py-2 rounded-b-2xl backdrop-blur-sm transition-colors duration-300 ${timeLeft < 10 ? 'bg-red-500/10' : 'bg-transparent'}`}><div className={`text-5xl font-black tracking-widest tabular-nums drop-shadow-lg ${timeLeft < 10 ? 'text-red-500 animate-pulse' : 'text-white'}`}>{timeLeft}</div></div>)}
           <div className="flex flex-col items-end gap-3 pointer-events-auto">
-             <div className="relative group"><div className="absolute -inset-2 bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded-xl blur-lg opacity-0 group-hover:opacity-100 transition-opacity" /><div className="relative text-6xl font-black text-transparent bg-clip-text bg-gradient-to-b from-white via-neutral-200 to-neutral-400 drop-shadow-2xl tabular-nums">{score.toLocaleString()}</div></div>
-             <button onClick={toggleMute} className="p-3 bg-black/40 backdrop-blur-md rounded-full text-white/70 hover:bg-white/10 border border-white/5 transition-all active:scale-95">{isMuted ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}</button>
+             <div className="relative group"><div className="absolute -inset-2 bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded-xl blur-lg opacity-0 group-hover:opacity-100 transition-opacity" /><div className="relative text-6xl font-black text-transparent bg-clip-text bg-gradient-to-b from-white via-neutral-200 to-neutral-400 drop-shadow-2xl tabular-nums">{formatNumber(score)}</div></div>
+             <div className="flex gap-2"><InputSettings value={inputKind} onChange={changeInputKind} /><AudioSettings /></div>
           </div>
        </div>
        
-       {showLevelUp && (<div className="absolute inset-0 flex items-center justify-center z-50 pointer-events-none"><div className="text-center animate-bounce relative"><div className="absolute inset-0 bg-yellow-500/20 blur-[100px] rounded-full" /><h2 className="relative text-7xl font-black text-transparent bg-clip-text bg-gradient-to-b from-yellow-300 to-yellow-600 drop-shadow-[0_10px_10px_rgba(0,0,0,0.8)] stroke-white">LEVEL UP!</h2></div></div>)}
+       {gameState === 'PLAYING' && (senseiHint || isSenseiThinking) && (
+          <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-30 pointer-events-none w-full max-w-md px-4">
+             <div className="bg-black/60 backdrop-blur-xl rounded-2xl border-2 p-4 transition-all duration-500" style={{ borderColor: senseiColor, boxShadow: `0 0 30px -5px ${senseiColor}` }}>
+                <div className="flex items-center justify-between mb-1"><div className="flex items-center gap-2"><BrainCircuit className="w-4 h-4" style={{ color: senseiColor }} /><span className="text-[10px] font-bold uppercase tracking-widest" style={{ color: senseiColor }}>{t('slicer.senseiTitle')}</span></div>{isSenseiThinking && <Loader2 className="w-4 h-4 animate-spin text-white/50" />}</div>
+                <p className="text-white text-sm font-bold leading-snug">{senseiHint ? senseiHint.message : t('slicer.senseiWatching')}</p>
+                {senseiHint?.techniqueTip && (<div className="flex gap-2 mt-2"><Lightbulb className="w-4 h-4 shrink-0 mt-0.5" style={{ color: senseiColor }} /><p className="text-neutral-300 text-xs italic leading-tight">{senseiHint.techniqueTip}</p></div>)}
+             </div>
+          </div>
+       )}
+       {showLevelUp && (<div className="absolute inset-0 flex items-center justify-center z-50 pointer-events-none"><div className="text-center animate-bounce relative"><div className="absolute inset-0 bg-yellow-500/20 blur-[100px] rounded-full" /><h2 className="relative text-7xl font-black text-transparent bg-clip-text bg-gradient-to-b from-yellow-300 to-yellow-600 drop-shadow-[0_10px_10px_rgba(0,0,0,0.8)] stroke-white">{t('slicer.levelUp')}</h2></div></div>)}
        {gameState === 'START' && !loading && (
           <div className="absolute inset-0 bg-black/80 backdrop-blur-sm flex flex-col items-center justify-center z-40 animate-in fade-in duration-500">
-              <GameLogo /><div className="mt-8 space-y-6 text-center"><button onClick={startCountdown} className="group relative px-10 py-5 bg-neutral-900 rounded-2xl overflow-hidden hover:scale-105 transition-all duration-300 shadow-[0_0_0_1px_rgba(255,255,255,0.1)] hover:shadow-[0_0_40px_-10px_rgba(234,179,8,0.5)]"><div className="absolute inset-0 bg-gradient-to-r from-orange-500/20 to-red-500/20 opacity-0 group-hover:opacity-100 transition-opacity duration-500" /><div className="flex items-center gap-4 relative z-10"><div className="p-2 rounded-lg bg-orange-500 text-black group-hover:scale-110 transition-transform"><Play className="w-5 h-5 fill-current" /></div><span className="text-xl font-black text-white tracking-widest uppercase">Mulai Motong</span></div></button><div className="flex justify-center gap-8 text-neutral-500 text-xs font-medium tracking-wider uppercase"><div className="flex items-center gap-2"><Hand className="w-4 h-4" /><span>Gunakan Jari Telunjuk</span></div><div className="flex items-center gap-2"><AlertTriangle className="w-4 h-4 text-red-500/50" /><span>Hindari Sambal!</span></div></div></div>
+              <GameLogo /><div className="mt-8 space-y-6 text-center"><button onClick={startCountdown} className="group relative px-10 py-5 bg-neutral-900 rounded-2xl overflow-hidden hover:scale-105 transition-all duration-300 shadow-[0_0_0_1px_rgba(255,255,255,0.1)] hover:shadow-[0_0_40px_-10px_rgba(234,179,8,0.5)]"><div className="absolute inset-0 bg-gradient-to-r from-orange-500/20 to-red-500/20 opacity-0 group-hover:opacity-100 transition-opacity duration-500" /><div className="flex items-center gap-4 relative z-10"><div className="p-2 rounded-lg bg-orange-500 text-black group-hover:scale-110 transition-transform"><Play className="w-5 h-5 fill-current" /></div><span className="text-xl font-black text-white tracking-widest uppercase">{t('slicer.start')}</span></div></button><div className="flex justify-center gap-8 text-neutral-500 text-xs font-medium tracking-wider uppercase"><div className="flex items-center gap-2"><Hand className="w-4 h-4" /><span>{t('slicer.useIndexFinger')}</span></div><div className="flex items-center gap-2"><AlertTriangle className="w-4 h-4 text-red-500/50" /><span>{t('slicer.avoidSambal')}</span></div></div><label className="inline-flex items-center gap-2 text-neutral-500 hover:text-white text-xs font-bold uppercase tracking-widest cursor-pointer transition-colors"><Upload className="w-4 h-4" />{t('slicer.loadReplay')}<input type="file" accept="application/json" className="hidden" onChange={onReplayFile} /></label>{replayError && <p className="text-red-500 text-xs">{replayError}</p>}</div>
           </div>
        )}
-       {gameState === 'COUNTDOWN' && (<div className="absolute inset-0 bg-black/20 flex items-center justify-center z-50 backdrop-blur-sm"><div className="text-[12rem] font-black text-white animate-ping drop-shadow-[0_0_50px_rgba(255,255,255,0.5)]">{countdown === 0 ? 'GO!' : countdown}</div></div>)}
+       {gameState === 'PLAYING' && paused && (<div className="absolute inset-0 bg-black/60 backdrop-blur-sm flex flex-col items-center justify-center gap-8 z-50"><div className="flex items-center gap-4 text-7xl font-black text-white tracking-widest"><Pause className="w-16 h-16 fill-current" />{t('pause.title')}</div><button onClick={() => setPause(false)} className="flex items-center gap-3 px-8 py-4 bg-orange-500 text-black rounded-2xl font-black uppercase tracking-widest hover:scale-105 transition-transform"><Play className="w-5 h-5 fill-current" />{t('pause.resume')}</button></div>)}
+       {gameState === 'COUNTDOWN' && (<div className="absolute inset-0 bg-black/20 flex items-center justify-center z-50 backdrop-blur-sm"><div className="text-[12rem] font-black text-white animate-ping drop-shadow-[0_0_50px_rgba(255,255,255,0.5)]">{countdown === 0 ? t('slicer.go') : countdown}</div></div>)}
        {gameState === 'GAMEOVER' && (
           <div className="absolute inset-0 bg-black/90 backdrop-blur-md flex flex-col items-center justify-center z-50 animate-in zoom-in duration-300">
-              <div className="text-center space-y-2 mb-12"><h2 className="text-sm font-bold text-neutral-500 uppercase tracking-[0.5em] mb-4">Simulasi Selesai</h2><div className={`text-8xl font-black ${rank.color} drop-shadow-[0_0_30px_rgba(255,255,255,0.2)]`}>{score.toLocaleString()}</div><div className="inline-block bg-white/5 px-6 py-2 rounded-full border border-white/10 mt-4 backdrop-blur-md"><span className="text-sm font-bold tracking-widest text-neutral-300 uppercase">Pangkat: {rank.title}</span></div></div>
-              <div className="grid grid-cols-2 gap-6 w-full max-w-md mb-12 px-4"><div className="bg-neutral-900/50 p-6 rounded-2xl flex flex-col items-center border border-white/5 relative group overflow-hidden"><div className="absolute inset-0 bg-yellow-500/5 opacity-0 group-hover:opacity-100 transition-opacity" /><Zap className="w-6 h-6 text-yellow-500 mb-2" /><span className="text-[10px] text-neutral-500 uppercase tracking-widest font-bold">Total Skor</span><span className="text-2xl font-bold text-white mt-1">{score}</span></div><div className="bg-neutral-900/50 p-6 rounded-2xl flex flex-col items-center border border-white/5 relative group overflow-hidden"><div className="absolute inset-0 bg-emerald-500/5 opacity-0 group-hover:opacity-100 transition-opacity" /><CheckCircle2 className="w-6 h-6 text-emerald-500 mb-2" /><span className="text-[10px] text-neutral-500 uppercase tracking-widest font-bold">Level Akhir</span><span className="text-2xl font-bold text-white mt-1">{level}</span></div></div>
-              <div className="flex gap-4"><button onClick={startCountdown} className="relative inline-flex h-14 overflow-hidden rounded-full p-[2px] focus:outline-none focus:ring-2 focus:ring-slate-400 focus:ring-offset-2 focus:ring-offset-slate-50 hover:scale-105 transition-transform"><span className="absolute inset-[-1000%] animate-[spin_2s_linear_infinite] bg-[conic-gradient(from_90deg_at_50%_50%,#E2E8F0_0%,#50a3f9_50%,#E2E8F0_100%)]" /><span className="inline-flex h-full w-full cursor-pointer items-center justify-center rounded-full bg-slate-950 px-8 py-1 text-sm font-medium text-white backdrop-blur-3xl gap-2 uppercase tracking-widest"><RotateCcw className="w-5 h-5" />Coba Lagi</span></button></div>
+              <div className="text-center space-y-2 mb-12"><h2 className="text-sm font-bold text-neutral-500 uppercase tracking-[0.5em] mb-4">{t('slicer.gameOver')}</h2><div className={`text-8xl font-black ${rank.color} drop-shadow-[0_0_30px_rgba(255,255,255,0.2)]`}>{formatNumber(score)}</div><div className="inline-block bg-white/5 px-6 py-2 rounded-full border border-white/10 mt-4 backdrop-blur-md"><span className="text-sm font-bold tracking-widest text-neutral-300 uppercase">{t('slicer.rank', { rank: rank.title })}</span></div></div>
+              <div className="grid grid-cols-2 gap-6 w-full max-w-md mb-12 px-4"><div className="bg-neutral-900/50 p-6 rounded-2xl flex flex-col items-center border border-white/5 relative group overflow-hidden"><div className="absolute inset-0 bg-yellow-500/5 opacity-0 group-hover:opacity-100 transition-opacity" /><Zap className="w-6 h-6 text-yellow-500 mb-2" /><span className="text-[10px] text-neutral-500 uppercase tracking-widest font-bold">{t('slicer.totalScore')}</span><span className="text-2xl font-bold text-white mt-1">{score}</span></div><div className="bg-neutral-900/50 p-6 rounded-2xl flex flex-col items-center border border-white/5 relative group overflow-hidden"><div className="absolute inset-0 bg-emerald-500/5 opacity-0 group-hover:opacity-100 transition-opacity" /><CheckCircle2 className="w-6 h-6 text-emerald-500 mb-2" /><span className="text-[10px] text-neutral-500 uppercase tracking-widest font-bold">{t('slicer.finalLevel')}</span><span className="text-2xl font-bold text-white mt-1">{level}</span></div></div>
+              <div className="w-full max-w-md mb-8 px-4"><HighScoreTable game="slicer" title={t('slicer.scoreboard')} highlightId={lastRunId} />{globalRank !== null && <p className="mt-3 text-center text-xs font-bold uppercase tracking-widest text-yellow-500">{t('slicer.globalRank', { rank: globalRank })}</p>}</div>
+              <div className="flex gap-4"><button onClick={startCountdown} className="relative inline-flex h-14 overflow-hidden rounded-full p-[2px] focus:outline-none focus:ring-2 focus:ring-slate-400 focus:ring-offset-2 focus:ring-offset-slate-50 hover:scale-105 transition-transform"><span className="absolute inset-[-1000%] animate-[spin_2s_linear_infinite] bg-[conic-gradient(from_90deg_at_50%_50%,#E2E8F0_0%,#50a3f9_50%,#E2E8F0_100%)]" /><span className="inline-flex h-full w-full cursor-pointer items-center justify-center rounded-full bg-slate-950 px-8 py-1 text-sm font-medium text-white backdrop-blur-3xl gap-2 uppercase tracking-widest"><RotateCcw className="w-5 h-5" />{t('slicer.retry')}</span></button>{lastReplay && (<><button onClick={() => startReplay(lastReplay)} className="h-14 px-6 rounded-full bg-neutral-900 border border-white/10 text-white text-sm font-medium uppercase tracking-widest flex items-center gap-2 hover:bg-white/10 transition-colors"><Film className="w-5 h-5" />{t('slicer.watchReplay')}</button><button onClick={() => downloadReplay(lastReplay)} className="h-14 w-14 rounded-full bg-neutral-900 border border-white/10 text-white flex items-center justify-center hover:bg-white/10 transition-colors" title={t('slicer.saveReplay')}><Download className="w-5 h-5" /></button></>)}</div>
           </div>
        )}
     </div>
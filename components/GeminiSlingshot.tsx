@@ -3,35 +3,65 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { getStrategicHint, TargetCandidate } from '../services/geminiService';
-import { Point, Bubble, Particle, BubbleColor, DebugInfo } from '../types';
-import { Loader2, Trophy, BrainCircuit, Play, MousePointerClick, Eye, Terminal, Target, Lightbulb, Monitor } from 'lucide-react';
-
-const PINCH_THRESHOLD = 0.05;
-const GRAVITY = 0.0; 
-const FRICTION = 0.998; 
-
-const BUBBLE_RADIUS = 22;
-const ROW_HEIGHT = BUBBLE_RADIUS * Math.sqrt(3);
-const GRID_COLS = 12;
-const GRID_ROWS = 8;
-const SLINGSHOT_BOTTOM_OFFSET = 220;
-
-const MAX_DRAG_DIST = 180;
-const MIN_FORCE_MULT = 0.15;
-const MAX_FORCE_MULT = 0.45;
-
-const COLOR_CONFIG: Record<BubbleColor, { hex: string, points: number, label: string }> = {
-  red:    { hex: '#ef5350', points: 100, label: 'Red' },
-  blue:   { hex: '#42a5f5', points: 150, label: 'Blue' },
-  green:  { hex: '#66bb6a', points: 200, label: 'Green' },
-  yellow: { hex: '#ffee58', points: 250, label: 'Yellow' },
-  purple: { hex: '#ab47bc', points: 300, label: 'Purple' },
-  orange: { hex: '#ffa726', points: 500, label: 'Orange' }
+import React, { useEffect, useRef, useState } from 'react';
+import { getAiScheduler } from '../services/aiScheduler';
+import { soundManager } from '../services/soundService';
+import { comboPitch } from '../services/soundSets';
+import { speechManager } from '../services/speechService';
+import { musicIntensity } from '../services/music';
+import { statsStore } from '../services/storageService';
+import { getLeaderboardMode, getLeaderboardService, LeaderboardSession } from '../services/leaderboardService';
+import { startGameLoop } from '../engine/gameLoop';
+import { randomSeed } from '../engine/random';
+import { Replay, ReplayPlayer, ReplayRecorder, TickInput, downloadReplay, readReplayFile } from '../engine/replay';
+import { BUBBLE_RADIUS, COLOR_CONFIG, SPECIAL_CONFIG } from '../engine/bubbleGrid';
+import { getCampaignLevel, LevelData } from '../engine/slingshotLevels';
+import { SlingshotStatus, SlingshotWorld } from '../engine/slingshotWorld';
+import { judgeHint, solveShots, SolverVerdict } from '../engine/slingshotSolver';
+import { useI18n } from '../services/useI18n';
+import { useVoiceCommands } from '../services/useVoiceCommands';
+import { VoiceCommand } from '../services/voiceCommands';
+import { getLocale, MessageKey } from '../services/i18n';
+import { createInputSource, describeCameraError, getPreferredInputKind, setPreferredInputKind, HandInputSource, InputSource, InputSourceKind, PointerSample } from '../services/inputSources';
+import { drawHandSkeleton, HandFrame, handTracker } from '../services/handTracker';
+import InputSettings from './InputSettings';
+import AudioSettings from './AudioSettings';
+import SlingshotLevelEditor, { BLANK_LEVEL } from './SlingshotLevelEditor';
+import HighScoreTable from './HighScoreTable';
+import { Point, BubbleColor, SpecialBubble } from '../types';
+import { Loader2, Trophy, BrainCircuit, Play, Pause, MousePointerClick, Eye, Terminal, Target, Lightbulb, Monitor, Film, Download, Upload, Star, RotateCcw, ChevronRight, ArrowDownToLine, PenTool, Crosshair } from 'lucide-react';
+
+type GameState = 'START' | 'COUNTDOWN' | 'PLAYING' | 'GAMEOVER';
+
+const SOLVER_BADGES: Record<SolverVerdict['status'], { label: MessageKey, color: string }> = {
+  agrees: { label: 'solver.agrees', color: '#66bb6a' },
+  disagrees: { label: 'solver.disagrees', color: '#ffa726' },
+  invalid: { label: 'solver.invalid', color: '#ef5350' }
 };
 
-const COLOR_KEYS: BubbleColor[] = ['red', 'blue', 'green', 'yellow', 'purple', 'orange'];
+/** Whether the local solver backs the advisor's pick; when it does not, the aim line shows the solver's shot. */
+const SolverBadge: React.FC<{ verdict: SolverVerdict }> = ({ verdict }) => {
+  const { t } = useI18n();
+  const { label, color } = SOLVER_BADGES[verdict.status];
+  const shot = verdict.status === 'agrees' ? verdict.pick : verdict.best;
+  return (
+    <div className="flex items-center justify-between gap-2 mt-1 text-[10px] font-bold uppercase tracking-wider">
+      <span className="flex items-center gap-1.5" style={{ color }}><Crosshair className="w-3 h-3" />{t(label)}</span>
+      {shot && <span className="text-[#c4c7c5] tabular-nums">{verdict.status === 'agrees' ? '' : t('solver.label')}{t(`color.${shot.color}`)} · +{shot.points}{shot.bounces > 0 ? ` · ${t('solver.bank')}` : ''}</span>}
+    </div>
+  );
+};
+
+interface RoundResult {
+  /** 'ended' when a replay ran out before the board was decided. */
+  status: SlingshotStatus | 'ended';
+  level: number;
+  layout: LevelData | null;
+  score: number;
+  shots: number;
+  par: number;
+  stars: number;
+}
 
 const adjustColor = (color: string, amount: number) => {
     const hex = color.replace('#', '');
@@ -42,41 +72,88 @@ const adjustColor = (color: string, amount: number) => {
     return "#" + cTH(r) + cTH(g) + cTH(b);
 };
 
-const GeminiSlingshot: React.FC = () => {
-  const videoRef = useRef<HTMLVideoElement>(null);
+const GeminiSlingshot: React.FC<{ onExit?: () => void }> = ({ onExit }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const gameContainerRef = useRef<HTMLDivElement>(null);
-  
-  const ballPos = useRef<Point>({ x: 0, y: 0 });
-  const ballVel = useRef<Point>({ x: 0, y: 0 });
-  const anchorPos = useRef<Point>({ x: 0, y: 0 });
-  const isPinching = useRef<boolean>(false);
-  const isFlying = useRef<boolean>(false);
-  const flightStartTime = useRef<number>(0);
-  const bubbles = useRef<Bubble[]>([]);
-  const particles = useRef<Particle[]>([]);
-  const scoreRef = useRef<number>(0);
   const isDestroyed = useRef<boolean>(false);
+
+  // The headless simulation (frozen to its own board size for a whole session so replays are
+  // screen-independent), plus the latest camera frame and input source consumed by the game loop.
+  const world = useRef<SlingshotWorld | null>(null);
+  const cameraImage = useRef<CanvasImageSource | null>(null);
+  const inputSource = useRef<InputSource | null>(null);
+  // The live source's sample from this tick's update; render draws it rather than polling again
+  const liveSample = useRef<PointerSample | null>(null);
+  const recorder = useRef<ReplayRecorder | null>(null);
+  const replayPlayer = useRef<ReplayPlayer | null>(null);
+  const recordedColor = useRef<BubbleColor | null>(null);
+  const gameStateRef = useRef<GameState>('START');
+  const isPlaytestRef = useRef<boolean>(false);
+  // The leaderboard session the current board was built on, if the round is ranked
+  const leaderboardSession = useRef<LeaderboardSession | null>(null);
+  const sessionRequest = useRef<number>(0);
   
   const aimTargetRef = useRef<Point | null>(null);
   const isAiThinkingRef = useRef<boolean>(false);
   const captureRequestRef = useRef<boolean>(false);
+  // Cancels the current board's strategy requests when a new board starts or on unmount; only the latest analysis is applied
+  const aiRequest = useRef<AbortController | null>(null);
+  const aiSeq = useRef<number>(0);
   const selectedColorRef = useRef<BubbleColor>('red');
+  const aiRecommendedColorRef = useRef<BubbleColor | null>(null);
+  // The loop stops stepping the board while paused
+  const pausedRef = useRef<boolean>(false);
+  // Shots in a row that popped something; only drives the music
+  const streak = useRef<number>(0);
   
-  const [loading, setLoading] = useState(true);
-  const [cameraError, setCameraError] = useState<string | null>(null);
-  const [aiHint, setAiHint] = useState<string | null>("Initializing strategy engine...");
+  const { locale, t, formatNumber } = useI18n();
+  // Only hand tracking waits for the camera and model
+  const [loading, setLoading] = useState(() => getPreferredInputKind() === 'hand');
+  const [cameraError, setCameraError] = useState<Error | null>(null);
+  // Null until the first analysis answers
+  const [aiHint, setAiHint] = useState<string | null>(null);
   const [aiRationale, setAiRationale] = useState<string | null>(null);
   const [aimTarget, setAimTarget] = useState<Point | null>(null);
+  const [solverVerdict, setSolverVerdict] = useState<SolverVerdict | null>(null);
   const [score, setScore] = useState(0);
   const [isAiThinking, setIsAiThinking] = useState(false);
   const [selectedColor, setSelectedColor] = useState<BubbleColor>('red');
   const [availableColors, setAvailableColors] = useState<BubbleColor[]>([]);
   const [aiRecommendedColor, setAiRecommendedColor] = useState<BubbleColor | null>(null);
-  const [debugInfo, setDebugInfo] = useState<DebugInfo | null>(null);
+  const [inputKind, setInputKind] = useState<InputSourceKind>(getPreferredInputKind);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [gameState, setGameState] = useState<GameState>('START');
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [level, setLevel] = useState(1);
+  const [missesUntilDrop, setMissesUntilDrop] = useState(0);
+  const [result, setResult] = useState<RoundResult | null>(null);
+  const [levelName, setLevelName] = useState<string | null>(null);
+  const [shotsLeft, setShotsLeft] = useState<number | null>(null);
+  const [editorOpen, setEditorOpen] = useState(false);
+  // The last board sent from the editor; reopening the editor resumes from it
+  const [editorLevel, setEditorLevel] = useState<LevelData | null>(null);
+  const [isPlaytest, setIsPlaytest] = useState(false);
+  const [lastRunId, setLastRunId] = useState<string | null>(null);
+  const [globalRank, setGlobalRank] = useState<number | null>(null);
 
   useEffect(() => {
-    selectedColorRef.current = selectedColor;
+    gameStateRef.current = gameState;
+  }, [gameState]);
+
+  useEffect(() => {
+    soundManager.playMusic(gameState === 'PLAYING' && !paused && !editorOpen ? 'game' : 'menu');
+  }, [gameState, paused, editorOpen]);
+
+  useEffect(() => {
+    isPlaytestRef.current = isPlaytest;
+  }, [isPlaytest]);
+
+  useEffect(() => {
+    // During a replay the recorded color events drive the ref directly
+    if (!replayPlayer.current) selectedColorRef.current = selectedColor;
   }, [selectedColor]);
 
   useEffect(() => {
@@ -86,220 +163,393 @@ const GeminiSlingshot: React.FC = () => {
   useEffect(() => {
     isAiThinkingRef.current = isAiThinking;
   }, [isAiThinking]);
-  
-  const getBubblePos = (row: number, col: number, width: number) => {
-    const xO = (width - (GRID_COLS * BUBBLE_RADIUS * 2)) / 2 + BUBBLE_RADIUS;
-    return { x: xO + col * (BUBBLE_RADIUS * 2) + (row % 2 !== 0 ? BUBBLE_RADIUS : 0), y: BUBBLE_RADIUS + row * ROW_HEIGHT };
+
+  useEffect(() => {
+    aiRecommendedColorRef.current = aiRecommendedColor;
+  }, [aiRecommendedColor]);
+
+  useEffect(() => {
+    const container = gameContainerRef.current;
+    if (!container) return;
+    const source = createInputSource(inputKind);
+    source.attach(container);
+    inputSource.current = source;
+    return () => { source.detach(); if (inputSource.current === source) inputSource.current = null; };
+  }, [inputKind]);
+
+  // The camera only runs for the hand source; the shared tracker keeps it warm across source and screen switches
+  useEffect(() => {
+    if (inputKind !== 'hand') { setLoading(false); setCameraError(null); cameraImage.current = null; return; }
+    // The hand tracker only samples input; the game loop owns physics and rendering
+    const onFrame = ({ image, landmarks }: HandFrame) => {
+      setLoading(false); setCameraError(null);
+      cameraImage.current = image;
+      if (inputSource.current instanceof HandInputSource) inputSource.current.feed(landmarks);
+    };
+    return handTracker.acquire(onFrame, (e) => { setLoading(false); setCameraError(e); });
+  }, [inputKind]);
+
+  const changeInputKind = (kind: InputSourceKind) => {
+    setPreferredInputKind(kind); setInputKind(kind);
   };
 
   const updateAvailableColors = () => {
-    const activeColors = new Set<BubbleColor>();
-    bubbles.current.forEach(b => { if (b.active) activeColors.add(b.color); });
-    setAvailableColors(Array.from(activeColors));
-    if (!activeColors.has(selectedColorRef.current) && activeColors.size > 0) setSelectedColor(Array.from(activeColors)[0]);
+    const activeColors = world.current ? world.current.grid.availableColors() : [];
+    setAvailableColors(activeColors);
+    if (!activeColors.includes(selectedColorRef.current) && activeColors.length > 0) setSelectedColor(activeColors[0]);
   };
 
-  const initGrid = useCallback((width: number) => {
-    const nB: Bubble[] = [];
-    for (let r = 0; r < 5; r++) { 
-      for (let c = 0; c < (r % 2 !== 0 ? GRID_COLS - 1 : GRID_COLS); c++) {
-        if (Math.random() > 0.1) {
-            const { x, y } = getBubblePos(r, c, width);
-            nB.push({ id: `${r}-${c}`, row: r, col: c, x, y, color: COLOR_KEYS[Math.floor(Math.random() * COLOR_KEYS.length)], active: true });
-        }
-      }
-    }
-    bubbles.current = nB; updateAvailableColors();
-    setTimeout(() => { captureRequestRef.current = true; }, 2000);
-  }, []);
+  /**
+   * Builds a fresh board for `lvl` (authored when `layout` is given), either
+   * live (recorded, on `seed` or a fresh one) or re-simulating a replay.
+   */
+  const prepareLevel = (lvl: number, layout: LevelData | null, replay?: Replay, seed = replay ? replay.seed : randomSeed()) => {
+    const canvas = canvasRef.current; if (!canvas) return;
+    leaderboardSession.current = null; sessionRequest.current++;
+    // Drop hints for the previous board; a new board may repeat an old state, so let the scheduler ask again
+    aiRequest.current?.abort(); aiRequest.current = new AbortController(); aiSeq.current++;
+    isAiThinkingRef.current = false; setIsAiThinking(false); getAiScheduler().forget('strategy');
+    const width = replay ? replay.width : canvas.width; const height = replay ? replay.height : canvas.height;
+    world.current = new SlingshotWorld(seed, width, height, lvl, layout);
+    streak.current = 0; soundManager.setMusicIntensity(0);
+    setLevel(lvl); setLevelName(layout?.name ?? null); setScore(0); setResult(null);
+    setMissesUntilDrop(world.current.missesUntilDrop); setShotsLeft(world.current.shotsLeft);
+    setAimTarget(null); setAiRecommendedColor(null); setSolverVerdict(null);
+    replayPlayer.current = replay ? new ReplayPlayer(replay) : null;
+    recorder.current = replay ? null : new ReplayRecorder('slingshot', seed, width, height, false, lvl, layout ?? undefined);
+    recordedColor.current = null;
+    setIsReplaying(!!replay); setReplayError(null);
+    updateAvailableColors();
+  };
+
+  /** Room left above the line, or shots left when that is tighter, set the music's urgency. */
+  const updateMusic = (board: SlingshotWorld) => {
+    const room = Math.max(0, board.deadlineY - board.grid.bottomY()) / board.deadlineY;
+    const shots = board.shotsLeft === null ? 1 : board.shotsLeft / (board.shotsLeft + board.shotCount);
+    soundManager.setMusicIntensity(musicIntensity({ level: board.level, combo: streak.current, remaining: Math.min(room, shots) }));
+  };
+
+  /** Campaign levels come first, generated boards after; `layout` overrides that (e.g. for a playtest). */
+  const startCountdown = (lvl: number, layout: LevelData | null = getCampaignLevel(lvl)) => {
+    soundManager.playClick();
+    // Keep the board shown on the start screen if nothing has been played on it yet
+    const board = world.current;
+    if (!board || board.tick > 0 || board.level !== lvl || board.layout !== layout || replayPlayer.current) prepareLevel(lvl, layout);
+    pausedRef.current = false; setPaused(false);
+    setGameState('COUNTDOWN'); setCountdown(3);
+    // Editor playtests are unranked; rebuild the board on the server's seed if it answers before the countdown ends
+    const service = getLeaderboardService();
+    if (!service || lvl < 1 || layout !== getCampaignLevel(lvl)) return;
+    const request = ++sessionRequest.current;
+    service.requestSession('slingshot', getLeaderboardMode('slingshot', lvl))
+      .then(session => {
+        if (request !== sessionRequest.current || gameStateRef.current !== 'COUNTDOWN') return;
+        prepareLevel(lvl, layout, undefined, session.seed);
+        leaderboardSession.current = session;
+      })
+      .catch(e => console.warn('Leaderboard offline, playing unranked', e));
+  };
+
+  const playtest = (layout: LevelData) => {
+    setEditorLevel(layout); setEditorOpen(false); setIsPlaytest(true);
+    startCountdown(0, layout);
+  };
 
-  const createExplosion = (x: number, y: number, color: string) => {
-    for (let i = 0; i < 15; i++) particles.current.push({ x, y, vx: (Math.random() - 0.5) * 12, vy: (Math.random() - 0.5) * 12, life: 1.0, color });
+  const openEditor = () => {
+    soundManager.playClick(); setEditorOpen(true); setGameState('START');
   };
 
-  const isPathClear = (target: Bubble) => {
-    if (!anchorPos.current) return false;
-    const dx = target.x - anchorPos.current.x; const dy = target.y - anchorPos.current.y;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-    const steps = Math.ceil(distance / (BUBBLE_RADIUS / 2)); 
-    for (let i = 1; i < steps - 2; i++) { 
-        const t = i / steps; const cx = anchorPos.current.x + dx * t; const cy = anchorPos.current.y + dy * t;
-        for (const b of bubbles.current) { if (!b.active || b.id === target.id) continue; if (Math.pow(cx - b.x, 2) + Math.pow(cy - b.y, 2) < Math.pow(BUBBLE_RADIUS * 1.8, 2)) return false; }
+  const closeEditor = () => {
+    setEditorOpen(false); setIsPlaytest(false);
+    const lvl = Math.max(1, level); prepareLevel(lvl, getCampaignLevel(lvl));
+  };
+
+  useEffect(() => {
+    if (gameState === 'COUNTDOWN' && countdown !== null) {
+      if (countdown > 0) {
+        const timer = setTimeout(() => { setCountdown(countdown - 1); soundManager.playClick(); }, 1000);
+        return () => clearTimeout(timer);
+      } else { setGameState('PLAYING'); captureRequestRef.current = true; sessionRequest.current++; }
     }
-    return true;
+  }, [countdown, gameState]);
+
+  const setPause = (pause: boolean) => {
+    if (pause && (gameState !== 'PLAYING' || pausedRef.current)) return;
+    pausedRef.current = pause; setPaused(pause);
+    if (pause) speechManager.stop();
+    soundManager.playClick();
   };
 
-  const getAllReachableClusters = (): TargetCandidate[] => {
-    const activeBubbles = bubbles.current.filter(b => b.active);
-    const uC = Array.from(new Set(activeBubbles.map(b => b.color))) as BubbleColor[];
-    const allClusters: TargetCandidate[] = [];
-    for (const color of uC) {
-        const visited = new Set<string>();
-        for (const b of activeBubbles) {
-            if (b.color !== color || visited.has(b.id)) continue;
-            const cluster: Bubble[] = []; const queue = [b]; visited.add(b.id);
-            while (queue.length > 0) {
-                const curr = queue.shift()!; cluster.push(curr);
-                activeBubbles.filter(n => !visited.has(n.id) && n.color === color && Math.abs(n.row - curr.row) <= 1).forEach(n => { visited.add(n.id); queue.push(n); });
-            }
-            cluster.sort((a,b) => b.y - a.y);
-            const hittable = cluster.find(m => isPathClear(m));
-            if (hittable) {
-                const xP = hittable.x / (gameContainerRef.current?.clientWidth || 1000);
-                allClusters.push({ id: hittable.id, color, size: cluster.length, row: hittable.row, col: hittable.col, pointsPerBubble: COLOR_CONFIG[color].points, description: xP < 0.33 ? "Left" : xP > 0.66 ? "Right" : "Center" });
-            }
+  const onVoiceCommand = (command: VoiceCommand) => {
+    const board = world.current;
+    switch (command.type) {
+      case 'start':
+        if (paused) setPause(false);
+        else if (gameState === 'START') startCountdown(level);
+        // Same as the result screen's main button: next level after a win, otherwise a retry
+        else if (gameState === 'GAMEOVER' && result) {
+          if (result.status === 'won' && !isPlaytest) startCountdown(result.level + 1); else startCountdown(result.level, result.layout);
         }
+        break;
+      case 'pause': setPause(true); break;
+      case 'resume': if (paused) setPause(false); break;
+      case 'restart':
+        if (gameState === 'GAMEOVER' && result) startCountdown(result.level, result.layout);
+        else if (gameState === 'PLAYING' && board && !isReplaying) startCountdown(board.level, board.layout);
+        break;
+      case 'menu': onExit?.(); break;
+      case 'color':
+        if (gameState === 'PLAYING' && !isReplaying && availableColors.includes(command.color)) setSelectedColor(command.color);
+        break;
     }
-    return allClusters;
   };
 
-  const checkMatches = (startBubble: Bubble) => {
-    const toCheck = [startBubble]; const visited = new Set<string>(); const matches: Bubble[] = [];
-    while (toCheck.length > 0) {
-      const current = toCheck.pop()!; if (visited.has(current.id)) continue; visited.add(current.id);
-      if (current.color === startBubble.color) {
-        matches.push(current);
-        bubbles.current.filter(b => b.active && !visited.has(b.id) && Math.abs(b.row - current.row) <= 1).forEach(n => toCheck.push(n));
+  useVoiceCommands(onVoiceCommand, !loading && !editorOpen);
+
+  const watchReplay = (replay: Replay) => {
+    pausedRef.current = false; setPaused(false);
+    soundManager.playClick(); prepareLevel(replay.level ?? 1, replay.layout ?? null, replay); setGameState('PLAYING');
+  };
+
+  const finishRound = (status: RoundResult['status']) => {
+    const board = world.current; if (!board) return;
+    if (status === 'won') soundManager.play('clear'); else if (status === 'lost') soundManager.playGameOver();
+    speechManager.stop();
+    setResult({ status, level: board.level, layout: board.layout, score: board.score, shots: board.shotCount, par: board.par, stars: board.stars });
+    setGameState('GAMEOVER'); setGlobalRank(null);
+    if (recorder.current) {
+      const replay = recorder.current.finish(board.score); recorder.current = null;
+      setLastReplay(replay);
+      submitToLeaderboard(replay);
+      // Editor playtests are not part of the high score table
+      if (!isPlaytestRef.current) {
+        statsStore.recordRun({ game: 'slingshot', score: board.score, level: board.level, rank: null, stars: board.stars, sliced: {}, bombsHit: 0, durationMs: Math.round(board.simTime) })
+          .then(run => setLastRunId(run.id))
+          .catch(e => console.warn('Could not save run', e));
       }
     }
-    if (matches.length >= 3) {
-      matches.forEach(b => { b.active = false; createExplosion(b.x, b.y, COLOR_CONFIG[b.color].hex); });
-      scoreRef.current += Math.floor(matches.length * COLOR_CONFIG[startBubble.color].points * (matches.length > 3 ? 1.5 : 1.0));
-      setScore(scoreRef.current); return true;
-    }
-    return false;
+    if (replayPlayer.current) { replayPlayer.current = null; setIsReplaying(false); }
+  };
+
+  const submitToLeaderboard = (replay: Replay) => {
+    const session = leaderboardSession.current; const service = getLeaderboardService();
+    leaderboardSession.current = null;
+    if (!session || !service) return;
+    statsStore.getActiveProfile()
+      .then(profile => service.submitRun(session, profile.name, replay))
+      .then(result => setGlobalRank(result.rank))
+      .catch(e => console.warn('Could not submit run to leaderboard', e));
+  };
+
+  const onReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]; e.target.value = '';
+    if (!file) return;
+    try {
+        const replay = await readReplayFile(file);
+        if (replay.game !== 'slingshot') throw new Error(t('slingshot.wrongReplay'));
+        setLastReplay(replay); watchReplay(replay);
+    } catch (err: any) { setReplayError(err.message || t('slingshot.badReplay')); }
   };
 
   const performAiAnalysis = async (screenshot: string) => {
+    const board = world.current; if (!board) return;
+    const seq = ++aiSeq.current;
     isAiThinkingRef.current = true; setIsAiThinking(true);
-    const clusters = getAllReachableClusters();
-    const maxRow = bubbles.current.reduce((max, b) => b.active ? Math.max(max, b.row) : max, 0);
-    const aiResponse = await getStrategicHint(screenshot, clusters, maxRow);
-    setAiHint(aiResponse.hint.message); setAiRationale(aiResponse.hint.rationale || null);
-    if (typeof aiResponse.hint.targetRow === 'number' && typeof aiResponse.hint.targetCol === 'number') {
-        if (aiResponse.hint.recommendedColor) { setAiRecommendedColor(aiResponse.hint.recommendedColor); setSelectedColor(aiResponse.hint.recommendedColor); }
-        setAimTarget(getBubblePos(aiResponse.hint.targetRow, aiResponse.hint.targetCol, canvasRef.current?.width || 1000));
-    }
+    const clusters = board.grid.reachableClusters(board.anchor);
+    const maxRow = board.grid.maxRow();
+    // Solved against the board the advisor is shown, before the player can change it
+    const grid = board.grid.clone();
+    const shots = solveShots(grid, board.anchor, board.width, board.height, grid.availableColors());
+    // Input is locked while thinking, so never wait for the budget; null means skipped
+    const aiResponse = await getAiScheduler().requestStrategicHint({ imageBase64: screenshot, clusters, maxRow, locale: getLocale() }, { signal: aiRequest.current?.signal, dropIfThrottled: true });
+    // A newer analysis or a new board owns the thinking state now
+    if (isDestroyed.current || seq !== aiSeq.current) return;
     isAiThinkingRef.current = false; setIsAiThinking(false);
+    if (!aiResponse || replayPlayer.current || world.current !== board) return;
+    setAiHint(aiResponse.hint.message); setAiRationale(aiResponse.hint.rationale || null);
+    speechManager.say(aiResponse.hint.message, { kind: 'strategy', locale: getLocale() });
+    // Aim with the solver: at the advisor's pick when it holds up, otherwise at the solver's own best shot
+    const verdict = judgeHint(grid, clusters, shots, aiResponse.hint);
+    setSolverVerdict(verdict);
+    const shot = verdict.status === 'agrees' ? verdict.pick : verdict.best;
+    if (shot) { setAiRecommendedColor(shot.color); setSelectedColor(shot.color); setAimTarget(shot.aim); }
+    else { setAiRecommendedColor(null); setAimTarget(null); }
   };
 
-  const drawBubble = (ctx: CanvasRenderingContext2D, x: number, y: number, radius: number, colorKey: BubbleColor) => {
-    const bC = COLOR_CONFIG[colorKey].hex;
+  const drawBubble = (ctx: CanvasRenderingContext2D, x: number, y: number, radius: number, colorKey: BubbleColor, special?: SpecialBubble) => {
+    const bC = special ? SPECIAL_CONFIG[special].hex : COLOR_CONFIG[colorKey].hex;
     const grad = ctx.createRadialGradient(x - radius * 0.3, y - radius * 0.3, radius * 0.1, x, y, radius);
     grad.addColorStop(0, '#ffffff'); grad.addColorStop(0.2, bC); grad.addColorStop(1, adjustColor(bC, -60));
     ctx.beginPath(); ctx.arc(x, y, radius, 0, Math.PI * 2); ctx.fillStyle = grad; ctx.fill();
     ctx.beginPath(); ctx.ellipse(x - radius * 0.3, y - radius * 0.35, radius * 0.25, radius * 0.15, Math.PI / 4, 0, Math.PI * 2); ctx.fillStyle = 'rgba(255, 255, 255, 0.3)'; ctx.fill();
+    if (special === 'bomb') { ctx.beginPath(); ctx.arc(x, y, radius * 0.35, 0, Math.PI * 2); ctx.fillStyle = '#ef5350'; ctx.fill(); }
   };
 
   useEffect(() => {
-    if (!videoRef.current || !canvasRef.current || !gameContainerRef.current) return;
-    const video = videoRef.current; const canvas = canvasRef.current; const container = gameContainerRef.current;
+    if (!canvasRef.current || !gameContainerRef.current) return;
+    const canvas = canvasRef.current; const container = gameContainerRef.current;
     const ctx = canvas.getContext('2d', { willReadFrequently: true }); if (!ctx) return;
+    isDestroyed.current = false;
     canvas.width = container.clientWidth; canvas.height = container.clientHeight;
-    anchorPos.current = { x: canvas.width / 2, y: canvas.height - SLINGSHOT_BOTTOM_OFFSET };
-    ballPos.current = { ...anchorPos.current };
-    initGrid(canvas.width);
-    let camera: any = null; let hands: any = null;
-    const onResults = (results: any) => {
-      if (isDestroyed.current) return; setLoading(false);
-      if (canvas.width !== container.clientWidth || canvas.height !== container.clientHeight) { canvas.width = container.clientWidth; canvas.height = container.clientHeight; anchorPos.current = { x: canvas.width / 2, y: canvas.height - SLINGSHOT_BOTTOM_OFFSET }; }
+    prepareLevel(1, getCampaignLevel(1));
+    // Uniform scale + letterbox from the frozen board onto the current canvas
+    const getView = () => {
+      const board = world.current;
+      const width = board?.width || 0; const height = board?.height || 0;
+      const scale = width > 0 && height > 0 ? Math.min(canvas.width / width, canvas.height / height) : 1;
+      return { scale, offsetX: (canvas.width - width * scale) / 2, offsetY: (canvas.height - height * scale) / 2 };
+    };
+    const update = () => {
+      const board = world.current;
+      if (!board || board.width <= 0 || board.height <= 0) return;
+      // The board stays frozen behind the start screen and countdown
+      if (gameStateRef.current === 'START' || gameStateRef.current === 'COUNTDOWN' || pausedRef.current) { liveSample.current = null; return; }
+      const player = replayPlayer.current;
+      liveSample.current = null;
+      let input: TickInput;
+      if (player) {
+        player.takeEvents().forEach(ev => { if (ev.type === 'color') { selectedColorRef.current = ev.value as BubbleColor; setSelectedColor(ev.value as BubbleColor); } });
+        player.poll(); input = player.input;
+      } else {
+        const raw = inputSource.current ? inputSource.current.poll() : null;
+        liveSample.current = raw;
+        const view = getView();
+        const sample = raw ? { ...raw, x: (raw.x * canvas.width - view.offsetX) / view.scale / board.width, y: (raw.y * canvas.height - view.offsetY) / view.scale / board.height } : null;
+        input = { sample, fresh: true, locked: isAiThinkingRef.current };
+        if (recorder.current) {
+          if (recordedColor.current !== selectedColorRef.current) { recordedColor.current = selectedColorRef.current; recorder.current.recordEvent('color', selectedColorRef.current); }
+          input = recorder.current.record(input);
+        }
+      }
+      board.selectedColor = selectedColorRef.current;
+      const wasPinching = board.isPinching;
+      board.step(input);
+      if (board.isPinching && !wasPinching) soundManager.play('stretch');
+      board.drainEvents().forEach(ev => {
+        switch (ev.type) {
+          case 'launch': soundManager.play('release'); setShotsLeft(board.shotsLeft); break;
+          case 'bounce': soundManager.play('bounce', { x: ev.x / board.width }); break;
+          case 'land': {
+            streak.current = ev.popped.length > 0 ? streak.current + 1 : 0;
+            const x = ev.bubble.x / board.width;
+            if (ev.blast) soundManager.play('bomb', { x });
+            else if (ev.popped.length > 0) soundManager.play('pop', { x, pitch: comboPitch(streak.current) });
+            else soundManager.play('bounce', { x, gain: 0.6 });
+            if (ev.dropped.length > 0) soundManager.play('drop', { x });
+            setScore(board.score); setMissesUntilDrop(board.missesUntilDrop); updateAvailableColors(); updateMusic(board); captureRequestRef.current = true;
+            break;
+          }
+          case 'miss': streak.current = 0; setMissesUntilDrop(board.missesUntilDrop); updateMusic(board); break;
+          case 'ceiling': setMissesUntilDrop(board.missesUntilDrop); setAimTarget(null); updateMusic(board); break;
+          case 'won': case 'lost': finishRound(ev.type); break;
+        }
+      });
+      if (player?.done && replayPlayer.current === player) finishRound('ended');
+    };
+    const render = () => {
+      if (canvas.width !== container.clientWidth || canvas.height !== container.clientHeight) { canvas.width = container.clientWidth; canvas.height = container.clientHeight; }
       if (canvas.width <= 0 || canvas.height <= 0) return;
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
       ctx.clearRect(0, 0, canvas.width, canvas.height);
-      ctx.drawImage(results.image, 0, 0, canvas.width, canvas.height);
+      if (cameraImage.current) ctx.drawImage(cameraImage.current, 0, 0, canvas.width, canvas.height);
       ctx.fillStyle = 'rgba(18, 18, 18, 0.85)'; ctx.fillRect(0, 0, canvas.width, canvas.height);
-      let handPos: Point | null = null; let pinchDist = 1.0;
-      if (results.multiHandLandmarks?.length > 0) {
-        const l = results.multiHandLandmarks[0];
-        handPos = { x: (l[8].x + l[4].x) * canvas.width / 2, y: (l[8].y + l[4].y) * canvas.height / 2 };
-        pinchDist = Math.sqrt((l[8].x - l[4].x)**2 + (l[8].y - l[4].y)**2);
-        if (window.drawConnectors) window.drawConnectors(ctx, l, window.HAND_CONNECTIONS, {color: '#669df6', lineWidth: 1});
-      }
-      const isLocked = isAiThinkingRef.current;
-      if (!isLocked && handPos && pinchDist < PINCH_THRESHOLD && !isFlying.current) { if (!isPinching.current && Math.sqrt((handPos.x - ballPos.current.x)**2 + (handPos.y - ballPos.current.y)**2) < 100) isPinching.current = true; if (isPinching.current) { ballPos.current = { ...handPos }; const d = Math.sqrt((ballPos.current.x-anchorPos.current.x)**2 + (ballPos.current.y-anchorPos.current.y)**2); if (d > MAX_DRAG_DIST) { const a = Math.atan2(ballPos.current.y-anchorPos.current.y, ballPos.current.x-anchorPos.current.x); ballPos.current = { x: anchorPos.current.x + Math.cos(a)*MAX_DRAG_DIST, y: anchorPos.current.y + Math.sin(a)*MAX_DRAG_DIST }; } } }
-      else if (isPinching.current && (!handPos || pinchDist >= PINCH_THRESHOLD || isLocked)) {
-        isPinching.current = false;
-        if (!isLocked) {
-            const dx = anchorPos.current.x - ballPos.current.x; const dy = anchorPos.current.y - ballPos.current.y;
-            if (Math.sqrt(dx*dx+dy*dy) > 30) { isFlying.current = true; flightStartTime.current = performance.now(); const m = MIN_FORCE_MULT + (MAX_FORCE_MULT - MIN_FORCE_MULT) * Math.min(Math.sqrt(dx*dx+dy*dy)/MAX_DRAG_DIST, 1)**2; ballVel.current = { x: dx*m, y: dy*m }; }
-            else ballPos.current = { ...anchorPos.current };
-        } else ballPos.current = { ...anchorPos.current };
-      } else if (!isFlying.current && !isPinching.current) { ballPos.current.x += (anchorPos.current.x - ballPos.current.x) * 0.15; ballPos.current.y += (anchorPos.current.y - ballPos.current.y) * 0.15; }
-      if (isFlying.current) {
-        if (performance.now() - flightStartTime.current > 5000) { isFlying.current = false; ballPos.current = { ...anchorPos.current }; }
-        else {
-            const steps = Math.ceil(Math.sqrt(ballVel.current.x**2+ballVel.current.y**2)/15); let hit = false;
-            for (let i = 0; i < steps; i++) {
-                ballPos.current.x += ballVel.current.x/steps; ballPos.current.y += ballVel.current.y/steps;
-                if (ballPos.current.x < BUBBLE_RADIUS || ballPos.current.x > canvas.width - BUBBLE_RADIUS) { ballVel.current.x *= -1; }
-                if (ballPos.current.y < BUBBLE_RADIUS || bubbles.current.some(b => b.active && Math.sqrt((ballPos.current.x-b.x)**2 + (ballPos.current.y-b.y)**2) < BUBBLE_RADIUS*1.8)) { hit = true; break; }
-            }
-            if (hit) {
-                isFlying.current = false; let bD = Infinity; let bR = 0, bC = 0, bX = 0, bY = 0;
-                for (let r = 0; r < GRID_ROWS + 5; r++) { for (let c = 0; c < (r%2!==0?GRID_COLS-1:GRID_COLS); c++) { const p = getBubblePos(r,c,canvas.width); if (!bubbles.current.some(b => b.active && b.row === r && b.col === c)) { const d = Math.sqrt((ballPos.current.x-p.x)**2+(ballPos.current.y-p.y)**2); if (d < bD) { bD = d; bR = r; bC = c; bX = p.x; bY = p.y; } } } }
-                const nB = { id: Date.now().toString(), row: bR, col: bC, x: bX, y: bY, color: selectedColorRef.current, active: true }; bubbles.current.push(nB); checkMatches(nB); updateAvailableColors(); ballPos.current = { ...anchorPos.current }; captureRequestRef.current = true;
-            }
-            if (ballPos.current.y > canvas.height) { isFlying.current = false; ballPos.current = { ...anchorPos.current }; }
-        }
-      }
-      bubbles.current.forEach(b => { if (b.active) drawBubble(ctx, b.x, b.y, BUBBLE_RADIUS - 1, b.color); });
-      if (aimTargetRef.current && !isFlying.current && (!aiRecommendedColor || aiRecommendedColor === selectedColorRef.current)) {
-          ctx.save(); ctx.shadowBlur = 15; ctx.shadowColor = COLOR_CONFIG[selectedColorRef.current].hex; ctx.beginPath(); ctx.moveTo(anchorPos.current.x, anchorPos.current.y); ctx.lineTo(aimTargetRef.current.x, aimTargetRef.current.y); ctx.setLineDash([20, 15]); ctx.lineDashOffset = -performance.now()/15; ctx.strokeStyle = COLOR_CONFIG[selectedColorRef.current].hex; ctx.lineWidth = 4; ctx.stroke(); ctx.restore();
+      const board = world.current; if (!board) return;
+      const view = getView(); const { anchor, ball } = board;
+      ctx.setTransform(view.scale, 0, 0, view.scale, view.offsetX, view.offsetY);
+      const source = inputSource.current;
+      if (source instanceof HandInputSource && source.landmarks) { ctx.save(); ctx.setTransform(1, 0, 0, 1, 0, 0); drawHandSkeleton(ctx, source.landmarks, { color: '#669df6', lineWidth: 1 }); ctx.restore(); }
+      if (board.grid.ceiling > 0) { ctx.fillStyle = '#2a2a2a'; ctx.fillRect(0, 0, board.width, board.grid.ceilingY); ctx.fillStyle = '#444746'; ctx.fillRect(0, board.grid.ceilingY - 4, board.width, 4); }
+      ctx.save(); ctx.beginPath(); ctx.moveTo(0, board.deadlineY); ctx.lineTo(board.width, board.deadlineY); ctx.setLineDash([8, 10]); ctx.strokeStyle = 'rgba(239, 83, 80, 0.5)'; ctx.lineWidth = 2; ctx.stroke(); ctx.restore();
+      board.grid.bubbles.forEach(b => { if (b.active) drawBubble(ctx, b.x, b.y, BUBBLE_RADIUS - 1, b.color, b.special); });
+      if (aimTargetRef.current && !board.isFlying && (!aiRecommendedColorRef.current || aiRecommendedColorRef.current === selectedColorRef.current)) {
+          ctx.save(); ctx.shadowBlur = 15; ctx.shadowColor = COLOR_CONFIG[selectedColorRef.current].hex; ctx.beginPath(); ctx.moveTo(anchor.x, anchor.y); ctx.lineTo(aimTargetRef.current.x, aimTargetRef.current.y); ctx.setLineDash([20, 15]); ctx.lineDashOffset = -performance.now()/15; ctx.strokeStyle = COLOR_CONFIG[selectedColorRef.current].hex; ctx.lineWidth = 4; ctx.stroke(); ctx.restore();
       }
-      if (!isFlying.current) { ctx.beginPath(); ctx.moveTo(anchorPos.current.x - 35, anchorPos.current.y - 10); ctx.lineTo(ballPos.current.x, ballPos.current.y); ctx.lineTo(anchorPos.current.x + 35, anchorPos.current.y - 10); ctx.lineWidth = 5; ctx.strokeStyle = isPinching.current ? '#fdd835' : 'rgba(255,255,255,0.4)'; ctx.stroke(); }
-      drawBubble(ctx, ballPos.current.x, ballPos.current.y, BUBBLE_RADIUS, selectedColorRef.current);
-      ctx.beginPath(); ctx.moveTo(anchorPos.current.x, canvas.height); ctx.lineTo(anchorPos.current.x, anchorPos.current.y + 40); ctx.lineTo(anchorPos.current.x - 40, anchorPos.current.y); ctx.moveTo(anchorPos.current.x, anchorPos.current.y + 40); ctx.lineTo(anchorPos.current.x + 40, anchorPos.current.y); ctx.lineWidth = 10; ctx.lineCap = 'round'; ctx.strokeStyle = '#616161'; ctx.stroke();
-      particles.current.forEach((p, i) => { p.x += p.vx; p.y += p.vy; p.life -= 0.05; if (p.life <= 0) particles.current.splice(i, 1); else { ctx.globalAlpha = p.life; ctx.beginPath(); ctx.arc(p.x, p.y, 5, 0, Math.PI * 2); ctx.fillStyle = p.color; ctx.fill(); ctx.globalAlpha = 1.0; } });
-      if (captureRequestRef.current) {
+      if (!board.isFlying) { ctx.beginPath(); ctx.moveTo(anchor.x - 35, anchor.y - 10); ctx.lineTo(ball.x, ball.y); ctx.lineTo(anchor.x + 35, anchor.y - 10); ctx.lineWidth = 5; ctx.strokeStyle = board.isPinching ? '#fdd835' : 'rgba(255,255,255,0.4)'; ctx.stroke(); }
+      drawBubble(ctx, ball.x, ball.y, BUBBLE_RADIUS, selectedColorRef.current);
+      ctx.beginPath(); ctx.moveTo(anchor.x, board.height); ctx.lineTo(anchor.x, anchor.y + 40); ctx.lineTo(anchor.x - 40, anchor.y); ctx.moveTo(anchor.x, anchor.y + 40); ctx.lineTo(anchor.x + 40, anchor.y); ctx.lineWidth = 10; ctx.lineCap = 'round'; ctx.strokeStyle = '#616161'; ctx.stroke();
+      board.falling.forEach(f => drawBubble(ctx, f.x, f.y, BUBBLE_RADIUS - 1, f.color, f.special));
+      board.particles.forEach(p => { ctx.globalAlpha = p.life; ctx.beginPath(); ctx.arc(p.x, p.y, 5, 0, Math.PI * 2); ctx.fillStyle = p.color; ctx.fill(); ctx.globalAlpha = 1.0; });
+      const sample = liveSample.current;
+      if (source && sample && source.kind === 'gamepad' && !replayPlayer.current) { ctx.save(); ctx.setTransform(1, 0, 0, 1, 0, 0); ctx.beginPath(); ctx.arc(sample.x * canvas.width, sample.y * canvas.height, sample.grabbing ? 8 : 12, 0, Math.PI * 2); ctx.strokeStyle = '#fdd835'; ctx.lineWidth = 3; ctx.stroke(); ctx.restore(); }
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      if (replayPlayer.current || gameStateRef.current !== 'PLAYING') captureRequestRef.current = false;
+      if (captureRequestRef.current && !pausedRef.current) {
         captureRequestRef.current = false; const off = document.createElement('canvas'); off.width = 480; off.height = 360; const oC = off.getContext('2d');
         if (oC) { oC.drawImage(canvas, 0, 0, 480, 360); setTimeout(() => performAiAnalysis(off.toDataURL("image/jpeg", 0.6)), 0); }
       }
     };
-    const initMP = async () => {
-      try {
-        // @ts-ignore
-        hands = new window.Hands({ locateFile: (f) => `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${f}` });
-        hands.setOptions({ maxNumHands: 1, modelComplexity: 1, minDetectionConfidence: 0.5, minTrackingConfidence: 0.5 });
-        hands.onResults(onResults);
-        // @ts-ignore
-        camera = new window.Camera(video, { onFrame: async () => { if (!isDestroyed.current && video.readyState >= 2 && video.videoWidth > 0 && hands) await hands.send({ image: video }); }, width: 1280, height: 720 });
-        await camera.start();
-      } catch (e: any) { 
-        console.error("Camera error:", e);
-        setLoading(false);
-        if (e.name === 'NotReadableError') {
-             setCameraError("Camera is busy or not available. Please close other apps using the camera.");
-        } else if (e.name === 'NotAllowedError') {
-             setCameraError("Camera permission denied. Please allow access.");
-        } else {
-             setCameraError(`Camera Error: ${e.message || "Unknown error"}`);
-        }
-      }
-    };
-    if (window.Hands && window.Camera) initMP();
-    return () => { isDestroyed.current = true; if (camera) camera.stop(); if (hands) { hands.close(); hands = null; } };
-  }, [initGrid]);
+    const stopLoop = startGameLoop({ update, render });
+    return () => { isDestroyed.current = true; aiRequest.current?.abort(); speechManager.stop(); stopLoop(); };
+  }, []);
 
   return (
     <div className="flex w-full h-screen bg-[#121212] overflow-hidden font-roboto text-[#e3e3e3]">
-      <div className="fixed inset-0 z-[100] bg-[#121212] flex flex-col items-center justify-center p-8 text-center md:hidden"><Monitor className="w-16 h-16 text-[#ef5350] mb-6 animate-pulse" /><h2 className="text-2xl font-bold text-[#e3e3e3] mb-4">Desktop View Required</h2><p className="text-[#c4c7c5] max-w-md text-lg leading-relaxed">This experience requires a larger screen.</p></div>
+      <div className="fixed inset-0 z-[100] bg-[#121212] flex flex-col items-center justify-center p-8 text-center md:hidden"><Monitor className="w-16 h-16 text-[#ef5350] mb-6 animate-pulse" /><h2 className="text-2xl font-bold text-[#e3e3e3] mb-4">{t('slingshot.desktopOnly')}</h2><p className="text-[#c4c7c5] max-w-md text-lg leading-relaxed">{t('slingshot.desktopOnlyBody')}</p></div>
       <div ref={gameContainerRef} className="flex-1 relative h-full overflow-hidden">
-        {/* Removed display:none via 'hidden' class, using opacity-0 and pointer-events-none instead */}
-        <video ref={videoRef} className="absolute inset-0 w-full h-full object-cover opacity-0 pointer-events-none" playsInline muted autoPlay />
         <canvas ref={canvasRef} className="absolute inset-0" />
         {loading && (
           <div className="absolute inset-0 flex items-center justify-center bg-[#121212] z-50">
              <div className="flex flex-col items-center text-center">
                  <Loader2 className="w-12 h-12 text-[#42a5f5] animate-spin mb-4" />
-                 <p className="text-[#e3e3e3] text-lg font-medium">Starting Engine...</p>
-                 {cameraError && <p className="text-red-500 mt-4 bg-red-500/10 px-4 py-2 rounded border border-red-500/20 max-w-md">{cameraError}</p>}
+                 <p className="text-[#e3e3e3] text-lg font-medium">{t('slingshot.loading')}</p>
              </div>
           </div>
         )}
-        <div className="absolute top-6 left-6 z-40"><div className="bg-[#1e1e1e] p-5 rounded-[28px] border border-[#444746] shadow-2xl flex items-center gap-4 min-w-[180px]"><div className="bg-[#42a5f5]/20 p-3 rounded-full"><Trophy className="w-6 h-6 text-[#42a5f5]" /></div><div><p className="text-xs text-[#c4c7c5] uppercase tracking-wider font-medium">Score</p><p className="text-3xl font-bold text-white">{score.toLocaleString()}</p></div></div></div>
-        <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-40"><div className="bg-[#1e1e1e] px-6 py-4 rounded-[32px] border border-[#444746] shadow-2xl flex items-center gap-4">{availableColors.map(color => (<button key={color} onClick={() => setSelectedColor(color)} className={`relative w-14 h-14 rounded-full transition-all duration-300 transform flex items-center justify-center ${selectedColor === color ? 'scale-110 ring-4 ring-white/50 z-10' : 'opacity-80'}`} style={{ background: `radial-gradient(circle at 35% 35%, ${COLOR_CONFIG[color].hex}, ${adjustColor(COLOR_CONFIG[color].hex, -60)})` }}>{selectedColor === color && <MousePointerClick className="w-6 h-6 text-white/90" />}</button>))}</div></div>
+        {cameraError && <p role="alert" className="absolute bottom-28 left-1/2 -translate-x-1/2 z-50 text-red-500 bg-[#121212]/90 px-4 py-2 rounded border border-red-500/20 max-w-md text-center">{describeCameraError(cameraError, locale)}</p>}
+        <div className="absolute top-6 left-6 z-40"><div className="bg-[#1e1e1e] p-5 rounded-[28px] border border-[#444746] shadow-2xl flex items-center gap-4 min-w-[180px]"><div className="bg-[#42a5f5]/20 p-3 rounded-full"><Trophy className="w-6 h-6 text-[#42a5f5]" /></div><div><p className="text-xs text-[#c4c7c5] uppercase tracking-wider font-medium">{t('slingshot.score')}</p><p className="text-3xl font-bold text-white">{formatNumber(score)}</p></div></div>
+          <div className="mt-3 bg-[#1e1e1e] px-5 py-3 rounded-[20px] border border-[#444746] shadow-2xl flex items-center justify-between gap-4"><p className="text-xs text-[#c4c7c5] uppercase tracking-wider font-medium truncate max-w-[140px]">{isPlaytest ? t('slingshot.playtest') : <>{t('slingshot.level')} <span className="text-white font-bold">{level}</span></>}{levelName && <span className="normal-case tracking-normal"> · {levelName}</span>}</p><div className="flex items-center gap-3">{shotsLeft !== null && <p className="flex items-center gap-1 text-xs text-[#c4c7c5]" title={t('slingshot.shotsLeft')}><Crosshair className="w-3 h-3" />{shotsLeft}</p>}{missesUntilDrop > 0 && <p className="flex items-center gap-1 text-xs text-[#c4c7c5]" title={t('slingshot.missesUntilDrop')}><ArrowDownToLine className="w-3 h-3" />{missesUntilDrop}</p>}</div></div>
+        </div>
+        {gameState === 'START' && !loading && !editorOpen && (
+          <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div className="bg-[#1e1e1e] p-8 rounded-[28px] border border-[#444746] shadow-2xl flex flex-col items-center text-center max-w-sm">
+              <h2 className="text-3xl font-bold text-white mb-2">Bubble Slingshot</h2>
+              <p className="text-[#c4c7c5] text-sm mb-6">{t('slingshot.intro')}</p>
+              <button onClick={() => startCountdown(level)} className="flex items-center gap-2 px-8 py-3 rounded-full bg-[#42a5f5] text-[#121212] font-bold hover:bg-[#64b5f6] transition-colors"><Play className="w-5 h-5" />{t('slingshot.startLevel', { level })}</button>
+              <button onClick={openEditor} className="mt-3 flex items-center gap-2 px-5 py-2 rounded-full text-xs font-medium text-[#c4c7c5] hover:bg-white/5"><PenTool className="w-3 h-3" />{t('slingshot.levelEditor')}</button>
+            </div>
+          </div>
+        )}
+        {editorOpen && <SlingshotLevelEditor initial={editorLevel ?? BLANK_LEVEL} onPlaytest={playtest} onClose={closeEditor} />}
+        {gameState === 'PLAYING' && paused && (
+          <div className="absolute inset-0 z-50 flex flex-col items-center justify-center gap-6 bg-black/50 backdrop-blur-sm">
+            <p className="flex items-center gap-3 text-6xl font-black text-white tracking-widest"><Pause className="w-12 h-12 fill-current" />{t('pause.title')}</p>
+            <button onClick={() => setPause(false)} className="flex items-center gap-2 px-8 py-3 rounded-full bg-[#42a5f5] text-[#121212] font-bold hover:bg-[#64b5f6] transition-colors"><Play className="w-5 h-5" />{t('pause.resume')}</button>
+          </div>
+        )}
+        {gameState === 'COUNTDOWN' && countdown !== null && (
+          <div className="absolute inset-0 z-50 flex items-center justify-center pointer-events-none"><span className="text-[160px] font-black text-white drop-shadow-2xl animate-pulse">{countdown > 0 ? countdown : t('slingshot.go')}</span></div>
+        )}
+        {gameState === 'GAMEOVER' && result && (
+          <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div className="bg-[#1e1e1e] p-8 rounded-[28px] border border-[#444746] shadow-2xl flex flex-col items-center text-center min-w-[320px]">
+              <p className="text-xs text-[#c4c7c5] uppercase tracking-wider font-medium mb-1">{t('slingshot.levelNumber', { level: result.level })}</p>
+              <h2 className={`text-3xl font-bold mb-4 ${result.status === 'lost' ? 'text-[#ef5350]' : 'text-white'}`}>{t(result.status === 'won' ? 'slingshot.won' : result.status === 'lost' ? 'slingshot.lost' : 'slingshot.ended')}</h2>
+              {result.status === 'won' && <div className="flex gap-2 mb-4">{[1, 2, 3].map(i => <Star key={i} className={`w-10 h-10 ${i <= result.stars ? 'text-[#ffee58] fill-[#ffee58]' : 'text-[#444746]'}`} />)}</div>}
+              <p className="text-4xl font-bold text-white mb-1">{formatNumber(result.score)}</p>
+              <p className="text-sm text-[#c4c7c5] mb-6">{t('slingshot.shotsPar', { shots: result.shots, par: result.par })}</p>
+              {!isPlaytest && <div className="w-full mb-6"><HighScoreTable game="slingshot" title={t('slingshot.highScores')} highlightId={lastRunId} />{globalRank !== null && <p className="mt-3 text-xs font-medium text-[#42a5f5]">{t('slingshot.globalRank', { rank: globalRank, level: result.level })}</p>}</div>}
+              <div className="flex gap-3">
+                <button onClick={() => startCountdown(result.level, result.layout)} className="flex items-center gap-2 px-6 py-3 rounded-full bg-[#2a2a2a] border border-[#444746] text-[#e3e3e3] font-medium hover:bg-[#333]"><RotateCcw className="w-4 h-4" />{t('slingshot.retry')}</button>
+                {isPlaytest && <button onClick={openEditor} className="flex items-center gap-2 px-6 py-3 rounded-full bg-[#42a5f5] text-[#121212] font-bold hover:bg-[#64b5f6]"><PenTool className="w-4 h-4" />{t('slingshot.editLevel')}</button>}
+                {result.status === 'won' && !isPlaytest && <button onClick={() => startCountdown(result.level + 1)} className="flex items-center gap-2 px-6 py-3 rounded-full bg-[#42a5f5] text-[#121212] font-bold hover:bg-[#64b5f6]">{t('slingshot.nextLevel')}<ChevronRight className="w-4 h-4" /></button>}
+              </div>
+            </div>
+          </div>
+        )}
+        <div className="absolute top-6 right-6 z-40 flex gap-2"><InputSettings value={inputKind} onChange={changeInputKind} /><AudioSettings /></div>
+        <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-40"><div className="bg-[#1e1e1e] px-6 py-4 rounded-[32px] border border-[#444746] shadow-2xl flex items-center gap-4">{availableColors.map(color => (<button key={color} disabled={isReplaying} onClick={() => setSelectedColor(color)} className={`relative w-14 h-14 rounded-full transition-all duration-300 transform flex items-center justify-center ${selectedColor === color ? 'scale-110 ring-4 ring-white/50 z-10' : 'opacity-80'}`} style={{ background: `radial-gradient(circle at 35% 35%, ${COLOR_CONFIG[color].hex}, ${adjustColor(COLOR_CONFIG[color].hex, -60)})` }}>{selectedColor === color && <MousePointerClick className="w-6 h-6 text-white/90" />}</button>))}</div></div>
       </div>
       <div className="w-[380px] bg-[#1e1e1e] border-l border-[#444746] flex flex-col h-full overflow-hidden shadow-2xl">
-        <div className="p-5 border-b-4 flex flex-col gap-2" style={{ backgroundColor: '#252525', borderColor: aiRecommendedColor ? COLOR_CONFIG[aiRecommendedColor].hex : '#444746' }}><div className="flex items-center justify-between"><div className="flex items-center gap-2"><BrainCircuit className="w-5 h-5 text-[#a8c7fa]" /><h2 className="font-bold text-sm tracking-widest uppercase text-[#a8c7fa]">Flash Strategy</h2></div>{isAiThinking && <Loader2 className="w-4 h-4 animate-spin text-white/50" />}</div><p className="text-[#e3e3e3] text-sm leading-relaxed font-bold">{aiHint}</p>{aiRationale && (<div className="flex gap-2 mt-1"><Lightbulb className="w-4 h-4 text-[#a8c7fa] shrink-0 mt-0.5" /><p className="text-[#a8c7fa] text-xs italic opacity-90 leading-tight">{aiRationale}</p></div>)}</div>
+        <div className="p-5 border-b-4 flex flex-col gap-2" style={{ backgroundColor: '#252525', borderColor: aiRecommendedColor ? COLOR_CONFIG[aiRecommendedColor].hex : '#444746' }}><div className="flex items-center justify-between"><div className="flex items-center gap-2"><BrainCircuit className="w-5 h-5 text-[#a8c7fa]" /><h2 className="font-bold text-sm tracking-widest uppercase text-[#a8c7fa]">{t('slingshot.strategyTitle')}</h2></div>{isAiThinking && <Loader2 className="w-4 h-4 animate-spin text-white/50" />}</div><p className="text-[#e3e3e3] text-sm leading-relaxed font-bold">{aiHint ?? t('slingshot.initializing')}</p>{aiRationale && (<div className="flex gap-2 mt-1"><Lightbulb className="w-4 h-4 text-[#a8c7fa] shrink-0 mt-0.5" /><p className="text-[#a8c7fa] text-xs italic opacity-90 leading-tight">{aiRationale}</p></div>)}{solverVerdict && <SolverBadge verdict={solverVerdict} />}</div>
+        <div className="p-5 border-b border-[#444746] flex flex-col gap-3">
+          <div className="flex items-center justify-between"><div className="flex items-center gap-2"><Film className="w-4 h-4 text-[#c4c7c5]" /><h3 className="font-bold text-xs tracking-widest uppercase text-[#c4c7c5]">{t('slingshot.replay')}</h3></div>{isReplaying && <span className="text-[10px] font-black tracking-widest text-[#ef5350] animate-pulse">{t('slingshot.replayPlaying')}</span>}</div>
+          <div className="flex gap-2">
+            <button disabled={!lastReplay || isReplaying || gameState === 'COUNTDOWN'} onClick={() => { if (lastReplay) watchReplay(lastReplay); }} className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-full bg-[#2a2a2a] border border-[#444746] text-xs font-medium text-[#e3e3e3] hover:bg-[#333] disabled:opacity-40"><Play className="w-3 h-3" />{t('slingshot.watch')}</button>
+            <button disabled={!lastReplay} onClick={() => { if (lastReplay) downloadReplay(lastReplay); }} className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-full bg-[#2a2a2a] border border-[#444746] text-xs font-medium text-[#e3e3e3] hover:bg-[#333] disabled:opacity-40"><Download className="w-3 h-3" />{t('slingshot.save')}</button>
+            <label className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-full bg-[#2a2a2a] border border-[#444746] text-xs font-medium text-[#e3e3e3] hover:bg-[#333] cursor-pointer"><Upload className="w-3 h-3" />{t('slingshot.load')}<input type="file" accept="application/json" className="hidden" onChange={onReplayFile} /></label>
+          </div>
+          {replayError && <p className="text-xs text-[#ef5350]">{replayError}</p>}
+        </div>
       </div>
     </div>
   );
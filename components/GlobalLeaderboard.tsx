@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { ReplayGame } from '../engine/replay';
+import { CAMPAIGN } from '../engine/slingshotLevels';
+import { getLeaderboardMode, getLeaderboardService, LeaderboardEntry, LeaderboardPeriod, LEADERBOARD_PERIODS } from '../services/leaderboardService';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from '../services/useI18n';
+import { Globe } from 'lucide-react';
+
+const PERIOD_LABELS: Record<LeaderboardPeriod, MessageKey> = { day: 'leaderboard.day', week: 'leaderboard.week', all: 'leaderboard.all' };
+
+const GAMES: { game: ReplayGame, label: string }[] = [{ game: 'slicer', label: 'Fruit Ninja' }, { game: 'slingshot', label: 'Slingshot' }];
+
+/** Online top 10 per game, mode and period. Renders nothing when no leaderboard server is configured. */
+const GlobalLeaderboard: React.FC = () => {
+  const service = getLeaderboardService();
+  const [game, setGame] = useState<ReplayGame>('slicer');
+  const [level, setLevel] = useState(1);
+  const [period, setPeriod] = useState<LeaderboardPeriod>('week');
+  const [entries, setEntries] = useState<LeaderboardEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { t, formatNumber } = useI18n();
+
+  useEffect(() => {
+    if (!service) return;
+    let cancelled = false;
+    setEntries(null); setError(null);
+    service.getTop(game, getLeaderboardMode(game, level), period)
+      .then(top => { if (!cancelled) setEntries(top); })
+      .catch(e => { if (!cancelled) setError(e.message || ''); });
+    return () => { cancelled = true; };
+  }, [service, game, level, period]);
+
+  if (!service) return null;
+  const tab = (active: boolean) => `px-2.5 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest transition-colors ${active ? 'bg-yellow-500 text-black' : 'text-neutral-400 hover:bg-white/10'}`;
+
+  return (
+    <div className="w-full bg-neutral-900/60 backdrop-blur-md rounded-2xl border border-white/10 p-4">
+      <div className="flex items-center gap-2 mb-3 flex-wrap">
+        <Globe className="w-4 h-4 text-yellow-500" />
+        <h3 className="text-[10px] font-bold uppercase tracking-widest text-neutral-400 mr-auto">{t('leaderboard.title')}</h3>
+        {GAMES.map(g => <button key={g.game} onClick={() => setGame(g.game)} className={tab(game === g.game)}>{g.label}</button>)}
+        {game === 'slingshot' && (
+          <select value={level} onChange={e => setLevel(Number(e.target.value))} className="bg-transparent text-[10px] font-bold uppercase text-white focus:outline-none">
+            {CAMPAIGN.map((l, i) => <option key={i} value={i + 1} className="bg-neutral-900">{t('scores.level', { level: i + 1 })} · {l.name}</option>)}
+          </select>
+        )}
+      </div>
+      <div className="flex gap-1 mb-3">{LEADERBOARD_PERIODS.map(p => <button key={p} onClick={() => setPeriod(p)} className={tab(period === p)}>{t(PERIOD_LABELS[p])}</button>)}</div>
+      {error !== null ? <p className="text-xs text-red-400 py-2">{error || t('leaderboard.unavailable')}</p> : entries === null ? null : entries.length === 0 ? (
+        <p className="text-xs text-neutral-500 py-2">{t('leaderboard.empty')}</p>
+      ) : (
+        <table className="w-full text-xs tabular-nums">
+          <tbody>
+            {entries.map((entry, i) => (
+              <tr key={entry.id} className="text-neutral-300">
+                <td className="py-1 pr-2 text-neutral-500 w-6">{i + 1}</td>
+                <td className="py-1 pr-2 truncate max-w-[160px]">{entry.player}</td>
+                <td className="py-1 pr-2 text-right font-bold">{formatNumber(entry.score)}</td>
+                <td className="py-1 text-right text-neutral-500">{t('scores.level', { level: entry.level })}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default GlobalLeaderboard;
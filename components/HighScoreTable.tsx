@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { ReplayGame } from '../engine/replay';
+import { Profile, RunRecord, statsStore } from '../services/storageService';
+import { useI18n } from '../services/useI18n';
+import { Trophy, Star } from 'lucide-react';
+
+interface HighScoreTableProps {
+  game: ReplayGame;
+  title: string;
+  /** Run to highlight, typically the one just finished. Changing it reloads the table. */
+  highlightId?: string | null;
+}
+
+/** Top-10 local runs of one game across all profiles. */
+const HighScoreTable: React.FC<HighScoreTableProps> = ({ game, title, highlightId }) => {
+  const [runs, setRuns] = useState<RunRecord[] | null>(null);
+  const [profiles, setProfiles] = useState<Record<string, Profile>>({});
+  const { t, formatNumber } = useI18n();
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([statsStore.getTopRuns(game), statsStore.listProfiles()])
+      .then(([top, all]) => { if (!cancelled) { setRuns(top); setProfiles(Object.fromEntries(all.map(p => [p.id, p]))); } })
+      .catch(e => { console.warn('Could not load high scores', e); if (!cancelled) setRuns([]); });
+    return () => { cancelled = true; };
+  }, [game, highlightId]);
+
+  return (
+    <div className="w-full bg-neutral-900/60 backdrop-blur-md rounded-2xl border border-white/10 p-4">
+      <div className="flex items-center gap-2 mb-3"><Trophy className="w-4 h-4 text-yellow-500" /><h3 className="text-[10px] font-bold uppercase tracking-widest text-neutral-400">{title}</h3></div>
+      {runs === null ? null : runs.length === 0 ? (
+        <p className="text-xs text-neutral-500 py-2">{t('scores.empty')}</p>
+      ) : (
+        <table className="w-full text-xs tabular-nums">
+          <tbody>
+            {runs.map((run, i) => (
+              <tr key={run.id} className={run.id === highlightId ? 'text-yellow-400 font-bold' : 'text-neutral-300'}>
+                <td className="py-1 pr-2 text-neutral-500 w-6">{i + 1}</td>
+                <td className="py-1 pr-2 truncate max-w-[120px]">{profiles[run.profileId]?.name ?? '—'}</td>
+                <td className="py-1 pr-2 text-right font-bold">{formatNumber(run.score)}</td>
+                <td className="py-1 pr-2 text-right text-neutral-500">{t('scores.level', { level: run.level })}</td>
+                <td className="py-1 text-right text-neutral-500">
+                  {run.stars !== undefined
+                    ? <span className="inline-flex">{[1, 2, 3].map(s => <Star key={s} className={`w-3 h-3 ${s <= run.stars! ? 'text-yellow-400 fill-yellow-400' : 'text-neutral-700'}`} />)}</span>
+                    : run.rank}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default HighScoreTable;
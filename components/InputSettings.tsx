@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Settings, Hand, Fingerprint, MousePointer2, Gamepad2, Check } from 'lucide-react';
+import { InputSourceKind, INPUT_SOURCE_KINDS, isInputSourceAvailable } from '../services/inputSources';
+import { useI18n } from '../services/useI18n';
+
+const ICONS: Record<InputSourceKind, React.FC<{ className?: string }>> = {
+  hand: Hand,
+  touch: Fingerprint,
+  pointer: MousePointer2,
+  gamepad: Gamepad2
+};
+
+const InputSettings: React.FC<{ value: InputSourceKind, onChange: (kind: InputSourceKind) => void }> = ({ value, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const { t } = useI18n();
+
+  return (
+    <div className="relative pointer-events-auto">
+      <button onClick={() => setOpen(o => !o)} className="p-3 bg-black/40 backdrop-blur-md rounded-full text-white/70 hover:bg-white/10 border border-white/5 transition-all active:scale-95" title={t('input.settings')}>
+        <Settings className="w-5 h-5" />
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-56 bg-neutral-900/95 backdrop-blur-xl rounded-2xl border border-white/10 shadow-2xl p-2 z-[150]">
+          <p className="px-3 py-2 text-[10px] font-bold uppercase tracking-widest text-neutral-500">{t('input.title')}</p>
+          {INPUT_SOURCE_KINDS.map(kind => {
+            const Icon = ICONS[kind];
+            const available = isInputSourceAvailable(kind);
+            return (
+              <button
+                key={kind}
+                disabled={!available}
+                onClick={() => { onChange(kind); setOpen(false); }}
+                className={`w-full flex items-center gap-3 px-3 py-2 rounded-xl text-sm text-left transition-colors ${value === kind ? 'bg-white/10 text-white' : 'text-neutral-300 hover:bg-white/5'} disabled:opacity-30 disabled:cursor-not-allowed`}
+              >
+                <Icon className="w-4 h-4" />
+                <span className="flex-1">{t(`input.${kind}`)}</span>
+                {value === kind && <Check className="w-4 h-4 text-yellow-500" />}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InputSettings;
@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { isLocale, LOCALE_NAMES, LOCALES, setLocale } from '../services/i18n';
+import { useI18n } from '../services/useI18n';
+
+/** Switches the UI, the fallback hints and the AI persona's language; the choice is remembered on this device. */
+const LanguagePicker: React.FC = () => {
+  const { locale, t } = useI18n();
+
+  return (
+    <label className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-white/5 border border-white/10 backdrop-blur-sm text-neutral-400 hover:text-white transition-colors" title={t('menu.language')}>
+      <Languages className="w-4 h-4" />
+      <select value={locale} onChange={e => { if (isLocale(e.target.value)) setLocale(e.target.value); }} className="bg-transparent text-xs font-bold focus:outline-none cursor-pointer" aria-label={t('menu.language')}>
+        {LOCALES.map(l => <option key={l} value={l} className="bg-neutral-900">{LOCALE_NAMES[l]}</option>)}
+      </select>
+    </label>
+  );
+};
+
+export default LanguagePicker;
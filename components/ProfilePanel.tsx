@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { Profile, statsStore } from '../services/storageService';
+import { FRUIT_CONFIG } from '../engine/slicerWorld';
+import { FruitType } from '../types';
+import { useI18n } from '../services/useI18n';
+import { UserRound, UserPlus, Check } from 'lucide-react';
+
+const FRUITS = (Object.keys(FRUIT_CONFIG) as FruitType[]).filter(type => type !== 'bomb');
+
+const formatPlayTime = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+/** Picks the local player profile runs are credited to and shows its lifetime stats. */
+const ProfilePanel: React.FC = () => {
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [active, setActive] = useState<Profile | null>(null);
+  const [newName, setNewName] = useState<string | null>(null);
+  const { t, formatNumber } = useI18n();
+
+  const reload = async () => {
+    const current = await statsStore.getActiveProfile();
+    setActive(current); setProfiles(await statsStore.listProfiles());
+  };
+
+  useEffect(() => { reload().catch(e => console.warn('Could not load profiles', e)); }, []);
+
+  const select = async (id: string) => { await statsStore.setActiveProfile(id); await reload(); };
+
+  const create = async () => {
+    if (newName === null) return;
+    await statsStore.createProfile(newName); setNewName(null); await reload();
+  };
+
+  if (!active) return null;
+  const { stats } = active;
+  const stat = (label: string, value: React.ReactNode) => (
+    <div className="flex flex-col"><span className="text-[10px] text-neutral-500 uppercase tracking-widest font-bold">{label}</span><span className="text-lg font-bold text-white tabular-nums">{value}</span></div>
+  );
+
+  return (
+    <div className="w-full bg-neutral-900/60 backdrop-blur-md rounded-2xl border border-white/10 p-4 flex flex-col gap-4">
+      <div className="flex items-center gap-2">
+        <UserRound className="w-4 h-4 text-yellow-500" />
+        <select value={active.id} onChange={e => select(e.target.value)} className="flex-1 bg-transparent text-sm font-bold text-white focus:outline-none">
+          {profiles.map(p => <option key={p.id} value={p.id} className="bg-neutral-900">{p.name}</option>)}
+        </select>
+        <button onClick={() => setNewName(newName === null ? '' : null)} className="p-1.5 rounded-full hover:bg-white/10" title={t('profile.new')}><UserPlus className="w-4 h-4 text-neutral-400" /></button>
+      </div>
+      {newName !== null && (
+        <div className="flex gap-2">
+          <input autoFocus value={newName} onChange={e => setNewName(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') create(); }} placeholder={t('profile.namePlaceholder')} maxLength={24} className="flex-1 bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-yellow-500/50" />
+          <button onClick={create} className="p-2 rounded-lg bg-yellow-500 text-black hover:bg-yellow-400"><Check className="w-4 h-4" /></button>
+        </div>
+      )}
+      <div className="grid grid-cols-3 gap-3">
+        {stat(t('profile.runs'), stats.runs)}
+        {stat(t('profile.totalScore'), formatNumber(stats.totalScore))}
+        {stat(t('profile.playTime'), formatPlayTime(stats.playTimeMs))}
+        {stat(t('profile.bestSlicer'), formatNumber(stats.bestScore.slicer))}
+        {stat(t('profile.bestSlingshot'), formatNumber(stats.bestScore.slingshot))}
+        {stat(t('profile.bombsHit'), stats.bombsHit)}
+      </div>
+      <div className="flex gap-3 flex-wrap">
+        {FRUITS.map(type => (
+          <span key={type} className="flex items-center gap-1.5 text-xs text-neutral-400"><span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: FRUIT_CONFIG[type].hex }} title={t(`fruit.${type}`)} />{stats.sliced[type] ?? 0}</span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ProfilePanel;
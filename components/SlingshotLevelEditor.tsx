@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useRef, useState } from 'react';
+import { BUBBLE_RADIUS, COLOR_CONFIG, COLOR_KEYS, GRID_COLS, GRID_ROWS, LevelCell, ROW_HEIGHT, SPECIAL_CONFIG, getBubblePos, isSpecialCell } from '../engine/bubbleGrid';
+import { CAMPAIGN, LevelData, LevelError, downloadLevel, padLevelGrid, readLevelFile, trimLevelGrid, validateLevel } from '../engine/slingshotLevels';
+import { useI18n } from '../services/useI18n';
+import { Play, Download, Upload, Eraser, Trash2, X, AlertTriangle, PenTool } from 'lucide-react';
+
+const BOARD_WIDTH = GRID_COLS * BUBBLE_RADIUS * 2;
+const BOARD_HEIGHT = (GRID_ROWS - 1) * ROW_HEIGHT + BUBBLE_RADIUS * 2;
+const BRUSHES: LevelCell[] = [...COLOR_KEYS, 'stone', 'bomb', null];
+
+export const BLANK_LEVEL: LevelData = { version: 1, name: 'New Level', grid: [], shotLimit: null, descentRate: 6, targetScore: null };
+
+const cellFill = (cell: LevelCell) => !cell ? 'transparent' : isSpecialCell(cell) ? SPECIAL_CONFIG[cell].hex : COLOR_CONFIG[cell].hex;
+
+/** Blank inputs mean "no limit"; anything else must parse as a number for the validator to judge. */
+const parseOptional = (text: string) => text.trim() === '' ? null : Number(text);
+
+interface SlingshotLevelEditorProps {
+  initial: LevelData;
+  onPlaytest: (level: LevelData) => void;
+  onClose: () => void;
+}
+
+/**
+ * Paints authored Slingshot boards on the hex grid. The painted board is
+ * trimmed and validated on every change; only valid levels can be exported
+ * or playtested.
+ */
+const SlingshotLevelEditor: React.FC<SlingshotLevelEditorProps> = ({ initial, onPlaytest, onClose }) => {
+  const [grid, setGrid] = useState<LevelCell[][]>(() => padLevelGrid(initial.grid));
+  const [name, setName] = useState(initial.name);
+  const [shotLimit, setShotLimit] = useState(initial.shotLimit === null ? '' : String(initial.shotLimit));
+  const [descentRate, setDescentRate] = useState(String(initial.descentRate));
+  const [targetScore, setTargetScore] = useState(initial.targetScore === null ? '' : String(initial.targetScore));
+  const [brush, setBrush] = useState<LevelCell>('red');
+  const [importError, setImportError] = useState<string | null>(null);
+  const painting = useRef(false);
+  const { t } = useI18n();
+  const cellLabel = (cell: LevelCell) => !cell ? t('editor.eraser') : isSpecialCell(cell) ? t(`special.${cell}`) : t(`color.${cell}`);
+
+  const level = useMemo<LevelData>(() => ({
+    version: 1, name, grid: trimLevelGrid(grid),
+    shotLimit: parseOptional(shotLimit), descentRate: Number(descentRate), targetScore: parseOptional(targetScore)
+  }), [grid, name, shotLimit, descentRate, targetScore]);
+  const problems = useMemo(() => validateLevel(level), [level]);
+
+  const load = (source: LevelData) => {
+    setGrid(padLevelGrid(source.grid)); setName(source.name);
+    setShotLimit(source.shotLimit === null ? '' : String(source.shotLimit));
+    setDescentRate(String(source.descentRate));
+    setTargetScore(source.targetScore === null ? '' : String(source.targetScore));
+    setImportError(null);
+  };
+
+  const paint = (row: number, col: number) => {
+    if (grid[row][col] === brush) return;
+    setGrid(g => g.map((cells, r) => r === row ? cells.map((cell, c) => c === col ? brush : cell) : cells));
+  };
+
+  const onImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]; e.target.value = '';
+    if (!file) return;
+    try {
+      load(await readLevelFile(file));
+    } catch (err: any) {
+      setImportError(err instanceof LevelError ? err.problems.map(p => t(p.key, p.params)).join('; ') : t('editor.readError'));
+    }
+  };
+
+  const inputClass = 'w-full bg-[#2a2a2a] border border-[#444746] rounded-xl px-3 py-2 text-sm text-[#e3e3e3] focus:outline-none focus:border-[#42a5f5]';
+  const buttonClass = 'flex items-center justify-center gap-2 px-4 py-2 rounded-full bg-[#2a2a2a] border border-[#444746] text-xs font-medium text-[#e3e3e3] hover:bg-[#333] disabled:opacity-40';
+
+  return (
+    <div className="absolute inset-0 z-[60] bg-[#121212]/95 backdrop-blur-sm flex items-center justify-center p-6" onPointerUp={() => { painting.current = false; }} onPointerLeave={() => { painting.current = false; }}>
+      <div className="bg-[#1e1e1e] rounded-[28px] border border-[#444746] shadow-2xl flex max-h-full overflow-hidden">
+        <div className="p-6 flex flex-col gap-4 overflow-auto">
+          <div className="flex items-center gap-2"><PenTool className="w-5 h-5 text-[#42a5f5]" /><h2 className="font-bold text-sm tracking-widest uppercase text-[#e3e3e3]">{t('editor.title')}</h2></div>
+          <div className="flex gap-2">
+            {BRUSHES.map(cell => (
+              <button key={cell ?? 'empty'} title={cellLabel(cell)} onClick={() => setBrush(cell)} className={`w-10 h-10 rounded-full flex items-center justify-center border-2 transition-transform ${brush === cell ? 'scale-110 border-white' : 'border-[#444746]'}`} style={{ backgroundColor: cellFill(cell) }}>
+                {!cell && <Eraser className="w-4 h-4 text-[#c4c7c5]" />}
+                {cell === 'bomb' && <span className="w-3 h-3 rounded-full bg-[#ef5350]" />}
+              </button>
+            ))}
+          </div>
+          <svg width={BOARD_WIDTH} height={BOARD_HEIGHT} className="bg-[#121212] rounded-2xl border border-[#444746] touch-none select-none" onPointerDown={e => {
+            painting.current = true;
+            // Touch captures the pointer to the circle it started on, which would keep the others from seeing it enter
+            const target = e.target as Element;
+            if (target.hasPointerCapture(e.pointerId)) target.releasePointerCapture(e.pointerId);
+          }}>
+            {grid.map((cells, row) => cells.map((cell, col) => {
+              const { x, y } = getBubblePos(row, col, BOARD_WIDTH);
+              return (
+                <circle key={`${row}-${col}`} cx={x} cy={y} r={BUBBLE_RADIUS - 2}
+                  fill={cell ? cellFill(cell) : '#1e1e1e'} stroke={cell === 'bomb' ? '#ef5350' : '#444746'} strokeWidth={cell === 'bomb' ? 3 : 1}
+                  className="cursor-pointer"
+                  onPointerDown={() => paint(row, col)}
+                  onPointerEnter={() => { if (painting.current) paint(row, col); }} />
+              );
+            }))}
+          </svg>
+        </div>
+        <div className="w-[300px] border-l border-[#444746] p-6 flex flex-col gap-4 overflow-auto">
+          <div className="flex justify-end"><button onClick={onClose} className="p-2 rounded-full hover:bg-white/10" title={t('editor.close')}><X className="w-4 h-4 text-[#c4c7c5]" /></button></div>
+          <label className="flex flex-col gap-1 text-xs text-[#c4c7c5] uppercase tracking-wider font-medium">{t('editor.name')}<input className={inputClass} value={name} onChange={e => setName(e.target.value)} /></label>
+          <label className="flex flex-col gap-1 text-xs text-[#c4c7c5] uppercase tracking-wider font-medium">{t('editor.shotLimit')}<input className={inputClass} type="number" min={1} placeholder={t('editor.unlimited')} value={shotLimit} onChange={e => setShotLimit(e.target.value)} /></label>
+          <label className="flex flex-col gap-1 text-xs text-[#c4c7c5] uppercase tracking-wider font-medium">{t('editor.descentRate')}<input className={inputClass} type="number" min={0} value={descentRate} onChange={e => setDescentRate(e.target.value)} /></label>
+          <label className="flex flex-col gap-1 text-xs text-[#c4c7c5] uppercase tracking-wider font-medium">{t('editor.targetScore')}<input className={inputClass} type="number" min={1} placeholder={t('editor.clearTheBoard')} value={targetScore} onChange={e => setTargetScore(e.target.value)} /></label>
+          <label className="flex flex-col gap-1 text-xs text-[#c4c7c5] uppercase tracking-wider font-medium">{t('editor.startFrom')}
+            <select className={inputClass} value="" onChange={e => { const source = e.target.value === 'blank' ? BLANK_LEVEL : CAMPAIGN[Number(e.target.value)]; if (source) load(source); }}>
+              <option value="" disabled>{t('editor.chooseLevel')}</option>
+              <option value="blank">{t('editor.blankBoard')}</option>
+              {CAMPAIGN.map((l, i) => <option key={l.name} value={i}>{i + 1}. {l.name}</option>)}
+            </select>
+          </label>
+          {problems.length > 0 && (
+            <div className="flex flex-col gap-1 bg-[#ef5350]/10 border border-[#ef5350]/20 rounded-xl p-3 max-h-40 overflow-auto">
+              {problems.map(p => t(p.key, p.params)).map(message => <p key={message} className="flex gap-2 text-xs text-[#ef5350]"><AlertTriangle className="w-3 h-3 shrink-0 mt-0.5" />{message}</p>)}
+            </div>
+          )}
+          {importError && <p className="text-xs text-[#ef5350]">{importError}</p>}
+          <div className="mt-auto flex flex-col gap-2">
+            <button disabled={problems.length > 0} onClick={() => onPlaytest(level)} className="flex items-center justify-center gap-2 px-4 py-3 rounded-full bg-[#42a5f5] text-[#121212] font-bold hover:bg-[#64b5f6] disabled:opacity-40"><Play className="w-4 h-4" />{t('editor.playtest')}</button>
+            <div className="flex gap-2">
+              <button disabled={problems.length > 0} onClick={() => downloadLevel(level)} className={`flex-1 ${buttonClass}`}><Download className="w-3 h-3" />{t('editor.export')}</button>
+              <label className={`flex-1 cursor-pointer ${buttonClass}`}><Upload className="w-3 h-3" />{t('editor.import')}<input type="file" accept="application/json" className="hidden" onChange={onImport} /></label>
+              <button onClick={() => setGrid(padLevelGrid([]))} className={buttonClass} title={t('editor.clearBoard')}><Trash2 className="w-3 h-3" /></button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SlingshotLevelEditor;
@@ -0,0 +1,27 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useSyncExternalStore } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { applyUpdate, dismissUpdate, isUpdateWaiting, subscribeUpdate } from '../services/serviceWorker';
+import { useI18n } from '../services/useI18n';
+
+/** Offers to reload into a newer build once its service worker has installed. */
+const UpdatePrompt: React.FC = () => {
+  const waiting = useSyncExternalStore(subscribeUpdate, isUpdateWaiting);
+  const { t } = useI18n();
+  if (!waiting) return null;
+
+  return (
+    <div role="status" className="absolute bottom-6 left-1/2 -translate-x-1/2 z-[250] flex items-center gap-3 pl-4 pr-2 py-2 rounded-full bg-neutral-900/95 backdrop-blur-xl border border-yellow-500/30 shadow-2xl text-sm text-neutral-200 animate-in fade-in slide-in-from-bottom-4">
+      <RefreshCw className="w-4 h-4 text-yellow-400 shrink-0" />
+      <span>{t('update.available')}</span>
+      <button onClick={applyUpdate} className="px-3 py-1.5 rounded-full bg-yellow-500 text-black font-bold text-xs hover:bg-yellow-400 active:scale-95 transition-all">{t('update.reload')}</button>
+      <button onClick={dismissUpdate} className="px-3 py-1.5 rounded-full text-neutral-400 text-xs hover:text-white hover:bg-white/10 transition-colors">{t('update.later')}</button>
+    </div>
+  );
+};
+
+export default UpdatePrompt;
@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest';
+import { BubbleGrid, BUBBLE_RADIUS, getBlastScore, colsInRow, COLOR_CONFIG, DROP_BONUS_MULT, getBubblePos, getDropScore, getMatchScore, getNeighborCells, GRID_COLS, ROW_HEIGHT } from './bubbleGrid';
+import { createRng } from './random';
+
+const WIDTH = 800;
+
+describe('getNeighborCells', () => {
+  it('matches the odd-row offset of getBubblePos', () => {
+    for (const [row, col] of [[2, 5], [3, 5], [0, 0], [1, 10]]) {
+      const center = getBubblePos(row, col, WIDTH);
+      getNeighborCells(row, col).forEach(cell => {
+        const p = getBubblePos(cell.row, cell.col, WIDTH);
+        expect(Math.hypot(p.x - center.x, p.y - center.y)).toBeCloseTo(BUBBLE_RADIUS * 2);
+      });
+    }
+  });
+
+  it('returns six cells inside the board and clips at the edges', () => {
+    expect(getNeighborCells(2, 5)).toHaveLength(6);
+    expect(getNeighborCells(0, 0)).toEqual([{ row: 0, col: 1 }, { row: 1, col: 0 }]);
+    expect(getNeighborCells(1, colsInRow(1) - 1)).toHaveLength(5);
+  });
+});
+
+describe('BubbleGrid.match', () => {
+  it('pops a connected group of three or more', () => {
+    const grid = new BubbleGrid(WIDTH);
+    grid.place(0, 0, 'red', 'a'); grid.place(0, 1, 'red', 'b');
+    const shot = grid.place(1, 0, 'red', 'shot');
+
+    const popped = grid.match(shot);
+
+    expect(popped.map(b => b.id).sort()).toEqual(['a', 'b', 'shot']);
+    expect(grid.active).toHaveLength(0);
+  });
+
+  it('leaves a group of two alone', () => {
+    const grid = new BubbleGrid(WIDTH);
+    grid.place(0, 0, 'blue', 'a');
+    const shot = grid.place(0, 1, 'blue', 'shot');
+
+    expect(grid.match(shot)).toEqual([]);
+    expect(grid.active).toHaveLength(2);
+  });
+
+  it('does not pop bubbles of another color', () => {
+    const grid = new BubbleGrid(WIDTH);
+    grid.place(0, 0, 'green', 'a'); grid.place(0, 1, 'green', 'b'); grid.place(0, 2, 'yellow', 'c');
+    const shot = grid.place(1, 0, 'green', 'shot');
+
+    grid.match(shot);
+
+    expect(grid.active.map(b => b.id)).toEqual(['c']);
+  });
+});
+
+describe('BubbleGrid adjacency', () => {
+  it('does not connect same-color bubbles that are only in neighboring rows', () => {
+    const grid = new BubbleGrid(WIDTH);
+    grid.place(0, 0, 'red', 'a'); grid.place(0, 8, 'red', 'far');
+    const shot = grid.place(1, 0, 'red', 'shot');
+
+    expect(grid.match(shot)).toEqual([]);
+    expect(grid.cluster(shot).map(b => b.id).sort()).toEqual(['a', 'shot']);
+  });
+});
+
+describe('BubbleGrid.dropFloating', () => {
+  it('drops bubbles that lost their connection to the ceiling', () => {
+    const grid = new BubbleGrid(WIDTH);
+    grid.place(0, 0, 'blue', 'top'); grid.place(0, 1, 'blue', 'top2');
+    grid.place(1, 0, 'red', 'hanger');
+    grid.place(2, 0, 'yellow', 'dangling');
+    grid.place(0, 6, 'green', 'other');
+    const shot = grid.place(1, 1, 'blue', 'shot');
+
+    expect(grid.match(shot).map(b => b.id).sort()).toEqual(['shot', 'top', 'top2']);
+    const dropped = grid.dropFloating();
+
+    expect(dropped.map(b => b.id).sort()).toEqual(['dangling', 'hanger']);
+    expect(grid.active.map(b => b.id)).toEqual(['other']);
+    expect(getDropScore(dropped)).toBe((COLOR_CONFIG.red.points + COLOR_CONFIG.yellow.points) * DROP_BONUS_MULT);
+  });
+
+  it('keeps everything that still hangs from row 0', () => {
+    const grid = BubbleGrid.random(WIDTH, createRng(5));
+    expect(grid.dropFloating().length + grid.active.length).toBe(grid.bubbles.length);
+    const full = new BubbleGrid(WIDTH);
+    for (let r = 0; r < 3; r++) for (let c = 0; c < colsInRow(r); c++) full.place(r, c, 'red', `${r}-${c}`);
+    expect(full.dropFloating()).toEqual([]);
+  });
+});
+
+describe('getMatchScore', () => {
+  it('pays 1.5x for combos above the minimum', () => {
+    expect(getMatchScore(3, 'red')).toBe(3 * COLOR_CONFIG.red.points);
+    expect(getMatchScore(4, 'red')).toBe(Math.floor(4 * COLOR_CONFIG.red.points * 1.5));
+  });
+});
+
+describe('BubbleGrid.reachableClusters', () => {
+  it('summarizes every cluster that has a clear shot from the anchor', () => {
+    const grid = new BubbleGrid(WIDTH);
+    grid.place(0, 0, 'red', 'r1'); grid.place(0, 1, 'red', 'r2');
+    grid.place(0, 10, 'orange', 'o1');
+    const anchor = { x: WIDTH / 2, y: 600 };
+
+    const clusters = grid.reachableClusters(anchor);
+
+    expect(clusters).toHaveLength(2);
+    expect(clusters.find(c => c.color === 'red')).toMatchObject({ size: 2, pointsPerBubble: COLOR_CONFIG.red.points, description: 'Left' });
+    expect(clusters.find(c => c.color === 'orange')).toMatchObject({ id: 'o1', size: 1, description: 'Right' });
+  });
+
+  it('skips clusters hidden behind other bubbles', () => {
+    const grid = new BubbleGrid(WIDTH);
+    const col = GRID_COLS / 2;
+    grid.place(0, col, 'purple', 'hidden');
+    // A full row right below blocks every straight line from the anchor
+    for (let c = 0; c < colsInRow(3); c++) grid.place(3, c, 'blue', `wall-${c}`);
+    const anchor = { x: getBubblePos(0, col, WIDTH).x, y: 600 };
+
+    const clusters = grid.reachableClusters(anchor);
+
+    expect(clusters.some(c => c.color === 'purple')).toBe(false);
+    expect(clusters.some(c => c.color === 'blue')).toBe(true);
+  });
+});
+
+describe('BubbleGrid.snap', () => {
+  it('settles next to the bubble that was hit', () => {
+    const grid = new BubbleGrid(WIDTH);
+    const hit = grid.place(2, 5, 'red', 'hit');
+    const center = getBubblePos(2, 5, WIDTH);
+    // Coming in from below-right of the hit bubble
+    const cell = grid.snap({ x: center.x + BUBBLE_RADIUS, y: center.y + BUBBLE_RADIUS * 1.5 }, hit);
+    expect(cell).toEqual({ row: 3, col: 5 });
+    expect(getNeighborCells(2, 5)).toContainEqual(cell);
+  });
+
+  it('skips neighbors that are already taken', () => {
+    const grid = new BubbleGrid(WIDTH);
+    const hit = grid.place(2, 5, 'red', 'hit');
+    grid.place(3, 5, 'blue', 'taken');
+    const center = getBubblePos(2, 5, WIDTH);
+    const cell = grid.snap({ x: center.x + BUBBLE_RADIUS, y: center.y + BUBBLE_RADIUS * 1.5 }, hit);
+    expect(cell).not.toEqual({ row: 3, col: 5 });
+    expect(getNeighborCells(2, 5)).toContainEqual(cell);
+  });
+
+  it('uses the top row when the ball reaches the ceiling', () => {
+    const grid = new BubbleGrid(WIDTH);
+    const pos = getBubblePos(0, 7, WIDTH);
+    expect(grid.snap({ x: pos.x + 3, y: 5 }, 'ceiling')).toEqual({ row: 0, col: 7 });
+  });
+
+  it('reports what the ball collides with', () => {
+    const grid = new BubbleGrid(WIDTH);
+    const hit = grid.place(2, 5, 'red', 'hit');
+    expect(grid.collides({ x: hit.x, y: hit.y + BUBBLE_RADIUS })).toBe(hit);
+    expect(grid.collides({ x: 10, y: 5 })).toBe('ceiling');
+    expect(grid.collides({ x: hit.x, y: hit.y + BUBBLE_RADIUS * 3 })).toBeNull();
+  });
+});
+
+describe('BubbleGrid.random', () => {
+  it('is reproducible from the seed', () => {
+    const a = BubbleGrid.random(WIDTH, createRng(42));
+    const b = BubbleGrid.random(WIDTH, createRng(42));
+    expect(a.bubbles).toEqual(b.bubbles);
+    expect(a.maxRow()).toBe(4);
+  });
+});
+
+describe('BubbleGrid.lowerCeiling', () => {
+  it('moves the ceiling and every bubble down one row', () => {
+    const grid = new BubbleGrid(WIDTH);
+    const top = grid.place(0, 3, 'red', 'top');
+    const y = top.y; const bottom = grid.bottomY();
+    grid.lowerCeiling();
+    expect(top.y).toBeCloseTo(y + ROW_HEIGHT);
+    expect(grid.bottomY()).toBeCloseTo(bottom + ROW_HEIGHT);
+    expect(grid.collides({ x: 10, y: grid.ceilingY + 5 })).toBe('ceiling');
+    expect(grid.place(1, 3, 'blue', 'next').y).toBeCloseTo(getBubblePos(1, 3, WIDTH, 1).y);
+  });
+});
+
+describe('BubbleGrid specials', () => {
+  it('builds authored boards and keeps stones out of clusters and colors', () => {
+    const grid = BubbleGrid.fromLayout(WIDTH, [['red', 'stone', 'red'], ['red']]);
+    const stone = grid.at(0, 1)!;
+    expect(stone.special).toBe('stone');
+    expect(grid.remaining).toHaveLength(3);
+    expect(grid.availableColors()).toEqual(['red']);
+    expect(grid.cluster(grid.at(0, 0)!).map(b => b.id).sort()).toEqual(['0-0', '1-0']);
+    expect(grid.cluster(stone)).toEqual([stone]);
+  });
+
+  it('blasts a bomb together with its neighbors', () => {
+    const grid = BubbleGrid.fromLayout(WIDTH, [['blue', 'bomb', 'green', 'yellow']]);
+    const blasted = grid.explode(grid.at(0, 1)!);
+    expect(blasted.map(b => b.id).sort()).toEqual(['0-0', '0-1', '0-2']);
+    expect(getBlastScore(blasted)).toBe(COLOR_CONFIG.blue.points + COLOR_CONFIG.green.points);
+    expect(grid.active.map(b => b.id)).toEqual(['0-3']);
+  });
+});
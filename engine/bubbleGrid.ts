@@ -0,0 +1,273 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Bubble, BubbleColor, Point, SpecialBubble, TargetCandidate } from '../types';
+import { Rng } from './random';
+
+export const BUBBLE_RADIUS = 22;
+export const ROW_HEIGHT = BUBBLE_RADIUS * Math.sqrt(3);
+export const GRID_COLS = 12;
+export const GRID_ROWS = 8;
+export const MIN_MATCH = 3;
+// Bubbles cut loose from the ceiling pay this multiple of their color's points
+export const DROP_BONUS_MULT = 2;
+// Centers closer than this count as touching (a little under two radii so glancing shots pass)
+export const COLLISION_DIST = BUBBLE_RADIUS * 1.8;
+
+export const COLOR_CONFIG: Record<BubbleColor, { hex: string, points: number, label: string }> = {
+  red:    { hex: '#ef5350', points: 100, label: 'Red' },
+  blue:   { hex: '#42a5f5', points: 150, label: 'Blue' },
+  green:  { hex: '#66bb6a', points: 200, label: 'Green' },
+  yellow: { hex: '#ffee58', points: 250, label: 'Yellow' },
+  purple: { hex: '#ab47bc', points: 300, label: 'Purple' },
+  orange: { hex: '#ffa726', points: 500, label: 'Orange' }
+};
+
+export const COLOR_KEYS: BubbleColor[] = ['red', 'blue', 'green', 'yellow', 'purple', 'orange'];
+
+export const SPECIAL_CONFIG: Record<SpecialBubble, { hex: string, label: string }> = {
+  stone: { hex: '#78909c', label: 'Stone' },
+  bomb:  { hex: '#263238', label: 'Bomb' }
+};
+
+/** One cell of an authored board: a color, a special bubble, or empty. */
+export type LevelCell = BubbleColor | SpecialBubble | null;
+
+export const isSpecialCell = (cell: LevelCell): cell is SpecialBubble => cell === 'stone' || cell === 'bomb';
+
+/** Odd rows are shifted half a bubble right and hold one bubble less. */
+export const colsInRow = (row: number) => row % 2 !== 0 ? GRID_COLS - 1 : GRID_COLS;
+
+/** Center of a cell. `ceiling` is how many rows the ceiling has come down; row 0 always hangs from it. */
+export const getBubblePos = (row: number, col: number, width: number, ceiling = 0): Point => {
+  const xO = (width - (GRID_COLS * BUBBLE_RADIUS * 2)) / 2 + BUBBLE_RADIUS;
+  return { x: xO + col * (BUBBLE_RADIUS * 2) + (row % 2 !== 0 ? BUBBLE_RADIUS : 0), y: BUBBLE_RADIUS + (row + ceiling) * ROW_HEIGHT };
+};
+
+/**
+ * The up to six cells touching `row`/`col` on the offset-hex grid. Even rows
+ * touch columns c-1 and c of the rows above/below, odd rows (shifted right
+ * by half a bubble in `getBubblePos`) touch columns c and c+1.
+ */
+export const getNeighborCells = (row: number, col: number): { row: number, col: number }[] => {
+  const shift = row % 2 !== 0 ? 0 : -1;
+  const cells = [
+    { row, col: col - 1 }, { row, col: col + 1 },
+    { row: row - 1, col: col + shift }, { row: row - 1, col: col + shift + 1 },
+    { row: row + 1, col: col + shift }, { row: row + 1, col: col + shift + 1 }
+  ];
+  return cells.filter(c => c.row >= 0 && c.col >= 0 && c.col < colsInRow(c.row));
+};
+
+/** Points for popping `count` bubbles of `color` at once; combos above the minimum pay 1.5x. */
+export const getMatchScore = (count: number, color: BubbleColor) =>
+  Math.floor(count * COLOR_CONFIG[color].points * (count > MIN_MATCH ? 1.5 : 1.0));
+
+/** Bonus for bubbles that fell after losing their connection to the ceiling. Specials are worth nothing. */
+export const getDropScore = (dropped: Bubble[]) =>
+  dropped.reduce((sum, b) => b.special ? sum : sum + COLOR_CONFIG[b.color].points * DROP_BONUS_MULT, 0);
+
+/** Points for the colored bubbles caught in a bomb blast. */
+export const getBlastScore = (blasted: Bubble[]) =>
+  blasted.reduce((sum, b) => b.special ? sum : sum + COLOR_CONFIG[b.color].points, 0);
+
+/**
+ * Headless Bubble Slingshot board on an offset-hex grid: placement, match-3
+ * popping, dropping cut-loose bubbles and the reachability analysis fed to
+ * the strategy AI. Pure data, no canvas.
+ */
+export class BubbleGrid {
+  bubbles: Bubble[] = [];
+  /** Rows the ceiling has descended so far. */
+  ceiling = 0;
+
+  constructor(public width: number) {}
+
+  /** Fills the top `rows` rows with the first `colors` colors, leaving ~10% of the cells empty. */
+  static random(width: number, rng: Rng, rows = 5, colors = COLOR_KEYS.length) {
+    const grid = new BubbleGrid(width);
+    const palette = COLOR_KEYS.slice(0, colors);
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < colsInRow(r); c++) {
+        if (rng.next() > 0.1) grid.place(r, c, rng.pick(palette), `${r}-${c}`);
+      }
+    }
+    return grid;
+  }
+
+  /** Builds an authored board; row `r` of `cells` fills the grid's row `r` from column 0. */
+  static fromLayout(width: number, cells: LevelCell[][]) {
+    const grid = new BubbleGrid(width);
+    cells.forEach((row, r) => row.forEach((cell, c) => {
+      if (!cell) return;
+      if (isSpecialCell(cell)) grid.place(r, c, COLOR_KEYS[0], `${r}-${c}`, cell);
+      else grid.place(r, c, cell, `${r}-${c}`);
+    }));
+    return grid;
+  }
+
+  /** Independent copy, e.g. for trying out a shot without touching the live board. */
+  clone() {
+    const grid = new BubbleGrid(this.width);
+    grid.ceiling = this.ceiling;
+    grid.bubbles = this.bubbles.map(b => ({ ...b }));
+    return grid;
+  }
+
+  /** Y of the ceiling's lower edge. */
+  get ceilingY() { return this.ceiling * ROW_HEIGHT; }
+
+  get active() { return this.bubbles.filter(b => b.active); }
+
+  /** Active bubbles that still have to be cleared, i.e. everything but specials. */
+  get remaining() { return this.bubbles.filter(b => b.active && !b.special); }
+
+  at(row: number, col: number) {
+    return this.bubbles.find(b => b.active && b.row === row && b.col === col);
+  }
+
+  /** Active bubbles touching `bubble`. */
+  neighbors(bubble: Bubble): Bubble[] {
+    return getNeighborCells(bubble.row, bubble.col).map(c => this.at(c.row, c.col)).filter((b): b is Bubble => !!b);
+  }
+
+  /** Active bubbles connected to `start` through bubbles of its color, including `start`. Specials never join a cluster. */
+  cluster(start: Bubble): Bubble[] {
+    const cluster: Bubble[] = [start]; const visited = new Set<string>([start.id]);
+    if (start.special) return cluster;
+    for (let i = 0; i < cluster.length; i++) {
+      this.neighbors(cluster[i]).forEach(n => {
+        if (n.special || n.color !== start.color || visited.has(n.id)) return;
+        visited.add(n.id); cluster.push(n);
+      });
+    }
+    return cluster;
+  }
+
+  place(row: number, col: number, color: BubbleColor, id: string, special?: SpecialBubble): Bubble {
+    const { x, y } = getBubblePos(row, col, this.width, this.ceiling);
+    const bubble: Bubble = { id, row, col, x, y, color, active: true };
+    if (special) bubble.special = special;
+    this.bubbles.push(bubble);
+    return bubble;
+  }
+
+  /**
+   * Pops the same-color group connected to `start` if it has at least
+   * MIN_MATCH bubbles. Returns the popped bubbles (empty when nothing popped).
+   */
+  match(start: Bubble): Bubble[] {
+    const matches = this.cluster(start);
+    if (matches.length < MIN_MATCH) return [];
+    matches.forEach(b => { b.active = false; });
+    return matches;
+  }
+
+  /** Sets off `bomb`, removing it and every bubble touching it. Returns the removed bubbles. */
+  explode(bomb: Bubble): Bubble[] {
+    const blasted = [bomb, ...this.neighbors(bomb)];
+    blasted.forEach(b => { b.active = false; });
+    return blasted;
+  }
+
+  /** Removes every bubble no longer connected to the ceiling (row 0). Returns the dropped bubbles. */
+  dropFloating(): Bubble[] {
+    const attached = this.active.filter(b => b.row === 0); const visited = new Set(attached.map(b => b.id));
+    for (let i = 0; i < attached.length; i++) {
+      this.neighbors(attached[i]).forEach(n => { if (!visited.has(n.id)) { visited.add(n.id); attached.push(n); } });
+    }
+    const dropped = this.active.filter(b => !visited.has(b.id));
+    dropped.forEach(b => { b.active = false; });
+    return dropped;
+  }
+
+  /** Pushes the ceiling, and every bubble hanging from it, down one row. */
+  lowerCeiling() {
+    this.ceiling++;
+    this.bubbles.forEach(b => { b.y = getBubblePos(b.row, b.col, this.width, this.ceiling).y; });
+  }
+
+  /** Lowest point reached by any active bubble, or the ceiling when the board is empty. */
+  bottomY() {
+    return this.bubbles.reduce((max, b) => b.active ? Math.max(max, b.y + BUBBLE_RADIUS) : max, this.ceilingY);
+  }
+
+  /** True when a straight shot from `from` reaches `target` without clipping another bubble. */
+  isPathClear(from: Point, target: Bubble) {
+    const dx = target.x - from.x; const dy = target.y - from.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    const steps = Math.ceil(distance / (BUBBLE_RADIUS / 2));
+    for (let i = 1; i < steps - 2; i++) {
+      const t = i / steps; const cx = from.x + dx * t; const cy = from.y + dy * t;
+      for (const b of this.bubbles) { if (!b.active || b.id === target.id) continue; if ((cx - b.x) ** 2 + (cy - b.y) ** 2 < COLLISION_DIST ** 2) return false; }
+    }
+    return true;
+  }
+
+  /** Every same-color cluster with at least one bubble that can be hit directly from `anchor`. */
+  reachableClusters(anchor: Point): TargetCandidate[] {
+    const activeBubbles = this.remaining;
+    const colors = Array.from(new Set(activeBubbles.map(b => b.color)));
+    const allClusters: TargetCandidate[] = [];
+    for (const color of colors) {
+      const visited = new Set<string>();
+      for (const b of activeBubbles) {
+        if (b.color !== color || visited.has(b.id)) continue;
+        const cluster = this.cluster(b); cluster.forEach(m => visited.add(m.id));
+        cluster.sort((a, b) => b.y - a.y);
+        const hittable = cluster.find(m => this.isPathClear(anchor, m));
+        if (hittable) {
+          const xP = hittable.x / (this.width || 1000);
+          allClusters.push({ id: hittable.id, color, size: cluster.length, row: hittable.row, col: hittable.col, pointsPerBubble: COLOR_CONFIG[color].points, description: xP < 0.33 ? "Left" : xP > 0.66 ? "Right" : "Center" });
+        }
+      }
+    }
+    return allClusters;
+  }
+
+  /** What a ball at `pos` touches: the closest bubble, the ceiling, or nothing. */
+  collides(pos: Point): Bubble | 'ceiling' | null {
+    let hit: Bubble | null = null; let bD = COLLISION_DIST;
+    for (const b of this.bubbles) {
+      if (!b.active) continue;
+      const d = Math.sqrt((pos.x - b.x) ** 2 + (pos.y - b.y) ** 2);
+      if (d < bD) { bD = d; hit = b; }
+    }
+    return hit || (pos.y < this.ceilingY + BUBBLE_RADIUS ? 'ceiling' : null);
+  }
+
+  /**
+   * Free cell a ball at `pos` settles into after touching `hit`: the nearest
+   * empty neighbor of the bubble it hit, or the nearest empty top-row cell for
+   * the ceiling. Falls back to the nearest free cell anywhere if those are full.
+   */
+  snap(pos: Point, hit: Bubble | 'ceiling' | null = null): { row: number, col: number } {
+    const candidates = hit === 'ceiling' ? Array.from({ length: colsInRow(0) }, (_, col) => ({ row: 0, col }))
+      : hit ? getNeighborCells(hit.row, hit.col) : [];
+    const free = candidates.filter(c => !this.at(c.row, c.col));
+    if (free.length > 0) return this.nearest(pos, free);
+    const all: { row: number, col: number }[] = [];
+    for (let r = 0; r < GRID_ROWS + 5; r++) for (let c = 0; c < colsInRow(r); c++) if (!this.at(r, c)) all.push({ row: r, col: c });
+    return this.nearest(pos, all);
+  }
+
+  availableColors(): BubbleColor[] {
+    return Array.from(new Set(this.remaining.map(b => b.color)));
+  }
+
+  maxRow() {
+    return this.bubbles.reduce((max, b) => b.active ? Math.max(max, b.row) : max, 0);
+  }
+
+  private nearest(pos: Point, cells: { row: number, col: number }[]) {
+    let bD = Infinity; let best = cells[0] || { row: 0, col: 0 };
+    for (const cell of cells) {
+      const p = getBubblePos(cell.row, cell.col, this.width, this.ceiling);
+      const d = Math.sqrt((pos.x - p.x) ** 2 + (pos.y - p.y) ** 2);
+      if (d < bD) { bD = d; best = cell; }
+    }
+    return best;
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// All physics constants (GRAVITY, FRICTION, particle decay...) are tuned per 60 Hz tick.
+export const STEP_MS = 1000 / 60;
+
+// Longest frame gap we try to catch up on (tab switch, debugger pause...)
+const MAX_FRAME_MS = 250;
+
+export interface GameLoopHandlers {
+  /** Advances the simulation by exactly one fixed step of STEP_MS. */
+  update: () => void;
+  /** Draws the current state. `alpha` is the leftover fraction of a step (0-1). */
+  render: (alpha: number) => void;
+}
+
+/**
+ * Runs a fixed-timestep simulation on requestAnimationFrame, independent of
+ * camera/MediaPipe frame rate. Returns a function that stops the loop.
+ */
+export const startGameLoop = (handlers: GameLoopHandlers): (() => void) => {
+  let frameId = 0;
+  let lastTime = performance.now();
+  let accumulator = 0;
+  let running = true;
+
+  const frame = (now: number) => {
+    if (!running) return;
+    accumulator += Math.min(MAX_FRAME_MS, Math.max(0, now - lastTime));
+    lastTime = now;
+    while (accumulator >= STEP_MS) {
+      handlers.update();
+      accumulator -= STEP_MS;
+    }
+    handlers.render(accumulator / STEP_MS);
+    frameId = requestAnimationFrame(frame);
+  };
+
+  frameId = requestAnimationFrame(frame);
+  return () => { running = false; cancelAnimationFrame(frameId); };
+};
@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface Rng {
+  readonly seed: number;
+  /** Uniform float in [0, 1). */
+  next(): number;
+  /** Uniform float in [min, max). */
+  range(min: number, max: number): number;
+  /** Uniform integer in [0, n). */
+  int(n: number): number;
+  pick<T>(items: readonly T[]): T;
+}
+
+/** Seeded mulberry32 generator. Same seed, same sequence, on every browser. */
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    seed: seed >>> 0,
+    next,
+    range: (min, max) => min + next() * (max - min),
+    int: (n) => Math.floor(next() * n),
+    pick: (items) => items[Math.floor(next() * items.length)]
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 4294967296) >>> 0;
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { InputListener, InputSource, PointerSample } from '../services/inputSources';
+import { LevelData, validateLevel } from './slingshotLevels';
+
+export type ReplayGame = 'slicer' | 'slingshot';
+
+const FLAG_GRABBING = 1;
+const FLAG_FRESH = 2; // a new sample arrived this tick
+const FLAG_LOCKED = 4; // input was locked by the game (e.g. AI analysis in progress)
+
+/** One tick of input: `[x, y, flags]` normalized to the simulation area, or null when nothing was tracked. */
+export type ReplayFrame = [number, number, number] | null;
+
+/** Discrete game-side inputs that are not pointer samples, keyed by tick. */
+export interface ReplayEvent {
+  tick: number;
+  type: 'color';
+  value: string;
+}
+
+export interface Replay {
+  version: 1;
+  game: ReplayGame;
+  seed: number;
+  width: number;
+  height: number;
+  /** Whether the recorded input source was always engaged (hand tracking) or only while grabbing. */
+  alwaysEngaged: boolean;
+  inputs: ReplayFrame[];
+  events: ReplayEvent[];
+  /** Slingshot level the board was generated for (defaults to 1). */
+  level?: number;
+  /** Authored Slingshot board the session was played on, instead of a generated one. */
+  layout?: LevelData;
+  finalScore?: number;
+  recordedAt: string;
+}
+
+export interface TickInput {
+  sample: PointerSample | null;
+  fresh: boolean;
+  locked: boolean;
+}
+
+const round = (v: number) => Math.round(v * 10000) / 10000;
+
+/** Captures the per-tick input stream of a live session. */
+export class ReplayRecorder {
+  private inputs: ReplayFrame[] = [];
+  private events: ReplayEvent[] = [];
+
+  constructor(private game: ReplayGame, private seed: number, private width: number, private height: number, private alwaysEngaged: boolean, private level?: number, private layout?: LevelData) {}
+
+  get tick() { return this.inputs.length; }
+
+  /**
+   * Appends one tick and returns the input quantized exactly as it will be
+   * replayed; live sessions must step with the returned value to stay in sync.
+   */
+  record(input: TickInput): TickInput {
+    const { sample, fresh, locked } = input;
+    const frame: ReplayFrame = sample ? [round(sample.x), round(sample.y), (sample.grabbing ? FLAG_GRABBING : 0) | (fresh ? FLAG_FRESH : 0) | (locked ? FLAG_LOCKED : 0)] : null;
+    this.inputs.push(frame);
+    return frame ? { ...input, sample: { ...sample!, x: frame[0], y: frame[1] } } : input;
+  }
+
+  recordEvent(type: ReplayEvent['type'], value: string) {
+    this.events.push({ tick: this.inputs.length, type, value });
+  }
+
+  finish(finalScore?: number): Replay {
+    return { version: 1, game: this.game, seed: this.seed, width: this.width, height: this.height, alwaysEngaged: this.alwaysEngaged, inputs: [...this.inputs], events: [...this.events], level: this.level, layout: this.layout, finalScore, recordedAt: new Date().toISOString() };
+  }
+}
+
+/** Decodes a recorded frame back into the sample the simulation saw on that tick. */
+export const decodeFrame = (frame: ReplayFrame, tick: number, lastFreshTick: number): TickInput => {
+  if (!frame) return { sample: null, fresh: false, locked: false };
+  const fresh = (frame[2] & FLAG_FRESH) !== 0;
+  return {
+    sample: { x: frame[0], y: frame[1], grabbing: (frame[2] & FLAG_GRABBING) !== 0, timestamp: fresh ? tick : lastFreshTick },
+    fresh,
+    locked: (frame[2] & FLAG_LOCKED) !== 0
+  };
+};
+
+/**
+ * Feeds a recording back into a game as an input source, one frame per `poll()`
+ * (the game loop polls exactly once per tick).
+ */
+export class ReplayPlayer implements InputSource {
+  readonly kind = 'replay' as const;
+  readonly alwaysEngaged: boolean;
+  private tickIndex = 0;
+  private lastFreshTick = -1;
+  private current: TickInput = { sample: null, fresh: false, locked: false };
+  private eventIndex = 0;
+
+  constructor(readonly replay: Replay) { this.alwaysEngaged = replay.alwaysEngaged; }
+
+  get tick() { return this.tickIndex; }
+  get done() { return this.tickIndex >= this.replay.inputs.length; }
+  /** Input of the most recently polled tick, including the recorded lock flag. */
+  get input() { return this.current; }
+
+  attach() {}
+  detach() {}
+  subscribe(_listener: InputListener) { return () => {}; }
+
+  /** Events recorded for the tick about to be polled. */
+  takeEvents(): ReplayEvent[] {
+    const due: ReplayEvent[] = [];
+    while (this.eventIndex < this.replay.events.length && this.replay.events[this.eventIndex].tick <= this.tickIndex) due.push(this.replay.events[this.eventIndex++]);
+    return due;
+  }
+
+  poll(): PointerSample | null {
+    if (this.done) { this.current = { sample: null, fresh: false, locked: false }; return null; }
+    this.current = decodeFrame(this.replay.inputs[this.tickIndex], this.tickIndex, this.lastFreshTick);
+    if (this.current.fresh) this.lastFreshTick = this.tickIndex;
+    this.tickIndex++;
+    return this.current.sample;
+  }
+}
+
+const isFrame = (frame: any): frame is ReplayFrame =>
+  frame === null || (Array.isArray(frame) && frame.length === 3 && Number.isFinite(frame[0]) && Number.isFinite(frame[1]) && Number.isInteger(frame[2]) && frame[2] >= 0 && frame[2] <= 7);
+
+const isEvent = (event: any): event is ReplayEvent =>
+  !!event && Number.isInteger(event.tick) && event.tick >= 0 && event.type === 'color' && typeof event.value === 'string';
+
+export const isReplay = (value: any): value is Replay =>
+  !!value && value.version === 1 && (value.game === 'slicer' || value.game === 'slingshot') &&
+  typeof value.seed === 'number' && typeof value.width === 'number' && typeof value.height === 'number' && typeof value.alwaysEngaged === 'boolean' &&
+  (value.level === undefined || typeof value.level === 'number') &&
+  (value.layout === undefined || validateLevel(value.layout).length === 0) &&
+  Array.isArray(value.inputs) && value.inputs.every(isFrame) && Array.isArray(value.events) && value.events.every(isEvent);
+
+export const downloadReplay = (replay: Replay) => {
+  const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url; a.download = `abang-${replay.game}-${replay.seed}.json`; a.click();
+  URL.revokeObjectURL(url);
+};
+
+export const readReplayFile = async (file: File): Promise<Replay> => {
+  const json = JSON.parse(await file.text());
+  if (!isReplay(json)) throw new Error('Not a valid replay file');
+  return json;
+};
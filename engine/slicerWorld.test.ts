@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { ReplayRecorder, TickInput } from './replay';
+import { distanceToSegment, FRUIT_CONFIG, getBombChance, getLevelForScore, LEVEL_SCORE_STEP, MAX_LIVES, simulateSlicerReplay, SlicerWorld } from './slicerWorld';
+
+const WIDTH = 800;
+const HEIGHT = 600;
+
+const createWorld = (seed = 1) => new SlicerWorld(seed, WIDTH, HEIGHT, { alwaysEngaged: true });
+
+const placeFruit = (world: SlicerWorld, type: Parameters<SlicerWorld['spawn']>[0], x: number, y: number) => {
+  const fruit = world.spawn(type);
+  fruit.x = x; fruit.y = y;
+  return fruit;
+};
+
+describe('distanceToSegment', () => {
+  it('measures to the closest point on the segment, not the infinite line', () => {
+    expect(distanceToSegment({ x: 5, y: 3 }, { x: 0, y: 0 }, { x: 10, y: 0 })).toBeCloseTo(3);
+    expect(distanceToSegment({ x: 14, y: 3 }, { x: 0, y: 0 }, { x: 10, y: 0 })).toBeCloseTo(5);
+  });
+
+  it('handles a zero-length segment', () => {
+    expect(distanceToSegment({ x: 3, y: 4 }, { x: 0, y: 0 }, { x: 0, y: 0 })).toBeCloseTo(5);
+  });
+});
+
+describe('SlicerWorld.sliceSegment', () => {
+  it('cuts fruits whose circle the segment crosses and scores them', () => {
+    const world = createWorld();
+    const hit = placeFruit(world, 'mango', 400, 300);
+    const miss = placeFruit(world, 'guava', 400, 300 + FRUIT_CONFIG.mango.radius + FRUIT_CONFIG.guava.radius + 50);
+
+    const sliced = world.sliceSegment({ x: 300, y: 290 }, { x: 500, y: 310 });
+
+    expect(sliced).toEqual([hit]);
+    expect(hit.isSliced).toBe(true);
+    expect(miss.isSliced).toBe(false);
+    expect(world.score).toBe(FRUIT_CONFIG.mango.points);
+    expect(world.stats.sliced.mango).toBe(1);
+    expect(world.drainEvents()).toContainEqual({ type: 'slice', fruit: hit, points: FRUIT_CONFIG.mango.points });
+  });
+
+  it('catches a fast blade that jumps over the fruit between samples', () => {
+    const world = createWorld();
+    const fruit = placeFruit(world, 'guava', 400, 300);
+    world.sliceSegment({ x: 100, y: 300 }, { x: 700, y: 300 });
+    expect(fruit.isSliced).toBe(true);
+  });
+
+  it('does not cut the same fruit twice', () => {
+    const world = createWorld();
+    placeFruit(world, 'pineapple', 400, 300);
+    world.sliceSegment({ x: 300, y: 300 }, { x: 500, y: 300 });
+    world.sliceSegment({ x: 500, y: 300 }, { x: 300, y: 300 });
+    expect(world.score).toBe(FRUIT_CONFIG.pineapple.points);
+  });
+});
+
+describe('bombs', () => {
+  it('cost a life without changing the score', () => {
+    const world = createWorld();
+    const bomb = placeFruit(world, 'bomb', 400, 300);
+    world.sliceSegment({ x: 300, y: 300 }, { x: 500, y: 300 });
+    expect(world.lives).toBe(MAX_LIVES - 1);
+    expect(world.score).toBe(0);
+    expect(world.stats.bombsHit).toBe(1);
+    expect(world.drainEvents()).toContainEqual({ type: 'bomb', fruit: bomb, lives: MAX_LIVES - 1 });
+  });
+
+  it('end the round once the last life is gone', () => {
+    const world = createWorld();
+    for (let i = 0; i < MAX_LIVES; i++) {
+      placeFruit(world, 'bomb', 400, 300);
+      world.sliceSegment({ x: 300, y: 300 }, { x: 500, y: 300 });
+    }
+    expect(world.lives).toBe(0);
+    world.step({ sample: null, fresh: false, locked: false });
+    expect(world.active).toBe(false);
+    expect(world.drainEvents()).toContainEqual({ type: 'gameOver', reason: 'lives' });
+  });
+});
+
+describe('levels', () => {
+  it('go up every LEVEL_SCORE_STEP points', () => {
+    expect(getLevelForScore(0)).toBe(1);
+    expect(getLevelForScore(LEVEL_SCORE_STEP - 1)).toBe(1);
+    expect(getLevelForScore(LEVEL_SCORE_STEP)).toBe(2);
+    expect(getLevelForScore(LEVEL_SCORE_STEP * 3 + 10)).toBe(4);
+  });
+
+  it('only introduce bombs from level 3', () => {
+    expect(getBombChance(1)).toBe(0);
+    expect(getBombChance(2)).toBe(0);
+    expect(getBombChance(3)).toBeCloseTo(0.05);
+    expect(getBombChance(100)).toBe(0.3);
+  });
+
+  it('emit levelUp when a slice crosses the threshold', () => {
+    const world = createWorld();
+    world.score = LEVEL_SCORE_STEP - FRUIT_CONFIG.sweet_mango.points;
+    placeFruit(world, 'sweet_mango', 400, 300);
+    world.sliceSegment({ x: 300, y: 300 }, { x: 500, y: 300 });
+    expect(world.level).toBe(2);
+    expect(world.drainEvents()).toContainEqual({ type: 'levelUp', level: 2 });
+  });
+});
+
+describe('SlicerWorld.step', () => {
+  it('ends the round when the timer runs out', () => {
+    const world = new SlicerWorld(1, WIDTH, HEIGHT, { alwaysEngaged: true, duration: 1 });
+    for (let i = 0; i < 120 && world.active; i++) world.step({ sample: null, fresh: false, locked: false });
+    expect(world.active).toBe(false);
+    expect(world.timeLeftMs).toBe(0);
+    expect(world.drainEvents()).toContainEqual({ type: 'gameOver', reason: 'time' });
+  });
+
+  it('never spawns or scores in an idle world', () => {
+    const world = SlicerWorld.idle(WIDTH, HEIGHT, true);
+    for (let i = 0; i < 300; i++) world.step({ sample: { x: (i % 60) / 60, y: 0.5, grabbing: false, timestamp: i }, fresh: true, locked: false });
+    expect(world.fruits).toHaveLength(0);
+    expect(world.bladeTrail.length).toBeGreaterThan(0);
+  });
+});
+
+describe('simulateSlicerReplay', () => {
+  it('reproduces a recorded round exactly', () => {
+    const seed = 1234;
+    const live = new SlicerWorld(seed, WIDTH, HEIGHT, { alwaysEngaged: true });
+    const recorder = new ReplayRecorder('slicer', seed, WIDTH, HEIGHT, true);
+    // Zig-zag the blade across the lower half of the screen, a new sample every other tick
+    for (let tick = 0; live.active && tick < 60 * 70; tick++) {
+      const phase = (tick % 90) / 90;
+      const input: TickInput = {
+        sample: { x: phase < 0.5 ? phase * 2 : 2 - phase * 2, y: 0.4 + 0.2 * Math.sin(tick / 7), grabbing: false, timestamp: tick - (tick % 2) },
+        fresh: tick % 2 === 0,
+        locked: false
+      };
+      live.step(recorder.record(input));
+    }
+    expect(live.active).toBe(false);
+    expect(live.score).toBeGreaterThan(0);
+
+    const replayed = simulateSlicerReplay(recorder.finish(live.score));
+    expect(replayed.score).toBe(live.score);
+    expect(replayed.lives).toBe(live.lives);
+    expect(replayed.stats).toEqual(live.stats);
+    expect(replayed.tick).toBe(live.tick);
+  });
+});
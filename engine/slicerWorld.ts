@@ -0,0 +1,279 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Fruit, FruitType, Particle, Point, XPPoint } from '../types';
+import { STEP_MS } from './gameLoop';
+import { createRng, Rng } from './random';
+import { Replay, ReplayPlayer, TickInput } from './replay';
+
+export const GRAVITY = 0.38;
+export const INITIAL_SPAWN_INTERVAL = 1100;
+export const BLADE_TRAIL_LIMIT = 8;
+export const MAX_PARTICLES = 120;
+export const GAME_DURATION = 60;
+export const MAX_LIVES = 3;
+export const LEVEL_SCORE_STEP = 300;
+const BOMB_SLOWMO_TICKS = 24; // ~400ms of slow motion after hitting a bomb
+const SWOOSH_SPEED = 25;
+const SWOOSH_COOLDOWN_MS = 150;
+
+// Specialized colors and metadata for realistic fruit rendering
+export const FRUIT_CONFIG: Record<FruitType, { hex: string, points: number, label: string, radius: number, fleshColor: string, secondaryColor: string, speckleColor: string }> = {
+  guava:       { hex: '#7CB342', points: 10,  label: 'Jambu Biji',   radius: 42, fleshColor: '#F06292', secondaryColor: '#558B2F', speckleColor: '#33691E' },
+  mango:       { hex: '#AFB42B', points: 20,  label: 'Mangga Hijau', radius: 48, fleshColor: '#FFB300', secondaryColor: '#E65100', speckleColor: '#FBC02D' },
+  pineapple:   { hex: '#FBC02D', points: 50,  label: 'Nanas Madu',   radius: 60, fleshColor: '#FFF176', secondaryColor: '#795548', speckleColor: '#5D4037' },
+  sweet_mango: { hex: '#FF8F00', points: 150, label: 'Mangga Masak', radius: 52, fleshColor: '#FFCC80', secondaryColor: '#BF360C', speckleColor: '#E65100' },
+  bomb:        { hex: '#D32F2F', points: -100, label: 'Botol Sambal', radius: 38, fleshColor: '#FFCDD2', secondaryColor: '#000000', speckleColor: '#FF1744' }
+};
+
+export type SlicerEvent =
+  | { type: 'swoosh' }
+  | { type: 'slice', fruit: Fruit, points: number }
+  | { type: 'bomb', fruit: Fruit, lives: number }
+  | { type: 'levelUp', level: number }
+  | { type: 'timer', seconds: number }
+  | { type: 'gameOver', reason: 'lives' | 'time' | 'ended' };
+
+export const getLevelForScore = (score: number) => 1 + Math.floor(score / LEVEL_SCORE_STEP);
+export const getSpawnInterval = (level: number) => Math.max(300, INITIAL_SPAWN_INTERVAL - (level * 60));
+export const getBombChance = (level: number) => level >= 3 ? Math.min(0.3, 0.05 + ((level - 3) * 0.02)) : 0;
+
+/** Closest distance from `p` to the segment `a`-`b`. */
+export const distanceToSegment = (p: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x; const dy = b.y - a.y;
+  const lenSq = dx * dx + dy * dy;
+  const t = lenSq > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lenSq)) : 0;
+  return Math.sqrt((p.x - (a.x + t * dx)) ** 2 + (p.y - (a.y + t * dy)) ** 2);
+};
+
+/**
+ * Headless Fruit Slicer simulation: spawning, blade input, slicing, scoring,
+ * lives, levels and the round timer. Advanced one fixed tick at a time by
+ * `step`; the React component only renders it and turns events into sound/UI.
+ */
+export class SlicerWorld {
+  readonly rng: Rng;
+  fruits: Fruit[] = [];
+  particles: Particle[] = [];
+  xpPoints: XPPoint[] = [];
+  bladeTrail: Point[] = [];
+
+  score = 0;
+  lives = MAX_LIVES;
+  level = 1;
+  active = true;
+  tick = 0;
+  simTime = 0;
+  timeLeftMs: number;
+  stats: { sliced: Record<FruitType, number>, bombsHit: number } = { sliced: { guava: 0, mango: 0, pineapple: 0, sweet_mango: 0, bomb: 0 }, bombsHit: 0 };
+
+  /** Hand tracking cuts whenever a finger is seen; pointer-style sources only while grabbing. */
+  alwaysEngaged: boolean;
+
+  // Feel/FX state driven by the simulation
+  timeScale = 1.0;
+  shakeIntensity = 0;
+  flashOpacity = 0;
+  pulseIntensity = 0;
+
+  private lastSpawnTime = 0;
+  private lastSwooshTime = -Infinity;
+  private slowMoTicks = 0;
+  private bladeDirty = false;
+  private wasGrabbing = false;
+  private events: SlicerEvent[] = [];
+
+  constructor(readonly seed: number, public width: number, public height: number, options: { alwaysEngaged: boolean, duration?: number }) {
+    this.rng = createRng(seed);
+    this.alwaysEngaged = options.alwaysEngaged;
+    this.timeLeftMs = (options.duration ?? GAME_DURATION) * 1000;
+  }
+
+  /** Idle worlds (menus, game over) only track the blade; they never spawn or score. */
+  static idle(width: number, height: number, alwaysEngaged: boolean) {
+    const world = new SlicerWorld(0, width, height, { alwaysEngaged });
+    world.active = false;
+    return world;
+  }
+
+  drainEvents(): SlicerEvent[] {
+    const out = this.events; this.events = [];
+    return out;
+  }
+
+  /** Advances one fixed tick. `input.sample` is normalized to the play area. */
+  step(input: TickInput) {
+    this.tick++;
+    this.simTime += STEP_MS;
+    this.feedBlade(input);
+    if (!this.active) return;
+    if (this.simTime - this.lastSpawnTime > getSpawnInterval(this.level)) { this.spawn(); this.lastSpawnTime = this.simTime; }
+    this.checkBlade();
+    this.updatePhysics();
+    if (this.active) this.updateTimer();
+  }
+
+  end(reason: 'lives' | 'time' | 'ended' = 'ended') {
+    if (!this.active) return;
+    this.active = false;
+    this.events.push({ type: 'gameOver', reason });
+  }
+
+  spawn(type?: FruitType) {
+    const currentLevel = this.level;
+    const random = this.rng;
+    const typeChance = random.next();
+    if (!type) {
+      if (typeChance < getBombChance(currentLevel)) {
+        type = 'bomb';
+      } else {
+        const roll = random.next();
+        if (roll > 0.95) type = 'sweet_mango';
+        else if (roll > 0.8) type = 'pineapple';
+        else if (roll > 0.4) type = 'mango';
+        else type = 'guava';
+      }
+    }
+
+    const config = FRUIT_CONFIG[type];
+    const launchX = random.next() * (this.width - 120) + 60;
+    const fruit: Fruit = {
+      id: random.int(0x7fffffff).toString(36),
+      type, x: launchX, y: this.height + 80,
+      vx: (random.next() - 0.5) * (6 + (currentLevel * 0.4)),
+      vy: -(random.next() * 5 + 16 + currentLevel * 1.2),
+      radius: config.radius,
+      rotation: random.next() * Math.PI * 2,
+      rotationSpeed: (random.next() - 0.5) * (0.12 + currentLevel * 0.01),
+      isSliced: false
+    };
+    this.fruits.push(fruit);
+    return fruit;
+  }
+
+  /** Cuts every intact fruit whose circle the segment crosses. Returns the fruits it sliced. */
+  sliceSegment(from: Point, to: Point): Fruit[] {
+    const dx = to.x - from.x; const dy = to.y - from.y;
+    const speed = Math.sqrt(dx * dx + dy * dy);
+    const sliced: Fruit[] = [];
+    this.fruits.forEach(fruit => {
+      if (fruit.isSliced || distanceToSegment(fruit, from, to) >= fruit.radius) return;
+      fruit.isSliced = true;
+      sliced.push(fruit);
+      const config = FRUIT_CONFIG[fruit.type];
+      this.shakeIntensity = fruit.type === 'bomb' ? 25 : 3;
+      this.pulseIntensity = 0.3;
+      if (fruit.type === 'bomb') {
+        this.createExplosion(fruit.x, fruit.y, '#FF4444', dx, dy, true);
+        this.flashOpacity = 0.8; this.lives = Math.max(0, this.lives - 1); this.stats.bombsHit++;
+        this.timeScale = 0.1; this.slowMoTicks = BOMB_SLOWMO_TICKS;
+        this.events.push({ type: 'bomb', fruit, lives: this.lives });
+      } else {
+        this.createExplosion(fruit.x, fruit.y, config.fleshColor, dx, dy);
+        this.score += config.points; this.stats.sliced[fruit.type]++;
+        this.events.push({ type: 'slice', fruit, points: config.points });
+        const nL = getLevelForScore(this.score);
+        if (nL > this.level) { this.level = nL; this.pulseIntensity = 1.0; this.events.push({ type: 'levelUp', level: nL }); }
+        this.xpPoints.push({ x: fruit.x, y: fruit.y - 30, value: config.points, color: config.hex, life: 1.0, vx: 0, vy: -2 });
+      }
+      fruit.slicedTime = this.simTime;
+      fruit.sliceAngle = Math.atan2(dy, dx);
+
+      // Store impact intensity for dynamic separation
+      fruit.impactIntensity = Math.min(Math.max(speed, 10), 40);
+      // Strong upward pop regardless of original velocity (pop the halves up)
+      fruit.vy = -12 - this.rng.next() * 5;
+      // Transfer some lateral blade momentum to the main body
+      fruit.vx = (dx * 0.3);
+      // Add random spin to make it feel chaotic
+      fruit.rotationSpeed += (this.rng.next() - 0.5) * 0.8;
+    });
+    return sliced;
+  }
+
+  private feedBlade(input: TickInput) {
+    const { sample, fresh } = input;
+    const engaged = !!sample && (this.alwaysEngaged || sample.grabbing);
+    // Pointer-style sources cut only while held: every grab or release starts a fresh stroke
+    if (!this.alwaysEngaged && !!sample?.grabbing !== this.wasGrabbing) this.bladeTrail = [];
+    this.wasGrabbing = !!sample?.grabbing;
+    if (sample && engaged && fresh) {
+      this.bladeTrail.push({ x: sample.x * this.width, y: sample.y * this.height });
+      if (this.bladeTrail.length > BLADE_TRAIL_LIMIT) this.bladeTrail.shift();
+      this.bladeDirty = true;
+    } else if (!engaged && this.bladeTrail.length > 0) this.bladeTrail.shift();
+  }
+
+  private checkBlade() {
+    // Only a freshly extended blade can cut; a resting trail must not slice fruits flying into it
+    if (!this.bladeDirty) return;
+    this.bladeDirty = false;
+    if (this.bladeTrail.length < 2) return;
+    const tip = this.bladeTrail[this.bladeTrail.length - 1];
+    const prev = this.bladeTrail[this.bladeTrail.length - 2];
+    const speed = Math.sqrt((tip.x - prev.x) ** 2 + (tip.y - prev.y) ** 2);
+    if (speed > SWOOSH_SPEED && this.simTime - this.lastSwooshTime > SWOOSH_COOLDOWN_MS) {
+      this.lastSwooshTime = this.simTime; this.events.push({ type: 'swoosh' });
+    }
+    this.sliceSegment(prev, tip);
+  }
+
+  private createExplosion(x: number, y: number, color: string, bladeDx: number, bladeDy: number, isBomb = false) {
+    const random = this.rng;
+    const count = (isBomb ? 50 : 30) + random.next() * 15;
+    for (let i = 0; i < count; i++) {
+      if (this.particles.length >= MAX_PARTICLES) this.particles.shift();
+      const angle = Math.atan2(bladeDy, bladeDx || 1) + (random.next() - 0.5) * (isBomb ? 6.28 : 2.2);
+      const speed = random.next() * (isBomb ? 25 : 18) + 3;
+      this.particles.push({
+        x: x + (random.next() - 0.5) * 10, y: y + (random.next() - 0.5) * 10,
+        vx: Math.cos(angle) * speed, vy: Math.sin(angle) * speed,
+        life: 1.0, color: random.next() > 0.8 ? '#FFFFFF' : color, wait: isBomb ? 0 : random.next() * 0.15
+      });
+    }
+  }
+
+  private updatePhysics() {
+    const dt = this.timeScale;
+    for (let i = this.fruits.length - 1; i >= 0; i--) {
+      const f = this.fruits[i]; f.x += f.vx * dt; f.y += f.vy * dt; f.vy += GRAVITY * dt; f.rotation += f.rotationSpeed * dt;
+      if (f.y > this.height + 100) this.fruits.splice(i, 1);
+    }
+    for (let i = this.particles.length - 1; i >= 0; i--) {
+      const p = this.particles[i];
+      if (p.wait && p.wait > 0) { p.wait -= 0.05 * dt; continue; }
+      p.x += p.vx * dt; p.y += p.vy * dt; p.vy += GRAVITY * 0.5 * dt; p.life -= 0.015 * dt;
+      if (p.life <= 0) this.particles.splice(i, 1);
+    }
+    for (let i = this.xpPoints.length - 1; i >= 0; i--) {
+      const xp = this.xpPoints[i]; xp.x += xp.vx * dt; xp.y += xp.vy * dt; xp.life -= 0.02 * dt;
+      if (xp.life <= 0) this.xpPoints.splice(i, 1);
+    }
+    if (this.pulseIntensity > 0) this.pulseIntensity = Math.max(0, this.pulseIntensity - 0.05);
+    if (this.shakeIntensity > 0) this.shakeIntensity *= 0.9;
+    if (this.flashOpacity > 0) this.flashOpacity -= 0.05;
+    if (this.slowMoTicks > 0 && --this.slowMoTicks === 0) this.timeScale = 1.0;
+    if (this.lives <= 0) this.end('lives');
+  }
+
+  private updateTimer() {
+    const prevSeconds = Math.ceil(this.timeLeftMs / 1000);
+    this.timeLeftMs = Math.max(0, this.timeLeftMs - STEP_MS);
+    const seconds = Math.ceil(this.timeLeftMs / 1000);
+    if (seconds !== prevSeconds) this.events.push({ type: 'timer', seconds });
+    if (this.timeLeftMs <= 0) this.end('time');
+  }
+}
+
+/** Re-simulates a recorded Fruit Slicer session without any DOM, e.g. to verify a claimed score. */
+export const simulateSlicerReplay = (replay: Replay): SlicerWorld => {
+  const world = new SlicerWorld(replay.seed, replay.width, replay.height, { alwaysEngaged: replay.alwaysEngaged });
+  const player = new ReplayPlayer(replay);
+  while (world.active && !player.done) {
+    player.poll();
+    world.step(player.input);
+  }
+  return world;
+};
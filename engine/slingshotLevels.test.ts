@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { COLOR_KEYS, GRID_ROWS } from './bubbleGrid';
+import { CAMPAIGN, getCampaignLevel, getPar, getSlingshotLevel, getStarRating, LevelData, padLevelGrid, parseLevel, stringifyLevel, trimLevelGrid, validateLevel } from './slingshotLevels';
+
+const level = (overrides: Partial<LevelData> = {}): LevelData => ({
+  version: 1, name: 'Test', shotLimit: null, descentRate: 5, targetScore: null,
+  grid: [['red', 'red', 'blue'], [null, 'stone']],
+  ...overrides
+});
+
+describe('getSlingshotLevel', () => {
+  it('grows rows and colors and drops the ceiling sooner as levels go up', () => {
+    const first = getSlingshotLevel(1);
+    expect(first).toEqual({ level: 1, rows: 3, colors: 3, shotsPerDrop: 8, shotLimit: null, targetScore: null });
+    for (let level = 2; level <= 30; level++) {
+      const prev = getSlingshotLevel(level - 1); const next = getSlingshotLevel(level);
+      expect(next.rows).toBeGreaterThanOrEqual(prev.rows);
+      expect(next.colors).toBeGreaterThanOrEqual(prev.colors);
+      expect(next.shotsPerDrop).toBeLessThanOrEqual(prev.shotsPerDrop);
+    }
+  });
+
+  it('stays within the board and palette', () => {
+    expect(getSlingshotLevel(50)).toMatchObject({ level: 50, rows: GRID_ROWS, colors: COLOR_KEYS.length, shotsPerDrop: 3 });
+  });
+});
+
+describe('getStarRating', () => {
+  it('gives 3 stars on par, 2 within 1.5x par and 1 otherwise', () => {
+    const par = getPar(25);
+    expect(par).toBe(10);
+    expect(getStarRating(8, par)).toBe(3);
+    expect(getStarRating(10, par)).toBe(3);
+    expect(getStarRating(15, par)).toBe(2);
+    expect(getStarRating(16, par)).toBe(1);
+  });
+});
+
+describe('validateLevel', () => {
+  it('accepts a well-formed level', () => {
+    expect(validateLevel(level())).toEqual([]);
+  });
+
+  it('reports every problem it finds', () => {
+    const problems = validateLevel({ ...level(), version: 2, name: ' ', shotLimit: 0, descentRate: -1, targetScore: 1.5 });
+    expect(problems).toHaveLength(5);
+  });
+
+  it('rejects unknown cells, oversized rows and too many rows', () => {
+    expect(validateLevel(level({ grid: [['red', 'pink' as any]] }))).toEqual([{ key: 'level.unknownCell', params: { cell: '"pink"', row: 0, col: 1 } }]);
+    expect(validateLevel(level({ grid: [Array(13).fill('red')] }))).toEqual([{ key: 'level.rowTooLong', params: { row: 0, cells: 13, max: 12 } }]);
+    expect(validateLevel(level({ grid: Array(GRID_ROWS + 1).fill(['red']) }))[0].key).toBe('level.tooManyRows');
+  });
+
+  it('rejects boards with nothing to clear or cells hanging in mid-air', () => {
+    expect(validateLevel(level({ grid: [['stone', 'bomb']] }))).toEqual([{ key: 'level.noColors' }]);
+    expect(validateLevel(level({ grid: [['red'], [], [null, null, 'blue']] }))).toEqual([{ key: 'level.floating', params: { row: 2, col: 2 } }]);
+  });
+});
+
+describe('level files', () => {
+  it('round-trips through the exported JSON', () => {
+    expect(parseLevel(stringifyLevel(level()))).toEqual(level());
+    expect(() => parseLevel('{')).toThrow('not valid JSON');
+    expect(() => parseLevel(JSON.stringify(level({ name: '' })))).toThrow('Level needs a name');
+    expect(() => parseLevel(JSON.stringify(level({ name: '' })))).toThrow(expect.objectContaining({ problems: [{ key: 'level.nameMissing' }] }));
+  });
+
+  it('pads for painting and trims back to what is on the board', () => {
+    const padded = padLevelGrid(level().grid);
+    expect(padded).toHaveLength(GRID_ROWS);
+    expect(padded[1]).toHaveLength(11);
+    expect(trimLevelGrid(padded)).toEqual(level().grid);
+  });
+});
+
+describe('CAMPAIGN', () => {
+  it('ships only valid levels, in order', () => {
+    expect(CAMPAIGN.length).toBeGreaterThan(0);
+    CAMPAIGN.forEach(l => expect(validateLevel(l)).toEqual([]));
+    expect(getCampaignLevel(1)).toBe(CAMPAIGN[0]);
+    expect(getCampaignLevel(CAMPAIGN.length + 1)).toBeNull();
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import campaignJson from '../levels/campaign.json';
+import { MessageKey, MessageParams, translate } from '../services/i18n';
+import { BubbleGrid, colsInRow, COLOR_KEYS, GRID_ROWS, isSpecialCell, LevelCell } from './bubbleGrid';
+
+/** Board shape and pressure for one Slingshot level. */
+export interface SlingshotLevel {
+  level: number;
+  /** Rows filled at the start, never more than GRID_ROWS. */
+  rows: number;
+  /** How many of COLOR_KEYS appear on the board. */
+  colors: number;
+  /** Misses (shots that pop nothing) before the ceiling comes down a row; 0 keeps it in place. */
+  shotsPerDrop: number;
+  /** Shots available before the round is lost, or null for no limit. */
+  shotLimit: number | null;
+  /** Score that wins the round before the board is cleared, or null to require a clear. */
+  targetScore: number | null;
+}
+
+/**
+ * An authored Slingshot board as stored in level JSON files. Row `r` of
+ * `grid` holds up to `colsInRow(r)` cells from column 0; shorter rows are
+ * padded with empty cells.
+ */
+export interface LevelData {
+  version: 1;
+  name: string;
+  grid: LevelCell[][];
+  shotLimit: number | null;
+  /** Misses per ceiling drop; 0 keeps the ceiling in place. */
+  descentRate: number;
+  targetScore: number | null;
+}
+
+// A shot is "on par" when it clears this many bubbles on average
+const PAR_BUBBLES_PER_SHOT = 2.5;
+const MAX_NAME_LENGTH = 60;
+
+/** Levels get taller, more colorful and less forgiving as they go. */
+export const getSlingshotLevel = (level: number): SlingshotLevel => ({
+  level,
+  rows: Math.min(GRID_ROWS, 3 + Math.floor(level / 2)),
+  colors: Math.min(COLOR_KEYS.length, 3 + Math.floor((level - 1) / 2)),
+  shotsPerDrop: Math.max(3, 8 - Math.floor((level - 1) / 2)),
+  shotLimit: null,
+  targetScore: null
+});
+
+/** Rules of an authored board, numbered `level` in the sequence it is played in. */
+export const getLayoutLevel = (level: number, layout: LevelData): SlingshotLevel => ({
+  level,
+  rows: layout.grid.length,
+  colors: new Set(layout.grid.flat().filter(cell => cell && !isSpecialCell(cell))).size,
+  shotsPerDrop: layout.descentRate,
+  shotLimit: layout.shotLimit,
+  targetScore: layout.targetScore
+});
+
+export const getPar = (bubbleCount: number) => Math.max(1, Math.ceil(bubbleCount / PAR_BUBBLES_PER_SHOT));
+
+/** 3 stars on par, 2 stars within 1.5x par, otherwise 1. */
+export const getStarRating = (shots: number, par: number) => shots <= par ? 3 : shots <= par * 1.5 ? 2 : 1;
+
+const isCell = (value: unknown): value is LevelCell =>
+  value === null || value === 'stone' || value === 'bomb' || COLOR_KEYS.includes(value as any);
+
+const isCount = (value: unknown, min: number) => typeof value === 'number' && Number.isInteger(value) && value >= min;
+
+/** Full GRID_ROWS x colsInRow grid with `grid` copied into its top-left, for painting. */
+export const padLevelGrid = (grid: LevelCell[][]): LevelCell[][] =>
+  Array.from({ length: GRID_ROWS }, (_, r) => Array.from({ length: colsInRow(r) }, (_, c) => grid[r]?.[c] ?? null));
+
+/** Drops trailing empty cells and rows so saved levels only spell out what is on the board. */
+export const trimLevelGrid = (grid: LevelCell[][]): LevelCell[][] => {
+  const rows = grid.map(row => { let end = row.length; while (end > 0 && !row[end - 1]) end--; return row.slice(0, end); });
+  while (rows.length > 0 && rows[rows.length - 1].length === 0) rows.pop();
+  return rows;
+};
+
+/** One thing wrong with a level, as a message key so the editor can show it in the player's language. */
+export interface LevelProblem {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+/** A level that failed validation. The message is in English for logs; `problems` are for showing to players. */
+export class LevelError extends Error {
+  constructor(readonly problems: LevelProblem[]) {
+    super(translate('en', 'level.invalid', { problems: problems.map(p => translate('en', p.key, p.params)).join('; ') }));
+    this.name = 'LevelError';
+  }
+}
+
+/** Every problem with `value` as level JSON, in a form a level designer can act on. Empty when valid. */
+export const validateLevel = (value: any): LevelProblem[] => {
+  if (!value || typeof value !== 'object') return [{ key: 'level.notObject' }];
+  const problems: LevelProblem[] = [];
+  if (value.version !== 1) problems.push({ key: 'level.version' });
+  if (typeof value.name !== 'string' || !value.name.trim()) problems.push({ key: 'level.nameMissing' });
+  else if (value.name.length > MAX_NAME_LENGTH) problems.push({ key: 'level.nameTooLong', params: { max: MAX_NAME_LENGTH } });
+  if (value.shotLimit !== null && !isCount(value.shotLimit, 1)) problems.push({ key: 'level.shotLimit' });
+  if (!isCount(value.descentRate, 0)) problems.push({ key: 'level.descentRate' });
+  if (value.targetScore !== null && !isCount(value.targetScore, 1)) problems.push({ key: 'level.targetScore' });
+  if (!Array.isArray(value.grid) || value.grid.length === 0) return [...problems, { key: 'level.gridMissing' }];
+  if (value.grid.length > GRID_ROWS) problems.push({ key: 'level.tooManyRows', params: { rows: value.grid.length, max: GRID_ROWS } });
+
+  let cellsOk = true;
+  value.grid.forEach((row: unknown, r: number) => {
+    if (!Array.isArray(row)) { problems.push({ key: 'level.rowNotArray', params: { row: r } }); cellsOk = false; return; }
+    if (row.length > colsInRow(r)) { problems.push({ key: 'level.rowTooLong', params: { row: r, cells: row.length, max: colsInRow(r) } }); cellsOk = false; }
+    row.forEach((cell, c) => { if (!isCell(cell)) { problems.push({ key: 'level.unknownCell', params: { cell: JSON.stringify(cell), row: r, col: c } }); cellsOk = false; } });
+  });
+  if (!cellsOk || value.grid.length > GRID_ROWS) return problems;
+
+  const grid = BubbleGrid.fromLayout(0, value.grid);
+  if (grid.remaining.length === 0) problems.push({ key: 'level.noColors' });
+  // Anything not hanging from row 0 would just fall off at the first pop
+  grid.dropFloating().forEach(b => problems.push({ key: 'level.floating', params: { row: b.row, col: b.col } }));
+  return problems;
+};
+
+/** Checks `value` against the level schema and returns it as a level, throwing a LevelError with every problem found. */
+export const loadLevel = (value: unknown): LevelData => {
+  const problems = validateLevel(value);
+  if (problems.length > 0) throw new LevelError(problems);
+  return value as LevelData;
+};
+
+export const parseLevel = (text: string): LevelData => {
+  let json: unknown;
+  try { json = JSON.parse(text); } catch { throw new LevelError([{ key: 'level.notJson' }]); }
+  return loadLevel(json);
+};
+
+/** Serializes a level one grid row per line so exported files stay diffable. */
+export const stringifyLevel = (level: LevelData) => {
+  const { grid, ...rest } = level;
+  const rows = grid.map(row => `    ${JSON.stringify(row)}`).join(',\n');
+  return JSON.stringify(rest, null, 2).replace(/\n}$/, `,\n  "grid": [\n${rows}\n  ]\n}\n`);
+};
+
+export const downloadLevel = (level: LevelData) => {
+  const blob = new Blob([stringifyLevel(level)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url; a.download = `${level.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'level'}.json`; a.click();
+  URL.revokeObjectURL(url);
+};
+
+export const readLevelFile = async (file: File): Promise<LevelData> => parseLevel(await file.text());
+
+/** The built-in levels (`levels/campaign.json`), played before generated boards take over. */
+export const CAMPAIGN: LevelData[] = campaignJson.map(level => loadLevel(level));
+
+export const getCampaignLevel = (level: number): LevelData | null => CAMPAIGN[level - 1] ?? null;
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { TickInput } from './replay';
+import { LevelData } from './slingshotLevels';
+import { judgeHint, solveShots } from './slingshotSolver';
+import { MAX_DRAG_DIST, SlingshotWorld } from './slingshotWorld';
+
+const WIDTH = 800;
+const HEIGHT = 700;
+
+const board: LevelData = {
+  version: 1, name: 'Test', shotLimit: null, descentRate: 0, targetScore: null,
+  grid: [Array(12).fill('green'), ['red', 'red', ...Array(9).fill('yellow')]]
+};
+
+const setup = () => {
+  const world = new SlingshotWorld(1, WIDTH, HEIGHT, 1, board);
+  const shots = solveShots(world.grid, world.anchor, WIDTH, HEIGHT, world.grid.availableColors());
+  return { world, shots, clusters: world.grid.reachableClusters(world.anchor) };
+};
+
+/** Pulls the sling to full power opposite `angle` and lets go, then waits for the ball to land. */
+const fire = (world: SlingshotWorld, angle: number) => {
+  const rad = angle * Math.PI / 180;
+  const at = (x: number, y: number, grabbing: boolean): TickInput => ({ sample: { x: x / WIDTH, y: y / HEIGHT, grabbing, timestamp: 0 }, fresh: true, locked: false });
+  const { x, y } = world.anchor;
+  const pulled = { x: x - Math.cos(rad) * MAX_DRAG_DIST, y: y + Math.sin(rad) * MAX_DRAG_DIST };
+  [at(x, y, true), at(pulled.x, pulled.y, true), at(pulled.x, pulled.y, false)].forEach(input => world.step(input));
+  for (let i = 0; i < 300 && world.isFlying; i++) world.step({ sample: null, fresh: false, locked: false });
+};
+
+describe('slingshot solver', () => {
+  it('predicts exactly what the game does with its best shot', () => {
+    const { world, shots } = setup();
+    const best = shots[0];
+    expect(best).toMatchObject({ color: 'yellow', popped: 10 });
+
+    world.selectedColor = best.color;
+    fire(world, best.angle);
+    const land = world.drainEvents().find(e => e.type === 'land');
+    expect(land).toMatchObject({ bubble: { row: best.row, col: best.col }, points: best.points });
+  });
+
+  it('leaves the live board untouched', () => {
+    const { world } = setup();
+    const before = JSON.stringify(world.grid.bubbles);
+    solveShots(world.grid, world.anchor, WIDTH, HEIGHT, ['red', 'green', 'yellow']);
+    expect(JSON.stringify(world.grid.bubbles)).toBe(before);
+  });
+
+  it('agrees with a hint that matches its best shot and disagrees with a weaker one', () => {
+    const { world, shots, clusters } = setup();
+    expect(judgeHint(world.grid, clusters, shots, { message: '', targetRow: 1, targetCol: 5, recommendedColor: 'yellow' }).status).toBe('agrees');
+
+    const weaker = judgeHint(world.grid, clusters, shots, { message: '', targetRow: 1, targetCol: 0, recommendedColor: 'red' });
+    expect(weaker.status).toBe('disagrees');
+    expect(weaker.pick).toMatchObject({ color: 'red', popped: 3 });
+    expect(weaker.best).toBe(shots[0]);
+  });
+
+  it('rejects targets that do not exist or are not reachable clusters', () => {
+    const { world, shots, clusters } = setup();
+    expect(judgeHint(world.grid, clusters, shots, { message: '', targetRow: 9, targetCol: 40, recommendedColor: 'red' }).status).toBe('invalid');
+    expect(judgeHint(world.grid, clusters, shots, { message: '', targetRow: 0, targetCol: 3, recommendedColor: 'green' }).status).toBe('invalid');
+    expect(judgeHint(world.grid, clusters, shots, { message: 'no target' }).status).toBe('invalid');
+  });
+});
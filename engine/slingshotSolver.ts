@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Bubble, BubbleColor, Point, StrategicHint, TargetCandidate } from '../types';
+import { BubbleGrid, getNeighborCells } from './bubbleGrid';
+import { STEP_MS } from './gameLoop';
+import { advanceBall, getLaunchVelocity, MAX_DRAG_DIST, MAX_FLIGHT_MS, resolveLanding } from './slingshotWorld';
+
+// Launch directions tried, in degrees from the right wall; 90 is straight up
+const MIN_ANGLE = 10;
+const MAX_ANGLE = 170;
+const ANGLE_STEP = 1;
+const MAX_FLIGHT_TICKS = Math.floor(MAX_FLIGHT_MS / STEP_MS);
+
+/** One simulated full-power shot and what it would do to the board. */
+export interface SolverShot {
+  angle: number;
+  color: BubbleColor;
+  /** Bubble the ball touches first, or null when it sticks to the ceiling. */
+  hitId: string | null;
+  /** Cell the ball settles into. */
+  row: number;
+  col: number;
+  popped: number;
+  dropped: number;
+  points: number;
+  /** Same-color group the new bubble ends up in when nothing pops; bigger sets up a later match. */
+  groupSize: number;
+  bounces: number;
+  /** Where to aim: the first wall bounce, or the landing point for a direct shot. */
+  aim: Point;
+}
+
+export type SolverAgreement = 'agrees' | 'disagrees' | 'invalid';
+
+export interface SolverVerdict {
+  /** 'invalid' when the advisor's target is not a reachable cluster or its color cannot be shot. */
+  status: SolverAgreement;
+  best: SolverShot | null;
+  /** Best simulated shot at the advisor's target with its color. */
+  pick: SolverShot | null;
+}
+
+/** Better shots first: points, then bubbles cleared, then setup, then the simplest aim. */
+export const compareShots = (a: SolverShot, b: SolverShot) =>
+  b.points - a.points || (b.popped + b.dropped) - (a.popped + a.dropped) || b.groupSize - a.groupSize ||
+  a.bounces - b.bounces || Math.abs(a.angle - 90) - Math.abs(b.angle - 90);
+
+const traceShot = (grid: BubbleGrid, anchor: Point, width: number, height: number, angle: number) => {
+  const rad = angle * Math.PI / 180;
+  const ball = { ...anchor };
+  const velocity = getLaunchVelocity({ x: -Math.cos(rad) * MAX_DRAG_DIST, y: Math.sin(rad) * MAX_DRAG_DIST });
+  let aim: Point | null = null; let bounces = 0;
+  for (let tick = 0; tick < MAX_FLIGHT_TICKS; tick++) {
+    const vx = velocity.x;
+    const hit = advanceBall(grid, ball, velocity, width);
+    if (Math.sign(velocity.x) !== Math.sign(vx)) { bounces++; aim ??= { ...ball }; }
+    if (hit) return { hit, ball, bounces, aim: aim ?? { ...ball } };
+    if (ball.y > height) return null;
+  }
+  return null;
+};
+
+const landShot = (grid: BubbleGrid, ball: Point, hit: Bubble | 'ceiling', color: BubbleColor) => {
+  const board = grid.clone();
+  const { bubble, popped, dropped, points } = resolveLanding(board, { ...ball }, hit, color, 'solver');
+  return { color, row: bubble.row, col: bubble.col, popped: popped.length, dropped: dropped.length, points, groupSize: popped.length > 0 ? 0 : board.cluster(bubble).length };
+};
+
+/**
+ * Simulates a full-power shot at every angle and, wherever it lands, every
+ * shootable color, using the same flight and landing code as the game. Returns
+ * one shot per landing cell and color, best first. Never mutates `grid`.
+ */
+export const solveShots = (grid: BubbleGrid, anchor: Point, width: number, height: number, colors: BubbleColor[]): SolverShot[] => {
+  const byOutcome = new Map<string, SolverShot>();
+  for (let angle = MIN_ANGLE; angle <= MAX_ANGLE; angle += ANGLE_STEP) {
+    const flight = traceShot(grid, anchor, width, height, angle);
+    if (!flight) continue;
+    // The board's response depends only on the cell and color, so each pair is resolved once
+    const { row, col } = grid.snap(flight.ball, flight.hit);
+    for (const color of colors) {
+      const key = `${row}:${col}:${color}`;
+      const seen = byOutcome.get(key);
+      const shot: SolverShot = { ...(seen ?? landShot(grid, flight.ball, flight.hit, color)), angle, hitId: flight.hit === 'ceiling' ? null : flight.hit.id, bounces: flight.bounces, aim: flight.aim };
+      if (!seen || compareShots(shot, seen) < 0) byOutcome.set(key, shot);
+    }
+  }
+  return [...byOutcome.values()].sort(compareShots);
+};
+
+/**
+ * Checks an advisor's hint against the solver: the target must be a bubble of
+ * a reachable cluster, and the hint agrees when the best shot at that cluster
+ * with the recommended color is as good as the best shot overall.
+ */
+export const judgeHint = (grid: BubbleGrid, clusters: TargetCandidate[], shots: SolverShot[], hint: StrategicHint): SolverVerdict => {
+  const best = shots[0] ?? null;
+  const target = Number.isInteger(hint.targetRow) && Number.isInteger(hint.targetCol) ? grid.at(hint.targetRow!, hint.targetCol!) : undefined;
+  const group = target && !target.special ? grid.cluster(target) : [];
+  if (!group.some(b => clusters.some(c => c.id === b.id))) return { status: 'invalid', best, pick: null };
+
+  const ids = new Set(group.map(b => b.id));
+  const touchesGroup = (shot: SolverShot) => (shot.hitId !== null && ids.has(shot.hitId)) ||
+    group.some(b => getNeighborCells(b.row, b.col).some(c => c.row === shot.row && c.col === shot.col));
+  const pick = shots.find(shot => shot.color === hint.recommendedColor && touchesGroup(shot)) ?? null;
+  if (!pick || !best) return { status: 'invalid', best, pick };
+  const asGood = pick.points === best.points && (best.points > 0 || pick.groupSize >= best.groupSize);
+  return { status: asGood ? 'agrees' : 'disagrees', best, pick };
+};
@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+import { ReplayRecorder, TickInput } from './replay';
+import { LevelData } from './slingshotLevels';
+import { MAX_DRAG_DIST, simulateSlingshotReplay, SlingshotWorld } from './slingshotWorld';
+
+const WIDTH = 800;
+const HEIGHT = 700;
+
+/** Grabs the ball, pulls it straight down-and-aside, then lets go. */
+const shotInputs = (world: SlingshotWorld, offsetX: number): TickInput[] => {
+  const at = (x: number, y: number, grabbing: boolean): TickInput => ({ sample: { x: x / WIDTH, y: y / HEIGHT, grabbing, timestamp: 0 }, fresh: true, locked: false });
+  const { x, y } = world.anchor;
+  return [
+    at(x, y, true),
+    at(x + offsetX / 2, y + MAX_DRAG_DIST / 2, true),
+    at(x + offsetX, y + MAX_DRAG_DIST, true),
+    at(x + offsetX, y + MAX_DRAG_DIST, false)
+  ];
+};
+
+const idle: TickInput = { sample: null, fresh: false, locked: false };
+
+const layout = (grid: LevelData['grid'], overrides: Partial<LevelData> = {}): LevelData => ({
+  version: 1, name: 'Test', shotLimit: null, descentRate: 0, targetScore: null, grid, ...overrides
+});
+const row = (cell: LevelData['grid'][number][number], n: number) => Array(n).fill(cell);
+
+/** Fires straight up and waits for the ball to land. */
+const upShot = (world: SlingshotWorld) => {
+  shotInputs(world, 0).forEach(input => world.step(input));
+  for (let i = 0; i < 300 && world.isFlying; i++) world.step(idle);
+};
+
+/** Pulls the ball up so it flies off the bottom of the screen without touching the board. */
+const missShot = (world: SlingshotWorld) => {
+  const { x, y } = world.anchor;
+  const at = (py: number, grabbing: boolean): TickInput => ({ sample: { x: x / WIDTH, y: py / HEIGHT, grabbing, timestamp: 0 }, fresh: true, locked: false });
+  [at(y, true), at(y - MAX_DRAG_DIST, true), at(y - MAX_DRAG_DIST, false)].forEach(input => world.step(input));
+  for (let i = 0; i < 300 && world.isFlying; i++) world.step(idle);
+};
+
+describe('SlingshotWorld', () => {
+  it('launches on release and lands the ball in the grid', () => {
+    const world = new SlingshotWorld(7, WIDTH, HEIGHT);
+    const before = world.grid.active.length;
+    shotInputs(world, 0).forEach(input => world.step(input));
+    expect(world.isFlying).toBe(true);
+    for (let i = 0; i < 300 && world.isFlying; i++) world.step(idle);
+
+    const events = world.drainEvents();
+    expect(events[0]).toEqual({ type: 'launch' });
+    const land = events.find(e => e.type === 'land');
+    expect(land).toBeDefined();
+    expect(world.ball).toEqual(world.anchor);
+    if (land?.type === 'land') expect(world.grid.active.length).toBe(before + 1 - land.popped.length);
+  });
+
+  it('reports the ball coming off a side wall', () => {
+    const world = new SlingshotWorld(7, WIDTH, HEIGHT);
+    world.grid.bubbles.forEach(b => { b.active = false; });
+    shotInputs(world, MAX_DRAG_DIST).forEach(input => world.step(input));
+    for (let i = 0; i < 300 && world.isFlying; i++) world.step(idle);
+
+    const bounce = world.drainEvents().find(e => e.type === 'bounce');
+    expect(bounce).toBeDefined();
+    if (bounce?.type === 'bounce') expect(bounce.x).toBeLessThan(WIDTH / 2);
+  });
+
+  it('ignores input while locked', () => {
+    const world = new SlingshotWorld(7, WIDTH, HEIGHT);
+    shotInputs(world, 0).forEach(input => world.step({ ...input, locked: true }));
+    expect(world.isFlying).toBe(false);
+    expect(world.drainEvents()).toEqual([]);
+  });
+
+  it('is reproduced exactly by its replay', () => {
+    const seed = 99;
+    const live = new SlingshotWorld(seed, WIDTH, HEIGHT, 3);
+    const recorder = new ReplayRecorder('slingshot', seed, WIDTH, HEIGHT, false, 3);
+    const colors = ['red', 'blue', 'green', 'yellow', 'purple', 'orange'] as const;
+    for (let shot = 0; shot < 12; shot++) {
+      const color = colors[shot % colors.length];
+      recorder.recordEvent('color', color); live.selectedColor = color;
+      const inputs = [...shotInputs(live, (shot % 5 - 2) * 60), ...Array(240).fill(idle)];
+      inputs.forEach(input => live.step(recorder.record(input)));
+    }
+
+    const replayed = simulateSlingshotReplay(recorder.finish(live.score));
+    expect(replayed.level).toBe(3);
+    expect(replayed.score).toBe(live.score);
+    expect(replayed.grid.bubbles).toEqual(live.grid.bubbles);
+  });
+
+  it('lowers the ceiling after every few misses', () => {
+    const world = new SlingshotWorld(7, WIDTH, HEIGHT);
+    const top = world.grid.active[0].y;
+    for (let i = 0; i < world.config.shotsPerDrop - 1; i++) missShot(world);
+    expect(world.grid.ceiling).toBe(0);
+    expect(world.missesUntilDrop).toBe(1);
+
+    missShot(world);
+
+    expect(world.drainEvents()).toContainEqual({ type: 'ceiling', rows: 1 });
+    expect(world.grid.ceiling).toBe(1);
+    expect(world.grid.active[0].y).toBeGreaterThan(top);
+    expect(world.missesUntilDrop).toBe(world.config.shotsPerDrop);
+  });
+
+  it('is lost once the board crosses the deadline and then ignores input', () => {
+    const world = new SlingshotWorld(7, WIDTH, HEIGHT);
+    for (let i = 0; i < 200 && world.status === 'playing'; i++) missShot(world);
+
+    expect(world.status).toBe('lost');
+    expect(world.grid.bottomY()).toBeGreaterThan(world.deadlineY);
+    expect(world.drainEvents()).toContainEqual({ type: 'lost' });
+    const shots = world.shotCount;
+    missShot(world);
+    expect(world.shotCount).toBe(shots);
+  });
+
+  it('is won with a star rating when the board is cleared', () => {
+    const world = new SlingshotWorld(7, WIDTH, HEIGHT);
+    world.grid.bubbles.forEach(b => { b.active = false; });
+    missShot(world);
+
+    expect(world.status).toBe('won');
+    expect(world.stars).toBe(3);
+    expect(world.drainEvents()).toContainEqual({ type: 'won', stars: 3 });
+  });
+
+  it('plays authored layouts with their own rules', () => {
+    const world = new SlingshotWorld(7, WIDTH, HEIGHT, 2, layout([row('red', 12), ['stone']], { shotLimit: 2 }));
+    expect(world.grid.remaining).toHaveLength(12);
+    expect(world.shotsLeft).toBe(2);
+    missShot(world); missShot(world);
+
+    expect(world.grid.ceiling).toBe(0);
+    expect(world.status).toBe('lost');
+  });
+
+  it('wins on the target score without clearing the board', () => {
+    const world = new SlingshotWorld(7, WIDTH, HEIGHT, 1, layout([['blue', ...row('red', 11)], row('red', 11)], { targetScore: 300 }));
+    world.selectedColor = 'red';
+    upShot(world);
+
+    expect(world.status).toBe('won');
+    expect(world.grid.remaining.map(b => b.color)).toEqual(['blue']);
+  });
+
+  it('sets off a bomb the shot lands next to', () => {
+    const world = new SlingshotWorld(7, WIDTH, HEIGHT, 1, layout([row('green', 12), row('bomb', 11)]));
+    world.selectedColor = 'red';
+    upShot(world);
+
+    const land = world.drainEvents().find(e => e.type === 'land');
+    expect(land).toMatchObject({ blast: true });
+    if (land?.type === 'land') expect(land.popped.some(b => b.special === 'bomb')).toBe(true);
+  });
+
+  it('replays authored layouts', () => {
+    const board = layout([row('red', 12), row('blue', 11), row('green', 12)], { descentRate: 3 });
+    const live = new SlingshotWorld(5, WIDTH, HEIGHT, 0, board);
+    const recorder = new ReplayRecorder('slingshot', 5, WIDTH, HEIGHT, false, 0, board);
+    recorder.recordEvent('color', 'green'); live.selectedColor = 'green';
+    for (let shot = 0; shot < 4; shot++) [...shotInputs(live, (shot - 2) * 50), ...Array(240).fill(idle)].forEach(input => live.step(recorder.record(input)));
+
+    const replay = recorder.finish(live.score);
+    expect(replay.layout).toBe(board);
+    const replayed = simulateSlingshotReplay(replay);
+    expect(replayed.grid.bubbles).toEqual(live.grid.bubbles);
+  });
+});
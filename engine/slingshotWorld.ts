@@ -0,0 +1,244 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Bubble, BubbleColor, FallingBubble, Particle, Point } from '../types';
+import { BubbleGrid, BUBBLE_RADIUS, COLOR_CONFIG, getBlastScore, getDropScore, getMatchScore, SPECIAL_CONFIG } from './bubbleGrid';
+import { STEP_MS } from './gameLoop';
+import { createRng, Rng } from './random';
+import { Replay, ReplayPlayer, TickInput } from './replay';
+import { getLayoutLevel, getPar, getSlingshotLevel, getStarRating, LevelData, SlingshotLevel } from './slingshotLevels';
+
+export const GRAVITY = 0.0;
+export const FRICTION = 0.998;
+export const SLINGSHOT_BOTTOM_OFFSET = 220;
+export const MAX_DRAG_DIST = 180;
+export const MIN_FORCE_MULT = 0.15;
+export const MAX_FORCE_MULT = 0.45;
+export const MAX_FLIGHT_MS = 5000;
+const GRAB_RADIUS = 100;
+const MIN_LAUNCH_DIST = 30;
+const SUBSTEP_DIST = 15;
+const FALL_GRAVITY = 0.5;
+// The round is lost once a bubble reaches this far above the sling's anchor
+const DEADLINE_MARGIN = BUBBLE_RADIUS * 3;
+
+export type SlingshotStatus = 'playing' | 'won' | 'lost';
+
+/** What landing a ball of `color` at a grid cell did to the board. */
+export interface LandingResult {
+  bubble: Bubble;
+  popped: Bubble[];
+  dropped: Bubble[];
+  points: number;
+  blast: boolean;
+}
+
+/** Launch velocity for a ball pulled `pull` away from the anchor (clamped to MAX_DRAG_DIST by the caller). */
+export const getLaunchVelocity = (pull: Point): Point => {
+  const dist = Math.sqrt(pull.x ** 2 + pull.y ** 2);
+  const m = MIN_FORCE_MULT + (MAX_FORCE_MULT - MIN_FORCE_MULT) * Math.min(dist / MAX_DRAG_DIST, 1) ** 2;
+  return { x: -pull.x * m, y: -pull.y * m };
+};
+
+/**
+ * Moves a flying ball one tick, bouncing off the side walls. Mutates `ball`
+ * and `velocity`; returns what it touched, or null if it is still free.
+ */
+export const advanceBall = (grid: BubbleGrid, ball: Point, velocity: Point, width: number): Bubble | 'ceiling' | null => {
+  velocity.x *= FRICTION; velocity.y = velocity.y * FRICTION + GRAVITY;
+  const steps = Math.ceil(Math.sqrt(velocity.x ** 2 + velocity.y ** 2) / SUBSTEP_DIST);
+  for (let i = 0; i < steps; i++) {
+    ball.x += velocity.x / steps; ball.y += velocity.y / steps;
+    if (ball.x < BUBBLE_RADIUS || ball.x > width - BUBBLE_RADIUS) velocity.x *= -1;
+    const hit = grid.collides(ball);
+    if (hit) return hit;
+  }
+  return null;
+};
+
+/** Snaps a ball that touched `hit` into the grid and resolves bombs, matches and drops. */
+export const resolveLanding = (grid: BubbleGrid, ball: Point, hit: Bubble | 'ceiling', color: BubbleColor, id: string): LandingResult => {
+  const { row, col } = grid.snap(ball, hit);
+  const bubble = grid.place(row, col, color, id);
+  // Landing next to a bomb sets it off instead of matching colors
+  const bomb = grid.neighbors(bubble).find(n => n.special === 'bomb');
+  const popped = bomb ? grid.explode(bomb) : grid.match(bubble);
+  // Only a pop can cut bubbles loose from the ceiling
+  const dropped = popped.length > 0 ? grid.dropFloating() : [];
+  const points = (bomb ? getBlastScore(popped) : popped.length > 0 ? getMatchScore(popped.length, bubble.color) : 0) + getDropScore(dropped);
+  return { bubble, popped, dropped, points, blast: !!bomb };
+};
+
+export type SlingshotEvent =
+  | { type: 'launch' }
+  | { type: 'bounce', x: number }
+  | { type: 'land', bubble: Bubble, popped: Bubble[], dropped: Bubble[], points: number, blast: boolean }
+  | { type: 'miss' }
+  | { type: 'ceiling', rows: number }
+  | { type: 'won', stars: number }
+  | { type: 'lost' };
+
+/**
+ * Headless Bubble Slingshot simulation: pulling and releasing the ball,
+ * flight, snapping into the grid, scoring, the descending ceiling and the
+ * win/lose rules. Boards are generated from the level number unless an
+ * authored `layout` is given. Advanced one fixed tick at a time by `step`;
+ * the React component renders it and owns the AI round-trips.
+ */
+export class SlingshotWorld {
+  readonly rng: Rng;
+  readonly grid: BubbleGrid;
+  readonly anchor: Point;
+  readonly config: SlingshotLevel;
+  /** Shots a 3-star clear may take. */
+  readonly par: number;
+  particles: Particle[] = [];
+  falling: FallingBubble[] = [];
+  ball: Point;
+  velocity: Point = { x: 0, y: 0 };
+  isPinching = false;
+  isFlying = false;
+  selectedColor: BubbleColor = 'red';
+
+  score = 0;
+  tick = 0;
+  simTime = 0;
+  shotCount = 0;
+  status: SlingshotStatus = 'playing';
+  stars = 0;
+  missesUntilDrop: number;
+
+  private flightStartTime = 0;
+  private events: SlingshotEvent[] = [];
+
+  constructor(readonly seed: number, readonly width: number, readonly height: number, readonly level = 1, readonly layout: LevelData | null = null) {
+    this.rng = createRng(seed);
+    this.config = layout ? getLayoutLevel(level, layout) : getSlingshotLevel(level);
+    this.grid = layout ? BubbleGrid.fromLayout(width, layout.grid) : BubbleGrid.random(width, this.rng, this.config.rows, this.config.colors);
+    this.par = getPar(this.grid.remaining.length);
+    this.missesUntilDrop = this.config.shotsPerDrop;
+    this.anchor = { x: width / 2, y: height - SLINGSHOT_BOTTOM_OFFSET };
+    this.ball = { ...this.anchor };
+  }
+
+  /** Shots left under the level's shot limit, or null when there is none. */
+  get shotsLeft() { return this.config.shotLimit === null ? null : Math.max(0, this.config.shotLimit - this.shotCount); }
+
+  /** Bubbles may not reach below this line. */
+  get deadlineY() { return this.anchor.y - DEADLINE_MARGIN; }
+
+  drainEvents(): SlingshotEvent[] {
+    const out = this.events; this.events = [];
+    return out;
+  }
+
+  /** Advances one fixed tick. `input.sample` is normalized to the play area; `locked` freezes the sling. */
+  step(input: TickInput) {
+    this.tick++;
+    this.simTime += STEP_MS;
+    // A finished board keeps animating but ignores input
+    if (this.status === 'playing') {
+      this.updateSling(input);
+      if (this.isFlying) this.updateFlight();
+    }
+    for (let i = this.particles.length - 1; i >= 0; i--) { const p = this.particles[i]; p.x += p.vx; p.y += p.vy; p.life -= 0.05; if (p.life <= 0) this.particles.splice(i, 1); }
+    for (let i = this.falling.length - 1; i >= 0; i--) { const f = this.falling[i]; f.vy += FALL_GRAVITY; f.x += f.vx; f.y += f.vy; if (f.y > this.height + BUBBLE_RADIUS) this.falling.splice(i, 1); }
+  }
+
+  private updateSling({ sample, locked }: TickInput) {
+    const anchor = this.anchor;
+    const handPos: Point | null = sample ? { x: sample.x * this.width, y: sample.y * this.height } : null;
+    const grabbing = !!sample?.grabbing;
+    if (!locked && handPos && grabbing && !this.isFlying) {
+      if (!this.isPinching && Math.sqrt((handPos.x - this.ball.x) ** 2 + (handPos.y - this.ball.y) ** 2) < GRAB_RADIUS) this.isPinching = true;
+      if (this.isPinching) {
+        this.ball = { ...handPos };
+        const d = Math.sqrt((this.ball.x - anchor.x) ** 2 + (this.ball.y - anchor.y) ** 2);
+        if (d > MAX_DRAG_DIST) { const a = Math.atan2(this.ball.y - anchor.y, this.ball.x - anchor.x); this.ball = { x: anchor.x + Math.cos(a) * MAX_DRAG_DIST, y: anchor.y + Math.sin(a) * MAX_DRAG_DIST }; }
+      }
+    } else if (this.isPinching && (!handPos || !grabbing || locked)) {
+      this.isPinching = false;
+      const dx = anchor.x - this.ball.x; const dy = anchor.y - this.ball.y;
+      const dist = Math.sqrt(dx * dx + dy * dy);
+      if (!locked && dist > MIN_LAUNCH_DIST) {
+        this.isFlying = true; this.flightStartTime = this.simTime;
+        this.velocity = getLaunchVelocity({ x: -dx, y: -dy });
+        this.shotCount++;
+        this.events.push({ type: 'launch' });
+      } else this.ball = { ...anchor };
+    } else if (!this.isFlying && !this.isPinching) {
+      this.ball.x += (anchor.x - this.ball.x) * 0.15; this.ball.y += (anchor.y - this.ball.y) * 0.15;
+    }
+  }
+
+  private updateFlight() {
+    if (this.simTime - this.flightStartTime > MAX_FLIGHT_MS) { this.miss(); return; }
+    const heading = Math.sign(this.velocity.x);
+    const hit = advanceBall(this.grid, this.ball, this.velocity, this.width);
+    // Friction never flips the direction, so a flip means the ball came off a wall
+    if (heading !== 0 && Math.sign(this.velocity.x) === -heading) this.events.push({ type: 'bounce', x: this.ball.x });
+    if (hit) this.land(hit);
+    else if (this.ball.y > this.height) this.miss();
+  }
+
+  private land(hit: Bubble | 'ceiling') {
+    const { bubble, popped, dropped, points, blast } = resolveLanding(this.grid, this.ball, hit, this.selectedColor, `shot-${this.shotCount}`);
+    popped.forEach(b => this.createExplosion(b.x, b.y, b.special ? SPECIAL_CONFIG[b.special].hex : COLOR_CONFIG[b.color].hex));
+    dropped.forEach(b => this.falling.push({ x: b.x, y: b.y, vx: (this.rng.next() - 0.5) * 4, vy: -2 - this.rng.next() * 2, color: b.color, special: b.special }));
+    this.score += points;
+    this.resetBall();
+    this.events.push({ type: 'land', bubble, popped, dropped, points, blast });
+    if (popped.length === 0) this.countMiss();
+    this.checkEnd();
+  }
+
+  private miss() {
+    this.resetBall();
+    this.events.push({ type: 'miss' });
+    this.countMiss();
+    this.checkEnd();
+  }
+
+  /** Every `shotsPerDrop` shots that pop nothing push the ceiling down a row. */
+  private countMiss() {
+    if (this.config.shotsPerDrop <= 0 || --this.missesUntilDrop > 0) return;
+    this.missesUntilDrop = this.config.shotsPerDrop;
+    this.grid.lowerCeiling();
+    this.events.push({ type: 'ceiling', rows: this.grid.ceiling });
+  }
+
+  /** Clearing the board (or reaching the target score) wins; crossing the deadline or running out of shots loses. */
+  private checkEnd() {
+    const { targetScore } = this.config;
+    if (this.grid.remaining.length === 0 || (targetScore !== null && this.score >= targetScore)) {
+      this.status = 'won'; this.stars = getStarRating(this.shotCount, this.par);
+      this.events.push({ type: 'won', stars: this.stars });
+    } else if (this.grid.bottomY() > this.deadlineY || this.shotsLeft === 0) {
+      this.status = 'lost';
+      this.events.push({ type: 'lost' });
+    }
+  }
+
+  private resetBall() {
+    this.isFlying = false;
+    this.ball = { ...this.anchor };
+  }
+
+  private createExplosion(x: number, y: number, color: string) {
+    for (let i = 0; i < 15; i++) this.particles.push({ x, y, vx: (this.rng.next() - 0.5) * 12, vy: (this.rng.next() - 0.5) * 12, life: 1.0, color });
+  }
+}
+
+/** Re-simulates a recorded Bubble Slingshot session without any DOM, e.g. to verify a claimed score. */
+export const simulateSlingshotReplay = (replay: Replay): SlingshotWorld => {
+  const world = new SlingshotWorld(replay.seed, replay.width, replay.height, replay.level, replay.layout);
+  const player = new ReplayPlayer(replay);
+  while (!player.done && world.status === 'playing') {
+    player.takeEvents().forEach(ev => { if (ev.type === 'color') world.selectedColor = ev.value as BubbleColor; });
+    player.poll();
+    world.step(player.input);
+  }
+  return world;
+};
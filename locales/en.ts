@@ -0,0 +1,212 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Messages } from "../services/i18n";
+
+/** English. */
+export const en: Messages = {
+  'menu.poweredBy': 'Powered by Google Gemini 3 Flash',
+  'menu.slicerBlurb': "Use your hand as a digital blade. Slice fruits, build combos, and listen to the AI Sensei's wisdom.",
+  'menu.slicerTag': 'AI Vision Analysis',
+  'menu.slingshotBlurb': 'Pinch your fingers to aim and shoot. Solve bubble puzzles with tactical support from the AI.',
+  'menu.slingshotTag': 'Strategic Engine',
+  'menu.slicerTop': 'Fruit Ninja Top 10',
+  'menu.slingshotTop': 'Slingshot Top 10',
+  'menu.back': 'Back to Menu',
+  'menu.language': 'Language',
+
+  'camera.busy': 'Camera is busy or not available. Please close other apps using the camera.',
+  'camera.denied': 'Camera permission denied. Please allow access.',
+  'camera.error': 'Camera Error: {message}',
+  'camera.unknown': 'Unknown error',
+
+  'input.settings': 'Input Settings',
+  'input.title': 'Input',
+  'input.hand': 'Hand (Camera)',
+  'input.touch': 'Touch',
+  'input.pointer': 'Mouse / Pen',
+  'input.gamepad': 'Gamepad',
+
+  'audio.settings': 'Sound Settings',
+  'audio.title': 'Sound',
+  'audio.mute': 'Mute',
+  'audio.volume': 'Volume',
+  'audio.sfx': 'Effects',
+  'audio.music': 'Music',
+  'audio.speech': 'Read hints aloud',
+  'audio.voice': 'Voice',
+  'audio.voiceVolume': 'Voice volume',
+  'audio.browserVoice': 'Browser default',
+  'audio.noSpeech': 'This browser cannot read hints aloud.',
+  'audio.commands': 'Voice commands',
+  'audio.commandsHint': 'Say "start", "pause", "resume", "restart", "menu" or "switch to red".',
+  'audio.noCommands': 'This browser cannot listen for voice commands.',
+
+  'pause.title': 'PAUSED',
+  'pause.resume': 'Resume',
+  'update.available': 'A new version of Abang Arcade is ready.',
+  'update.reload': 'Reload',
+  'update.later': 'Later',
+
+  'scores.empty': 'No runs yet.',
+  'scores.level': 'Lv {level}',
+
+  'profile.new': 'New profile',
+  'profile.namePlaceholder': 'Player name',
+  'profile.runs': 'Runs',
+  'profile.totalScore': 'Total Score',
+  'profile.playTime': 'Play Time',
+  'profile.bestSlicer': 'Best Slicer',
+  'profile.bestSlingshot': 'Best Slingshot',
+  'profile.bombsHit': 'Bombs Hit',
+
+  'leaderboard.title': 'Global Leaderboard',
+  'leaderboard.day': 'Today',
+  'leaderboard.week': 'Week',
+  'leaderboard.all': 'All Time',
+  'leaderboard.empty': 'No ranked runs yet.',
+  'leaderboard.unavailable': 'Leaderboard unavailable',
+
+  'slicer.loading': 'Sharpening the Blades...',
+  'slicer.level': 'LEVEL {level}',
+  'slicer.replayBadge': 'REPLAY',
+  'slicer.senseiTitle': "Sensei's Advice",
+  'slicer.senseiWatching': 'Sensei is watching...',
+  'slicer.levelUp': 'LEVEL UP!',
+  'slicer.start': 'Start Slicing',
+  'slicer.useIndexFinger': 'Use Your Index Finger',
+  'slicer.avoidSambal': 'Avoid the Sambal!',
+  'slicer.loadReplay': 'Load Replay',
+  'slicer.go': 'GO!',
+  'slicer.gameOver': 'Simulation Complete',
+  'slicer.rank': 'Rank: {rank}',
+  'slicer.totalScore': 'Total Score',
+  'slicer.finalLevel': 'Final Level',
+  'slicer.scoreboard': 'Scoreboard',
+  'slicer.globalRank': 'Global Rank #{rank}',
+  'slicer.retry': 'Try Again',
+  'slicer.watchReplay': 'Watch Replay',
+  'slicer.saveReplay': 'Save Replay',
+  'slicer.wrongReplay': 'This replay is not from Fruit Ninja',
+  'slicer.badReplay': 'Corrupted replay',
+
+  'slingshot.desktopOnly': 'Desktop View Required',
+  'slingshot.desktopOnlyBody': 'This experience requires a larger screen.',
+  'slingshot.loading': 'Starting Engine...',
+  'slingshot.score': 'Score',
+  'slingshot.playtest': 'Playtest',
+  'slingshot.level': 'Level',
+  'slingshot.shotsLeft': 'Shots left',
+  'slingshot.missesUntilDrop': 'Misses before the ceiling drops',
+  'slingshot.intro': 'Clear the board before it reaches the red line. Every few shots that pop nothing bring the ceiling down a row.',
+  'slingshot.startLevel': 'Start Level {level}',
+  'slingshot.levelEditor': 'Level Editor',
+  'slingshot.go': 'GO',
+  'slingshot.levelNumber': 'Level {level}',
+  'slingshot.won': 'Board Cleared!',
+  'slingshot.lost': 'Game Over',
+  'slingshot.ended': 'Replay Ended',
+  'slingshot.shotsPar': '{shots} shots · par {par}',
+  'slingshot.highScores': 'High Scores',
+  'slingshot.globalRank': 'Global rank #{rank} on level {level}',
+  'slingshot.retry': 'Retry',
+  'slingshot.editLevel': 'Edit Level',
+  'slingshot.nextLevel': 'Next Level',
+  'slingshot.strategyTitle': 'Flash Strategy',
+  'slingshot.initializing': 'Initializing strategy engine...',
+  'slingshot.replay': 'Replay',
+  'slingshot.replayPlaying': 'PLAYING',
+  'slingshot.watch': 'Watch',
+  'slingshot.save': 'Save',
+  'slingshot.load': 'Load',
+  'slingshot.wrongReplay': 'This replay is not from Bubble Slingshot',
+  'slingshot.badReplay': 'Corrupted replay',
+
+  'solver.agrees': 'AI agrees with solver',
+  'solver.disagrees': 'AI disagrees with solver',
+  'solver.invalid': 'AI target rejected by solver',
+  'solver.label': 'Solver: ',
+  'solver.bank': 'bank',
+
+  'color.red': 'Red',
+  'color.blue': 'Blue',
+  'color.green': 'Green',
+  'color.yellow': 'Yellow',
+  'color.purple': 'Purple',
+  'color.orange': 'Orange',
+  'special.stone': 'Stone',
+  'special.bomb': 'Bomb',
+
+  'editor.title': 'Level Editor',
+  'editor.eraser': 'Eraser',
+  'editor.close': 'Close editor',
+  'editor.name': 'Name',
+  'editor.shotLimit': 'Shot limit',
+  'editor.unlimited': 'Unlimited',
+  'editor.descentRate': 'Misses per ceiling drop',
+  'editor.targetScore': 'Target score',
+  'editor.clearTheBoard': 'Clear the board',
+  'editor.startFrom': 'Start from',
+  'editor.chooseLevel': 'Choose a level...',
+  'editor.blankBoard': 'Blank board',
+  'editor.playtest': 'Playtest',
+  'editor.export': 'Export',
+  'editor.import': 'Import',
+  'editor.clearBoard': 'Clear board',
+  'editor.readError': 'Could not read level',
+
+  'level.invalid': 'Invalid level: {problems}',
+  'level.notJson': 'Level file is not valid JSON',
+  'level.notObject': 'Level must be a JSON object',
+  'level.version': 'Unsupported level version (expected 1)',
+  'level.nameMissing': 'Level needs a name',
+  'level.nameTooLong': 'Name is longer than {max} characters',
+  'level.shotLimit': 'shotLimit must be a whole number of at least 1, or null',
+  'level.descentRate': 'descentRate must be a whole number of at least 0',
+  'level.targetScore': 'targetScore must be a whole number of at least 1, or null',
+  'level.gridMissing': 'grid must be a non-empty array of rows',
+  'level.tooManyRows': 'grid has {rows} rows, at most {max} fit',
+  'level.rowNotArray': 'Row {row} is not an array',
+  'level.rowTooLong': 'Row {row} has {cells} cells, at most {max} fit',
+  'level.unknownCell': 'Unknown cell {cell} at row {row}, column {col}',
+  'level.noColors': 'Level has no colored bubbles to clear',
+  'level.floating': 'Cell at row {row}, column {col} is not connected to the ceiling',
+
+  'fruit.guava': 'Guava',
+  'fruit.mango': 'Green Mango',
+  'fruit.pineapple': 'Honey Pineapple',
+  'fruit.sweet_mango': 'Ripe Mango',
+  'fruit.bomb': 'Sambal Bottle',
+
+  'ai.sensei.missingConfig': 'Sensei is resting (API key missing).',
+  'ai.sensei.badResponse': 'Focus, Bang! That cut was not sharp enough.',
+  'ai.sensei.failed': 'Sensei is on a coffee break, keep slicing!',
+  'ai.strategy.missingConfig': 'API key missing, playing on offline tactics.',
+  'ai.strategy.badResponse': 'Tactics system froze, trust your gut for now!',
+  'ai.strategy.failed': 'Lost the tactics link!',
+
+  'rules.sensei.onlyBombs': 'Only Sambal on screen, hold your hand still, Bang!',
+  'rules.sensei.onlyBombsWhy': 'There is no fruit that is safe to slice.',
+  'rules.sensei.onlyBombsTip': 'Lift your hand and wait for the next wave.',
+  'rules.sensei.empty': 'Get ready, Bang, more fruit is coming!',
+  'rules.sensei.emptyWhy': 'The screen is empty.',
+  'rules.sensei.emptyTip': 'Keep your hand in the middle so you can reach anywhere fast.',
+  'rules.sensei.focus': "There's a {fruit}! Focus and go for it, Bang!",
+  'rules.sensei.slice': 'Slice that {fruit}, Bang!',
+  'rules.sensei.worth': '{fruit} is worth {points} points.',
+  'rules.sensei.worthBombs': '{fruit} is worth {points} points, but there are {bombs} Sambal Bottles, careful!',
+  'rules.sensei.tipBombs': 'Short cuts only, do not sweep the whole screen.',
+  'rules.sensei.tipMany': 'Slice horizontally to catch them all.',
+  'rules.sensei.tipScore': 'Score {score}, keep your rhythm.',
+  'rules.side.left': 'the left',
+  'rules.side.center': 'the centre',
+  'rules.side.right': 'the right',
+  'rules.strategy.combo': 'Shoot {color} on {where} to pop {count} at once!',
+  'rules.strategy.comboWhy': 'The {color} cluster has {size}, one more makes it burst.',
+  'rules.strategy.build': 'No combo yet, put {color} on {where} to set one up.',
+  'rules.strategy.buildWhy': 'Every cluster is still small; build up the lowest one first.',
+  'rules.strategy.none': 'No clean target, bank it off the wall!',
+  'rules.strategy.noneWhy': 'No clear targets reachable.'
+};
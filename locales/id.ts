@@ -0,0 +1,210 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Bahasa Indonesia, the game's original language and the source catalog for `MessageKey`. */
+export const id = {
+  'menu.poweredBy': 'Didukung Google Gemini 3 Flash',
+  'menu.slicerBlurb': 'Jadikan tanganmu pisau digital. Potong buah, bangun combo, dan dengarkan petuah Sensei AI.',
+  'menu.slicerTag': 'Analisis Visi AI',
+  'menu.slingshotBlurb': 'Jepit jarimu untuk membidik dan menembak. Pecahkan teka-teki gelembung dengan bantuan taktik dari AI.',
+  'menu.slingshotTag': 'Mesin Strategi',
+  'menu.slicerTop': 'Top 10 Fruit Ninja',
+  'menu.slingshotTop': 'Top 10 Slingshot',
+  'menu.back': 'Kembali ke Menu',
+  'menu.language': 'Bahasa',
+
+  'camera.busy': 'Kamera sedang dipakai atau tidak tersedia. Tutup aplikasi lain yang memakai kamera.',
+  'camera.denied': 'Izin kamera ditolak. Izinkan akses kamera.',
+  'camera.error': 'Kamera bermasalah: {message}',
+  'camera.unknown': 'Galat tidak dikenal',
+
+  'input.settings': 'Pengaturan Input',
+  'input.title': 'Input',
+  'input.hand': 'Tangan (Kamera)',
+  'input.touch': 'Sentuh',
+  'input.pointer': 'Mouse / Pena',
+  'input.gamepad': 'Gamepad',
+
+  'audio.settings': 'Pengaturan Suara',
+  'audio.title': 'Suara',
+  'audio.mute': 'Bisukan',
+  'audio.volume': 'Volume',
+  'audio.sfx': 'Efek',
+  'audio.music': 'Musik',
+  'audio.speech': 'Bacakan petunjuk',
+  'audio.voice': 'Suara pembaca',
+  'audio.voiceVolume': 'Volume pembaca',
+  'audio.browserVoice': 'Bawaan browser',
+  'audio.noSpeech': 'Browser ini tidak bisa membacakan petunjuk.',
+  'audio.commands': 'Perintah suara',
+  'audio.commandsHint': 'Ucapkan "mulai", "jeda", "lanjut", "ulang", "menu" atau "ganti warna merah".',
+  'audio.noCommands': 'Browser ini tidak bisa mendengar perintah suara.',
+
+  'pause.title': 'JEDA',
+  'pause.resume': 'Lanjut',
+  'update.available': 'Versi baru Abang Arcade sudah siap.',
+  'update.reload': 'Muat ulang',
+  'update.later': 'Nanti',
+
+  'scores.empty': 'Belum ada permainan.',
+  'scores.level': 'Lv {level}',
+
+  'profile.new': 'Profil baru',
+  'profile.namePlaceholder': 'Nama pemain',
+  'profile.runs': 'Main',
+  'profile.totalScore': 'Total Skor',
+  'profile.playTime': 'Waktu Main',
+  'profile.bestSlicer': 'Terbaik Slicer',
+  'profile.bestSlingshot': 'Terbaik Slingshot',
+  'profile.bombsHit': 'Kena Sambal',
+
+  'leaderboard.title': 'Papan Peringkat Global',
+  'leaderboard.day': 'Hari Ini',
+  'leaderboard.week': 'Minggu Ini',
+  'leaderboard.all': 'Sepanjang Masa',
+  'leaderboard.empty': 'Belum ada skor berperingkat.',
+  'leaderboard.unavailable': 'Papan peringkat tidak tersedia',
+
+  'slicer.loading': 'Menyiapkan Alat Potong...',
+  'slicer.level': 'LEVEL {level}',
+  'slicer.replayBadge': 'REPLAY',
+  'slicer.senseiTitle': 'Petuah Sensei',
+  'slicer.senseiWatching': 'Sensei lagi ngamatin...',
+  'slicer.levelUp': 'LEVEL UP!',
+  'slicer.start': 'Mulai Motong',
+  'slicer.useIndexFinger': 'Gunakan Jari Telunjuk',
+  'slicer.avoidSambal': 'Hindari Sambal!',
+  'slicer.loadReplay': 'Muat Replay',
+  'slicer.go': 'GO!',
+  'slicer.gameOver': 'Simulasi Selesai',
+  'slicer.rank': 'Pangkat: {rank}',
+  'slicer.totalScore': 'Total Skor',
+  'slicer.finalLevel': 'Level Akhir',
+  'slicer.scoreboard': 'Papan Skor',
+  'slicer.globalRank': 'Peringkat Global #{rank}',
+  'slicer.retry': 'Coba Lagi',
+  'slicer.watchReplay': 'Tonton Replay',
+  'slicer.saveReplay': 'Simpan Replay',
+  'slicer.wrongReplay': 'Replay ini bukan dari Fruit Ninja',
+  'slicer.badReplay': 'Replay rusak',
+
+  'slingshot.desktopOnly': 'Butuh Layar Desktop',
+  'slingshot.desktopOnlyBody': 'Permainan ini butuh layar yang lebih besar.',
+  'slingshot.loading': 'Menyalakan Mesin...',
+  'slingshot.score': 'Skor',
+  'slingshot.playtest': 'Uji Coba',
+  'slingshot.level': 'Level',
+  'slingshot.shotsLeft': 'Sisa tembakan',
+  'slingshot.missesUntilDrop': 'Meleset sebelum langit-langit turun',
+  'slingshot.intro': 'Bersihkan papan sebelum gelembung menyentuh garis merah. Tiap beberapa tembakan yang tidak memecahkan apa pun, langit-langit turun satu baris.',
+  'slingshot.startLevel': 'Mulai Level {level}',
+  'slingshot.levelEditor': 'Editor Level',
+  'slingshot.go': 'GO',
+  'slingshot.levelNumber': 'Level {level}',
+  'slingshot.won': 'Papan Bersih!',
+  'slingshot.lost': 'Game Over',
+  'slingshot.ended': 'Replay Selesai',
+  'slingshot.shotsPar': '{shots} tembakan · par {par}',
+  'slingshot.highScores': 'Skor Tertinggi',
+  'slingshot.globalRank': 'Peringkat global #{rank} di level {level}',
+  'slingshot.retry': 'Ulangi',
+  'slingshot.editLevel': 'Edit Level',
+  'slingshot.nextLevel': 'Level Berikutnya',
+  'slingshot.strategyTitle': 'Strategi Flash',
+  'slingshot.initializing': 'Menyiapkan mesin strategi...',
+  'slingshot.replay': 'Replay',
+  'slingshot.replayPlaying': 'DIPUTAR',
+  'slingshot.watch': 'Tonton',
+  'slingshot.save': 'Simpan',
+  'slingshot.load': 'Muat',
+  'slingshot.wrongReplay': 'Replay ini bukan dari Bubble Slingshot',
+  'slingshot.badReplay': 'Replay rusak',
+
+  'solver.agrees': 'AI sepakat dengan solver',
+  'solver.disagrees': 'AI beda pendapat dengan solver',
+  'solver.invalid': 'Target AI ditolak solver',
+  'solver.label': 'Solver: ',
+  'solver.bank': 'pantul',
+
+  'color.red': 'Merah',
+  'color.blue': 'Biru',
+  'color.green': 'Hijau',
+  'color.yellow': 'Kuning',
+  'color.purple': 'Ungu',
+  'color.orange': 'Oranye',
+  'special.stone': 'Batu',
+  'special.bomb': 'Bom',
+
+  'editor.title': 'Editor Level',
+  'editor.eraser': 'Penghapus',
+  'editor.close': 'Tutup editor',
+  'editor.name': 'Nama',
+  'editor.shotLimit': 'Batas tembakan',
+  'editor.unlimited': 'Tanpa batas',
+  'editor.descentRate': 'Meleset per turunnya langit-langit',
+  'editor.targetScore': 'Target skor',
+  'editor.clearTheBoard': 'Bersihkan papan',
+  'editor.startFrom': 'Mulai dari',
+  'editor.chooseLevel': 'Pilih level...',
+  'editor.blankBoard': 'Papan kosong',
+  'editor.playtest': 'Uji Coba',
+  'editor.export': 'Ekspor',
+  'editor.import': 'Impor',
+  'editor.clearBoard': 'Kosongkan papan',
+  'editor.readError': 'Level tidak bisa dibaca',
+
+  'level.invalid': 'Level tidak valid: {problems}',
+  'level.notJson': 'Berkas level bukan JSON yang valid',
+  'level.notObject': 'Level harus berupa objek JSON',
+  'level.version': 'Versi level tidak didukung (harus 1)',
+  'level.nameMissing': 'Level perlu nama',
+  'level.nameTooLong': 'Nama lebih dari {max} karakter',
+  'level.shotLimit': 'shotLimit harus bilangan bulat minimal 1, atau null',
+  'level.descentRate': 'descentRate harus bilangan bulat minimal 0',
+  'level.targetScore': 'targetScore harus bilangan bulat minimal 1, atau null',
+  'level.gridMissing': 'grid harus berupa array baris yang tidak kosong',
+  'level.tooManyRows': 'grid punya {rows} baris, maksimal {max} yang muat',
+  'level.rowNotArray': 'Baris {row} bukan array',
+  'level.rowTooLong': 'Baris {row} punya {cells} sel, maksimal {max} yang muat',
+  'level.unknownCell': 'Sel tidak dikenal {cell} di baris {row}, kolom {col}',
+  'level.noColors': 'Level tidak punya gelembung berwarna untuk dibersihkan',
+  'level.floating': 'Sel di baris {row}, kolom {col} tidak tersambung ke langit-langit',
+
+  'fruit.guava': 'Jambu Biji',
+  'fruit.mango': 'Mangga Hijau',
+  'fruit.pineapple': 'Nanas Madu',
+  'fruit.sweet_mango': 'Mangga Masak',
+  'fruit.bomb': 'Botol Sambal',
+
+  'ai.sensei.missingConfig': 'Sensei sedang istirahat (API Key Hilang).',
+  'ai.sensei.badResponse': 'Fokus, Bang! Potongannya kurang tajam.',
+  'ai.sensei.failed': 'Sensei lagi ngopi, lanjut potong dulu!',
+  'ai.strategy.missingConfig': 'Kunci API hilang, taktik offline dulu.',
+  'ai.strategy.badResponse': 'Sistem taktik lagi hang, tembak asal aja dulu!',
+  'ai.strategy.failed': 'Koneksi taktik putus!',
+
+  'rules.sensei.onlyBombs': 'Cuma ada Sambal di layar, tahan tangan dulu Bang!',
+  'rules.sensei.onlyBombsWhy': 'Tidak ada buah yang aman dipotong.',
+  'rules.sensei.onlyBombsTip': 'Angkat tangan, tunggu gelombang berikutnya.',
+  'rules.sensei.empty': 'Siap-siap Bang, buah berikutnya datang!',
+  'rules.sensei.emptyWhy': 'Layar kosong.',
+  'rules.sensei.emptyTip': 'Taruh tangan di tengah biar cepat ke mana aja.',
+  'rules.sensei.focus': 'Ada {fruit}! Fokus, sikat Bang!',
+  'rules.sensei.slice': 'Sikat {fruit} itu, Bang!',
+  'rules.sensei.worth': '{fruit} bernilai {points} poin.',
+  'rules.sensei.worthBombs': '{fruit} bernilai {points} poin, tapi ada {bombs} Botol Sambal, hati-hati!',
+  'rules.sensei.tipBombs': 'Potong pendek-pendek, jangan sapu seluruh layar.',
+  'rules.sensei.tipMany': 'Potong horizontal biar kena semua.',
+  'rules.sensei.tipScore': 'Skor {score}, jaga ritme potongan.',
+  'rules.side.left': 'kiri',
+  'rules.side.center': 'tengah',
+  'rules.side.right': 'kanan',
+  'rules.strategy.combo': 'Tembak {color} di {where}, langsung pecah {count}!',
+  'rules.strategy.comboWhy': 'Cluster {color} isi {size}, tinggal satu lagi buat meledak.',
+  'rules.strategy.build': 'Belum ada combo, taruh {color} di {where} buat nyiapin.',
+  'rules.strategy.buildWhy': 'Semua cluster masih kecil; bangun dulu yang paling bawah.',
+  'rules.strategy.none': 'Gak ada target bersih, tembak ke dinding biar mantul!',
+  'rules.strategy.noneWhy': 'Tidak ada target yang bisa dijangkau.'
+};
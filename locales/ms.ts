@@ -0,0 +1,212 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Messages } from "../services/i18n";
+
+/** Bahasa Melayu (Malaysia). */
+export const ms: Messages = {
+  'menu.poweredBy': 'Dikuasakan oleh Google Gemini 3 Flash',
+  'menu.slicerBlurb': 'Jadikan tangan kau pisau digital. Potong buah, buat combo, dan dengar nasihat Sensei AI.',
+  'menu.slicerTag': 'Analisis Visi AI',
+  'menu.slingshotBlurb': 'Cubit jari untuk membidik dan menembak. Selesaikan teka-teki gelembung dengan bantuan taktik AI.',
+  'menu.slingshotTag': 'Enjin Strategi',
+  'menu.slicerTop': '10 Teratas Fruit Ninja',
+  'menu.slingshotTop': '10 Teratas Slingshot',
+  'menu.back': 'Kembali ke Menu',
+  'menu.language': 'Bahasa',
+
+  'camera.busy': 'Kamera sedang digunakan atau tiada. Tutup aplikasi lain yang guna kamera.',
+  'camera.denied': 'Kebenaran kamera ditolak. Sila benarkan akses.',
+  'camera.error': 'Ralat kamera: {message}',
+  'camera.unknown': 'Ralat tidak diketahui',
+
+  'input.settings': 'Tetapan Input',
+  'input.title': 'Input',
+  'input.hand': 'Tangan (Kamera)',
+  'input.touch': 'Sentuh',
+  'input.pointer': 'Tetikus / Pen',
+  'input.gamepad': 'Gamepad',
+
+  'audio.settings': 'Tetapan Bunyi',
+  'audio.title': 'Bunyi',
+  'audio.mute': 'Senyapkan',
+  'audio.volume': 'Kelantangan',
+  'audio.sfx': 'Kesan bunyi',
+  'audio.music': 'Muzik',
+  'audio.speech': 'Bacakan petunjuk',
+  'audio.voice': 'Suara pembaca',
+  'audio.voiceVolume': 'Kelantangan pembaca',
+  'audio.browserVoice': 'Lalai pelayar',
+  'audio.noSpeech': 'Pelayar ini tidak boleh membacakan petunjuk.',
+  'audio.commands': 'Arahan suara',
+  'audio.commandsHint': 'Sebut "mula", "jeda", "sambung", "ulang", "menu" atau "tukar warna merah".',
+  'audio.noCommands': 'Pelayar ini tidak boleh mendengar arahan suara.',
+
+  'pause.title': 'JEDA',
+  'pause.resume': 'Sambung',
+  'update.available': 'Versi baharu Abang Arcade sudah sedia.',
+  'update.reload': 'Muat semula',
+  'update.later': 'Nanti',
+
+  'scores.empty': 'Belum ada permainan.',
+  'scores.level': 'Tk {level}',
+
+  'profile.new': 'Profil baharu',
+  'profile.namePlaceholder': 'Nama pemain',
+  'profile.runs': 'Main',
+  'profile.totalScore': 'Jumlah Mata',
+  'profile.playTime': 'Masa Main',
+  'profile.bestSlicer': 'Terbaik Slicer',
+  'profile.bestSlingshot': 'Terbaik Slingshot',
+  'profile.bombsHit': 'Kena Sambal',
+
+  'leaderboard.title': 'Papan Pendahulu Global',
+  'leaderboard.day': 'Hari Ini',
+  'leaderboard.week': 'Minggu Ini',
+  'leaderboard.all': 'Sepanjang Masa',
+  'leaderboard.empty': 'Belum ada mata berperingkat.',
+  'leaderboard.unavailable': 'Papan pendahulu tidak tersedia',
+
+  'slicer.loading': 'Menyiapkan Alat Potong...',
+  'slicer.level': 'TAHAP {level}',
+  'slicer.replayBadge': 'ULANG TAYANG',
+  'slicer.senseiTitle': 'Nasihat Sensei',
+  'slicer.senseiWatching': 'Sensei tengah perhati...',
+  'slicer.levelUp': 'NAIK TAHAP!',
+  'slicer.start': 'Mula Potong',
+  'slicer.useIndexFinger': 'Guna Jari Telunjuk',
+  'slicer.avoidSambal': 'Elak Sambal!',
+  'slicer.loadReplay': 'Muat Ulang Tayang',
+  'slicer.go': 'MULA!',
+  'slicer.gameOver': 'Simulasi Tamat',
+  'slicer.rank': 'Pangkat: {rank}',
+  'slicer.totalScore': 'Jumlah Mata',
+  'slicer.finalLevel': 'Tahap Akhir',
+  'slicer.scoreboard': 'Papan Mata',
+  'slicer.globalRank': 'Kedudukan Global #{rank}',
+  'slicer.retry': 'Cuba Lagi',
+  'slicer.watchReplay': 'Tonton Ulang Tayang',
+  'slicer.saveReplay': 'Simpan Ulang Tayang',
+  'slicer.wrongReplay': 'Ulang tayang ini bukan dari Fruit Ninja',
+  'slicer.badReplay': 'Ulang tayang rosak',
+
+  'slingshot.desktopOnly': 'Perlukan Skrin Desktop',
+  'slingshot.desktopOnlyBody': 'Permainan ini perlukan skrin yang lebih besar.',
+  'slingshot.loading': 'Menghidupkan Enjin...',
+  'slingshot.score': 'Mata',
+  'slingshot.playtest': 'Uji Main',
+  'slingshot.level': 'Tahap',
+  'slingshot.shotsLeft': 'Baki tembakan',
+  'slingshot.missesUntilDrop': 'Terlepas sebelum siling turun',
+  'slingshot.intro': 'Kosongkan papan sebelum gelembung sampai garisan merah. Setiap beberapa tembakan yang tak pecahkan apa-apa, siling turun satu baris.',
+  'slingshot.startLevel': 'Mula Tahap {level}',
+  'slingshot.levelEditor': 'Editor Tahap',
+  'slingshot.go': 'MULA',
+  'slingshot.levelNumber': 'Tahap {level}',
+  'slingshot.won': 'Papan Bersih!',
+  'slingshot.lost': 'Permainan Tamat',
+  'slingshot.ended': 'Ulang Tayang Tamat',
+  'slingshot.shotsPar': '{shots} tembakan · par {par}',
+  'slingshot.highScores': 'Mata Tertinggi',
+  'slingshot.globalRank': 'Kedudukan global #{rank} di tahap {level}',
+  'slingshot.retry': 'Cuba Lagi',
+  'slingshot.editLevel': 'Sunting Tahap',
+  'slingshot.nextLevel': 'Tahap Seterusnya',
+  'slingshot.strategyTitle': 'Strategi Flash',
+  'slingshot.initializing': 'Menyiapkan enjin strategi...',
+  'slingshot.replay': 'Ulang Tayang',
+  'slingshot.replayPlaying': 'DIMAINKAN',
+  'slingshot.watch': 'Tonton',
+  'slingshot.save': 'Simpan',
+  'slingshot.load': 'Muat',
+  'slingshot.wrongReplay': 'Ulang tayang ini bukan dari Bubble Slingshot',
+  'slingshot.badReplay': 'Ulang tayang rosak',
+
+  'solver.agrees': 'AI setuju dengan solver',
+  'solver.disagrees': 'AI tak setuju dengan solver',
+  'solver.invalid': 'Sasaran AI ditolak solver',
+  'solver.label': 'Solver: ',
+  'solver.bank': 'lantun',
+
+  'color.red': 'Merah',
+  'color.blue': 'Biru',
+  'color.green': 'Hijau',
+  'color.yellow': 'Kuning',
+  'color.purple': 'Ungu',
+  'color.orange': 'Oren',
+  'special.stone': 'Batu',
+  'special.bomb': 'Bom',
+
+  'editor.title': 'Editor Tahap',
+  'editor.eraser': 'Pemadam',
+  'editor.close': 'Tutup editor',
+  'editor.name': 'Nama',
+  'editor.shotLimit': 'Had tembakan',
+  'editor.unlimited': 'Tiada had',
+  'editor.descentRate': 'Terlepas setiap kali siling turun',
+  'editor.targetScore': 'Sasaran mata',
+  'editor.clearTheBoard': 'Kosongkan papan',
+  'editor.startFrom': 'Mula daripada',
+  'editor.chooseLevel': 'Pilih tahap...',
+  'editor.blankBoard': 'Papan kosong',
+  'editor.playtest': 'Uji Main',
+  'editor.export': 'Eksport',
+  'editor.import': 'Import',
+  'editor.clearBoard': 'Kosongkan papan',
+  'editor.readError': 'Tahap tidak dapat dibaca',
+
+  'level.invalid': 'Tahap tidak sah: {problems}',
+  'level.notJson': 'Fail tahap bukan JSON yang sah',
+  'level.notObject': 'Tahap mestilah objek JSON',
+  'level.version': 'Versi tahap tidak disokong (sepatutnya 1)',
+  'level.nameMissing': 'Tahap memerlukan nama',
+  'level.nameTooLong': 'Nama melebihi {max} aksara',
+  'level.shotLimit': 'shotLimit mestilah nombor bulat sekurang-kurangnya 1, atau null',
+  'level.descentRate': 'descentRate mestilah nombor bulat sekurang-kurangnya 0',
+  'level.targetScore': 'targetScore mestilah nombor bulat sekurang-kurangnya 1, atau null',
+  'level.gridMissing': 'grid mestilah tatasusunan baris yang tidak kosong',
+  'level.tooManyRows': 'grid mempunyai {rows} baris, paling banyak {max} muat',
+  'level.rowNotArray': 'Baris {row} bukan tatasusunan',
+  'level.rowTooLong': 'Baris {row} mempunyai {cells} sel, paling banyak {max} muat',
+  'level.unknownCell': 'Sel tidak dikenali {cell} pada baris {row}, lajur {col}',
+  'level.noColors': 'Tahap tiada gelembung berwarna untuk dibersihkan',
+  'level.floating': 'Sel pada baris {row}, lajur {col} tidak bersambung ke siling',
+
+  'fruit.guava': 'Jambu Batu',
+  'fruit.mango': 'Mangga Muda',
+  'fruit.pineapple': 'Nanas Madu',
+  'fruit.sweet_mango': 'Mangga Masak',
+  'fruit.bomb': 'Botol Sambal',
+
+  'ai.sensei.missingConfig': 'Sensei tengah rehat (Kunci API tiada).',
+  'ai.sensei.badResponse': 'Fokus, bang! Potongan tu kurang tajam.',
+  'ai.sensei.failed': 'Sensei pergi minum kopi jap, teruskan potong!',
+  'ai.strategy.missingConfig': 'Kunci API tiada, guna taktik luar talian dulu.',
+  'ai.strategy.badResponse': 'Sistem taktik tersangkut, tembak ikut gerak hati dulu!',
+  'ai.strategy.failed': 'Sambungan taktik terputus!',
+
+  'rules.sensei.onlyBombs': 'Sambal je atas skrin, tahan tangan dulu bang!',
+  'rules.sensei.onlyBombsWhy': 'Tiada buah yang selamat dipotong.',
+  'rules.sensei.onlyBombsTip': 'Angkat tangan, tunggu gelombang seterusnya.',
+  'rules.sensei.empty': 'Sedia bang, buah seterusnya dah nak sampai!',
+  'rules.sensei.emptyWhy': 'Skrin kosong.',
+  'rules.sensei.emptyTip': 'Letak tangan di tengah supaya cepat ke mana-mana.',
+  'rules.sensei.focus': 'Ada {fruit}! Fokus, sapu bang!',
+  'rules.sensei.slice': 'Sapu {fruit} tu, bang!',
+  'rules.sensei.worth': '{fruit} bernilai {points} mata.',
+  'rules.sensei.worthBombs': '{fruit} bernilai {points} mata, tapi ada {bombs} Botol Sambal, hati-hati!',
+  'rules.sensei.tipBombs': 'Potong pendek-pendek, jangan sapu satu skrin.',
+  'rules.sensei.tipMany': 'Potong melintang supaya kena semua.',
+  'rules.sensei.tipScore': 'Mata {score}, jaga rentak potongan.',
+  'rules.side.left': 'kiri',
+  'rules.side.center': 'tengah',
+  'rules.side.right': 'kanan',
+  'rules.strategy.combo': 'Tembak {color} di {where}, terus pecah {count}!',
+  'rules.strategy.comboWhy': 'Kelompok {color} ada {size}, tinggal satu lagi untuk meletup.',
+  'rules.strategy.build': 'Belum ada combo, letak {color} di {where} untuk bersedia.',
+  'rules.strategy.buildWhy': 'Semua kelompok masih kecil; bina yang paling bawah dulu.',
+  'rules.strategy.none': 'Tiada sasaran bersih, tembak ke dinding biar melantun!',
+  'rules.strategy.noneWhy': 'Tiada sasaran yang boleh dicapai.'
+};
@@ -0,0 +1,89 @@
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { afterEach, describe, expect, it } from 'vitest';
+import { POST } from '../api/hint';
+import { GeminiAdvisor } from '../services/geminiService';
+import { MockAdvisor } from '../services/mockAdvisor';
+import { ProxyAdvisor } from '../services/proxyAdvisor';
+import { AiProxyServerOptions, createAiProxyServer, RateLimiter } from './aiProxy';
+
+const SNAPSHOT = 'data:image/jpeg;base64,' + 'A'.repeat(400);
+const SENSEI = { imageBase64: SNAPSHOT, activeFruits: [{ type: 'pineapple', y: 200 }, { type: 'bomb', y: 300 }], score: 40 };
+
+let server: Server | null = null;
+
+const start = async (options: Partial<AiProxyServerOptions> = {}) => {
+  server = createAiProxyServer({ advisor: new MockAdvisor(), ...options });
+  await new Promise<void>(resolve => server!.listen(0, resolve));
+  return `http://localhost:${(server.address() as AddressInfo).port}/api`;
+};
+
+afterEach(async () => {
+  if (server) await new Promise(resolve => server!.close(resolve));
+  server = null;
+});
+
+const post = (url: string, body: unknown) => fetch(`${url}/hint`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+describe('AI proxy', () => {
+  it('answers the browser advisor with a validated hint and the server-side debug info', async () => {
+    const advisor = new ProxyAdvisor(await start());
+    const { hint, debug } = await advisor.getSenseiAdvice(SENSEI);
+
+    expect(hint).toMatchObject({ priorityFruit: 'pineapple' });
+    expect(debug.error).toBeUndefined();
+    expect(debug.promptContext).toContain('pineapple di ketinggian 200');
+    expect(debug.screenshotBase64).toBe(SNAPSHOT);
+  });
+
+  it('passes on the fallback hint and error of a failed strategy call', async () => {
+    const upstream = new GeminiAdvisor('');
+    const advisor = new ProxyAdvisor(await start({ advisor: upstream }));
+    const context = { imageBase64: '', maxRow: 2, clusters: [{ id: 'b1', color: 'red' as const, size: 2, row: 2, col: 4, pointsPerBubble: 100, description: 'Left' }] };
+    const { hint, debug } = await advisor.getStrategicHint(context);
+
+    expect(debug.error?.code).toBe('missing_config');
+    expect(hint).toEqual((await upstream.getStrategicHint(context)).hint);
+  });
+
+  it('rate limits each client', async () => {
+    const advisor = new ProxyAdvisor(await start({ limiter: new RateLimiter(2, 60_000) }));
+    await advisor.getSenseiAdvice(SENSEI);
+    await advisor.getSenseiAdvice(SENSEI);
+    const { hint, debug } = await advisor.getSenseiAdvice(SENSEI);
+
+    expect(hint.message).toBeTruthy();
+    expect(debug.error).toMatchObject({ code: 'http', message: expect.stringContaining('Too many') });
+  });
+
+  it('tells clients behind a trusted proxy apart by X-Forwarded-For', async () => {
+    const url = await start({ limiter: new RateLimiter(1, 60_000), trustForwardedFor: true });
+    const from = (ip: string) => fetch(`${url}/hint`, { method: 'POST', headers: { 'X-Forwarded-For': ip }, body: JSON.stringify({ kind: 'sensei', context: SENSEI }) });
+
+    expect((await from('10.0.0.1')).status).toBe(200);
+    const limited = await from('10.0.0.1');
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect((await from('10.0.0.2')).status).toBe(200);
+  });
+
+  it('refuses oversized snapshots and malformed requests', async () => {
+    const url = await start({ maxImageBytes: 1024 });
+
+    expect((await post(url, { kind: 'sensei', context: { ...SENSEI, imageBase64: 'A'.repeat(2000) } })).status).toBe(413);
+    expect((await post(url, { kind: 'sensei', context: { ...SENSEI, score: 'lots' } })).status).toBe(400);
+    expect((await post(url, { kind: 'strategy', context: { imageBase64: '', maxRow: 1, clusters: [{ id: 'a', color: 'pink', size: 1, row: 0, col: 0, pointsPerBubble: 100, description: 'x' }] } })).status).toBe(400);
+    expect((await post(url, { kind: 'sensei', context: { ...SENSEI, locale: 'fr' } })).status).toBe(400);
+    const unknown = await post(url, { kind: 'poem', context: SENSEI });
+    expect(unknown.status).toBe(400);
+    expect(await unknown.json()).toEqual({ error: 'Unknown hint kind' });
+  });
+
+  it('serves the same route as a Vercel function', async () => {
+    const context = { imageBase64: '', maxRow: 2, clusters: [{ id: 'b1', color: 'red', size: 2, row: 2, col: 4, pointsPerBubble: 100, description: 'Left' }] };
+    const res = await POST(new Request('http://localhost/api/hint', { method: 'POST', headers: { 'X-Forwarded-For': '10.0.0.9' }, body: JSON.stringify({ kind: 'strategy', context }) }));
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).hint).toMatchObject({ targetRow: 2, targetCol: 4, recommendedColor: 'red' });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { TargetCandidate } from '../types';
+import { COLOR_KEYS } from '../engine/bubbleGrid';
+import { AiAdvisor } from '../services/aiAdvisor';
+import { isLocale } from '../services/i18n';
+import { HintRequest } from '../services/proxyAdvisor';
+import { HttpError, parseBody, readText, send } from './http';
+
+// Snapshots are 480x360 JPEGs at 0.6 quality, a few dozen KB
+export const DEFAULT_MAX_IMAGE_BYTES = 256 * 1024;
+export const DEFAULT_RATE_LIMIT = { requests: 20, windowMs: 60_000 };
+const MAX_FRUITS = 64;
+const MAX_CLUSTERS = 256;
+const MAX_DESCRIPTION = 64;
+const MAX_TRACKED_CLIENTS = 10_000;
+
+/** Sliding-window request limit per client. */
+export class RateLimiter {
+  private hits = new Map<string, number[]>();
+
+  constructor(readonly requests: number, readonly windowMs: number, private now: () => number = Date.now) {}
+
+  /** Counts a request from `client`; false when it is over the limit. */
+  take(client: string): boolean {
+    const recent = this.recent(client);
+    if (recent.length >= this.requests) return false;
+    recent.push(this.now());
+    this.hits.set(client, recent);
+    if (this.hits.size > MAX_TRACKED_CLIENTS) this.sweep();
+    return true;
+  }
+
+  /** Seconds until `client` may send again. */
+  retryAfter(client: string): number {
+    const oldest = this.recent(client)[0];
+    return oldest === undefined ? 0 : Math.ceil((oldest + this.windowMs - this.now()) / 1000);
+  }
+
+  private recent(client: string) {
+    const cutoff = this.now() - this.windowMs;
+    return (this.hits.get(client) ?? []).filter(t => t > cutoff);
+  }
+
+  private sweep() {
+    for (const client of [...this.hits.keys()]) {
+      const recent = this.recent(client);
+      if (recent.length === 0) this.hits.delete(client); else this.hits.set(client, recent);
+    }
+  }
+}
+
+const isCount = (value: unknown, max: number) => Number.isInteger(value) && (value as number) >= 0 && (value as number) <= max;
+
+const isCluster = (c: any): c is TargetCandidate =>
+  !!c && typeof c.id === 'string' && c.id.length <= MAX_DESCRIPTION && COLOR_KEYS.includes(c.color) &&
+  isCount(c.size, 1000) && isCount(c.row, 1000) && isCount(c.col, 1000) && isCount(c.pointsPerBubble, 100_000) &&
+  typeof c.description === 'string' && c.description.length <= MAX_DESCRIPTION;
+
+/** Checks a hint request's shape and snapshot size. Extra fields are dropped, so nothing unchecked reaches the prompt. */
+export const parseHintRequest = (body: any, maxImageBytes = DEFAULT_MAX_IMAGE_BYTES): HintRequest => {
+  const context = body?.context;
+  if (typeof context?.imageBase64 !== 'string') throw new HttpError(400, 'Missing snapshot');
+  const imageBase64: string = context.imageBase64;
+  // base64 carries 3 bytes in every 4 characters
+  if (imageBase64.replace(/^data:[^,]*,/, '').length * 3 / 4 > maxImageBytes) throw new HttpError(413, `Snapshot is over ${Math.round(maxImageBytes / 1024)} KB`);
+
+  const { locale } = context;
+  if (locale !== undefined && !isLocale(locale)) throw new HttpError(400, 'Unknown locale');
+
+  if (body.kind === 'sensei') {
+    const { activeFruits, score } = context;
+    if (!Array.isArray(activeFruits) || activeFruits.length > MAX_FRUITS) throw new HttpError(400, 'Bad activeFruits');
+    if (!activeFruits.every((f: any) => typeof f?.type === 'string' && f.type.length <= MAX_DESCRIPTION && Number.isFinite(f.y))) throw new HttpError(400, 'Bad activeFruits');
+    if (!Number.isFinite(score)) throw new HttpError(400, 'Bad score');
+    return { kind: 'sensei', context: { imageBase64, score, activeFruits: activeFruits.map((f: any) => ({ type: f.type, y: f.y })), locale } };
+  }
+  if (body.kind === 'strategy') {
+    const { clusters, maxRow } = context;
+    if (!Array.isArray(clusters) || clusters.length > MAX_CLUSTERS || !clusters.every(isCluster)) throw new HttpError(400, 'Bad clusters');
+    if (!isCount(maxRow, 1000)) throw new HttpError(400, 'Bad maxRow');
+    const clean = clusters.map(({ id, color, size, row, col, pointsPerBubble, description }: TargetCandidate) => ({ id, color, size, row, col, pointsPerBubble, description }));
+    return { kind: 'strategy', context: { imageBase64, maxRow, clusters: clean, locale } };
+  }
+  throw new HttpError(400, 'Unknown hint kind');
+};
+
+export interface AiProxyOptions {
+  /** The model-backed advisor holding the key, e.g. `createAiAdvisor(readAiConfig('server'))`. */
+  advisor: AiAdvisor;
+  limiter?: RateLimiter;
+  maxImageBytes?: number;
+}
+
+export interface ProxyReply {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * The AI proxy without a web framework, shared by the Vercel function
+ * (`api/hint.ts`) and the local server. Takes the raw request body and a
+ * client id (its IP) and answers with the advisor's validated hint and debug
+ * info, or an error status: 400 for malformed requests, 413 for oversized
+ * snapshots, 429 past the rate limit.
+ */
+export const createAiProxy = ({ advisor, limiter = new RateLimiter(DEFAULT_RATE_LIMIT.requests, DEFAULT_RATE_LIMIT.windowMs), maxImageBytes = DEFAULT_MAX_IMAGE_BYTES }: AiProxyOptions) => {
+  // The snapshot in base64 plus some room for the game context
+  const maxBodyBytes = Math.ceil(maxImageBytes * 4 / 3) + 64 * 1024;
+
+  const handle = async (rawBody: string, client: string, signal?: AbortSignal): Promise<ProxyReply> => {
+    try {
+      if (!limiter.take(client)) return { status: 429, body: { error: 'Too many hint requests, try again shortly' }, headers: { 'Retry-After': String(limiter.retryAfter(client)) } };
+      if (rawBody.length > maxBodyBytes) throw new HttpError(413, 'Request body too large');
+      const request = parseHintRequest(parseBody(rawBody), maxImageBytes);
+      const { hint, debug } = request.kind === 'sensei'
+        ? await advisor.getSenseiAdvice(request.context, { signal })
+        : await advisor.getStrategicHint(request.context, { signal });
+      // The browser already has its snapshot; no need to send it back
+      const { screenshotBase64, ...rest } = debug;
+      return { status: 200, body: { hint, debug: rest } };
+    } catch (e) {
+      if (e instanceof HttpError) return { status: e.status, body: { error: e.message } };
+      console.error('AI proxy error:', e);
+      return { status: 500, body: { error: 'Internal error' } };
+    }
+  };
+
+  return { handle, maxBodyBytes };
+};
+
+export interface AiProxyServerOptions extends AiProxyOptions {
+  /** Take the client id from X-Forwarded-For, for a server behind a trusted proxy such as the Vite dev server. */
+  trustForwardedFor?: boolean;
+}
+
+export const clientId = (forwardedFor: string | null | undefined, fallback = 'unknown') => forwardedFor?.split(',')[0].trim() || fallback;
+
+/** The AI proxy as a Node server: `POST /api/hint`, the same route the Vercel function serves. */
+export const createAiProxyServer = ({ trustForwardedFor = false, ...options }: AiProxyServerOptions): Server => {
+  const proxy = createAiProxy(options);
+  const clientOf = (req: IncomingMessage) => {
+    const address = req.socket.remoteAddress || 'unknown';
+    return trustForwardedFor ? clientId(req.headers['x-forwarded-for'] as string | undefined, address) : address;
+  };
+
+  return createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (req.method !== 'POST' || url.pathname !== '/api/hint') return send(res, 404, { error: 'Not found' });
+    // Stop the model call when the player leaves before it answers
+    const aborted = new AbortController();
+    res.on('close', () => { if (!res.writableFinished) aborted.abort(); });
+    try {
+      const reply = await proxy.handle(await readText(req, proxy.maxBodyBytes), clientOf(req), aborted.signal);
+      send(res, reply.status, reply.body, reply.headers);
+    } catch (e: any) {
+      send(res, e instanceof HttpError ? e.status : 500, { error: e instanceof HttpError ? e.message : 'Internal error' });
+    }
+  });
+};
@@ -0,0 +1,17 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { loadEnv } from 'vite';
+import { createAiAdvisor, readAiConfig } from '../services/aiAdvisor';
+import { createAiProxyServer } from './aiProxy';
+
+// Local AI proxy: `npm run ai-proxy` next to `npm run dev`; the dev server forwards /api to it.
+// Reads API_KEY and the AI_* settings from .env like the dev server does, but keeps them here.
+Object.assign(process.env, loadEnv('development', process.cwd(), ''));
+const port = Number(process.env.AI_PROXY_PORT) || 8789;
+const advisor = createAiAdvisor(readAiConfig('server'));
+
+const server = createAiProxyServer({ advisor, trustForwardedFor: true });
+server.listen(port, '127.0.0.1', () => console.log(`AI proxy on http://localhost:${port}/api/hint (advisor: ${advisor.name})`));
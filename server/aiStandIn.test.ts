@@ -0,0 +1,95 @@
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LevelData } from '../engine/slingshotLevels';
+import { judgeHint, solveShots } from '../engine/slingshotSolver';
+import { SlingshotWorld } from '../engine/slingshotWorld';
+import { FixtureBook, fixturesFromCalls } from '../services/aiFixtures';
+import { AiScheduler } from '../services/aiScheduler';
+import { MockAdvisor } from '../services/mockAdvisor';
+import { OpenAiCompatibleAdvisor } from '../services/openAiAdvisor';
+import { createAiStandInServer } from './aiStandIn';
+
+const FAST = { timeoutMs: 1000, maxAttempts: 2, backoffMs: 1 };
+
+const board: LevelData = {
+  version: 1, name: 'Test', shotLimit: null, descentRate: 0, targetScore: null,
+  grid: [Array(12).fill('green'), ['red', 'red', ...Array(9).fill('yellow')]]
+};
+
+let server: Server | null = null;
+
+const start = async (book?: FixtureBook) => {
+  server = createAiStandInServer({ book });
+  await new Promise<void>(resolve => server!.listen(0, resolve));
+  return `http://localhost:${(server.address() as AddressInfo).port}/v1`;
+};
+
+afterEach(async () => {
+  if (server) await new Promise(resolve => server!.close(resolve));
+  server = null;
+});
+
+/** What the Slingshot component does after a shot lands, minus the canvas. */
+const analyse = async (scheduler: AiScheduler, world: SlingshotWorld) => {
+  const clusters = world.grid.reachableClusters(world.anchor);
+  const shots = solveShots(world.grid, world.anchor, world.width, world.height, world.grid.availableColors());
+  const response = await scheduler.requestStrategicHint({ imageBase64: 'data:image/jpeg;base64,AAAA', clusters, maxRow: world.grid.maxRow() });
+  return { response, verdict: response && judgeHint(world.grid, clusters, shots, response.hint) };
+};
+
+describe('AI stand-in server', () => {
+  it('drives the strategy flow end to end with canned replies', async () => {
+    const baseUrl = await start();
+    const scheduler = new AiScheduler(new OpenAiCompatibleAdvisor(baseUrl, 'stand-in', undefined, undefined, FAST), { budgetPerMinute: 10 });
+    const { response, verdict } = await analyse(scheduler, new SlingshotWorld(1, 800, 700, 1, board));
+
+    expect(response?.debug.error).toBeUndefined();
+    expect(response?.hint).toMatchObject({ targetRow: 1, recommendedColor: 'yellow' });
+    expect(response?.hint.message).toContain('[mock]');
+    expect(verdict?.status).toBe('agrees');
+    expect(verdict?.pick?.aim).toBeDefined();
+    expect(scheduler.getStats().promptTokens).toBeGreaterThan(0);
+  });
+
+  it('plays scripted failures and replies in order', async () => {
+    const baseUrl = await start(new FixtureBook([
+      { kind: 'sensei', response: '', status: 503 },
+      { kind: 'sensei', response: '{"message":"Sikat nanas!","priorityFruit":"pineapple"}' }
+    ]));
+    const advisor = new OpenAiCompatibleAdvisor(baseUrl, 'stand-in', undefined, undefined, FAST);
+    const { hint, debug } = await advisor.getSenseiAdvice({ imageBase64: '', activeFruits: [{ type: 'pineapple', y: 200 }], score: 0 });
+
+    expect(debug.attempts).toBe(2);
+    expect(hint).toMatchObject({ message: 'Sikat nanas!', priorityFruit: 'pineapple' });
+  });
+});
+
+describe('recorded fixtures', () => {
+  it('replay a session in process from the call log', async () => {
+    const baseUrl = await start(new FixtureBook([{ kind: 'strategy', response: '{"message":"Kiri dulu","rationale":"Merah tinggal satu","targetRow":1,"targetCol":0,"recommendedColor":"red"}' }]));
+    const recording = new AiScheduler(new OpenAiCompatibleAdvisor(baseUrl, 'stand-in', undefined, undefined, FAST), { budgetPerMinute: 10 });
+    const world = new SlingshotWorld(1, 800, 700, 1, board);
+    const recorded = await analyse(recording, world);
+
+    const fixtures = fixturesFromCalls(recording.getCalls());
+    expect(fixtures.fixtures).toHaveLength(1);
+    const replaying = new AiScheduler(new MockAdvisor(JSON.parse(JSON.stringify(fixtures)).fixtures), { budgetPerMinute: Infinity });
+    const replayed = await analyse(replaying, world);
+
+    expect(replayed.response?.hint).toEqual(recorded.response?.hint);
+    expect(replayed.verdict).toEqual(recorded.verdict);
+  });
+
+  it('load from a URL and fall back to canned replies when the file is bad', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchImpl = vi.fn(async () => new Response(JSON.stringify({ version: 2 })));
+    const { hint, debug } = await new MockAdvisor('/fixtures/session.json', FAST, fetchImpl).getSenseiAdvice({ imageBase64: '', activeFruits: [{ type: 'guava', y: 1 }, { type: 'bomb', y: 2 }], score: 0 });
+
+    expect(fetchImpl).toHaveBeenCalledWith('/fixtures/session.json');
+    expect(warn).toHaveBeenCalled();
+    expect(hint.priorityFruit).toBe('guava');
+    expect(debug.error).toBeUndefined();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createServer, Server, ServerResponse } from 'node:http';
+import { detectHintKind, FixtureBook } from '../services/aiFixtures';
+import { CORS_HEADERS, HttpError, readBody, send as sendJson } from './http';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// The game calls this server from another origin in development
+const send = (res: ServerResponse, status: number, body?: unknown) => sendJson(res, status, body, CORS_HEADERS);
+
+/** The text part of the first user message, which is where `OpenAiCompatibleAdvisor` puts the prompt. */
+const promptOf = (body: any): string => {
+  const content = body?.messages?.[0]?.content;
+  const text = typeof content === 'string' ? content : Array.isArray(content) ? content.find((part: any) => part?.type === 'text')?.text : undefined;
+  if (typeof text !== 'string') throw new HttpError(400, 'Expected a chat completion with a text prompt');
+  return text;
+};
+
+export interface AiStandInOptions {
+  book?: FixtureBook;
+  /** Called with every prompt answered, e.g. to log them. */
+  onRequest?: (prompt: string, reply: string) => void;
+}
+
+/**
+ * Local stand-in for an OpenAI-compatible model server. Answers
+ * `POST …/chat/completions` from a `FixtureBook` (recorded or scripted
+ * replies, canned ones otherwise), so the game can run with
+ * AI_PROVIDER=openai against it without a key or network.
+ */
+export const createAiStandInServer = ({ book = new FixtureBook(), onRequest }: AiStandInOptions = {}): Server =>
+  createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url || '/', 'http://localhost');
+      if (req.method === 'OPTIONS') return send(res, 204);
+      if (req.method !== 'POST' || !url.pathname.endsWith('/chat/completions')) return send(res, 404, { error: 'Not found' });
+      const prompt = promptOf(await readBody(req, MAX_BODY_BYTES));
+      const fixture = book.answer(detectHintKind(prompt), prompt);
+      if (fixture.delayMs) await new Promise(resolve => setTimeout(resolve, fixture.delayMs));
+      if (fixture.status) return send(res, fixture.status, { error: { message: `Scripted ${fixture.status}` } });
+      onRequest?.(prompt, fixture.response);
+      send(res, 200, {
+        object: 'chat.completion',
+        choices: [{ index: 0, message: { role: 'assistant', content: fixture.response }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: Math.ceil(prompt.length / 4), completion_tokens: Math.ceil(fixture.response.length / 4) }
+      });
+    } catch (e: any) {
+      if (e instanceof HttpError) send(res, e.status, { error: e.message });
+      else { console.error('AI stand-in error:', e); send(res, 500, { error: 'Internal error' }); }
+    }
+  });
@@ -0,0 +1,22 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { readFile } from 'node:fs/promises';
+import { detectHintKind, FixtureBook, isAiFixtureFile } from '../services/aiFixtures';
+import { createAiStandInServer } from './aiStandIn';
+
+// Local model stand-in: `npm run ai-standin`, then start the game with AI_PROVIDER=openai AI_BASE_URL=http://localhost:8788/v1
+const port = Number(process.env.AI_STANDIN_PORT) || 8788;
+const file = process.env.AI_FIXTURES;
+
+let book = new FixtureBook();
+if (file) {
+  const fixtures = JSON.parse(await readFile(file, 'utf8'));
+  if (!isAiFixtureFile(fixtures)) throw new Error(`${file} is not an AI fixture file`);
+  book = new FixtureBook(fixtures.fixtures);
+}
+
+const server = createAiStandInServer({ book, onRequest: prompt => console.log(`Answered ${detectHintKind(prompt)} prompt (${prompt.length} chars)`) });
+server.listen(port, () => console.log(`AI stand-in on http://localhost:${port}/v1 (${file ? `fixtures from ${file}` : 'canned replies'})`));
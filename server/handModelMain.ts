@@ -0,0 +1,18 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { HOSTED_MODEL_URL, LOCAL_MODEL_URL } from '../services/handTracker';
+
+// `npm run hand-model`: copies the hand landmark model into public/, so the app serves it instead of Google's CDN
+const target = `public${LOCAL_MODEL_URL}`;
+
+const response = await fetch(HOSTED_MODEL_URL);
+if (!response.ok) throw new Error(`Downloading ${HOSTED_MODEL_URL} failed: ${response.status}`);
+const model = new Uint8Array(await response.arrayBuffer());
+await mkdir(dirname(target), { recursive: true });
+await writeFile(target, model);
+console.log(`Saved the hand model to ${target} (${(model.length / 1e6).toFixed(1)} MB)`);
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { IncomingMessage, ServerResponse } from 'node:http';
+
+/** A request the server refuses, answered with `status` and `{ error: message }`. */
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string) { super(message); }
+}
+
+/** Reads a body as text, refusing anything over `maxBytes`. */
+export const readText = (req: IncomingMessage, maxBytes: number) => new Promise<string>((resolve, reject) => {
+  let size = 0; const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > maxBytes) { reject(new HttpError(413, 'Request body too large')); req.destroy(); return; }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString()));
+  req.on('error', reject);
+});
+
+/** Parses a JSON body; an empty one reads as `{}`. */
+export const parseBody = (text: string): any => {
+  try { return JSON.parse(text || '{}'); } catch (e) { throw new HttpError(400, 'Body is not valid JSON'); }
+};
+
+/** Reads a JSON body, refusing anything over `maxBytes`. */
+export const readBody = async (req: IncomingMessage, maxBytes: number) => parseBody(await readText(req, maxBytes));
+
+/** For servers the game calls from another origin in development. */
+export const CORS_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+};
+
+export const send = (res: ServerResponse, status: number, body?: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { ...headers, 'Content-Type': 'application/json' });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
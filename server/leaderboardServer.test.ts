@@ -0,0 +1,105 @@
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { afterEach, describe, expect, it } from 'vitest';
+import { Replay, ReplayRecorder, TickInput } from '../engine/replay';
+import { getCampaignLevel } from '../engine/slingshotLevels';
+import { MAX_DRAG_DIST, SlingshotWorld } from '../engine/slingshotWorld';
+import { LeaderboardError, LeaderboardSession, RestLeaderboardService } from '../services/leaderboardService';
+import { createLeaderboardServer, MemoryScoreStore, StoredEntry } from './leaderboardServer';
+
+const WIDTH = 800;
+const HEIGHT = 700;
+const LEVEL = 5; // Limited Ammo: the round ends once the shots run out
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2026-03-01T12:00:00Z');
+
+let server: Server | null = null;
+
+const start = async (entries: StoredEntry[] = []) => {
+  const store = new MemoryScoreStore();
+  await store.save(entries);
+  server = await createLeaderboardServer({ secret: 'test-secret', store, now: () => NOW });
+  await new Promise<void>(resolve => server!.listen(0, resolve));
+  return new RestLeaderboardService(`http://localhost:${(server.address() as AddressInfo).port}`);
+};
+
+afterEach(async () => {
+  await new Promise(resolve => server?.close(resolve));
+  server = null;
+});
+
+/** Plays the level out by firing every shot off the bottom of the screen. */
+const playRound = (seed: number): Replay => {
+  const board = getCampaignLevel(LEVEL)!;
+  const world = new SlingshotWorld(seed, WIDTH, HEIGHT, LEVEL, board);
+  const recorder = new ReplayRecorder('slingshot', seed, WIDTH, HEIGHT, false, LEVEL, board);
+  const { x, y } = world.anchor;
+  const at = (py: number, grabbing: boolean): TickInput => ({ sample: { x: x / WIDTH, y: py / HEIGHT, grabbing, timestamp: 0 }, fresh: true, locked: false });
+  const idle: TickInput = { sample: null, fresh: false, locked: false };
+  while (world.status === 'playing') {
+    [at(y, true), at(y - MAX_DRAG_DIST, true), at(y - MAX_DRAG_DIST, false)].forEach(input => world.step(recorder.record(input)));
+    for (let i = 0; i < 300 && world.isFlying; i++) world.step(recorder.record(idle));
+  }
+  return recorder.finish(world.score);
+};
+
+const entry = (player: string, score: number, ageMs: number): StoredEntry => ({
+  id: player, nonce: player, game: 'slingshot', mode: `level-${LEVEL}`, player, score, level: LEVEL, submittedAt: new Date(NOW - ageMs).toISOString()
+});
+
+const rejection = (promise: Promise<unknown>) => promise.then(() => null, (e: LeaderboardError) => e.status);
+
+describe('leaderboard server', () => {
+  it('accepts a run that re-simulates to its claimed score', async () => {
+    const service = await start([entry('Ali', 500, 0)]);
+    const session = await service.requestSession('slingshot', `level-${LEVEL}`);
+    const result = await service.submitRun(session, 'Siti', playRound(session.seed));
+
+    expect(result.entry).toMatchObject({ player: 'Siti', score: 0, level: LEVEL });
+    expect(result.entry).not.toHaveProperty('nonce');
+    expect(result.rank).toBe(2);
+  });
+
+  it('rejects tampered scores, foreign seeds and reused or forged tokens', async () => {
+    const service = await start();
+    const session = await service.requestSession('slingshot', `level-${LEVEL}`);
+    const replay = playRound(session.seed);
+
+    expect(await rejection(service.submitRun(session, 'Siti', { ...replay, finalScore: 9000 }))).toBe(422);
+    expect(await rejection(service.submitRun(session, 'Siti', playRound(session.seed + 1)))).toBe(422);
+    const forged: LeaderboardSession = { ...session, token: `${session.token.split('.')[0]}.${'A'.repeat(43)}` };
+    expect(await rejection(service.submitRun(forged, 'Siti', replay))).toBe(403);
+
+    await service.submitRun(session, 'Siti', replay);
+    expect(await rejection(service.submitRun(session, 'Siti', replay))).toBe(409);
+  });
+
+  it('rejects replays with malformed frames or unknown colors instead of failing to simulate them', async () => {
+    const service = await start();
+    const session = await service.requestSession('slingshot', `level-${LEVEL}`);
+    const replay = playRound(session.seed);
+    const inputs = [...replay.inputs];
+    inputs[1] = ['left', 0.5] as unknown as Replay['inputs'][number];
+
+    expect(await rejection(service.submitRun(session, 'Siti', { ...replay, inputs }))).toBe(400);
+    expect(await rejection(service.submitRun(session, 'Siti', { ...replay, events: [{ tick: 0, type: 'color', value: 'plaid' }] }))).toBe(422);
+    expect(await rejection(service.submitRun(session, 'Siti', { ...replay, events: [{ tick: 0, type: 'color', value: 'constructor' }] }))).toBe(422);
+    expect((await service.submitRun(session, 'Siti', replay)).entry.player).toBe('Siti');
+  });
+
+  it('only issues sessions for known games and modes', async () => {
+    const service = await start();
+    expect(await rejection(service.requestSession('slicer', 'level-1'))).toBe(400);
+    expect(await rejection(service.requestSession('slingshot', 'endless'))).toBe(400);
+  });
+
+  it('ranks the best scores within the requested period', async () => {
+    const service = await start([entry('Old', 900, 30 * DAY), entry('Week', 700, 3 * DAY), entry('Today', 300, DAY / 2), entry('Top', 800, DAY / 4)]);
+    const names = async (period: 'day' | 'week' | 'all') => (await service.getTop('slingshot', `level-${LEVEL}`, period)).map(e => e.player);
+
+    expect(await names('all')).toEqual(['Old', 'Top', 'Week', 'Today']);
+    expect(await names('week')).toEqual(['Top', 'Week', 'Today']);
+    expect(await names('day')).toEqual(['Top', 'Today']);
+    expect(await service.getTop('slingshot', 'level-1', 'all')).toEqual([]);
+  });
+});
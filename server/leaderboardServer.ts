@@ -0,0 +1,195 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createHmac, randomBytes, randomInt, timingSafeEqual } from 'node:crypto';
+import { createServer, Server, ServerResponse } from 'node:http';
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import { CORS_HEADERS, HttpError, readBody, send as sendJson } from './http';
+import { COLOR_CONFIG } from '../engine/bubbleGrid';
+import { isReplay, Replay, ReplayGame } from '../engine/replay';
+import { simulateSlicerReplay } from '../engine/slicerWorld';
+import { getCampaignLevel } from '../engine/slingshotLevels';
+import { simulateSlingshotReplay } from '../engine/slingshotWorld';
+import { getLeaderboardMode, LeaderboardEntry, LeaderboardPeriod, LeaderboardSession, LEADERBOARD_PERIODS, SubmitResult } from '../services/leaderboardService';
+
+const SESSION_TTL_MS = 2 * 60 * 60 * 1000;
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+// 30 minutes of ticks; longer recordings are not real rounds
+const MAX_REPLAY_TICKS = 60 * 60 * 30;
+const MIN_BOARD_SIZE = 240;
+const MAX_BOARD_SIZE = 4096;
+const MAX_PLAYER_LENGTH = 24;
+const MAX_LIMIT = 100;
+const MODE_PATTERN = /^(classic|level-\d{1,3})$/;
+const PERIOD_MS: Record<LeaderboardPeriod, number> = { day: 24 * 60 * 60 * 1000, week: 7 * 24 * 60 * 60 * 1000, all: Infinity };
+
+/** What the server stores per run; `nonce` ties it to the session that was spent on it. */
+export interface StoredEntry extends LeaderboardEntry {
+  nonce: string;
+}
+
+/** Persistence for accepted runs. */
+export interface ScoreStore {
+  load(): Promise<StoredEntry[]>;
+  save(entries: StoredEntry[]): Promise<void>;
+}
+
+export class MemoryScoreStore implements ScoreStore {
+  private entries: StoredEntry[] = [];
+  async load() { return [...this.entries]; }
+  async save(entries: StoredEntry[]) { this.entries = [...entries]; }
+}
+
+/** Keeps every run in one JSON file, written atomically via a temp file. */
+export class JsonFileScoreStore implements ScoreStore {
+  constructor(private path: string) {}
+
+  async load(): Promise<StoredEntry[]> {
+    try { return JSON.parse(await readFile(this.path, 'utf8')); } catch (e: any) {
+      if (e.code === 'ENOENT') return [];
+      throw e;
+    }
+  }
+
+  async save(entries: StoredEntry[]) {
+    const tmp = `${this.path}.tmp`;
+    await writeFile(tmp, JSON.stringify(entries));
+    await rename(tmp, this.path);
+  }
+}
+
+interface SessionClaims {
+  game: ReplayGame;
+  mode: string;
+  seed: number;
+  exp: number;
+  nonce: string;
+}
+
+const base64url = (buf: Buffer) => buf.toString('base64url');
+
+/** Signs session claims as `<payload>.<hmac>` so the server stays stateless until a run is submitted. */
+export const signSession = (claims: SessionClaims, secret: string) => {
+  const payload = base64url(Buffer.from(JSON.stringify(claims)));
+  return `${payload}.${base64url(createHmac('sha256', secret).update(payload).digest())}`;
+};
+
+export const verifySession = (token: string, secret: string, now: number): SessionClaims => {
+  const [payload, signature] = typeof token === 'string' ? token.split('.') : [];
+  if (!payload || !signature) throw new HttpError(400, 'Malformed session token');
+  const expected = createHmac('sha256', secret).update(payload).digest();
+  const given = Buffer.from(signature, 'base64url');
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) throw new HttpError(403, 'Invalid session signature');
+  const claims: SessionClaims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+  if (claims.exp < now) throw new HttpError(403, 'Session expired');
+  return claims;
+};
+
+/**
+ * Re-simulates `replay` and returns the score and level it really produced.
+ * Throws when the replay does not belong to the session or its claimed
+ * score is not what the engine computes.
+ */
+export const verifyRun = (claims: SessionClaims, replay: Replay): { score: number, level: number } => {
+  if (replay.game !== claims.game) throw new HttpError(422, 'Replay is from another game');
+  if (replay.seed !== claims.seed) throw new HttpError(422, 'Replay was not played on the session seed');
+  if (typeof replay.finalScore !== 'number') throw new HttpError(422, 'Replay has no final score');
+  if ([replay.width, replay.height].some(v => v < MIN_BOARD_SIZE || v > MAX_BOARD_SIZE)) throw new HttpError(422, 'Board size out of range');
+  if (replay.inputs.length > MAX_REPLAY_TICKS) throw new HttpError(422, 'Replay is too long');
+  if (replay.events.some(ev => !Object.hasOwn(COLOR_CONFIG, ev.value))) throw new HttpError(422, 'Replay picks an unknown color');
+
+  let result: { score: number, level: number };
+  if (replay.game === 'slicer') {
+    const world = simulateSlicerReplay(replay);
+    result = { score: world.score, level: world.level };
+  } else {
+    const level = replay.level ?? 1;
+    if (getLeaderboardMode('slingshot', level) !== claims.mode) throw new HttpError(422, 'Replay is from another level');
+    // Ranked boards must be the real campaign board (or a generated one past the campaign)
+    if (JSON.stringify(replay.layout ?? null) !== JSON.stringify(getCampaignLevel(level))) throw new HttpError(422, 'Replay board does not match the level');
+    const world = simulateSlingshotReplay(replay);
+    if (world.status === 'playing') throw new HttpError(422, 'Replay ends before the round does');
+    result = { score: world.score, level };
+  }
+  if (result.score !== replay.finalScore) throw new HttpError(422, 'Claimed score does not match the replay');
+  return result;
+};
+
+/** Best first; ties go to whoever got there earlier. */
+const compareEntries = (a: LeaderboardEntry, b: LeaderboardEntry) => b.score - a.score || a.submittedAt.localeCompare(b.submittedAt);
+
+const publicEntry = ({ nonce, ...entry }: StoredEntry): LeaderboardEntry => entry;
+
+// The game calls this server from another origin in development
+const send = (res: ServerResponse, status: number, body?: unknown) => sendJson(res, status, body, CORS_HEADERS);
+
+export interface LeaderboardServerOptions {
+  secret: string;
+  store: ScoreStore;
+  now?: () => number;
+}
+
+/**
+ * Reference leaderboard server for local development and tests.
+ *
+ *   POST /sessions     { game, mode }            -> LeaderboardSession
+ *   POST /runs         { token, player, replay } -> SubmitResult
+ *   GET  /leaderboard  ?game&mode&period&limit   -> { entries }
+ */
+export const createLeaderboardServer = async ({ secret, store, now = Date.now }: LeaderboardServerOptions): Promise<Server> => {
+  const entries = await store.load();
+  const spent = new Set(entries.map(e => e.nonce));
+  // Serializes writes so concurrent submissions cannot interleave load/save
+  let writing = Promise.resolve();
+
+  const createSession = (body: any): LeaderboardSession => {
+    if (body.game !== 'slicer' && body.game !== 'slingshot') throw new HttpError(400, 'Unknown game');
+    if (typeof body.mode !== 'string' || !MODE_PATTERN.test(body.mode) || (body.game === 'slicer') !== (body.mode === 'classic')) throw new HttpError(400, 'Unknown mode');
+    const claims: SessionClaims = { game: body.game, mode: body.mode, seed: randomInt(1, 2 ** 31), exp: now() + SESSION_TTL_MS, nonce: base64url(randomBytes(12)) };
+    return { token: signSession(claims, secret), game: claims.game, mode: claims.mode, seed: claims.seed, expiresAt: new Date(claims.exp).toISOString() };
+  };
+
+  const submitRun = async (body: any): Promise<SubmitResult> => {
+    const claims = verifySession(body.token, secret, now());
+    if (spent.has(claims.nonce)) throw new HttpError(409, 'Session already used');
+    const player = typeof body.player === 'string' ? body.player.trim() : '';
+    if (!player || player.length > MAX_PLAYER_LENGTH) throw new HttpError(400, `Player name must be 1-${MAX_PLAYER_LENGTH} characters`);
+    if (!isReplay(body.replay)) throw new HttpError(400, 'Not a valid replay');
+    const { score, level } = verifyRun(claims, body.replay);
+
+    spent.add(claims.nonce);
+    const entry: StoredEntry = { id: claims.nonce, game: claims.game, mode: claims.mode, player, score, level, submittedAt: new Date(now()).toISOString(), nonce: claims.nonce };
+    entries.push(entry);
+    writing = writing.then(() => store.save(entries));
+    await writing;
+    const board = entries.filter(e => e.game === entry.game && e.mode === entry.mode).sort(compareEntries);
+    return { entry: publicEntry(entry), rank: board.indexOf(entry) + 1 };
+  };
+
+  const getTop = (query: URLSearchParams) => {
+    const period = (query.get('period') || 'all') as LeaderboardPeriod;
+    if (!LEADERBOARD_PERIODS.includes(period)) throw new HttpError(400, 'Unknown period');
+    const limit = Math.min(MAX_LIMIT, Math.max(1, Number(query.get('limit')) || 10));
+    const since = now() - PERIOD_MS[period];
+    const top = entries
+      .filter(e => e.game === query.get('game') && e.mode === query.get('mode') && Date.parse(e.submittedAt) >= since)
+      .sort(compareEntries).slice(0, limit);
+    return { entries: top.map(publicEntry) };
+  };
+
+  return createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url || '/', 'http://localhost');
+      if (req.method === 'OPTIONS') return send(res, 204);
+      if (req.method === 'POST' && url.pathname === '/sessions') return send(res, 201, createSession(await readBody(req, MAX_BODY_BYTES)));
+      if (req.method === 'POST' && url.pathname === '/runs') return send(res, 201, await submitRun(await readBody(req, MAX_BODY_BYTES)));
+      if (req.method === 'GET' && url.pathname === '/leaderboard') return send(res, 200, getTop(url.searchParams));
+      send(res, 404, { error: 'Not found' });
+    } catch (e: any) {
+      if (e instanceof HttpError) send(res, e.status, { error: e.message });
+      else { console.error('Leaderboard server error:', e); send(res, 500, { error: 'Internal error' }); }
+    }
+  });
+};
@@ -0,0 +1,19 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomBytes } from 'node:crypto';
+import { createLeaderboardServer, JsonFileScoreStore } from './leaderboardServer';
+
+// Local reference server: `npm run leaderboard-server`, then start the game with LEADERBOARD_URL=http://localhost:8787
+const port = Number(process.env.LEADERBOARD_PORT) || 8787;
+const file = process.env.LEADERBOARD_DB || '.leaderboard.json';
+let secret = process.env.LEADERBOARD_SECRET;
+if (!secret) {
+  secret = randomBytes(32).toString('hex');
+  console.warn('LEADERBOARD_SECRET not set; sessions issued now stop working after a restart.');
+}
+
+const server = await createLeaderboardServer({ secret, store: new JsonFileScoreStore(file) });
+server.listen(port, () => console.log(`Leaderboard server on http://localhost:${port} (scores in ${file})`));
@@ -0,0 +1,223 @@
+import { runInNewContext } from 'node:vm';
+import { build, Rollup } from 'vite';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { TargetCandidate } from '../types';
+import { createAiAdvisor, OfflineAwareAdvisor, readAiConfig } from './aiAdvisor';
+import { OpenAiCompatibleAdvisor } from './openAiAdvisor';
+import { AiError, validateSenseiHint, validateStrategyHint } from './hintValidation';
+import { RetryPolicy } from './llmAdvisor';
+import { RuleBasedAdvisor } from './ruleBasedAdvisor';
+
+const cluster = (overrides: Partial<TargetCandidate>): TargetCandidate => ({
+  id: 'b', color: 'red', size: 1, row: 0, col: 0, pointsPerBubble: 100, description: 'Center', ...overrides
+});
+
+const FAST: RetryPolicy = { timeoutMs: 1000, maxAttempts: 2, backoffMs: 1 };
+const SENSEI = { imageBase64: '', activeFruits: [], score: 0 };
+
+const reply = (content: string, status = 200) => new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status });
+
+afterEach(() => { vi.unstubAllEnvs(); });
+
+describe('readAiConfig', () => {
+  it('uses Gemini when an API key is set and the offline rules otherwise', () => {
+    vi.stubEnv('AI_PROVIDER', '');
+    vi.stubEnv('AI_PROXY_URL', '');
+    vi.stubEnv('API_KEY', '');
+    expect(readAiConfig().provider).toBe('rules');
+    vi.stubEnv('API_KEY', 'key');
+    expect(readAiConfig()).toMatchObject({ provider: 'gemini', apiKey: 'key' });
+  });
+
+  it('prefers the proxy in the browser and never picks it on the server', () => {
+    vi.stubEnv('AI_PROVIDER', '');
+    vi.stubEnv('AI_PROXY_URL', '/api');
+    vi.stubEnv('API_KEY', 'key');
+    expect(readAiConfig()).toMatchObject({ provider: 'proxy', proxyUrl: '/api' });
+    expect(readAiConfig('server').provider).toBe('gemini');
+    vi.stubEnv('AI_PROXY_PROVIDER', 'proxy');
+    vi.spyOn(console, 'warn').mockImplementationOnce(() => {});
+    expect(readAiConfig('server').provider).toBe('gemini');
+  });
+
+  it('gives the proxy its own provider and key, apart from the browser\'s', () => {
+    vi.stubEnv('AI_PROVIDER', 'openai');
+    vi.stubEnv('AI_API_KEY', 'browser-key');
+    vi.stubEnv('AI_PROXY_PROVIDER', 'openai');
+    vi.stubEnv('AI_PROXY_API_KEY', 'server-key');
+    vi.stubEnv('AI_PROXY_BASE_URL', 'https://models.example/v1');
+    expect(readAiConfig()).toMatchObject({ provider: 'openai', apiKey: 'browser-key' });
+    expect(readAiConfig('server')).toMatchObject({ provider: 'openai', apiKey: 'server-key', baseUrl: 'https://models.example/v1' });
+    vi.stubEnv('AI_PROVIDER', '');
+    vi.stubEnv('AI_PROXY_URL', '/api');
+    expect(readAiConfig().provider).toBe('proxy');
+  });
+
+  it('reads the key vite inlines for AI_PROVIDER=gemini in a browser without `process`', async () => {
+    vi.stubEnv('AI_PROVIDER', 'gemini');
+    vi.stubEnv('API_KEY', 'inlined-key');
+    // Packages stay out of the bundle; any use of them at load time gets a do-nothing stand-in
+    const stub: any = new Proxy(function () {}, { get: (_, key) => key === Symbol.toPrimitive ? () => '' : stub, apply: () => stub, construct: () => stub });
+    const externals: Record<string, unknown> = {};
+    const output = await build({
+      configFile: 'vite.config.ts', logLevel: 'silent',
+      build: {
+        write: false, minify: false,
+        lib: { entry: 'services/aiAdvisor.ts', formats: ['iife'], name: 'aiAdvisor' },
+        rollupOptions: {
+          external: id => !id.startsWith('.') && !id.startsWith('/'),
+          output: { globals: id => { const name = `external_${Object.keys(externals).length}`; externals[name] = stub; return name; } }
+        }
+      }
+    }) as Rollup.RollupOutput[];
+    const chunk = output.flatMap(o => o.output).find((file): file is Rollup.OutputChunk => file.type === 'chunk')!;
+    const sandbox: Record<string, any> = { ...externals, console };
+    runInNewContext(chunk.code, sandbox);
+
+    expect(sandbox.aiAdvisor.readAiConfig()).toMatchObject({ provider: 'gemini', apiKey: 'inlined-key' });
+  }, 60_000);
+
+  it('honours an explicit provider', () => {
+    vi.stubEnv('AI_PROVIDER', 'openai');
+    vi.stubEnv('AI_BASE_URL', 'http://localhost:11434/v1');
+    vi.stubEnv('AI_MODEL', 'llava');
+    expect(readAiConfig()).toMatchObject({ provider: 'openai', baseUrl: 'http://localhost:11434/v1', model: 'llava' });
+    expect(createAiAdvisor(readAiConfig()).name).toBe('openai');
+  });
+});
+
+describe('RuleBasedAdvisor', () => {
+  const advisor = new RuleBasedAdvisor();
+
+  it('points the Sensei at the most valuable fruit and warns about sambal', async () => {
+    const { hint } = await advisor.getSenseiAdvice({ imageBase64: '', score: 120, activeFruits: [{ type: 'guava', y: 100 }, { type: 'pineapple', y: 300 }, { type: 'bomb', y: 200 }] });
+    expect(hint.priorityFruit).toBe('pineapple');
+    expect(hint.rationale).toContain('Sambal');
+  });
+
+  it('aims at the cluster a shot completes, preferring deeper ones', async () => {
+    const clusters = [cluster({ id: 'single', size: 1, row: 6 }), cluster({ id: 'top', color: 'blue', size: 2, row: 1 }), cluster({ id: 'deep', color: 'green', size: 2, row: 5, col: 3 })];
+    const { hint } = await advisor.getStrategicHint({ imageBase64: '', clusters, maxRow: 6 });
+    expect(hint).toMatchObject({ targetRow: 5, targetCol: 3, recommendedColor: 'green' });
+  });
+
+  it('still answers with no reachable clusters', async () => {
+    const { hint } = await advisor.getStrategicHint({ imageBase64: '', clusters: [], maxRow: 0 });
+    expect(hint.message).toBeTruthy();
+    expect(hint.targetRow).toBeUndefined();
+  });
+
+  it('answers in the requested language', async () => {
+    const { hint } = await advisor.getSenseiAdvice({ imageBase64: '', score: 0, activeFruits: [{ type: 'pineapple', y: 100 }], locale: 'en' });
+    expect(hint.message).toBe("There's a Honey Pineapple! Focus and go for it, Bang!");
+    const { hint: strategy } = await advisor.getStrategicHint({ imageBase64: '', clusters: [cluster({ size: 2, col: 0 })], maxRow: 1, locale: 'ms' });
+    expect(strategy.message).toContain('Merah');
+  });
+});
+
+describe('OfflineAwareAdvisor', () => {
+  it('answers from the rules without touching the network while offline', async () => {
+    let online = false;
+    const fetchImpl = vi.fn(async () => reply('{"message":"Dari model"}'));
+    const advisor = new OfflineAwareAdvisor(new OpenAiCompatibleAdvisor(undefined, undefined, undefined, fetchImpl, FAST), new RuleBasedAdvisor(), () => online);
+    expect(advisor.name).toBe('openai');
+
+    const offline = await advisor.getSenseiAdvice({ ...SENSEI, activeFruits: [{ type: 'mango', y: 100 }] });
+    expect(offline.debug.error).toBeUndefined();
+    expect(offline.hint.priorityFruit).toBe('mango');
+    expect(fetchImpl).not.toHaveBeenCalled();
+
+    online = true;
+    expect((await advisor.getSenseiAdvice(SENSEI)).hint.message).toBe('Dari model');
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('OpenAiCompatibleAdvisor', () => {
+  it('sends the prompt and snapshot as a chat completion and parses the JSON reply', async () => {
+    const fetchImpl = vi.fn(async () => reply('{"message":"Tembak merah!","targetRow":2,"targetCol":4,"recommendedColor":"red"}'));
+    const advisor = new OpenAiCompatibleAdvisor('http://localhost:8080/v1/', 'llava', 'secret', fetchImpl);
+    const { hint, debug } = await advisor.getStrategicHint({ imageBase64: 'data:image/jpeg;base64,AAAA', clusters: [cluster({})], maxRow: 3 });
+
+    expect(hint).toMatchObject({ message: 'Tembak merah!', targetRow: 2, targetCol: 4, recommendedColor: 'red' });
+    expect(debug.error).toBeUndefined();
+    expect(debug.promptContext).toContain('Cluster: red (size 1) at Row 0, Col 0');
+    const [url, init] = fetchImpl.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://localhost:8080/v1/chat/completions');
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer secret' });
+    const body = JSON.parse(init.body as string);
+    expect(body.model).toBe('llava');
+    expect(body.messages[0].content[1].image_url.url).toBe('data:image/jpeg;base64,AAAA');
+  });
+
+  it('retries transient failures with backoff and reports a coded error when they persist', async () => {
+    const fetchImpl = vi.fn(async () => reply('', 503));
+    const advisor = new OpenAiCompatibleAdvisor(undefined, undefined, undefined, fetchImpl, { ...FAST, maxAttempts: 3 });
+    const { hint, debug } = await advisor.getSenseiAdvice(SENSEI);
+
+    expect(hint.message).toBeTruthy();
+    expect(fetchImpl).toHaveBeenCalledTimes(3);
+    expect(debug.attempts).toBe(3);
+    expect(debug.error).toMatchObject({ code: 'http' });
+  });
+
+  it('recovers when a retry returns a valid hint', async () => {
+    const fetchImpl = vi.fn().mockResolvedValueOnce(reply('not json')).mockResolvedValueOnce(reply('{"message":"Sikat!"}'));
+    const { hint, debug } = await new OpenAiCompatibleAdvisor(undefined, undefined, undefined, fetchImpl, FAST).getSenseiAdvice(SENSEI);
+    expect(hint.message).toBe('Sikat!');
+    expect(debug.attempts).toBe(2);
+    expect(debug.error).toBeUndefined();
+  });
+
+  it('does not retry client errors', async () => {
+    const fetchImpl = vi.fn(async () => reply('', 401));
+    const { debug } = await new OpenAiCompatibleAdvisor(undefined, undefined, undefined, fetchImpl, FAST).getSenseiAdvice(SENSEI);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    expect(debug.error?.code).toBe('http');
+  });
+
+  it('rejects replies whose fields do not match the hint types', async () => {
+    const fetchImpl = vi.fn(async () => reply('{"message":"Tembak!","targetRow":1.5,"targetCol":3,"recommendedColor":"pink"}'));
+    const { hint, debug } = await new OpenAiCompatibleAdvisor(undefined, undefined, undefined, fetchImpl, FAST).getStrategicHint({ imageBase64: '', clusters: [], maxRow: 0 });
+
+    expect(hint.targetRow).toBeUndefined();
+    expect(debug.error?.code).toBe('invalid_response');
+    expect(debug.error?.message).toContain('targetRow');
+    expect(debug.error?.message).toContain('recommendedColor');
+  });
+
+  it('times out slow backends and aborts their request', async () => {
+    let backendSignal: AbortSignal | undefined;
+    const fetchImpl = vi.fn((_url: any, init?: RequestInit) => { backendSignal = init?.signal ?? undefined; return new Promise<Response>(() => {}); });
+    const { debug } = await new OpenAiCompatibleAdvisor(undefined, undefined, undefined, fetchImpl, { ...FAST, timeoutMs: 20 }).getSenseiAdvice(SENSEI);
+
+    expect(debug.error?.code).toBe('timeout');
+    expect(debug.attempts).toBe(1);
+    expect(backendSignal?.aborted).toBe(true);
+  });
+
+  it('stops when the caller cancels', async () => {
+    const controller = new AbortController();
+    const fetchImpl = vi.fn(() => { controller.abort(); return new Promise<Response>(() => {}); });
+    const { debug } = await new OpenAiCompatibleAdvisor(undefined, undefined, undefined, fetchImpl, FAST).getSenseiAdvice(SENSEI, { signal: controller.signal });
+    expect(debug.error?.code).toBe('aborted');
+  });
+});
+
+describe('hint validation', () => {
+  it('accepts well-formed hints and drops unknown fields', () => {
+    expect(validateSenseiHint({ message: ' Fokus! ', priorityFruit: 'sweet_mango', extra: 1 })).toEqual({ message: 'Fokus!', priorityFruit: 'sweet_mango' });
+    expect(validateStrategyHint({ message: 'Go', targetRow: 2, targetCol: 11, recommendedColor: 'blue', rationale: null })).toEqual({ message: 'Go', targetRow: 2, targetCol: 11, recommendedColor: 'blue' });
+  });
+
+  it('never lets the bomb or an unknown fruit through as the priority', () => {
+    expect(() => validateSenseiHint({ message: 'Potong!', priorityFruit: 'bomb' })).toThrow(AiError);
+    expect(() => validateSenseiHint({ message: 'Potong!', priorityFruit: 'durian' })).toThrow(/priorityFruit/);
+  });
+
+  it('requires a target cell and color for strategy hints', () => {
+    expect(() => validateStrategyHint({ message: 'Go' })).toThrow(/targetRow is missing; targetCol is missing; recommendedColor is missing/);
+    expect(() => validateStrategyHint({ message: 'Go', targetRow: 0, targetCol: 12, recommendedColor: 'red' })).toThrow(/targetCol/);
+    expect(() => validateStrategyHint([])).toThrow(/not a JSON object/);
+  });
+});
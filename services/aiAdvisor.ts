@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AiResponse, TargetCandidate } from "../types";
+import { Locale } from "./i18n";
+import { GeminiAdvisor } from "./geminiService";
+import { MockAdvisor } from "./mockAdvisor";
+import { OpenAiCompatibleAdvisor } from "./openAiAdvisor";
+import { ProxyAdvisor } from "./proxyAdvisor";
+import { RuleBasedAdvisor } from "./ruleBasedAdvisor";
+
+/** What the Fruit Ninja Sensei sees: a snapshot plus the unsliced fruit on screen. */
+export interface SenseiContext {
+  imageBase64: string;
+  activeFruits: { type: string; y: number }[];
+  score: number;
+  /** Language and persona of the reply; Indonesian when omitted. */
+  locale?: Locale;
+}
+
+/** What the Slingshot tactician sees: a snapshot plus every reachable cluster. */
+export interface StrategyContext {
+  imageBase64: string;
+  clusters: TargetCandidate[];
+  maxRow: number;
+  /** Language and persona of the reply; Indonesian when omitted. */
+  locale?: Locale;
+}
+
+export interface AdviceOptions {
+  /** Cancels the request, e.g. when the component unmounts or a newer snapshot replaces this one. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Source of in-game hints. Implementations never throw: failures come back
+ * as a fallback hint with a coded `debug.error`. Returned hints have been
+ * validated field by field against `StrategicHint`.
+ */
+export interface AiAdvisor {
+  readonly name: string;
+  getSenseiAdvice(context: SenseiContext, options?: AdviceOptions): Promise<AiResponse>;
+  getStrategicHint(context: StrategyContext, options?: AdviceOptions): Promise<AiResponse>;
+}
+
+export type AiProvider = 'gemini' | 'openai' | 'rules' | 'mock' | 'proxy';
+
+export interface AiAdvisorConfig {
+  provider: AiProvider;
+  apiKey?: string;
+  model?: string;
+  /** Root of an OpenAI-compatible API, e.g. `http://localhost:8080/v1` for a llama.cpp server. */
+  baseUrl?: string;
+  /** Fixture file for the `mock` provider, see `aiFixtures.ts`. Canned replies without one. */
+  fixturesUrl?: string;
+  /** Root of the game's AI proxy for the `proxy` provider, e.g. `/api`. */
+  proxyUrl?: string;
+}
+
+const PROVIDERS: AiProvider[] = ['gemini', 'openai', 'rules', 'mock', 'proxy'];
+
+/**
+ * Only inlined into the bundle for AI_PROVIDER=gemini. Otherwise there is no `process` in the
+ * browser unless a host injects one; the inlined key must not sit behind a `typeof process` check.
+ */
+const apiKey = (): string | undefined => {
+  try { return process.env.API_KEY; } catch (e) { return undefined; }
+};
+
+/**
+ * The browser's settings are inlined by vite.config.ts (AI_API_KEY only for an explicit
+ * AI_PROVIDER=openai); the proxy has its own AI_PROXY_* set, which never reaches the bundle.
+ */
+const readEnv = (side: 'browser' | 'server') => side === 'server'
+  ? { provider: process.env.AI_PROXY_PROVIDER, apiKey: process.env.AI_PROXY_API_KEY, model: process.env.AI_PROXY_MODEL, baseUrl: process.env.AI_PROXY_BASE_URL }
+  : { provider: process.env.AI_PROVIDER, apiKey: process.env.AI_API_KEY, model: process.env.AI_MODEL, baseUrl: process.env.AI_BASE_URL };
+
+/**
+ * Reads AI_PROVIDER / AI_MODEL / AI_BASE_URL / AI_API_KEY / AI_FIXTURES / AI_PROXY_URL
+ * in the browser, and AI_PROXY_PROVIDER / AI_PROXY_MODEL / AI_PROXY_BASE_URL /
+ * AI_PROXY_API_KEY on the server. Without an explicit provider the browser uses the
+ * proxy when AI_PROXY_URL is set, Gemini directly when a host injects API_KEY at
+ * runtime, and the offline rules otherwise. The proxy itself (`server`) never picks
+ * `proxy`: it calls Gemini when it has API_KEY.
+ */
+export const readAiConfig = (side: 'browser' | 'server' = 'browser'): AiAdvisorConfig => {
+  const env = readEnv(side);
+  const available = side === 'server' ? PROVIDERS.filter(p => p !== 'proxy') : PROVIDERS;
+  const requested = env.provider as AiProvider | undefined;
+  const fallback = side === 'browser' && process.env.AI_PROXY_URL ? 'proxy' : apiKey() ? 'gemini' : 'rules';
+  const provider = requested && available.includes(requested) ? requested : fallback;
+  if (requested && provider !== requested) console.warn(`AI provider "${requested}" is not available here, using ${provider}`);
+  return {
+    provider,
+    apiKey: (provider === 'gemini' ? apiKey() : env.apiKey) || undefined,
+    model: env.model || undefined,
+    baseUrl: env.baseUrl || undefined,
+    fixturesUrl: process.env.AI_FIXTURES || undefined,
+    proxyUrl: process.env.AI_PROXY_URL || undefined
+  };
+};
+
+export const createAiAdvisor = (config: AiAdvisorConfig): AiAdvisor => {
+  switch (config.provider) {
+    case 'gemini': return new GeminiAdvisor(config.apiKey, config.model);
+    case 'openai': return new OpenAiCompatibleAdvisor(config.baseUrl, config.model, config.apiKey);
+    case 'rules': return new RuleBasedAdvisor();
+    case 'mock': return new MockAdvisor(config.fixturesUrl);
+    case 'proxy': return new ProxyAdvisor(config.proxyUrl);
+  }
+};
+
+const browserOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+/**
+ * Answers from the offline rules while the browser reports no network, instead
+ * of letting every hint fail with a `network` error. Online it defers to the
+ * wrapped advisor, whose name it keeps so budgets and logs stay the same.
+ */
+export class OfflineAwareAdvisor implements AiAdvisor {
+  readonly name: string;
+
+  constructor(private online: AiAdvisor, private offline: AiAdvisor = new RuleBasedAdvisor(), private isOnline = browserOnline) {
+    this.name = online.name;
+  }
+
+  getSenseiAdvice(context: SenseiContext, options?: AdviceOptions) {
+    return (this.isOnline() ? this.online : this.offline).getSenseiAdvice(context, options);
+  }
+
+  getStrategicHint(context: StrategyContext, options?: AdviceOptions) {
+    return (this.isOnline() ? this.online : this.offline).getStrategicHint(context, options);
+  }
+}
+
+let advisor: AiAdvisor | null = null;
+
+/** The advisor picked by the build's environment, created on first use; network advisors fall back to the rules offline. */
+export const getAiAdvisor = (): AiAdvisor => {
+  if (!advisor) {
+    const config = readAiConfig();
+    const created = createAiAdvisor(config);
+    advisor = config.provider === 'rules' ? created : new OfflineAwareAdvisor(created);
+  }
+  return advisor;
+};
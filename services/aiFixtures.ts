@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FruitType } from "../types";
+import { FRUIT_CONFIG } from "../engine/slicerWorld";
+import { AiCallRecord } from "./aiScheduler";
+import { HintKind } from "./llmAdvisor";
+
+/**
+ * One recorded or scripted model reply. Without a `prompt` it answers the next
+ * request of its kind, in file order; with one it only answers that prompt.
+ */
+export interface AiFixture {
+  kind: HintKind;
+  prompt?: string;
+  /** Raw reply text, exactly as the model would send it. */
+  response: string;
+  /** An HTTP error status to fail with instead of replying. */
+  status?: number;
+  /** Extra delay before answering, e.g. to exercise timeouts. */
+  delayMs?: number;
+}
+
+export interface AiFixtureFile {
+  version: 1;
+  fixtures: AiFixture[];
+}
+
+// Prompts embed fruit heights and scores; whitespace is the only thing that varies between identical states
+const normalizePrompt = (prompt: string) => prompt.replace(/\s+/g, ' ').trim();
+
+/** Strategy prompts ask for a target cell; everything else is the Sensei. */
+export const detectHintKind = (prompt: string): HintKind => prompt.includes('targetRow') ? 'strategy' : 'sensei';
+
+export const isAiFixtureFile = (value: any): value is AiFixtureFile =>
+  !!value && value.version === 1 && Array.isArray(value.fixtures) &&
+  value.fixtures.every((f: any) => (f.kind === 'sensei' || f.kind === 'strategy') && typeof f.response === 'string' &&
+    (f.prompt === undefined || typeof f.prompt === 'string') && (f.status === undefined || Number.isInteger(f.status)) && (f.delayMs === undefined || typeof f.delayMs === 'number'));
+
+/**
+ * Answers prompts from fixtures: an exact (whitespace-insensitive) prompt match
+ * first, then the next unused scripted fixture of the same kind, then a canned
+ * reply built from the prompt itself.
+ */
+export class FixtureBook {
+  private byPrompt = new Map<string, AiFixture>();
+  private scripted: Record<HintKind, AiFixture[]> = { sensei: [], strategy: [] };
+
+  constructor(fixtures: AiFixture[] = []) {
+    fixtures.forEach(f => {
+      if (f.prompt !== undefined) this.byPrompt.set(`${f.kind}|${normalizePrompt(f.prompt)}`, f);
+      else this.scripted[f.kind].push(f);
+    });
+  }
+
+  answer(kind: HintKind, prompt: string): AiFixture {
+    return this.byPrompt.get(`${kind}|${normalizePrompt(prompt)}`) ?? this.scripted[kind].shift() ?? { kind, response: cannedReply(kind, prompt) };
+  }
+}
+
+// Matches the fruit list of every locale's Sensei prompt
+const FRUIT_PATTERN = /\b(sweet_mango|mango|guava|pineapple|bomb) (?:di ketinggian|pada ketinggian|at height)/g;
+const CLUSTER_PATTERN = /Cluster: (\w+) \(size (\d+)\) at Row (\d+), Col (\d+)/g;
+
+/**
+ * A plausible reply read off the prompt text alone: the Sensei names the most
+ * valuable fruit listed, the tactician the biggest cluster. Lets the game run
+ * end to end with no model and no fixtures.
+ */
+export const cannedReply = (kind: HintKind, prompt: string): string => {
+  if (kind === 'sensei') {
+    const fruits = [...prompt.matchAll(FRUIT_PATTERN)].map(m => m[1] as FruitType).filter(type => type !== 'bomb');
+    const best = fruits.sort((a, b) => FRUIT_CONFIG[b].points - FRUIT_CONFIG[a].points)[0];
+    return JSON.stringify(best
+      ? { message: `[mock] Sikat ${FRUIT_CONFIG[best].label}!`, rationale: "Canned reply from the AI stand-in.", priorityFruit: best }
+      : { message: "[mock] Tunggu buah berikutnya.", rationale: "Canned reply from the AI stand-in." });
+  }
+  const clusters = [...prompt.matchAll(CLUSTER_PATTERN)].map(m => ({ color: m[1], size: Number(m[2]), row: Number(m[3]), col: Number(m[4]) }));
+  const best = clusters.sort((a, b) => b.size - a.size || b.row - a.row)[0];
+  return JSON.stringify(best
+    ? { message: `[mock] Tembak ${best.color}!`, rationale: "Canned reply from the AI stand-in.", targetRow: best.row, targetCol: best.col, recommendedColor: best.color }
+    : { message: "[mock] Gak ada target.", rationale: "Canned reply from the AI stand-in." });
+};
+
+/**
+ * Turns the debug console's call log into fixtures: every model call that got
+ * a reply, with its exact prompt. The rules advisor has no prompt to record.
+ */
+export const fixturesFromCalls = (calls: readonly AiCallRecord[]): AiFixtureFile => ({
+  version: 1,
+  fixtures: calls
+    .filter(c => c.advisor !== 'rules' && c.debug.rawResponse && c.debug.promptContext && c.debug.error?.code !== 'aborted')
+    .map(c => ({ kind: c.kind, prompt: c.debug.promptContext, response: c.debug.rawResponse }))
+});
+
+export const downloadAiFixtures = (calls: readonly AiCallRecord[]) => {
+  const blob = new Blob([JSON.stringify(fixturesFromCalls(calls), null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url; a.download = 'abang-ai-fixtures.json'; a.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,173 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AiResponse, TargetCandidate } from '../types';
+import { AiAdvisor, SenseiContext, StrategyContext } from './aiAdvisor';
+import { AiScheduler, senseiStateKey, strategyStateKey } from './aiScheduler';
+
+const response = (message: string, extra: Partial<AiResponse['debug']> = {}): AiResponse => ({
+  hint: { message },
+  debug: { latency: 100, promptContext: '', rawResponse: '', timestamp: '', ...extra }
+});
+
+/** An advisor whose replies the test releases by hand. */
+const manualAdvisor = () => {
+  const calls: { context: SenseiContext | StrategyContext, reply: (r: AiResponse) => void }[] = [];
+  const ask = (context: SenseiContext | StrategyContext) => new Promise<AiResponse>(reply => { calls.push({ context, reply }); });
+  const advisor: AiAdvisor = { name: 'test', getSenseiAdvice: ask, getStrategicHint: ask };
+  return { advisor, calls };
+};
+
+const fruit = (...types: string[]): SenseiContext => ({ imageBase64: '', score: 0, activeFruits: types.map((type, i) => ({ type, y: i * 10 })) });
+const board = (color: TargetCandidate['color']): StrategyContext => ({ imageBase64: '', maxRow: 3, clusters: [{ id: 'a', color, size: 2, row: 1, col: 2, pointsPerBubble: 100, description: 'Center' }] });
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+afterEach(() => { vi.useRealTimers(); });
+
+describe('state keys', () => {
+  it('ignore fruit positions and cluster order', () => {
+    expect(senseiStateKey(fruit('mango', 'guava'))).toBe(senseiStateKey({ ...fruit('guava', 'mango'), score: 900 }));
+    expect(senseiStateKey(fruit('mango'))).not.toBe(senseiStateKey(fruit('mango', 'bomb')));
+    const twoClusters = board('red');
+    twoClusters.clusters.push({ ...twoClusters.clusters[0], id: 'b', color: 'blue', col: 5 });
+    expect(strategyStateKey(twoClusters)).toBe(strategyStateKey({ ...twoClusters, clusters: [...twoClusters.clusters].reverse() }));
+    expect(strategyStateKey(board('red'))).not.toBe(strategyStateKey(board('blue')));
+  });
+});
+
+describe('AiScheduler', () => {
+  it('skips requests whose game state has not changed', async () => {
+    const { advisor, calls } = manualAdvisor();
+    const scheduler = new AiScheduler(advisor, { budgetPerMinute: 10 });
+
+    const first = scheduler.requestStrategicHint(board('red'));
+    const shared = scheduler.requestStrategicHint(board('red'));
+    calls[0].reply(response('Tembak merah'));
+    expect((await first)?.hint.message).toBe('Tembak merah');
+    expect((await shared)?.hint.message).toBe('Tembak merah');
+    expect(await scheduler.requestStrategicHint(board('red'))).toBeNull();
+
+    expect(calls).toHaveLength(1);
+    expect(scheduler.getStats()).toMatchObject({ requests: 1, completed: 1, duplicates: 2 });
+    scheduler.forget('strategy');
+    scheduler.requestStrategicHint(board('red'));
+    expect(calls).toHaveLength(2);
+  });
+
+  it('keeps only the latest request waiting behind the one in flight', async () => {
+    const { advisor, calls } = manualAdvisor();
+    const scheduler = new AiScheduler(advisor, { budgetPerMinute: 10 });
+
+    scheduler.requestSenseiAdvice(fruit('guava'));
+    const replaced = scheduler.requestSenseiAdvice(fruit('mango'));
+    const latest = scheduler.requestSenseiAdvice(fruit('pineapple'));
+    expect(await replaced).toBeNull();
+
+    calls[0].reply(response('Jambu'));
+    await flush();
+    expect(calls.map(c => (c.context as SenseiContext).activeFruits[0].type)).toEqual(['guava', 'pineapple']);
+    calls[1].reply(response('Nanas'));
+    expect((await latest)?.hint.message).toBe('Nanas');
+    expect(scheduler.getStats()).toMatchObject({ requests: 2, superseded: 1 });
+  });
+
+  it('asks again for the state of a request that was cancelled in flight', async () => {
+    const { advisor, calls } = manualAdvisor();
+    const scheduler = new AiScheduler(advisor, { budgetPerMinute: 10 });
+
+    const previous = new AbortController();
+    const cancelled = scheduler.requestSenseiAdvice(fruit('guava'), { signal: previous.signal });
+    previous.abort();
+    const latest = scheduler.requestSenseiAdvice(fruit('guava'));
+    calls[0].reply(response('', { error: { code: 'aborted', message: 'Request cancelled' } }));
+    expect(await cancelled).toBeNull();
+
+    await flush();
+    expect(calls).toHaveLength(2);
+    calls[1].reply(response('Jambu'));
+    expect((await latest)?.hint.message).toBe('Jambu');
+  });
+
+  it('holds requests back once the per-minute budget is spent', async () => {
+    vi.useFakeTimers();
+    const { advisor, calls } = manualAdvisor();
+    const scheduler = new AiScheduler(advisor, { budgetPerMinute: 2 });
+
+    scheduler.requestSenseiAdvice(fruit('guava'));
+    calls[0].reply(response('1'));
+    await vi.advanceTimersByTimeAsync(1000);
+    scheduler.requestSenseiAdvice(fruit('mango'));
+    calls[1].reply(response('2'));
+    await vi.advanceTimersByTimeAsync(1000);
+
+    const third = scheduler.requestSenseiAdvice(fruit('pineapple'));
+    await vi.advanceTimersByTimeAsync(50_000);
+    expect(calls).toHaveLength(2);
+    expect(scheduler.getStats().throttled).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(8_000);
+    expect(calls).toHaveLength(3);
+    calls[2].reply(response('3'));
+    expect((await third)?.hint.message).toBe('3');
+    expect(await scheduler.requestStrategicHint(board('red'), { dropIfThrottled: true })).toBeNull();
+    expect(calls).toHaveLength(3);
+  });
+
+  it('drops waiting requests when their caller cancels', async () => {
+    const { advisor, calls } = manualAdvisor();
+    const scheduler = new AiScheduler(advisor, { budgetPerMinute: 10 });
+    const controller = new AbortController();
+
+    scheduler.requestStrategicHint(board('red'));
+    const waiting = scheduler.requestStrategicHint(board('blue'), { signal: controller.signal });
+    controller.abort();
+    expect(await waiting).toBeNull();
+    calls[0].reply(response('ok'));
+    await flush();
+    expect(calls).toHaveLength(1);
+    expect(scheduler.getStats().cancelled).toBe(1);
+  });
+
+  it('records tokens, latency and errors by code, and retries failed states', async () => {
+    const { advisor, calls } = manualAdvisor();
+    const scheduler = new AiScheduler(advisor, { budgetPerMinute: 10 });
+    const seen = vi.fn();
+    scheduler.subscribe(seen);
+
+    const failed = scheduler.requestSenseiAdvice(fruit('guava'));
+    calls[0].reply(response('Sensei lagi ngopi', { latency: 1500, error: { code: 'timeout', message: 'slow' } }));
+    await failed;
+    const ok = scheduler.requestSenseiAdvice(fruit('guava'));
+    calls[1].reply(response('Sikat', { latency: 300, usage: { promptTokens: 900, completionTokens: 40 } }));
+    await ok;
+
+    expect(scheduler.getStats()).toMatchObject({
+      requests: 2, completed: 1, errors: 1, errorsByCode: { timeout: 1 },
+      promptTokens: 900, completionTokens: 40, totalLatency: 1800, maxLatency: 1500
+    });
+    expect(seen).toHaveBeenLastCalledWith(expect.objectContaining({ requests: 2 }));
+    scheduler.resetStats();
+    expect(scheduler.getStats().requests).toBe(0);
+  });
+
+  it('logs every answered call with its debug info for the console', async () => {
+    const { advisor, calls } = manualAdvisor();
+    const scheduler = new AiScheduler(advisor, { budgetPerMinute: Infinity });
+
+    const ok = scheduler.requestStrategicHint(board('red'));
+    calls[0].reply(response('Tembak', { promptContext: 'Reachable Clusters: red', screenshotBase64: 'data:image/jpeg;base64,AAAA' }));
+    await ok;
+    const failed = scheduler.requestSenseiAdvice(fruit('guava'));
+    calls[1].reply(response('Sensei lagi ngopi', { error: { code: 'http', message: '503' } }));
+    await failed;
+
+    expect(scheduler.getCalls()).toMatchObject([
+      { id: 1, kind: 'strategy', advisor: 'test', hint: { message: 'Tembak' }, debug: { promptContext: 'Reachable Clusters: red' } },
+      { id: 2, kind: 'sensei', hint: null, debug: { error: { code: 'http' } } }
+    ]);
+    const log = JSON.parse(JSON.stringify(scheduler.exportLog()));
+    expect(log).toMatchObject({ advisor: 'test', budgetPerMinute: null, stats: { requests: 2 } });
+    expect(log.calls).toHaveLength(2);
+    scheduler.resetStats();
+    expect(scheduler.getCalls()).toHaveLength(0);
+  });
+});
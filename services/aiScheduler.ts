@@ -0,0 +1,299 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AiErrorCode, AiResponse, DebugInfo, StrategicHint } from "../types";
+import { AdviceOptions, AiAdvisor, getAiAdvisor, SenseiContext, StrategyContext } from "./aiAdvisor";
+import { DEFAULT_LOCALE } from "./i18n";
+import { HintKind } from "./llmAdvisor";
+
+const WINDOW_MS = 60_000;
+export const DEFAULT_BUDGET_PER_MINUTE = 10;
+// Each entry keeps its snapshot, so the log is capped
+const MAX_LOGGED_CALLS = 100;
+
+/** Usage counters for the current session, shown in the AI developer panel. */
+export interface AiUsageStats {
+  /** When the counters were last reset. */
+  since: number;
+  /** Requests sent to the advisor. */
+  requests: number;
+  completed: number;
+  /** Skipped because the game state matched the request in flight or the last answered one. */
+  duplicates: number;
+  /** Dropped while waiting because a newer request for the same game replaced them. */
+  superseded: number;
+  /** Requests that had to wait for, or were dropped by, the per-minute budget. */
+  throttled: number;
+  /** Cancelled by the caller, e.g. on unmount. Not counted as errors. */
+  cancelled: number;
+  errors: number;
+  errorsByCode: Partial<Record<AiErrorCode, number>>;
+  promptTokens: number;
+  completionTokens: number;
+  totalLatency: number;
+  maxLatency: number;
+}
+
+/** One request the advisor answered (or failed), for the AI debug console. */
+export interface AiCallRecord {
+  id: number;
+  kind: HintKind;
+  advisor: string;
+  /** ISO time the request was sent. */
+  sentAt: string;
+  /** Null when the request failed and the game got a fallback instead. */
+  hint: StrategicHint | null;
+  debug: DebugInfo;
+}
+
+/** The JSON written by `downloadAiLog`. */
+export interface AiSessionLog {
+  exportedAt: string;
+  advisor: string;
+  budgetPerMinute: number | null;
+  stats: AiUsageStats;
+  calls: AiCallRecord[];
+}
+
+export interface AiSchedulerOptions {
+  /** Requests allowed in any 60 s window, across both games. */
+  budgetPerMinute: number;
+  now?: () => number;
+}
+
+export interface ScheduleOptions extends AdviceOptions {
+  /** Resolve to null instead of waiting when the budget is spent, for callers that block play while they wait. */
+  dropIfThrottled?: boolean;
+}
+
+interface Pending {
+  key: string;
+  run: (signal?: AbortSignal) => Promise<AiResponse>;
+  signal?: AbortSignal;
+  resolve: (response: AiResponse | null) => void;
+  throttled: boolean;
+  dropIfThrottled: boolean;
+  onAbort: () => void;
+}
+
+interface Channel {
+  inFlight: { key: string, promise: Promise<AiResponse | null>, signal?: AbortSignal } | null;
+  pending: Pending | null;
+  /** State of the last answered request; cleared on failure so the same state can be asked again. */
+  answeredKey: string | null;
+}
+
+/** FNV-1a over the JSON form: cheap, stable, and plenty for telling game states apart. */
+export const hashState = (value: unknown): string => {
+  const text = JSON.stringify(value);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  return (hash >>> 0).toString(16);
+};
+
+// Positions change every frame; the advice only depends on which fruit are up, and in which language it is wanted
+export const senseiStateKey = ({ activeFruits, locale = DEFAULT_LOCALE }: SenseiContext) => hashState([locale, activeFruits.map(f => f.type).sort()]);
+
+export const strategyStateKey = ({ clusters, maxRow, locale = DEFAULT_LOCALE }: StrategyContext) =>
+  hashState([locale, maxRow, clusters.map(c => `${c.color}:${c.size}@${c.row},${c.col}`).sort()]);
+
+const emptyStats = (since: number): AiUsageStats => ({
+  since, requests: 0, completed: 0, duplicates: 0, superseded: 0, throttled: 0, cancelled: 0,
+  errors: 0, errorsByCode: {}, promptTokens: 0, completionTokens: 0, totalLatency: 0, maxLatency: 0
+});
+
+/**
+ * Coordinates AI requests from both games. Each game (`HintKind`) has at most
+ * one request in flight and one waiting; a newer request replaces the waiting
+ * one. Requests whose game state hashes the same as the one in flight share its
+ * answer, and ones matching the last answer are skipped. Dispatch is held back
+ * once `budgetPerMinute` requests went out in the last minute.
+ *
+ * Callers get `null` when their request was skipped, replaced or cancelled.
+ */
+export class AiScheduler {
+  private channels: Record<HintKind, Channel> = {
+    sensei: { inFlight: null, pending: null, answeredKey: null },
+    strategy: { inFlight: null, pending: null, answeredKey: null }
+  };
+  private sent: number[] = [];
+  private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+  private stats: AiUsageStats;
+  private calls: AiCallRecord[] = [];
+  private nextCallId = 1;
+  private listeners = new Set<(stats: AiUsageStats) => void>();
+  private now: () => number;
+
+  constructor(readonly advisor: AiAdvisor, readonly options: AiSchedulerOptions) {
+    this.now = options.now ?? (() => Date.now());
+    this.stats = emptyStats(this.now());
+  }
+
+  requestSenseiAdvice(context: SenseiContext, options: ScheduleOptions = {}) {
+    return this.submit('sensei', senseiStateKey(context), signal => this.advisor.getSenseiAdvice(context, { signal }), options);
+  }
+
+  requestStrategicHint(context: StrategyContext, options: ScheduleOptions = {}) {
+    return this.submit('strategy', strategyStateKey(context), signal => this.advisor.getStrategicHint(context, { signal }), options);
+  }
+
+  /** Forgets the last answered state, e.g. when a new board starts that may repeat an old one. */
+  forget(kind: HintKind) { this.channels[kind].answeredKey = null; }
+
+  getStats(): AiUsageStats { return { ...this.stats, errorsByCode: { ...this.stats.errorsByCode } }; }
+
+  /** Requests sent in the last minute. */
+  budgetUsed() {
+    this.prune();
+    return this.sent.length;
+  }
+
+  /** Answered and failed requests since the last reset, oldest first. */
+  getCalls(): readonly AiCallRecord[] { return this.calls; }
+
+  /** Clears the counters and the call log. */
+  resetStats() {
+    this.stats = emptyStats(this.now());
+    this.calls = [];
+    this.notify();
+  }
+
+  exportLog(): AiSessionLog {
+    const { budgetPerMinute } = this.options;
+    return {
+      exportedAt: new Date(this.now()).toISOString(), advisor: this.advisor.name,
+      budgetPerMinute: Number.isFinite(budgetPerMinute) ? budgetPerMinute : null, stats: this.getStats(), calls: [...this.calls]
+    };
+  }
+
+  subscribe(listener: (stats: AiUsageStats) => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private submit(kind: HintKind, key: string, run: Pending['run'], { signal, dropIfThrottled = false }: ScheduleOptions): Promise<AiResponse | null> {
+    if (signal?.aborted) return Promise.resolve(null);
+    const channel = this.channels[kind];
+    // A cancelled request in flight answers nobody, so the same state is queued again behind it
+    const duplicate = channel.inFlight ? channel.inFlight.key === key && !channel.inFlight.signal?.aborted : channel.answeredKey === key;
+    if (duplicate) {
+      this.stats.duplicates++;
+      this.notify();
+      return channel.inFlight?.promise ?? Promise.resolve(null);
+    }
+
+    if (channel.pending) { this.drop(channel.pending); channel.pending = null; this.stats.superseded++; }
+    return new Promise(resolve => {
+      const pending: Pending = {
+        key, run, signal, resolve, throttled: false, dropIfThrottled,
+        onAbort: () => { if (channel.pending === pending) { channel.pending = null; this.stats.cancelled++; this.notify(); resolve(null); } }
+      };
+      signal?.addEventListener('abort', pending.onAbort, { once: true });
+      channel.pending = pending;
+      this.pump(kind);
+      this.notify();
+    });
+  }
+
+  private pump(kind: HintKind) {
+    const channel = this.channels[kind];
+    const next = channel.pending;
+    if (channel.inFlight || !next) return;
+    if (this.budgetUsed() >= this.options.budgetPerMinute) {
+      if (!next.throttled) { next.throttled = true; this.stats.throttled++; }
+      if (next.dropIfThrottled) { channel.pending = null; this.drop(next); return; }
+      this.scheduleWake();
+      return;
+    }
+
+    channel.pending = null;
+    next.signal?.removeEventListener('abort', next.onAbort);
+    this.sent.push(this.now());
+    this.stats.requests++;
+    const sentAt = new Date(this.now()).toISOString();
+    const promise = next.run(next.signal).then(response => {
+      this.record(response);
+      this.log(kind, sentAt, response);
+      channel.answeredKey = response.debug.error ? null : next.key;
+      return response.debug.error?.code === 'aborted' ? null : response;
+    }).finally(() => {
+      channel.inFlight = null;
+      this.pump(kind);
+      this.notify();
+    });
+    channel.inFlight = { key: next.key, promise, signal: next.signal };
+    promise.then(next.resolve);
+  }
+
+  private record({ debug }: AiResponse) {
+    const code = debug.error?.code;
+    if (code === 'aborted') this.stats.cancelled++;
+    else if (code) { this.stats.errors++; this.stats.errorsByCode[code] = (this.stats.errorsByCode[code] ?? 0) + 1; }
+    else this.stats.completed++;
+    if (code !== 'aborted') {
+      this.stats.totalLatency += debug.latency;
+      this.stats.maxLatency = Math.max(this.stats.maxLatency, debug.latency);
+    }
+    this.stats.promptTokens += debug.usage?.promptTokens ?? 0;
+    this.stats.completionTokens += debug.usage?.completionTokens ?? 0;
+  }
+
+  private log(kind: HintKind, sentAt: string, { hint, debug }: AiResponse) {
+    this.calls = [...this.calls.slice(-(MAX_LOGGED_CALLS - 1)), { id: this.nextCallId++, kind, advisor: this.advisor.name, sentAt, hint: debug.error ? null : hint, debug }];
+  }
+
+  /** Retries throttled channels once the oldest request leaves the window. */
+  private scheduleWake() {
+    if (this.wakeTimer || this.sent.length === 0) return;
+    this.wakeTimer = setTimeout(() => {
+      this.wakeTimer = null;
+      this.pump('sensei');
+      this.pump('strategy');
+    }, Math.max(0, this.sent[0] + WINDOW_MS - this.now()));
+  }
+
+  private prune() {
+    const cutoff = this.now() - WINDOW_MS;
+    while (this.sent.length > 0 && this.sent[0] <= cutoff) this.sent.shift();
+  }
+
+  private drop(pending: Pending) {
+    pending.signal?.removeEventListener('abort', pending.onAbort);
+    pending.resolve(null);
+  }
+
+  private notify() {
+    const stats = this.getStats();
+    this.listeners.forEach(l => l(stats));
+  }
+}
+
+/** AI_REQUESTS_PER_MINUTE, or the default. The offline rules and the mock cost nothing and are not limited. */
+const readBudget = (advisor: AiAdvisor) => {
+  if (advisor.name === 'rules' || advisor.name === 'mock') return Infinity;
+  const budget = Number(process.env.AI_REQUESTS_PER_MINUTE);
+  return Number.isFinite(budget) && budget > 0 ? budget : DEFAULT_BUDGET_PER_MINUTE;
+};
+
+/** Saves the session's call log and usage stats as JSON, e.g. to compare prompt changes offline. */
+export const downloadAiLog = (scheduler: AiScheduler) => {
+  const log = scheduler.exportLog();
+  const blob = new Blob([JSON.stringify(log, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url; a.download = `abang-ai-log-${log.exportedAt.replace(/[:.]/g, '-')}.json`; a.click();
+  URL.revokeObjectURL(url);
+};
+
+let scheduler: AiScheduler | null = null;
+
+/** The shared scheduler in front of `getAiAdvisor()`; both games send their requests through it. */
+export const getAiScheduler = (): AiScheduler => {
+  if (!scheduler) {
+    const advisor = getAiAdvisor();
+    scheduler = new AiScheduler(advisor, { budgetPerMinute: readBudget(advisor) });
+  }
+  return scheduler;
+};
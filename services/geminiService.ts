@@ -1,160 +1,62 @@
-
 /**
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { AiResponse, DebugInfo, BubbleColor } from "../types";
+import { AiError, HINT_FRUITS } from "./hintValidation";
+import { CompletionRequest, LlmAdvisor, RetryPolicy } from "./llmAdvisor";
+import { COLOR_KEYS } from "../engine/bubbleGrid";
 
 const MODEL_NAME = "gemini-3-flash-preview";
 
-export interface TargetCandidate {
-    id: string;
-    color: BubbleColor;
-    size: number;
-    row: number;
-    col: number;
-    pointsPerBubble: number;
-    description: string;
-}
-
-export const getSenseiAdvice = async (
-  imageBase64: string,
-  activeFruits: { type: string; y: number }[],
-  score: number
-): Promise<AiResponse> => {
-  const startTime = performance.now();
-  const debug: DebugInfo = { latency: 0, screenshotBase64: imageBase64, promptContext: "", rawResponse: "", timestamp: new Date().toLocaleTimeString() };
-  const apiKey = process.env.API_KEY;
-
-  if (!apiKey) {
-    return { hint: { message: "Sensei sedang istirahat (API Key Hilang)." }, debug: { ...debug, error: "Missing API_KEY" } };
-  }
-
-  const ai = new GoogleGenAI({ apiKey });
-  const fruitContext = activeFruits.length > 0 
-    ? activeFruits.map(f => `${f.type} di ketinggian ${Math.round(f.y)}`).join(", ")
-    : "Tidak ada buah di layar.";
-
-  const prompt = `
-    Kamu adalah Sensei Abang Colex, ahli potong buah jalanan legendaris. 
-    Analisis tangkapan layar game ini:
-    - Skor: ${score}
-    - Buah Aktif: ${fruitContext}
-
-    DAFTAR BUAH & NILAI:
-    - Jambu Biji (Guava): 10 pts
-    - Mangga Hijau (Mango): 20 pts
-    - Nanas Madu (Pineapple): 50 pts
-    - Mangga Masak (Sweet Mango): 150 pts
-
-    TUGAS:
-    Berikan saran taktis dengan gaya bicara "Abang Jago" yang asik tapi bijak.
-    Jika ada Mangga Masak atau Nanas, suruh pemain fokus!
-    Ingatkan mereka untuk HATI-HATI terhadap Botol Sambal Pedas!
-    Gunakan istilah lokal Indonesia yang keren.
-
-    OUTPUT FORMAT (RAW JSON only):
-    {
-      "message": "Instruksi Sensei (contoh: 'Waduh, itu Mangga Masak lewat, sikat Bang!')",
-      "rationale": "Penjelasan singkat taktik.",
-      "priorityFruit": "mango|guava|pineapple|sweet_mango",
-      "techniqueTip": "Tips gerakan tangan (contoh: 'Potong horizontal biar kena semua')"
-    }
-  `;
-
-  try {
-    const cleanBase64 = imageBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, "");
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: { parts: [{ text: prompt }, { inlineData: { mimeType: "image/jpeg", data: cleanBase64 } }] },
-      config: { temperature: 0.7, responseMimeType: "application/json" }
-    });
-
-    const endTime = performance.now();
-    debug.latency = Math.round(endTime - startTime);
-    let text = response.text || "{}";
-    debug.rawResponse = text;
-    
-    try {
-        const json = JSON.parse(text);
-        return { hint: { message: json.message || "Terus potong!", rationale: json.rationale, priorityFruit: json.priorityFruit, techniqueTip: json.techniqueTip }, debug };
-    } catch (e: any) {
-        return { hint: { message: "Fokus, Bang! Potongannya kurang tajam." }, debug: { ...debug, error: e.message } };
-    }
-  } catch (error: any) {
-    return { hint: { message: "Sensei lagi ngopi, lanjut potong dulu!" }, debug: { ...debug, error: error.message } };
-  }
+const SENSEI_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    message: { type: Type.STRING },
+    rationale: { type: Type.STRING },
+    priorityFruit: { type: Type.STRING, enum: HINT_FRUITS },
+    techniqueTip: { type: Type.STRING }
+  },
+  required: ["message"]
 };
 
-export const getStrategicHint = async (
-  imageBase64: string,
-  clusters: TargetCandidate[],
-  maxRow: number
-): Promise<AiResponse> => {
-  const startTime = performance.now();
-  const debug: DebugInfo = { latency: 0, screenshotBase64: imageBase64, promptContext: "", rawResponse: "", timestamp: new Date().toLocaleTimeString() };
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) return { hint: { message: "API Key Missing" }, debug: { ...debug, error: "Missing Key" }};
-
-  const ai = new GoogleGenAI({ apiKey });
-  const clusterContext = clusters.length > 0 
-    ? clusters.map(c => `Cluster: ${c.color} (size ${c.size}) at Row ${c.row}, Col ${c.col} [${c.description}]`).join("; ")
-    : "No clear targets reachable.";
-
-  const prompt = `
-    You are the Abang Tactical AI for a Slingshot game. 
-    Analyze the state:
-    - Reachable Clusters: ${clusterContext}
+const STRATEGY_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    message: { type: Type.STRING },
+    rationale: { type: Type.STRING },
+    targetRow: { type: Type.INTEGER },
+    targetCol: { type: Type.INTEGER },
+    recommendedColor: { type: Type.STRING, enum: COLOR_KEYS }
+  },
+  required: ["message", "rationale", "targetRow", "targetCol", "recommendedColor"]
+};
 
-    Recommend the best target to clear bubbles.
-    Use Indonesian street slang.
+/** Hints from Google Gemini through the `@google/genai` SDK. */
+export class GeminiAdvisor extends LlmAdvisor {
+  readonly name = 'gemini';
+  private ai: GoogleGenAI | null;
 
-    OUTPUT FORMAT (RAW JSON only):
-    {
-      "message": "Strategic advice",
-      "rationale": "Why this target",
-      "targetRow": number,
-      "targetCol": number,
-      "recommendedColor": "red|blue|green|yellow|purple|orange"
-    }
-  `;
+  constructor(apiKey?: string, private model = MODEL_NAME, policy?: RetryPolicy) {
+    super(policy);
+    this.ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+  }
 
-  try {
-    const cleanBase64 = imageBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, "");
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: { parts: [{ text: prompt }, { inlineData: { mimeType: "image/jpeg", data: cleanBase64 } }] },
-      config: {
-        temperature: 0.2,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            message: { type: Type.STRING },
-            rationale: { type: Type.STRING },
-            targetRow: { type: Type.NUMBER },
-            targetCol: { type: Type.NUMBER },
-            recommendedColor: { type: Type.STRING }
-          },
-          required: ["message", "rationale", "targetRow", "targetCol", "recommendedColor"]
-        }
-      }
-    });
+  protected get configError() { return this.ai ? null : "Missing API_KEY"; }
 
-    const endTime = performance.now();
-    debug.latency = Math.round(endTime - startTime);
-    let text = response.text || "{}";
-    debug.rawResponse = text;
-    
+  protected async complete({ kind, prompt, imageBase64, temperature, signal }: CompletionRequest) {
     try {
-        const json = JSON.parse(text);
-        return { hint: { message: json.message || "Tembak, Bang!", rationale: json.rationale, targetRow: json.targetRow, targetCol: json.targetCol, recommendedColor: json.recommendedColor as BubbleColor }, debug };
+      const response = await this.ai!.models.generateContent({
+        model: this.model,
+        contents: { parts: [{ text: prompt }, { inlineData: { mimeType: "image/jpeg", data: imageBase64 } }] },
+        config: { temperature, responseMimeType: "application/json", responseSchema: kind === 'sensei' ? SENSEI_SCHEMA : STRATEGY_SCHEMA, abortSignal: signal }
+      });
+      const meta = response.usageMetadata;
+      return { text: response.text || "", usage: meta && { promptTokens: meta.promptTokenCount ?? 0, completionTokens: meta.candidatesTokenCount ?? 0 } };
     } catch (e: any) {
-        return { hint: { message: "Sistem taktik lagi hang, tembak asal aja dulu!" }, debug: { ...debug, error: e.message } };
+      // The SDK reports HTTP failures as ApiError with a numeric status
+      throw typeof e?.status === 'number' ? new AiError('http', e.message, e.status) : e;
     }
-  } catch (error: any) {
-    return { hint: { message: "Koneksi taktik putus!" }, debug: { ...debug, error: error.message } };
   }
-};
+}
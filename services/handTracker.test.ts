@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { HandFrame, HandLandmark, HandTracker, HandTrackerBackend } from './handTracker';
+
+const hand: HandLandmark[] = Array.from({ length: 21 }, (_, i) => ({ x: i / 20, y: 0.5, z: 0 }));
+
+/** A camera whose video advances one frame per `tick`, and a detector that always sees `hand`. */
+const fakeBackend = () => {
+  const video = { readyState: 4, currentTime: 0 } as HTMLVideoElement;
+  let pending: (() => void) | null = null;
+  const backend = {
+    loadDetector: vi.fn(async () => ({ detect: () => hand })),
+    openCamera: vi.fn(async () => ({ video, stop: backend.stopCamera })),
+    stopCamera: vi.fn(),
+    requestFrame: (callback: () => void) => { pending = callback; return () => { pending = null; }; },
+  };
+  const tick = () => { video.currentTime += 1 / 30; pending?.(); };
+  return { backend: backend as HandTrackerBackend & typeof backend, tick };
+};
+
+afterEach(() => { vi.useRealTimers(); });
+
+describe('HandTracker', () => {
+  it('shares one camera and model between screens and keeps them through a quick switch', async () => {
+    vi.useFakeTimers();
+    const { backend, tick } = fakeBackend();
+    const tracker = new HandTracker(backend, 1000);
+    const slicer: HandFrame[] = []; const slingshot: HandFrame[] = [];
+
+    const releaseSlicer = tracker.acquire(frame => slicer.push(frame));
+    await vi.waitFor(() => expect(tracker.running).toBe(true));
+    tick();
+    expect(slicer.at(-1)?.landmarks).toBe(hand);
+
+    releaseSlicer();
+    vi.advanceTimersByTime(500);
+    const releaseSlingshot = tracker.acquire(frame => slingshot.push(frame));
+    vi.advanceTimersByTime(1000);
+    tick();
+    expect(slingshot).toHaveLength(1);
+    expect(backend.openCamera).toHaveBeenCalledTimes(1);
+
+    releaseSlingshot();
+    vi.advanceTimersByTime(1000);
+    expect(tracker.running).toBe(false);
+    expect(backend.stopCamera).toHaveBeenCalledTimes(1);
+
+    tracker.acquire(() => {});
+    await vi.waitFor(() => expect(tracker.running).toBe(true));
+    expect(backend.openCamera).toHaveBeenCalledTimes(2);
+    expect(backend.loadDetector).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a camera that fails to start and tries again on the next acquire', async () => {
+    const { backend } = fakeBackend();
+    const denied = Object.assign(new Error('Permission denied'), { name: 'NotAllowedError' });
+    backend.openCamera.mockRejectedValueOnce(denied);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const tracker = new HandTracker(backend);
+    const onError = vi.fn();
+
+    const release = tracker.acquire(() => {}, onError);
+    await vi.waitFor(() => expect(onError).toHaveBeenCalledWith(denied));
+    expect(tracker.running).toBe(false);
+    release();
+
+    tracker.acquire(() => {}, onError);
+    await vi.waitFor(() => expect(tracker.running).toBe(true));
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+});
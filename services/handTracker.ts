@@ -0,0 +1,210 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import wasmLoaderPath from '@mediapipe/tasks-vision/vision_wasm_internal.js?url';
+import wasmBinaryPath from '@mediapipe/tasks-vision/vision_wasm_internal.wasm?url';
+
+/**
+ * One camera and one MediaPipe HandLandmarker for the whole app. Screens `acquire`
+ * the tracker while they are mounted; the model stays loaded once it has been, and
+ * the camera keeps running for a while after the last screen lets go, so leaving one
+ * game through the menu for the other restarts neither.
+ */
+
+/** Served by the app when `npm run hand-model` has put it in public/models. */
+export const LOCAL_MODEL_URL = '/models/hand_landmarker.task';
+export const HOSTED_MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+
+// How long the camera stays on with no screen using it
+const IDLE_STOP_MS = 10_000;
+
+/** A hand keypoint normalized to the camera frame (0-1 on x and y, depth relative to the wrist). */
+export type HandLandmark = Pick<NormalizedLandmark, 'x' | 'y' | 'z'>;
+
+export interface HandFrame {
+  /** The camera frame the landmarks were found in, for drawing behind the game. */
+  image: HTMLVideoElement;
+  /** The 21 landmarks of the tracked hand, or null when none is in view. */
+  landmarks: HandLandmark[] | null;
+  timestamp: number;
+}
+
+export type HandFrameListener = (frame: HandFrame) => void;
+export type HandErrorListener = (error: Error) => void;
+
+export interface HandDetector {
+  detect(video: HTMLVideoElement, timestamp: number): HandLandmark[] | null;
+}
+
+export interface CameraStream {
+  /** Playing, but not attached to the page. */
+  video: HTMLVideoElement;
+  stop(): void;
+}
+
+/** What the tracker needs from the browser and MediaPipe; tests pass fakes. */
+export interface HandTrackerBackend {
+  loadDetector(): Promise<HandDetector>;
+  openCamera(): Promise<CameraStream>;
+  /** Calls `callback` on the next display frame; returns a cancel. */
+  requestFrame(callback: () => void): () => void;
+}
+
+/** The bones between landmarks, as pairs of landmark indices. */
+export const HAND_CONNECTIONS: ReadonlyArray<readonly [number, number]> = [
+  [0, 1], [1, 2], [2, 3], [3, 4],
+  [0, 5], [5, 6], [6, 7], [7, 8],
+  [5, 9], [9, 10], [10, 11], [11, 12],
+  [9, 13], [13, 14], [14, 15], [15, 16],
+  [13, 17], [0, 17], [17, 18], [18, 19], [19, 20]
+];
+
+/** Draws the hand's skeleton over the whole canvas, unmirrored like the camera frame. */
+export const drawHandSkeleton = (ctx: CanvasRenderingContext2D, landmarks: HandLandmark[], style: { color: string, lineWidth: number }) => {
+  const { width, height } = ctx.canvas;
+  ctx.beginPath();
+  HAND_CONNECTIONS.forEach(([from, to]) => {
+    ctx.moveTo(landmarks[from].x * width, landmarks[from].y * height);
+    ctx.lineTo(landmarks[to].x * width, landmarks[to].y * height);
+  });
+  ctx.strokeStyle = style.color; ctx.lineWidth = style.lineWidth; ctx.stroke();
+};
+
+export class HandTracker {
+  private frameListeners = new Set<HandFrameListener>();
+  private errorListeners = new Set<HandErrorListener>();
+  private detector: Promise<HandDetector> | null = null;
+  private camera: CameraStream | null = null;
+  private starting = false;
+  private cancelFrame: (() => void) | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastVideoTime = -1;
+
+  constructor(private backend: HandTrackerBackend = browserBackend, private idleStopMs = IDLE_STOP_MS) {}
+
+  /**
+   * Starts the camera and model unless they are already running, then sends every
+   * new frame to `onFrame` until the returned release is called. Failures to start
+   * go to `onError`; the next acquire tries again.
+   */
+  acquire(onFrame: HandFrameListener, onError?: HandErrorListener): () => void {
+    this.frameListeners.add(onFrame);
+    if (onError) this.errorListeners.add(onError);
+    if (this.idleTimer) { clearTimeout(this.idleTimer); this.idleTimer = null; }
+    this.start();
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.frameListeners.delete(onFrame);
+      if (onError) this.errorListeners.delete(onError);
+      if (this.frameListeners.size === 0) this.idleTimer = setTimeout(() => this.stop(), this.idleStopMs);
+    };
+  }
+
+  get running() { return this.camera !== null; }
+
+  private async start() {
+    if (this.camera || this.starting) return;
+    this.starting = true;
+    const [camera, detector] = await Promise.allSettled([this.backend.openCamera(), this.loadDetector()]);
+    this.starting = false;
+    if (camera.status === 'rejected' || detector.status === 'rejected') {
+      if (camera.status === 'fulfilled') camera.value.stop();
+      const reason = camera.status === 'rejected' ? camera.reason : (detector as PromiseRejectedResult).reason;
+      const error = reason instanceof Error ? reason : new Error(String(reason));
+      console.error('Hand tracking failed to start:', error);
+      this.errorListeners.forEach(listener => listener(error));
+      return;
+    }
+    // Everyone left while the camera was opening
+    if (this.frameListeners.size === 0) { camera.value.stop(); return; }
+    this.camera = camera.value;
+    this.track(camera.value.video, detector.value);
+  }
+
+  private loadDetector() {
+    if (!this.detector) {
+      this.detector = this.backend.loadDetector();
+      this.detector.catch(() => { this.detector = null; });
+    }
+    return this.detector;
+  }
+
+  private track(video: HTMLVideoElement, detector: HandDetector) {
+    const onFrame = () => {
+      this.cancelFrame = this.backend.requestFrame(onFrame);
+      // The display refreshes faster than most cameras; only new video frames are worth detecting on
+      if (video.readyState < 2 || video.currentTime === this.lastVideoTime) return;
+      this.lastVideoTime = video.currentTime;
+      const timestamp = performance.now();
+      const frame: HandFrame = { image: video, landmarks: detector.detect(video, timestamp), timestamp };
+      this.frameListeners.forEach(listener => listener(frame));
+    };
+    onFrame();
+  }
+
+  private stop() {
+    this.idleTimer = null;
+    this.cancelFrame?.();
+    this.cancelFrame = null;
+    this.camera?.stop();
+    this.camera = null;
+    this.lastVideoTime = -1;
+  }
+}
+
+/** The model from the app when it ships one, otherwise Google's copy. */
+const loadModel = async (): Promise<{ modelAssetBuffer: Uint8Array } | { modelAssetPath: string }> => {
+  try {
+    const response = await fetch(LOCAL_MODEL_URL);
+    // Hosts that rewrite unknown paths to the app answer with index.html rather than a 404
+    if (response.ok && !response.headers.get('content-type')?.includes('text/html')) {
+      return { modelAssetBuffer: new Uint8Array(await response.arrayBuffer()) };
+    }
+  } catch (e) { /* offline without a cached copy */ }
+  return { modelAssetPath: HOSTED_MODEL_URL };
+};
+
+const browserBackend: HandTrackerBackend = {
+  async loadDetector() {
+    // Loaded on first use, so screens that never start the camera don't pay for it
+    const [{ HandLandmarker }, model] = await Promise.all([import('@mediapipe/tasks-vision'), loadModel()]);
+    const create = (delegate: 'GPU' | 'CPU') => HandLandmarker.createFromOptions({ wasmLoaderPath, wasmBinaryPath }, {
+      baseOptions: { ...model, delegate },
+      runningMode: 'VIDEO',
+      numHands: 1,
+      minHandDetectionConfidence: 0.5,
+      minHandPresenceConfidence: 0.5,
+      minTrackingConfidence: 0.5
+    });
+    const landmarker = await create('GPU').catch(() => create('CPU'));
+    return { detect: (video, timestamp) => landmarker.detectForVideo(video, timestamp).landmarks[0] ?? null };
+  },
+
+  async openCamera() {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: false, video: { facingMode: 'user', width: 1280, height: 720 } });
+    const video = document.createElement('video');
+    video.muted = true; video.playsInline = true; video.srcObject = stream;
+    try {
+      await video.play();
+    } catch (e) {
+      stream.getTracks().forEach(track => track.stop());
+      throw e;
+    }
+    return {
+      video,
+      stop: () => { stream.getTracks().forEach(track => track.stop()); video.srcObject = null; }
+    };
+  },
+
+  requestFrame(callback) {
+    const id = requestAnimationFrame(callback);
+    return () => cancelAnimationFrame(id);
+  }
+};
+
+export const handTracker = new HandTracker();
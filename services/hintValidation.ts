@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AiErrorCode, BubbleColor, FruitType, StrategicHint } from "../types";
+import { COLOR_KEYS, GRID_COLS } from "../engine/bubbleGrid";
+import { FRUIT_CONFIG } from "../engine/slicerWorld";
+
+// Statuses worth another attempt: rate limiting and server-side failures
+const RETRIABLE_STATUS = (status: number) => status === 429 || status >= 500;
+
+/** A failed AI request, classified so callers can decide whether to retry and debug views can group failures. */
+export class AiError extends Error {
+  readonly retriable: boolean;
+
+  constructor(readonly code: AiErrorCode, message: string, status?: number) {
+    super(message);
+    this.name = 'AiError';
+    this.retriable = code === 'network' || code === 'bad_json' || code === 'invalid_response' || (code === 'http' && status !== undefined && RETRIABLE_STATUS(status));
+  }
+}
+
+/** Hint fruits: anything but the bomb. */
+export const HINT_FRUITS = (Object.keys(FRUIT_CONFIG) as FruitType[]).filter(type => type !== 'bomb');
+
+type Check = (value: unknown) => boolean;
+
+const isText: Check = value => typeof value === 'string' && value.trim().length > 0;
+const oneOf = (options: readonly string[]): Check => value => typeof value === 'string' && options.includes(value);
+const intIn = (min: number, max: number): Check => value => Number.isInteger(value) && (value as number) >= min && (value as number) < max;
+
+interface FieldRule {
+  check: Check;
+  expected: string;
+  required?: boolean;
+}
+
+// Generous upper bound: the grid only grows downwards as shots stick to it
+const MAX_TARGET_ROW = 64;
+
+const SENSEI_FIELDS: Record<string, FieldRule> = {
+  message: { check: isText, expected: 'a non-empty string', required: true },
+  rationale: { check: isText, expected: 'a non-empty string' },
+  priorityFruit: { check: oneOf(HINT_FRUITS), expected: HINT_FRUITS.join('|') },
+  techniqueTip: { check: isText, expected: 'a non-empty string' }
+};
+
+const STRATEGY_FIELDS: Record<string, FieldRule> = {
+  message: { check: isText, expected: 'a non-empty string', required: true },
+  rationale: { check: isText, expected: 'a non-empty string' },
+  targetRow: { check: intIn(0, MAX_TARGET_ROW), expected: `an integer 0-${MAX_TARGET_ROW - 1}`, required: true },
+  targetCol: { check: intIn(0, GRID_COLS), expected: `an integer 0-${GRID_COLS - 1}`, required: true },
+  recommendedColor: { check: oneOf(COLOR_KEYS), expected: COLOR_KEYS.join('|'), required: true }
+};
+
+/**
+ * Checks every field of a parsed reply and keeps only the known ones.
+ * Throws `invalid_response` listing each problem; `null` counts as absent.
+ */
+const validate = (value: unknown, fields: Record<string, FieldRule>): StrategicHint => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new AiError('invalid_response', 'Reply is not a JSON object');
+  const record = value as Record<string, unknown>;
+  const problems: string[] = []; const hint: Record<string, unknown> = {};
+  for (const [key, rule] of Object.entries(fields)) {
+    const field = record[key];
+    if (field === undefined || field === null) { if (rule.required) problems.push(`${key} is missing`); continue; }
+    if (!rule.check(field)) { problems.push(`${key} must be ${rule.expected}, got ${JSON.stringify(field)}`); continue; }
+    hint[key] = typeof field === 'string' ? field.trim() : field;
+  }
+  if (problems.length > 0) throw new AiError('invalid_response', problems.join('; '));
+  return hint as unknown as StrategicHint;
+};
+
+export const parseJson = (text: string): unknown => {
+  try { return JSON.parse(text); } catch (e: any) { throw new AiError('bad_json', e.message); }
+};
+
+/** Validates a Fruit Ninja Sensei reply: `message` plus optional `rationale`, `priorityFruit` and `techniqueTip`. */
+export const validateSenseiHint = (value: unknown) => validate(value, SENSEI_FIELDS) as StrategicHint & { priorityFruit?: Exclude<FruitType, 'bomb'> };
+
+/** Validates a Slingshot reply: `message`, a target cell and a `recommendedColor`, plus an optional `rationale`. */
+export const validateStrategyHint = (value: unknown) => validate(value, STRATEGY_FIELDS) as StrategicHint & { targetRow: number, targetCol: number, recommendedColor: BubbleColor };
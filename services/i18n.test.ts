@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { id } from '../locales/id';
+import { ms } from '../locales/ms';
+import { en } from '../locales/en';
+import { detectLocale, formatNumber, MessageKey, translate } from './i18n';
+
+const placeholders = (message: string) => [...message.matchAll(/\{(\w+)\}/g)].map(m => m[1]).sort();
+
+describe('locale catalogs', () => {
+  it('translate every key with the same placeholders as the Indonesian source', () => {
+    for (const catalog of [ms, en]) {
+      for (const key of Object.keys(id) as MessageKey[]) {
+        expect(catalog[key].trim(), key).not.toBe('');
+        expect(placeholders(catalog[key]), key).toEqual(placeholders(id[key]));
+      }
+      expect(Object.keys(catalog).sort()).toEqual(Object.keys(id).sort());
+    }
+  });
+});
+
+describe('translate', () => {
+  it('fills placeholders and leaves unknown ones alone', () => {
+    expect(translate('en', 'slingshot.globalRank', { rank: 3, level: 7 })).toBe('Global rank #3 on level 7');
+    expect(translate('id', 'slingshot.startLevel')).toBe('Mulai Level {level}');
+  });
+
+  it('formats numbers the way each country writes them', () => {
+    expect(formatNumber('id', 12500)).toBe('12.500');
+    expect(formatNumber('en', 12500)).toBe('12,500');
+  });
+});
+
+describe('detectLocale', () => {
+  it('takes the first supported browser language and falls back to Indonesian', () => {
+    expect(detectLocale(['fr-FR', 'ms-MY', 'en'])).toBe('ms');
+    expect(detectLocale(['en-US'])).toBe('en');
+    expect(detectLocale(['in-ID'])).toBe('id');
+    expect(detectLocale(['ja', 'de'])).toBe('id');
+    expect(detectLocale([])).toBe('id');
+  });
+});
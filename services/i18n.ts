@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { id } from "../locales/id";
+import { ms } from "../locales/ms";
+import { en } from "../locales/en";
+
+export type Locale = 'id' | 'ms' | 'en';
+
+export const LOCALES: Locale[] = ['id', 'ms', 'en'];
+export const DEFAULT_LOCALE: Locale = 'id';
+
+/** Each language in its own words, for the picker. */
+export const LOCALE_NAMES: Record<Locale, string> = { id: 'Bahasa Indonesia', ms: 'Bahasa Melayu', en: 'English' };
+
+/** BCP 47 tags for number formatting and speech, after the country each language is mostly played in. */
+export const INTL_TAGS: Record<Locale, string> = { id: 'id-ID', ms: 'ms-MY', en: 'en-GB' };
+
+const STORAGE_KEY = 'abang-locale';
+
+/** Indonesian is the source catalog; the others must fill in every key. */
+export type MessageKey = keyof typeof id;
+export type Messages = Record<MessageKey, string>;
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<Locale, Messages> = { id, ms, en };
+
+export const isLocale = (value: unknown): value is Locale => typeof value === 'string' && (LOCALES as string[]).includes(value);
+
+/** The message for `key` with `{name}` placeholders filled from `params`; unknown placeholders are left as they are. */
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams) => {
+  const message = CATALOGS[locale][key];
+  return params ? message.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match) : message;
+};
+
+export const formatNumber = (locale: Locale, value: number) => value.toLocaleString(INTL_TAGS[locale]);
+
+/** The first supported language in the browser's preference list, matched on the primary subtag; `in` is the legacy code for Indonesian. */
+export const detectLocale = (languages: readonly string[]): Locale => {
+  for (const tag of languages) {
+    const primary = tag.toLowerCase().split('-')[0];
+    const locale = primary === 'in' ? 'id' : primary;
+    if (isLocale(locale)) return locale;
+  }
+  return DEFAULT_LOCALE;
+};
+
+let current: Locale | null = null;
+const listeners = new Set<() => void>();
+
+/** The player's language: their saved choice, else the browser's, else Indonesian. */
+export const getLocale = (): Locale => {
+  if (current) return current;
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) return current = saved;
+  } catch (e) { /* storage unavailable */ }
+  return current = typeof navigator === 'undefined' ? DEFAULT_LOCALE : detectLocale(navigator.languages ?? [navigator.language]);
+};
+
+export const setLocale = (locale: Locale) => {
+  if (locale === getLocale()) return;
+  current = locale;
+  try { localStorage.setItem(STORAGE_KEY, locale); } catch (e) { /* storage unavailable */ }
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeLocale = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
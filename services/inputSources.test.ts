@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HandLandmark } from './handTracker';
+import { GamepadInputSource, HandInputSource, InputEvent, PointerInputSource } from './inputSources';
+
+let now = 0;
+
+beforeEach(() => {
+  now = 1000;
+  vi.spyOn(performance, 'now').mockImplementation(() => now);
+  // The tests run without a DOM; nothing they dispatch on is a HUD control
+  vi.stubGlobal('Element', class {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+/** A play area 400x200 px whose top-left corner is at (100, 50) in the viewport. */
+const playArea = (rect = { left: 100, top: 50, width: 400, height: 200 }) =>
+  Object.assign(new EventTarget(), { getBoundingClientRect: () => rect, setPointerCapture: vi.fn() }) as unknown as HTMLElement;
+
+const pointer = (type: string, clientX: number, clientY: number, buttons: number, pointerType = 'mouse') =>
+  Object.assign(new Event(type), { clientX, clientY, buttons, pointerType, pointerId: 1 });
+
+/** A hand with the index fingertip at `tip` and the thumb tip at `thumb`. */
+const hand = (tip: { x: number, y: number }, thumb: { x: number, y: number }): HandLandmark[] =>
+  Array.from({ length: 21 }, (_, i) => i === 8 ? { ...tip, z: 0 } : i === 4 ? { ...thumb, z: 0 } : { x: 0.5, y: 0.9, z: 0 });
+
+/** A standard-mapping pad whose sticks and buttons the test moves between polls. */
+const buttons = (...pressed: number[]) => Array.from({ length: 16 }, (_, i) => ({ pressed: pressed.includes(i) }));
+const gamepad = () => ({ connected: true, axes: [0, 0], buttons: buttons() });
+
+describe('PointerInputSource', () => {
+  it('normalizes positions to the play area and grabs while the primary button is held', () => {
+    const source = new PointerInputSource();
+    const target = playArea();
+    const events: InputEvent[] = [];
+    source.subscribe(e => events.push(e));
+    source.attach(target);
+
+    target.dispatchEvent(pointer('pointermove', 300, 100, 0));
+    expect(source.poll()).toEqual({ x: 0.5, y: 0.25, grabbing: false, timestamp: 1000 });
+
+    target.dispatchEvent(pointer('pointerdown', 200, 250, 1));
+    expect(source.poll()).toMatchObject({ x: 0.25, y: 1, grabbing: true });
+    expect(target.setPointerCapture).toHaveBeenCalledWith(1);
+
+    target.dispatchEvent(pointer('pointerup', 500, 250, 0));
+    expect(events.map(e => [e.type, e.sample.x, e.sample.y])).toEqual([['grab', 0.25, 1], ['release', 1, 1]]);
+  });
+
+  it('leaves touch pointers to the touch source and ignores a play area with no size', () => {
+    const source = new PointerInputSource();
+    const target = playArea();
+    source.attach(target);
+    target.dispatchEvent(pointer('pointerdown', 300, 100, 1, 'touch'));
+    expect(source.poll()).toBeNull();
+
+    const collapsed = new PointerInputSource();
+    const hidden = playArea({ left: 0, top: 0, width: 0, height: 0 });
+    collapsed.attach(hidden);
+    hidden.dispatchEvent(pointer('pointermove', 10, 10, 0));
+    expect(collapsed.poll()).toBeNull();
+  });
+});
+
+describe('HandInputSource', () => {
+  it('follows the index fingertip, mirrored for a selfie camera, and grabs on a pinch', () => {
+    const source = new HandInputSource(true);
+    const events: InputEvent[] = [];
+    source.subscribe(e => events.push(e));
+
+    source.feed(hand({ x: 0.2, y: 0.4 }, { x: 0.4, y: 0.4 }));
+    expect(source.poll()).toEqual({ x: 0.8, y: 0.4, grabbing: false, timestamp: 1000 });
+
+    source.feed(hand({ x: 0.2, y: 0.4 }, { x: 0.23, y: 0.43 }));
+    expect(source.poll()?.grabbing).toBe(true);
+
+    source.feed(null);
+    expect(source.poll()).toBeNull();
+    expect(events.map(e => e.type)).toEqual(['grab', 'release']);
+    expect(events[1].sample).toMatchObject({ x: 0.8, y: 0.4, grabbing: false });
+  });
+
+  it('keeps the camera orientation when not mirrored', () => {
+    const source = new HandInputSource(false);
+    source.feed(hand({ x: 0.2, y: 0.4 }, { x: 0.9, y: 0.9 }));
+    expect(source.poll()?.x).toBe(0.2);
+  });
+});
+
+describe('GamepadInputSource', () => {
+  const withPads = (...pads: (ReturnType<typeof gamepad> | null)[]) => vi.stubGlobal('navigator', { getGamepads: () => pads });
+
+  it('reports nothing without a connected pad', () => {
+    withPads(null, { ...gamepad(), axes: [1, 0], connected: false });
+    expect(new GamepadInputSource().poll()).toBeNull();
+  });
+
+  it('moves the cursor with the left stick outside the deadzone, scaled by the time between polls', () => {
+    const pad = gamepad();
+    withPads(null, pad);
+    const source = new GamepadInputSource();
+    expect(source.poll()).toMatchObject({ x: 0.5, y: 0.7, grabbing: false });
+
+    // A resting stick drifts a little; that must not move the cursor
+    pad.axes = [0.1, -0.14];
+    now += 50;
+    expect(source.poll()).toMatchObject({ x: 0.5, y: 0.7 });
+
+    pad.axes = [1, -0.5];
+    now += 50;
+    const sample = source.poll()!;
+    expect(sample.x).toBeCloseTo(0.5 + 0.0012 * 50);
+    expect(sample.y).toBeCloseTo(0.7 - 0.5 * 0.0012 * 50);
+
+    // A long stall counts as 100 ms, so the cursor doesn't jump across the screen
+    now += 5000;
+    expect(source.poll()!.x).toBeCloseTo(0.5 + 0.0012 * 150);
+
+    now += 100; source.poll(); now += 100; source.poll(); now += 100;
+    expect(source.poll()!.x).toBe(1);
+  });
+
+  it('grabs while A or the right trigger is held', () => {
+    const pad = gamepad();
+    withPads(pad);
+    const source = new GamepadInputSource();
+    const events: InputEvent[] = [];
+    source.subscribe(e => events.push(e));
+
+    source.poll();
+    pad.buttons = buttons(0);
+    expect(source.poll()?.grabbing).toBe(true);
+    pad.buttons = buttons(7);
+    expect(source.poll()?.grabbing).toBe(true);
+    pad.buttons = buttons();
+    expect(source.poll()?.grabbing).toBe(false);
+    expect(events.map(e => e.type)).toEqual(['grab', 'release']);
+  });
+});
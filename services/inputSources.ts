@@ -0,0 +1,234 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { HandLandmark } from './handTracker';
+import { Locale, translate } from './i18n';
+
+export type InputSourceKind = 'hand' | 'touch' | 'pointer' | 'gamepad';
+
+export const PINCH_THRESHOLD = 0.05;
+
+const STORAGE_KEY = 'abang-input-source';
+const GAMEPAD_DEADZONE = 0.15;
+const GAMEPAD_CURSOR_SPEED = 0.0012; // normalized units per ms at full stick deflection
+
+/** A pointer position normalized to the play area (0-1 on both axes). */
+export interface PointerSample {
+  x: number;
+  y: number;
+  grabbing: boolean;
+  timestamp: number;
+}
+
+export interface InputEvent {
+  type: 'grab' | 'release';
+  sample: PointerSample;
+}
+
+export type InputListener = (event: InputEvent) => void;
+
+export interface InputSource {
+  /** 'replay' is reserved for recorded sessions played back through engine/replay.ts */
+  readonly kind: InputSourceKind | 'replay';
+  /** True when the pointer is always "live" (a tracked finger), false when it only acts while grabbing. */
+  readonly alwaysEngaged: boolean;
+  attach(target: HTMLElement): void;
+  detach(): void;
+  /** Latest sample, or null when nothing is tracked. Called once per game tick. */
+  poll(): PointerSample | null;
+  subscribe(listener: InputListener): () => void;
+}
+
+/** Every input source, in the order the settings menu lists them; their names are in the locale catalogs (`input.<kind>`). */
+export const INPUT_SOURCE_KINDS: InputSourceKind[] = ['hand', 'touch', 'pointer', 'gamepad'];
+
+// Presses on HUD buttons inside the play area must not turn into grabs
+const isControl = (target: EventTarget | null) => target instanceof Element && !!target.closest('button, input, select, a');
+
+abstract class BaseInputSource implements InputSource {
+  abstract readonly kind: InputSourceKind;
+  readonly alwaysEngaged: boolean = false;
+  protected target: HTMLElement | null = null;
+  protected latest: PointerSample | null = null;
+  private listeners = new Set<InputListener>();
+
+  attach(target: HTMLElement) { this.target = target; }
+
+  detach() { this.target = null; this.latest = null; }
+
+  poll(): PointerSample | null { return this.latest; }
+
+  subscribe(listener: InputListener) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /** Records a new sample and emits grab/release on transitions. */
+  protected update(sample: PointerSample | null) {
+    const wasGrabbing = !!this.latest?.grabbing;
+    const previous = this.latest;
+    this.latest = sample;
+    if (sample && sample.grabbing && !wasGrabbing) this.emit({ type: 'grab', sample });
+    else if (wasGrabbing && !sample?.grabbing) this.emit({ type: 'release', sample: sample || { ...previous!, grabbing: false } });
+  }
+
+  protected normalize(clientX: number, clientY: number): { x: number, y: number } | null {
+    if (!this.target) return null;
+    const rect = this.target.getBoundingClientRect();
+    if (rect.width <= 0 || rect.height <= 0) return null;
+    return { x: (clientX - rect.left) / rect.width, y: (clientY - rect.top) / rect.height };
+  }
+
+  private emit(event: InputEvent) {
+    this.listeners.forEach(l => l(event));
+  }
+}
+
+/**
+ * MediaPipe hands. The component feeds in landmarks from the hand tracker via `feed`;
+ * the index fingertip (landmark 8) is the pointer and a thumb/index pinch is a grab.
+ */
+export class HandInputSource extends BaseInputSource {
+  readonly kind = 'hand' as const;
+  readonly alwaysEngaged = true;
+  /** Raw landmarks of the last detected hand, for drawing the skeleton overlay. */
+  landmarks: HandLandmark[] | null = null;
+
+  constructor(private mirror: boolean) { super(); }
+
+  feed(landmarks: HandLandmark[] | null) {
+    this.landmarks = landmarks;
+    if (!landmarks) { this.update(null); return; }
+    const tip = landmarks[8]; const thumb = landmarks[4];
+    const pinchDist = Math.sqrt((tip.x - thumb.x) ** 2 + (tip.y - thumb.y) ** 2);
+    this.update({ x: this.mirror ? 1 - tip.x : tip.x, y: tip.y, grabbing: pinchDist < PINCH_THRESHOLD, timestamp: performance.now() });
+  }
+
+  detach() { super.detach(); this.landmarks = null; }
+}
+
+export class TouchInputSource extends BaseInputSource {
+  readonly kind = 'touch' as const;
+
+  private onTouch = (e: TouchEvent) => {
+    if (e.type === 'touchstart' && isControl(e.target)) return;
+    const touch = e.touches[0];
+    if (!touch) { if (this.latest) this.update({ ...this.latest, grabbing: false, timestamp: performance.now() }); return; }
+    e.preventDefault();
+    const pos = this.normalize(touch.clientX, touch.clientY);
+    if (pos) this.update({ ...pos, grabbing: true, timestamp: performance.now() });
+  };
+
+  attach(target: HTMLElement) {
+    super.attach(target);
+    target.addEventListener('touchstart', this.onTouch, { passive: false });
+    target.addEventListener('touchmove', this.onTouch, { passive: false });
+    target.addEventListener('touchend', this.onTouch);
+    target.addEventListener('touchcancel', this.onTouch);
+  }
+
+  detach() {
+    if (this.target) {
+      this.target.removeEventListener('touchstart', this.onTouch);
+      this.target.removeEventListener('touchmove', this.onTouch);
+      this.target.removeEventListener('touchend', this.onTouch);
+      this.target.removeEventListener('touchcancel', this.onTouch);
+    }
+    super.detach();
+  }
+}
+
+/** Mouse and pen via Pointer Events. Touch pointers are left to TouchInputSource. */
+export class PointerInputSource extends BaseInputSource {
+  readonly kind = 'pointer' as const;
+
+  private onPointer = (e: PointerEvent) => {
+    if (e.pointerType === 'touch' || (e.type === 'pointerdown' && isControl(e.target))) return;
+    const pos = this.normalize(e.clientX, e.clientY);
+    if (!pos) return;
+    if (e.type === 'pointerdown') this.target?.setPointerCapture?.(e.pointerId);
+    const grabbing = e.type === 'pointerup' || e.type === 'pointercancel' ? false : (e.buttons & 1) === 1;
+    this.update({ ...pos, grabbing, timestamp: performance.now() });
+  };
+
+  private onLeave = (e: PointerEvent) => {
+    if (e.pointerType !== 'touch' && !this.latest?.grabbing) this.update(null);
+  };
+
+  attach(target: HTMLElement) {
+    super.attach(target);
+    ['pointerdown', 'pointermove', 'pointerup', 'pointercancel'].forEach(t => target.addEventListener(t, this.onPointer as EventListener));
+    target.addEventListener('pointerleave', this.onLeave);
+  }
+
+  detach() {
+    if (this.target) {
+      ['pointerdown', 'pointermove', 'pointerup', 'pointercancel'].forEach(t => this.target!.removeEventListener(t, this.onPointer as EventListener));
+      this.target.removeEventListener('pointerleave', this.onLeave);
+    }
+    super.detach();
+  }
+}
+
+/** First connected gamepad: left stick moves a cursor, A or right trigger grabs. */
+export class GamepadInputSource extends BaseInputSource {
+  readonly kind = 'gamepad' as const;
+  private cursor = { x: 0.5, y: 0.7 };
+  private lastPoll = 0;
+
+  poll(): PointerSample | null {
+    const now = performance.now();
+    const dt = this.lastPoll ? Math.min(100, now - this.lastPoll) : 0;
+    this.lastPoll = now;
+    const pad = typeof navigator !== 'undefined' && navigator.getGamepads ? Array.from(navigator.getGamepads()).find(p => p && p.connected) : null;
+    if (!pad) { this.update(null); return null; }
+    const axis = (v: number) => Math.abs(v) < GAMEPAD_DEADZONE ? 0 : v;
+    this.cursor.x = Math.max(0, Math.min(1, this.cursor.x + axis(pad.axes[0] || 0) * GAMEPAD_CURSOR_SPEED * dt));
+    this.cursor.y = Math.max(0, Math.min(1, this.cursor.y + axis(pad.axes[1] || 0) * GAMEPAD_CURSOR_SPEED * dt));
+    const grabbing = !!(pad.buttons[0]?.pressed || pad.buttons[7]?.pressed);
+    this.update({ x: this.cursor.x, y: this.cursor.y, grabbing, timestamp: now });
+    return this.latest;
+  }
+
+  detach() { super.detach(); this.lastPoll = 0; }
+}
+
+export const createInputSource = (kind: InputSourceKind, options: { mirrorHand?: boolean } = {}): InputSource => {
+  switch (kind) {
+    case 'hand': return new HandInputSource(!!options.mirrorHand);
+    case 'touch': return new TouchInputSource();
+    case 'pointer': return new PointerInputSource();
+    case 'gamepad': return new GamepadInputSource();
+  }
+};
+
+export const isInputSourceAvailable = (kind: InputSourceKind): boolean => {
+  if (typeof window === 'undefined') return false;
+  switch (kind) {
+    case 'hand': return !!navigator.mediaDevices?.getUserMedia;
+    case 'touch': return 'ontouchstart' in window || navigator.maxTouchPoints > 0;
+    case 'pointer': return 'PointerEvent' in window;
+    case 'gamepad': return typeof navigator.getGamepads === 'function';
+  }
+};
+
+/** What to tell the player when the camera for hand tracking cannot start. */
+export const describeCameraError = (e: Error, locale: Locale) => {
+  if (e.name === 'NotReadableError') return translate(locale, 'camera.busy');
+  if (e.name === 'NotAllowedError') return translate(locale, 'camera.denied');
+  return translate(locale, 'camera.error', { message: e.message || translate(locale, 'camera.unknown') });
+};
+
+export const getPreferredInputKind = (): InputSourceKind => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY) as InputSourceKind | null;
+    if (saved && INPUT_SOURCE_KINDS.includes(saved)) return saved;
+  } catch (e) { /* storage unavailable */ }
+  return 'hand';
+};
+
+export const setPreferredInputKind = (kind: InputSourceKind) => {
+  try { localStorage.setItem(STORAGE_KEY, kind); } catch (e) { /* storage unavailable */ }
+};
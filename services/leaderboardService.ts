@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Replay, ReplayGame } from '../engine/replay';
+
+export type LeaderboardPeriod = 'day' | 'week' | 'all';
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['day', 'week', 'all'];
+
+/** Fruit Ninja has one mode; Bubble Slingshot ranks each level separately. */
+export const getLeaderboardMode = (game: ReplayGame, level?: number) => game === 'slicer' ? 'classic' : `level-${level ?? 1}`;
+
+/**
+ * A server-issued ticket for one ranked round. The round must be played on
+ * `seed`; the server only accepts a run whose replay carries that seed and
+ * whose re-simulated score matches the claim.
+ */
+export interface LeaderboardSession {
+  token: string;
+  game: ReplayGame;
+  mode: string;
+  seed: number;
+  expiresAt: string;
+}
+
+export interface LeaderboardEntry {
+  id: string;
+  game: ReplayGame;
+  mode: string;
+  player: string;
+  score: number;
+  level: number;
+  submittedAt: string;
+}
+
+export interface SubmitResult {
+  entry: LeaderboardEntry;
+  /** 1-based position on the all-time board for the entry's game and mode. */
+  rank: number;
+}
+
+/** Rejections carry the HTTP status (0 when the server could not be reached). */
+export class LeaderboardError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'LeaderboardError';
+  }
+}
+
+export interface LeaderboardService {
+  /** Asks for a signed seed before a round starts. */
+  requestSession(game: ReplayGame, mode: string): Promise<LeaderboardSession>;
+  /** Submits the replay of a round played on `session.seed`. */
+  submitRun(session: LeaderboardSession, player: string, replay: Replay): Promise<SubmitResult>;
+  getTop(game: ReplayGame, mode: string, period: LeaderboardPeriod, limit?: number): Promise<LeaderboardEntry[]>;
+}
+
+/** Talks to the reference server in `server/leaderboardServer.ts` (or anything speaking the same JSON). */
+export class RestLeaderboardService implements LeaderboardService {
+  constructor(private baseUrl: string, private fetchImpl: typeof fetch = (...args) => fetch(...args)) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  private async call<T>(path: string, init?: RequestInit): Promise<T> {
+    let res: Response;
+    try {
+      res = await this.fetchImpl(`${this.baseUrl}${path}`, { ...init, headers: { 'Content-Type': 'application/json', ...init?.headers } });
+    } catch (e: any) {
+      throw new LeaderboardError(`Leaderboard unreachable: ${e.message || e}`, 0);
+    }
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) throw new LeaderboardError(body.error || `Leaderboard request failed (${res.status})`, res.status);
+    return body as T;
+  }
+
+  requestSession(game: ReplayGame, mode: string) {
+    return this.call<LeaderboardSession>('/sessions', { method: 'POST', body: JSON.stringify({ game, mode }) });
+  }
+
+  submitRun(session: LeaderboardSession, player: string, replay: Replay) {
+    return this.call<SubmitResult>('/runs', { method: 'POST', body: JSON.stringify({ token: session.token, player, replay }) });
+  }
+
+  async getTop(game: ReplayGame, mode: string, period: LeaderboardPeriod, limit = 10) {
+    const query = new URLSearchParams({ game, mode, period, limit: String(limit) });
+    return (await this.call<{ entries: LeaderboardEntry[] }>(`/leaderboard?${query}`)).entries;
+  }
+}
+
+let service: LeaderboardService | null | undefined;
+
+/** The configured leaderboard (LEADERBOARD_URL), or null when the game runs offline. */
+export const getLeaderboardService = (): LeaderboardService | null => {
+  if (service === undefined) {
+    const url = process.env.LEADERBOARD_URL;
+    service = url ? new RestLeaderboardService(url) : null;
+  }
+  return service;
+};
@@ -0,0 +1,261 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AiResponse, DebugInfo, StrategicHint, TokenUsage } from "../types";
+import { AdviceOptions, AiAdvisor, SenseiContext, StrategyContext } from "./aiAdvisor";
+import { AiError, parseJson, validateSenseiHint, validateStrategyHint } from "./hintValidation";
+import { DEFAULT_LOCALE, Locale, MessageKey, translate } from "./i18n";
+
+/** Which reply shape a completion is asked for; backends with structured output can enforce it. */
+export type HintKind = 'sensei' | 'strategy';
+
+export interface CompletionRequest {
+  kind: HintKind;
+  prompt: string;
+  /** JPEG snapshot, base64 without the data-URL prefix. */
+  imageBase64: string;
+  temperature: number;
+  /** Aborted on timeout or cancellation; backends should stop the request when it fires. */
+  signal: AbortSignal;
+}
+
+export interface Completion {
+  text: string;
+  /** Omitted by backends that do not report token counts. */
+  usage?: TokenUsage;
+}
+
+export interface RetryPolicy {
+  /** Deadline per attempt; the PRD asks for hints in under 1.5 s. */
+  timeoutMs: number;
+  maxAttempts: number;
+  /** Wait before the first retry, doubled for each further one. */
+  backoffMs: number;
+}
+
+// Timeouts are not retried: a hint that is already late is worth less than none
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { timeoutMs: 1500, maxAttempts: 2, backoffMs: 200 };
+
+const FRUIT_POSITION: Record<Locale, { at: string, none: string }> = {
+  id: { at: "di ketinggian", none: "Tidak ada buah di layar." },
+  ms: { at: "pada ketinggian", none: "Tiada buah di skrin." },
+  en: { at: "at height", none: "No fruit on screen." }
+};
+
+const SENSEI_PROMPTS: Record<Locale, (score: number, fruitContext: string) => string> = {
+  id: (score, fruitContext) => `
+    Kamu adalah Sensei Abang Colex, ahli potong buah jalanan legendaris.
+    Analisis tangkapan layar game ini:
+    - Skor: ${score}
+    - Buah Aktif: ${fruitContext}
+
+    DAFTAR BUAH & NILAI:
+    - Jambu Biji (Guava): 10 pts
+    - Mangga Hijau (Mango): 20 pts
+    - Nanas Madu (Pineapple): 50 pts
+    - Mangga Masak (Sweet Mango): 150 pts
+
+    TUGAS:
+    Berikan saran taktis dengan gaya bicara "Abang Jago" yang asik tapi bijak.
+    Jika ada Mangga Masak atau Nanas, suruh pemain fokus!
+    Ingatkan mereka untuk HATI-HATI terhadap Botol Sambal Pedas!
+    Gunakan istilah lokal Indonesia yang keren.
+
+    OUTPUT FORMAT (RAW JSON only):
+    {
+      "message": "Instruksi Sensei (contoh: 'Waduh, itu Mangga Masak lewat, sikat Bang!')",
+      "rationale": "Penjelasan singkat taktik.",
+      "priorityFruit": "mango|guava|pineapple|sweet_mango",
+      "techniqueTip": "Tips gerakan tangan (contoh: 'Potong horizontal biar kena semua')"
+    }
+  `,
+  ms: (score, fruitContext) => `
+    Kamu ialah Sensei Abang Colex, pakar potong buah jalanan yang legenda.
+    Analisis tangkapan skrin permainan ini:
+    - Mata: ${score}
+    - Buah Aktif: ${fruitContext}
+
+    SENARAI BUAH & NILAI:
+    - Jambu Batu (Guava): 10 mata
+    - Mangga Muda (Mango): 20 mata
+    - Nanas Madu (Pineapple): 50 mata
+    - Mangga Masak (Sweet Mango): 150 mata
+
+    TUGAS:
+    Beri nasihat taktikal dengan gaya "Abang Jago" yang santai tapi bijak, dalam Bahasa Melayu (Malaysia).
+    Kalau ada Mangga Masak atau Nanas, suruh pemain fokus!
+    Ingatkan mereka supaya BERHATI-HATI dengan Botol Sambal Pedas!
+    Guna slanga tempatan Malaysia yang sempoi.
+
+    OUTPUT FORMAT (RAW JSON only):
+    {
+      "message": "Arahan Sensei (contoh: 'Alamak, Mangga Masak lalu tu, sapu bang!')",
+      "rationale": "Penerangan ringkas taktik.",
+      "priorityFruit": "mango|guava|pineapple|sweet_mango",
+      "techniqueTip": "Tip gerakan tangan (contoh: 'Potong melintang supaya kena semua')"
+    }
+  `,
+  en: (score, fruitContext) => `
+    You are Sensei Abang Colex, a legendary street-stall fruit slicer.
+    Analyze this game screenshot:
+    - Score: ${score}
+    - Active Fruits: ${fruitContext}
+
+    FRUITS & VALUES:
+    - Guava: 10 pts
+    - Green Mango (Mango): 20 pts
+    - Honey Pineapple (Pineapple): 50 pts
+    - Ripe Mango (Sweet Mango): 150 pts
+
+    TASK:
+    Give tactical advice in English as a cool but wise street-food master.
+    If there is a Ripe Mango or a Pineapple, tell the player to focus!
+    Warn them to WATCH OUT for the Spicy Sambal Bottle!
+    A friendly "Bang" now and then is fine, but keep it readable for English speakers.
+
+    OUTPUT FORMAT (RAW JSON only):
+    {
+      "message": "Sensei's instruction (e.g. 'Whoa, a Ripe Mango, slice it, Bang!')",
+      "rationale": "Short explanation of the tactic.",
+      "priorityFruit": "mango|guava|pineapple|sweet_mango",
+      "techniqueTip": "Hand movement tip (e.g. 'Slice horizontally to catch them all')"
+    }
+  `
+};
+
+// The strategy prompt stays in English for the model; only the voice of the reply changes
+const STRATEGY_VOICES: Record<Locale, string> = {
+  id: "Use Indonesian street slang.",
+  ms: "Reply in Bahasa Melayu (Malaysia) with Malaysian street slang.",
+  en: "Reply in English, casual and upbeat."
+};
+
+export const buildSenseiPrompt = ({ activeFruits, score, locale = DEFAULT_LOCALE }: SenseiContext) => {
+  const position = FRUIT_POSITION[locale];
+  const fruitContext = activeFruits.length > 0
+    ? activeFruits.map(f => `${f.type} ${position.at} ${Math.round(f.y)}`).join(", ")
+    : position.none;
+  return SENSEI_PROMPTS[locale](score, fruitContext);
+};
+
+export const buildStrategyPrompt = ({ clusters, locale = DEFAULT_LOCALE }: StrategyContext) => {
+  const clusterContext = clusters.length > 0
+    ? clusters.map(c => `Cluster: ${c.color} (size ${c.size}) at Row ${c.row}, Col ${c.col} [${c.description}]`).join("; ")
+    : "No clear targets reachable.";
+
+  return `
+    You are the Abang Tactical AI for a Slingshot game.
+    Analyze the state:
+    - Reachable Clusters: ${clusterContext}
+
+    Recommend the best target to clear bubbles.
+    ${STRATEGY_VOICES[locale]}
+
+    OUTPUT FORMAT (RAW JSON only):
+    {
+      "message": "Strategic advice",
+      "rationale": "Why this target",
+      "targetRow": number,
+      "targetCol": number,
+      "recommendedColor": "red|blue|green|yellow|purple|orange"
+    }
+  `;
+};
+
+const FALLBACKS: Record<HintKind, { missingConfig: MessageKey, badResponse: MessageKey, failed: MessageKey }> = {
+  sensei: { missingConfig: 'ai.sensei.missingConfig', badResponse: 'ai.sensei.badResponse', failed: 'ai.sensei.failed' },
+  strategy: { missingConfig: 'ai.strategy.missingConfig', badResponse: 'ai.strategy.badResponse', failed: 'ai.strategy.failed' }
+};
+
+const VALIDATORS: Record<HintKind, (value: unknown) => StrategicHint> = { sensei: validateSenseiHint, strategy: validateStrategyHint };
+
+/** Checks a reply against the hint shape for `kind`, throwing `invalid_response` when it does not fit. */
+export const validateHint = (kind: HintKind, value: unknown) => VALIDATORS[kind](value);
+
+/** The canned hint for a failed request, with the failure recorded in `debug.error`. */
+export const failedResponse = (kind: HintKind, debug: DebugInfo, error: AiError, locale: Locale = DEFAULT_LOCALE): AiResponse => {
+  const fallback = FALLBACKS[kind];
+  const message = translate(locale, error.code === 'bad_json' || error.code === 'invalid_response' ? fallback.badResponse : fallback.failed);
+  return { hint: { message }, debug: { ...debug, error: { code: error.code, message: error.message } } };
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) { reject(new AiError('aborted', 'Request cancelled')); return; }
+  const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+  const onAbort = () => { clearTimeout(timer); reject(new AiError('aborted', 'Request cancelled')); };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Shared plumbing for advisors backed by a vision language model: prompt
+ * building, validation, timeouts, retries and debug capture. Subclasses only
+ * send a completion request and return the raw reply text, plus token usage
+ * when the backend reports it, throwing an `AiError` (or anything else,
+ * treated as a network failure) when it fails.
+ */
+export abstract class LlmAdvisor implements AiAdvisor {
+  abstract readonly name: string;
+
+  constructor(protected policy: RetryPolicy = DEFAULT_RETRY_POLICY) {}
+
+  /** Why the backend cannot be called (e.g. a missing key), or null when it is ready. */
+  protected abstract get configError(): string | null;
+
+  protected abstract complete(request: CompletionRequest): Promise<Completion>;
+
+  getSenseiAdvice(context: SenseiContext, options?: AdviceOptions) {
+    return this.advise('sensei', buildSenseiPrompt(context), context, 0.7, options?.signal);
+  }
+
+  getStrategicHint(context: StrategyContext, options?: AdviceOptions) {
+    return this.advise('strategy', buildStrategyPrompt(context), context, 0.2, options?.signal);
+  }
+
+  private async advise(kind: HintKind, prompt: string, { imageBase64, locale }: SenseiContext | StrategyContext, temperature: number, signal?: AbortSignal): Promise<AiResponse> {
+    const startTime = performance.now();
+    const debug: DebugInfo = { latency: 0, screenshotBase64: imageBase64, promptContext: prompt, rawResponse: "", attempts: 0, timestamp: new Date().toLocaleTimeString() };
+    if (this.configError) return { hint: { message: translate(locale ?? DEFAULT_LOCALE, FALLBACKS[kind].missingConfig) }, debug: { ...debug, error: { code: 'missing_config', message: this.configError } } };
+
+    const cleanBase64 = imageBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, "");
+    for (;;) {
+      debug.attempts!++;
+      try {
+        const { text, usage } = await this.attempt({ kind, prompt, imageBase64: cleanBase64, temperature }, signal);
+        if (usage) debug.usage = { promptTokens: (debug.usage?.promptTokens ?? 0) + usage.promptTokens, completionTokens: (debug.usage?.completionTokens ?? 0) + usage.completionTokens };
+        debug.rawResponse = text;
+        const json = parseJson(text);
+        debug.parsedResponse = json;
+        const hint = validateHint(kind, json);
+        debug.latency = Math.round(performance.now() - startTime);
+        return { hint, debug };
+      } catch (e) {
+        const error = e instanceof AiError ? e : new AiError('network', (e as Error)?.message || String(e));
+        if (error.retriable && debug.attempts! < this.policy.maxAttempts) {
+          try { await sleep(this.policy.backoffMs * 2 ** (debug.attempts! - 1), signal); continue; } catch (aborted: any) { return this.failed(kind, debug, startTime, aborted, locale); }
+        }
+        return this.failed(kind, debug, startTime, error, locale);
+      }
+    }
+  }
+
+  /** One completion under the per-attempt deadline, cancelled early if `signal` fires. */
+  private attempt(request: Omit<CompletionRequest, 'signal'>, signal?: AbortSignal): Promise<Completion> {
+    if (signal?.aborted) return Promise.reject(new AiError('aborted', 'Request cancelled'));
+    const controller = new AbortController();
+    return new Promise<Completion>((resolve, reject) => {
+      const timer = setTimeout(() => { reject(new AiError('timeout', `No reply within ${this.policy.timeoutMs} ms`)); controller.abort(); }, this.policy.timeoutMs);
+      const onAbort = () => { reject(new AiError('aborted', 'Request cancelled')); controller.abort(); };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      // Settling twice is harmless: whichever of reply, timeout or abort comes first wins
+      this.complete({ ...request, signal: controller.signal })
+        .then(completion => resolve({ ...completion, text: completion.text || "{}" }), reject)
+        .finally(() => { clearTimeout(timer); signal?.removeEventListener('abort', onAbort); });
+    });
+  }
+
+  private failed(kind: HintKind, debug: DebugInfo, startTime: number, error: AiError, locale?: Locale): AiResponse {
+    return failedResponse(kind, { ...debug, latency: Math.round(performance.now() - startTime) }, error, locale);
+  }
+}
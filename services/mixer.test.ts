@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MIXER, loadMixer, panFor, saveMixer, VoicePool } from './mixer';
+import { MemoryStorage } from './storageService';
+
+describe('mixer settings', () => {
+  it('remembers mute and the bus volumes, filling in and clamping what is missing or off', () => {
+    const storage = new MemoryStorage();
+    expect(loadMixer(storage)).toEqual(DEFAULT_MIXER);
+
+    saveMixer(storage, { muted: true, volumes: { ...DEFAULT_MIXER.volumes, sfx: 0.4 } });
+    expect(loadMixer(storage)).toEqual({ muted: true, volumes: { master: 1, sfx: 0.4, music: 1, voice: 1 } });
+
+    storage.setItem('abang-mixer', JSON.stringify({ volumes: { music: 3, voice: 'loud' } }));
+    expect(loadMixer(storage).volumes).toEqual({ master: 1, sfx: 1, music: 1, voice: 1 });
+    storage.setItem('abang-mixer', '{not json');
+    expect(loadMixer(storage)).toEqual(DEFAULT_MIXER);
+  });
+
+  it('pans across the screen without going hard left or right', () => {
+    expect(panFor(0.5)).toBe(0);
+    expect(panFor(0)).toBeCloseTo(-0.8);
+    expect(panFor(1)).toBeCloseTo(0.8);
+    expect(panFor(-2)).toBe(panFor(0));
+  });
+});
+
+describe('VoicePool', () => {
+  it('steals the oldest voices over the limit and frees the ones that ended', () => {
+    const pool = new VoicePool<string>(2);
+    expect(pool.add('a', 0, 1)).toEqual([]);
+    expect(pool.add('b', 0.1, 0.3)).toEqual([]);
+    expect(pool.add('c', 0.2, 1)).toEqual(['a']);
+    // b has ended by now, so d fits without stealing
+    expect(pool.add('d', 0.5, 1)).toEqual([]);
+    expect(pool.active(0.5)).toBe(2);
+    expect(pool.active(2)).toBe(0);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { KeyValueStorage } from "./storageService";
+
+/**
+ * The mixer's settings and bookkeeping, kept apart from `soundService.ts` so
+ * they can be tested without audio: the per-bus volumes the player picks, where
+ * a sound sits in the stereo field, and the pool that caps overlapping effects.
+ */
+
+/** `master` scales everything; the effects, the music and the spoken hints each have their own bus under it. */
+export type MixerBus = 'master' | 'sfx' | 'music' | 'voice';
+
+export interface MixerSettings {
+  muted: boolean;
+  /** 0 to 1 per bus. */
+  volumes: Record<MixerBus, number>;
+}
+
+export const DEFAULT_MIXER: MixerSettings = { muted: false, volumes: { master: 1, sfx: 1, music: 1, voice: 1 } };
+
+const STORAGE_KEY = 'abang-mixer';
+
+/** How far a sound at the edge of the screen leans; never all the way, so it still reaches both ears. */
+const MAX_PAN = 0.8;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export const loadMixer = (storage: KeyValueStorage | null): MixerSettings => {
+  try {
+    const saved = JSON.parse(storage?.getItem(STORAGE_KEY) || '{}');
+    const volumes = { ...DEFAULT_MIXER.volumes };
+    (Object.keys(volumes) as MixerBus[]).forEach(bus => {
+      if (typeof saved.volumes?.[bus] === 'number') volumes[bus] = clamp01(saved.volumes[bus]);
+    });
+    return { muted: saved.muted === true, volumes };
+  } catch (e) { return { ...DEFAULT_MIXER, volumes: { ...DEFAULT_MIXER.volumes } }; }
+};
+
+export const saveMixer = (storage: KeyValueStorage | null, settings: MixerSettings) => {
+  try { storage?.setItem(STORAGE_KEY, JSON.stringify(settings)); } catch (e) { /* storage unavailable */ }
+};
+
+/** Stereo position, -1 to 1, for a sound at `x` across the screen from 0 to 1. */
+export const panFor = (x: number) => (clamp01(x) * 2 - 1) * MAX_PAN;
+
+/**
+ * Caps how many effects play at once. Each voice is held until it ends; when
+ * a new one would go over the limit, the oldest still playing are stolen so the
+ * newest hit is always heard.
+ */
+export class VoicePool<T> {
+  private voices: { voice: T; endsAt: number }[] = [];
+
+  constructor(readonly limit: number) {}
+
+  /** Holds `voice` until `endsAt` and returns the voices to cut off, oldest first. */
+  add(voice: T, now: number, endsAt: number): T[] {
+    this.voices = this.voices.filter(v => v.endsAt > now);
+    const stolen = this.voices.splice(0, Math.max(0, this.voices.length + 1 - this.limit)).map(v => v.voice);
+    this.voices.push({ voice, endsAt });
+    return stolen;
+  }
+
+  /** Voices still playing at `now`. */
+  active(now: number): number {
+    return this.voices.filter(v => v.endsAt > now).length;
+  }
+}
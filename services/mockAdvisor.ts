@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AiFixture, FixtureBook, isAiFixtureFile } from "./aiFixtures";
+import { AiError } from "./hintValidation";
+import { CompletionRequest, LlmAdvisor, RetryPolicy } from "./llmAdvisor";
+
+/** Fetches a fixture file; a missing or malformed one falls back to canned replies with a warning. */
+export const loadFixtureBook = async (url: string, fetchImpl: typeof fetch = (...args) => fetch(...args)): Promise<FixtureBook> => {
+  try {
+    const res = await fetchImpl(url);
+    if (!res.ok) throw new Error(`${url} answered ${res.status}`);
+    const file = await res.json();
+    if (!isAiFixtureFile(file)) throw new Error(`${url} is not an AI fixture file`);
+    return new FixtureBook(file.fixtures);
+  } catch (e) {
+    console.warn('Could not load AI fixtures, using canned replies', e);
+    return new FixtureBook();
+  }
+};
+
+const delay = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => { clearTimeout(timer); reject(new AiError('aborted', 'Request cancelled')); }, { once: true });
+});
+
+/**
+ * In-process stand-in for a model: answers from recorded or scripted fixtures
+ * (`AI_FIXTURES`), or with canned replies built from the prompt. Goes through
+ * the same prompts, validation, retries and timeouts as the real advisors, so
+ * hint flows can be exercised offline and deterministically.
+ */
+export class MockAdvisor extends LlmAdvisor {
+  readonly name = 'mock';
+  private book: Promise<FixtureBook>;
+
+  constructor(fixtures: AiFixture[] | string = [], policy?: RetryPolicy, fetchImpl?: typeof fetch) {
+    super(policy);
+    this.book = typeof fixtures === 'string' ? loadFixtureBook(fixtures, fetchImpl) : Promise.resolve(new FixtureBook(fixtures));
+  }
+
+  protected get configError() { return null; }
+
+  protected async complete({ kind, prompt, signal }: CompletionRequest) {
+    const fixture = (await this.book).answer(kind, prompt);
+    if (fixture.delayMs) await delay(fixture.delayMs, signal);
+    if (fixture.status) throw new AiError('http', `Scripted ${fixture.status}`, fixture.status);
+    return { text: fixture.response };
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { layerCount, melodyForBar, musicIntensity, PHRASE_BARS, STEPS_PER_BAR, stepNotes, tempoFor } from './music';
+
+const bar = (track: 'menu' | 'game', index: number, layers?: number) =>
+  Array.from({ length: STEPS_PER_BAR }, (_, step) => stepNotes(track, index, step, layers)).flat();
+
+describe('musicIntensity', () => {
+  it('rises with the level, a combo and the last stretch of a round', () => {
+    const calm = musicIntensity({ level: 1 });
+    expect(calm).toBe(0);
+    expect(musicIntensity({ level: 5 })).toBeGreaterThan(calm);
+    expect(musicIntensity({ level: 1, combo: 4 })).toBeGreaterThan(calm);
+    expect(musicIntensity({ level: 1, remaining: 0.1 })).toBeGreaterThan(musicIntensity({ level: 1, remaining: 0.5 }));
+    expect(musicIntensity({ level: 30, combo: 50, remaining: 0 })).toBe(1);
+  });
+
+  it('sets the game track tempo and layers, and leaves the menu alone', () => {
+    expect(tempoFor('game', 0)).toBeLessThan(tempoFor('game', 1));
+    expect(tempoFor('menu', 0)).toBe(tempoFor('menu', 1));
+    expect(layerCount(0)).toBe(2);
+    expect(layerCount(1)).toBe(6);
+  });
+});
+
+describe('stepNotes', () => {
+  it('adds voices layer by layer', () => {
+    const voices = (layers: number) => new Set(bar('game', 0, layers).map(n => n.voice));
+    expect([...voices(2)].sort()).toEqual(['bass', 'dhut', 'tak']);
+    expect(voices(6).has('suling')).toBe(true);
+    expect(voices(6).has('ket')).toBe(true);
+    expect(new Set(bar('menu', 0).map(n => n.voice)).has('tak')).toBe(false);
+  });
+
+  it('repeats its melody every phrase and keeps it in the scale', () => {
+    expect(melodyForBar('game', 3)).toEqual(melodyForBar('game', 3 + PHRASE_BARS));
+    expect(melodyForBar('game', 1)).not.toEqual(melodyForBar('game', 5));
+    const pitchClasses = new Set([9, 11, 0, 2, 4, 5, 8]);
+    for (let i = 0; i < PHRASE_BARS; i++) {
+      melodyForBar('game', i).forEach(note => { if (note !== null) expect(pitchClasses.has(note % 12)).toBe(true); });
+    }
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createRng } from "../engine/random";
+
+/**
+ * The score for the background music, generated from code: a koplo-style
+ * kendang groove over an i-iv-V-i progression in A harmonic minor, with bass,
+ * organ stabs, tambourine and a suling (bamboo flute) line. `soundService.ts`
+ * plays it; everything here is pure so it can be tested without audio.
+ */
+
+export type MusicTrack = 'menu' | 'game';
+export type MusicVoice = 'dhut' | 'tak' | 'ket' | 'bass' | 'chord' | 'tambourine' | 'suling';
+
+export interface MusicNote {
+  voice: MusicVoice;
+  /** MIDI note numbers; empty for the drums, which have fixed pitches. */
+  midi: number[];
+  /** Length in sixteenth-note steps. */
+  steps: number;
+  /** 0-1. */
+  velocity: number;
+}
+
+export const STEPS_PER_BAR = 16;
+/** The melody repeats after this many bars, so the loop sounds composed rather than random. */
+export const PHRASE_BARS = 8;
+
+// A minor, D minor, E major, A minor
+const PROGRESSION = [
+  { root: 45, chord: [57, 60, 64] },
+  { root: 50, chord: [57, 62, 65] },
+  { root: 40, chord: [56, 59, 64] },
+  { root: 45, chord: [57, 60, 64] }
+];
+
+// A harmonic minor from A4; the raised G# gives dangdut its colour
+const SULING_SCALE = [69, 71, 72, 74, 76, 77, 80, 81, 83, 84];
+
+/** Layers in the order they come in as the game heats up; each adds its voices to the ones before. */
+const LAYERS: MusicVoice[][] = [['dhut', 'tak'], ['bass'], ['chord'], ['tambourine'], ['suling'], ['ket']];
+/** The menu idles on the low drum, bass, organ and a sparse flute. */
+const MENU_VOICES: MusicVoice[] = ['dhut', 'bass', 'chord', 'suling'];
+
+// Koplo groove on sixteenths: the low "dhut" pushes ahead of the beat, the "tak" slaps on the backbeat
+const DHUT_STEPS = [0, 3, 7, 10];
+const TAK_STEPS = [4, 12, 15];
+const KET_STEPS = [2, 6, 9, 11, 13, 14];
+const BASS_STEPS = [0, 3, 6, 8, 11, 14];
+const CHORD_STEPS = [2, 6, 10, 14];
+const TAMBOURINE_STEPS = [1, 3, 5, 7, 9, 11, 13, 15];
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export interface IntensityInputs {
+  level: number;
+  /** Hits in a row. */
+  combo?: number;
+  /** Share of the round still left, 0-1: time for the Slicer, room above the line or shots for the Slingshot. */
+  remaining?: number;
+}
+
+/** How hard the game music should push, 0-1. Levels build it up slowly, combos and the last stretch of a round quickly. */
+export const musicIntensity = ({ level, combo = 0, remaining = 1 }: IntensityInputs) =>
+  clamp01(Math.min(Math.max(level - 1, 0), 6) * 0.08 + Math.min(combo, 5) * 0.06 + Math.max(0, 0.3 - remaining) * 1.2);
+
+/** Beats per minute. The menu idles; the game runs from a relaxed koplo to a frantic one. */
+export const tempoFor = (track: MusicTrack, intensity: number) =>
+  track === 'menu' ? 96 : Math.round(118 + 40 * clamp01(intensity));
+
+/** How many of the game track's layers play; two at rest, all of them flat out. */
+export const layerCount = (intensity: number) => 2 + Math.round(clamp01(intensity) * (LAYERS.length - 2));
+
+/** One bar of suling melody as eighth notes, null for rests; seeded by the bar's place in the phrase. */
+export const melodyForBar = (track: MusicTrack, bar: number): (number | null)[] => {
+  const place = bar % PHRASE_BARS;
+  // The second half of the phrase answers the first with the same rhythm and a varied line
+  const rng = createRng(0xd4d7 + (place % 4) * 31 + (track === 'menu' ? 7 : 0));
+  const vary = place >= 4 ? createRng(0x51a9 + place) : null;
+  const { root } = PROGRESSION[place % PROGRESSION.length];
+  const rootNote = SULING_SCALE.find(n => (n - root) % 12 === 0) ?? SULING_SCALE[0];
+  const restChance = track === 'menu' ? 0.5 : 0.3;
+  let index = SULING_SCALE.indexOf(rootNote);
+  const notes: (number | null)[] = [];
+  for (let i = 0; i < STEPS_PER_BAR / 2; i++) {
+    const rest = rng.next() < restChance;
+    const move = rng.pick([-2, -1, -1, 0, 1, 1, 2]) + (vary ? vary.pick([-1, 0, 1]) : 0);
+    index = Math.min(SULING_SCALE.length - 1, Math.max(0, index + move));
+    notes.push(rest && i > 0 ? null : SULING_SCALE[index]);
+  }
+  // Every other bar ends on the chord's root so phrases resolve
+  if (place % 2 === 1) notes[notes.length - 1] = rootNote;
+  return notes;
+};
+
+/** The notes starting on `step` of `bar`; the game track plays its first `layers` layers. */
+export const stepNotes = (track: MusicTrack, bar: number, step: number, layers = LAYERS.length): MusicNote[] => {
+  const voices = new Set(track === 'menu' ? MENU_VOICES : LAYERS.slice(0, layers).flat());
+  const { root, chord } = PROGRESSION[bar % PROGRESSION.length];
+  const soft = track === 'menu' ? 0.6 : 1;
+  const notes: MusicNote[] = [];
+  if (voices.has('dhut') && DHUT_STEPS.includes(step)) notes.push({ voice: 'dhut', midi: [], steps: 2, velocity: (step === 0 ? 1 : 0.75) * soft });
+  if (voices.has('tak') && TAK_STEPS.includes(step)) notes.push({ voice: 'tak', midi: [], steps: 1, velocity: step === 15 ? 0.5 : 0.9 });
+  if (voices.has('ket') && KET_STEPS.includes(step)) notes.push({ voice: 'ket', midi: [], steps: 1, velocity: 0.45 });
+  if (voices.has('bass') && BASS_STEPS.includes(step)) {
+    // Root on the beats, the fifth and octave in between
+    const interval = step === 0 || step === 8 ? 0 : step === 6 || step === 14 ? 12 : 7;
+    notes.push({ voice: 'bass', midi: [root + interval], steps: 2, velocity: 0.8 * soft });
+  }
+  if (voices.has('chord') && CHORD_STEPS.includes(step)) notes.push({ voice: 'chord', midi: chord, steps: 1, velocity: 0.5 * soft });
+  if (voices.has('tambourine') && TAMBOURINE_STEPS.includes(step)) notes.push({ voice: 'tambourine', midi: [], steps: 1, velocity: step % 4 === 3 ? 0.6 : 0.35 });
+  if (voices.has('suling') && step % 2 === 0) {
+    const melody = melodyForBar(track, bar);
+    const note = melody[step / 2];
+    if (note !== null) {
+      // Held through any rests that follow
+      let length = 2;
+      for (let i = step / 2 + 1; i < melody.length && melody[i] === null; i++) length += 2;
+      notes.push({ voice: 'suling', midi: [note], steps: length, velocity: 0.55 * soft });
+    }
+  }
+  return notes;
+};
+
+export const midiToFrequency = (midi: number) => 440 * Math.pow(2, (midi - 69) / 12);
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AiError } from "./hintValidation";
+import { CompletionRequest, LlmAdvisor, RetryPolicy } from "./llmAdvisor";
+
+const DEFAULT_BASE_URL = "http://localhost:8080/v1";
+const DEFAULT_MODEL = "local-model";
+
+/**
+ * Hints from any server speaking the OpenAI chat-completions API: OpenAI
+ * itself, or a local llama.cpp / Ollama / LM Studio server running a vision model.
+ */
+export class OpenAiCompatibleAdvisor extends LlmAdvisor {
+  readonly name = 'openai';
+  private baseUrl: string;
+
+  constructor(baseUrl = DEFAULT_BASE_URL, private model = DEFAULT_MODEL, private apiKey?: string, private fetchImpl: typeof fetch = (...args) => fetch(...args), policy?: RetryPolicy) {
+    super(policy);
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  // Local servers usually need no key, so there is nothing to check up front
+  protected get configError() { return null; }
+
+  protected async complete({ prompt, imageBase64, temperature, signal }: CompletionRequest) {
+    const res = await this.fetchImpl(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }) },
+      body: JSON.stringify({
+        model: this.model,
+        temperature,
+        response_format: { type: "json_object" },
+        messages: [{ role: "user", content: [{ type: "text", text: prompt }, { type: "image_url", image_url: { url: `data:image/jpeg;base64,${imageBase64}` } }] }]
+      }),
+      signal
+    });
+    if (!res.ok) throw new AiError('http', `${this.baseUrl} answered ${res.status}`, res.status);
+    const body = await res.json().catch(() => { throw new AiError('bad_json', 'Completion envelope is not JSON'); });
+    const content = body.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') throw new AiError('invalid_response', 'Completion has no message content');
+    const usage = body.usage && { promptTokens: body.usage.prompt_tokens ?? 0, completionTokens: body.usage.completion_tokens ?? 0 };
+    return { text: content, usage };
+  }
+}
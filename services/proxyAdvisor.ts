@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AiResponse, DebugInfo } from "../types";
+import { AdviceOptions, AiAdvisor, SenseiContext, StrategyContext } from "./aiAdvisor";
+import { AiError } from "./hintValidation";
+import { failedResponse, HintKind, validateHint } from "./llmAdvisor";
+
+// The proxy runs its own timeouts and retries; this only bounds the round trip around them
+const DEFAULT_TIMEOUT_MS = 4000;
+
+/** What the browser posts to the AI proxy (`server/aiProxy.ts`). */
+export type HintRequest =
+  | { kind: 'sensei', context: SenseiContext }
+  | { kind: 'strategy', context: StrategyContext };
+
+/**
+ * Hints from the game's own backend (`api/hint.ts`, or `npm run ai-proxy`
+ * locally), which holds the model key, rate limits clients and validates
+ * the model's reply. The reply is validated again here, since it crossed the
+ * network; a fallback the proxy sent for a failed model call is passed on with
+ * its error.
+ */
+export class ProxyAdvisor implements AiAdvisor {
+  readonly name = 'proxy';
+  private url: string;
+
+  constructor(baseUrl = "/api", private fetchImpl: typeof fetch = (...args) => fetch(...args), private timeoutMs = DEFAULT_TIMEOUT_MS) {
+    this.url = `${baseUrl.replace(/\/+$/, "")}/hint`;
+  }
+
+  getSenseiAdvice(context: SenseiContext, options?: AdviceOptions) {
+    return this.advise({ kind: 'sensei', context }, options?.signal);
+  }
+
+  getStrategicHint(context: StrategyContext, options?: AdviceOptions) {
+    return this.advise({ kind: 'strategy', context }, options?.signal);
+  }
+
+  private async advise(request: HintRequest, signal?: AbortSignal): Promise<AiResponse> {
+    const { kind, context } = request;
+    const startTime = performance.now();
+    const debug: DebugInfo = { latency: 0, screenshotBase64: context.imageBase64, promptContext: "", rawResponse: "", timestamp: new Date().toLocaleTimeString() };
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new AiError('timeout', `No reply from the AI proxy within ${this.timeoutMs} ms`)), this.timeoutMs);
+    const onAbort = () => controller.abort(new AiError('aborted', 'Request cancelled'));
+    if (signal?.aborted) onAbort(); else signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+      const res = await this.fetchImpl(this.url, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(request), signal: controller.signal });
+      const body = await res.json().catch(() => { throw new AiError('bad_json', 'AI proxy reply is not JSON'); });
+      if (!res.ok) throw new AiError('http', body?.error || `${this.url} answered ${res.status}`, res.status);
+      // A failed model call comes back as the proxy's fallback hint, which has only a message
+      const failed = !!body?.debug?.error;
+      if (failed && typeof body.hint?.message !== 'string') throw new AiError('invalid_response', 'AI proxy fallback has no message');
+      const hint = failed ? { message: body.hint.message } : validateHint(kind, body?.hint);
+      // The proxy's debug info carries the prompt, raw reply, attempts and any model error
+      return { hint, debug: { ...debug, ...body.debug, screenshotBase64: context.imageBase64, latency: Math.round(performance.now() - startTime) } };
+    } catch (e) {
+      const reason = controller.signal.reason;
+      const error = reason instanceof AiError ? reason : e instanceof AiError ? e : new AiError('network', (e as Error)?.message || String(e));
+      return failedResponse(kind, { ...debug, latency: Math.round(performance.now() - startTime) }, error, context.locale);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AiResponse, DebugInfo, FruitType, StrategicHint, TargetCandidate } from "../types";
+import { FRUIT_CONFIG } from "../engine/slicerWorld";
+import { AiAdvisor, SenseiContext, StrategyContext } from "./aiAdvisor";
+import { DEFAULT_LOCALE, MessageKey, MessageParams, translate } from "./i18n";
+
+const isFruit = (type: string): type is FruitType => type in FRUIT_CONFIG;
+
+// Cluster descriptions from `BubbleGrid.reachableClusters`
+const SIDES: Record<string, MessageKey> = { Left: 'rules.side.left', Center: 'rules.side.center', Right: 'rules.side.right' };
+
+// A shot into a cluster of two or more completes a match; deeper clusters are closer to the deadline
+const scoreCluster = (c: TargetCandidate, maxRow: number) => (c.size >= 2 ? (c.size + 1) * c.pointsPerBubble : 0) + (maxRow > 0 ? c.row / maxRow : 0) * 50;
+
+/**
+ * Offline advisor: picks hints from the game state alone, with no network or
+ * model. Keeps the Sensei and the tactician working in demos and when no API
+ * is configured. It ignores the screenshot.
+ */
+export class RuleBasedAdvisor implements AiAdvisor {
+  readonly name = 'rules';
+
+  async getSenseiAdvice({ activeFruits, score, locale = DEFAULT_LOCALE }: SenseiContext): Promise<AiResponse> {
+    const t = (key: MessageKey, params?: MessageParams) => translate(locale, key, params);
+    const fruits = activeFruits.filter(f => isFruit(f.type)) as { type: FruitType, y: number }[];
+    const bombs = fruits.filter(f => f.type === 'bomb').length;
+    const best = fruits.filter(f => f.type !== 'bomb').sort((a, b) => FRUIT_CONFIG[b.type].points - FRUIT_CONFIG[a.type].points)[0];
+
+    let hint: StrategicHint;
+    if (!best) {
+      hint = bombs > 0
+        ? { message: t('rules.sensei.onlyBombs'), rationale: t('rules.sensei.onlyBombsWhy'), techniqueTip: t('rules.sensei.onlyBombsTip') }
+        : { message: t('rules.sensei.empty'), rationale: t('rules.sensei.emptyWhy'), techniqueTip: t('rules.sensei.emptyTip') };
+    } else {
+      const fruit = t(`fruit.${best.type}`);
+      const points = FRUIT_CONFIG[best.type].points;
+      hint = {
+        message: t(best.type === 'sweet_mango' || best.type === 'pineapple' ? 'rules.sensei.focus' : 'rules.sensei.slice', { fruit }),
+        rationale: bombs > 0 ? t('rules.sensei.worthBombs', { fruit, points, bombs }) : t('rules.sensei.worth', { fruit, points }),
+        priorityFruit: best.type,
+        techniqueTip: bombs > 0 ? t('rules.sensei.tipBombs') : fruits.length >= 3 ? t('rules.sensei.tipMany') : t('rules.sensei.tipScore', { score })
+      };
+    }
+    return { hint, debug: this.debug({ activeFruits, score, locale }, { fruits: fruits.length, bombs, pick: best?.type ?? null }) };
+  }
+
+  async getStrategicHint({ clusters, maxRow, locale = DEFAULT_LOCALE }: StrategyContext): Promise<AiResponse> {
+    const t = (key: MessageKey, params?: MessageParams) => translate(locale, key, params);
+    const ranked = [...clusters].sort((a, b) => scoreCluster(b, maxRow) - scoreCluster(a, maxRow));
+    const best = ranked[0];
+    let hint: StrategicHint;
+    if (best) {
+      const color = t(`color.${best.color}`);
+      const where = SIDES[best.description] ? t(SIDES[best.description]) : best.description;
+      hint = {
+        message: best.size >= 2 ? t('rules.strategy.combo', { color, where, count: best.size + 1 }) : t('rules.strategy.build', { color, where }),
+        rationale: best.size >= 2 ? t('rules.strategy.comboWhy', { color, size: best.size }) : t('rules.strategy.buildWhy'),
+        targetRow: best.row, targetCol: best.col, recommendedColor: best.color
+      };
+    } else {
+      hint = { message: t('rules.strategy.none'), rationale: t('rules.strategy.noneWhy') };
+    }
+    return { hint, debug: this.debug({ clusters, maxRow, locale }, { clusters: clusters.length, pick: best?.id ?? null }) };
+  }
+
+  // The rules have no prompt; the inputs they decided on stand in for it
+  private debug(inputs: object, decision: object): DebugInfo {
+    return { latency: 0, promptContext: JSON.stringify(inputs), rawResponse: JSON.stringify(decision), timestamp: new Date().toLocaleTimeString() };
+  }
+}
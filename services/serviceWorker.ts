@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Registers `sw.js` (see the file for its caching) and tracks whether a newer
+ * build has installed and is waiting to take over, for the update prompt.
+ */
+
+// New builds are looked for this often while the game stays open
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+let waiting: ServiceWorker | null = null;
+const listeners = new Set<() => void>();
+
+const setWaiting = (worker: ServiceWorker | null) => {
+  waiting = worker;
+  listeners.forEach(listener => listener());
+};
+
+/** Registers the worker once the page has loaded. Does nothing in development, where SW_URL is empty. */
+export const registerServiceWorker = (url = process.env.SW_URL) => {
+  if (!url || typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register(url);
+      // Without a controller this is the first install, and there is nothing older to replace
+      if (registration.waiting && navigator.serviceWorker.controller) setWaiting(registration.waiting);
+      registration.addEventListener('updatefound', () => {
+        const worker = registration.installing;
+        worker?.addEventListener('statechange', () => {
+          if (worker.state === 'installed' && navigator.serviceWorker.controller) setWaiting(worker);
+        });
+      });
+      setInterval(() => registration.update().catch(() => { /* offline */ }), UPDATE_CHECK_MS);
+    } catch (e) {
+      console.warn('Service worker registration failed', e);
+    }
+  });
+};
+
+export const isUpdateWaiting = () => waiting !== null;
+
+export const subscribeUpdate = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/** Lets the waiting build take over, then reloads into it. */
+export const applyUpdate = () => {
+  if (!waiting) return;
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  waiting.postMessage({ type: 'SKIP_WAITING' });
+};
+
+/** Hides the prompt; the new build takes over on the next visit once every tab has closed. */
+export const dismissUpdate = () => setWaiting(null);
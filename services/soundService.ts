@@ -1,58 +1,395 @@
-
 /**
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { loadMixer, MixerBus, MixerSettings, panFor, saveMixer, VoicePool } from "./mixer";
+import { layerCount, midiToFrequency, MusicNote, MusicTrack, STEPS_PER_BAR, stepNotes, tempoFor } from "./music";
+import { pitchRatio, PlayOptions, SOUND_SET, SoundLayer, SoundName, soundLength } from "./soundSets";
+import type { KeyValueStorage } from "./storageService";
+
+/** Master gain at full volume. */
+const BASE_GAIN = 0.5;
+/** Share of the volume the effects keep while a hint is being spoken. */
+const DUCK_LEVEL = 0.3;
+/** Music gain at full music volume, under the effects. */
+const MUSIC_GAIN = 0.35;
+const CROSSFADE_S = 2;
+// Notes are queued this far ahead on the audio clock, by a timer that wakes every SCHEDULER_MS
+const LOOKAHEAD_S = 0.12;
+const SCHEDULER_MS = 25;
+/** Effects that may overlap; a burst of slices steals the oldest rather than stacking up oscillators. */
+const MAX_SFX_VOICES = 12;
+/** Fade for a stolen voice, short enough to make room at once and long enough not to click. */
+const STEAL_S = 0.02;
+
+/** One track's playhead; a track fading out keeps playing until `stopAt`. */
+interface Sequencer {
+  track: MusicTrack;
+  gain: GainNode;
+  bar: number;
+  step: number;
+  nextTime: number;
+  stopAt: number | null;
+}
+
+/** One effect: its sources, so it can be stopped early, and the gain they all feed. */
+interface Voice {
+  output: GainNode;
+  sources: AudioScheduledSourceNode[];
+}
+
+/**
+ * Effects, music and the limiter, all synthesized. Effects go through the SFX
+ * bus and music through the music bus, both into the master gain and then a
+ * limiter so a pile of overlapping hits cannot clip. The spoken hints cannot be
+ * routed through Web Audio, so their bus is a volume the speaker reads. Mute and
+ * every bus volume are remembered between visits.
+ */
 class SoundManager {
   private ctx: AudioContext | null = null;
-  private isMuted: boolean = false;
+  private storage: KeyValueStorage | null;
+  private mixer: MixerSettings;
+  private ducked = false;
   private masterGain: GainNode | null = null;
+  private sfxGain: GainNode | null = null;
+  private musicGain: GainNode | null = null;
+  private voices = new VoicePool<Voice>(MAX_SFX_VOICES);
+  private musicIntensity = 0;
+  private musicTrack: MusicTrack | null = null;
+  private sequencers: Sequencer[] = [];
+  private musicTimer: ReturnType<typeof setInterval> | null = null;
+  private awaitingGesture = false;
+  private noiseBuffer: AudioBuffer | null = null;
 
-  constructor() {
+  constructor(storage: KeyValueStorage | null = typeof localStorage !== 'undefined' ? localStorage : null) {
     // Context is created lazily on user interaction
+    this.storage = storage;
+    this.mixer = loadMixer(storage);
   }
 
   private init() {
     if (!this.ctx) {
       this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      const limiter = this.ctx.createDynamicsCompressor();
+      limiter.threshold.value = -10;
+      limiter.knee.value = 6;
+      limiter.ratio.value = 12;
+      limiter.attack.value = 0.003;
+      limiter.release.value = 0.25;
+      limiter.connect(this.ctx.destination);
       this.masterGain = this.ctx.createGain();
-      this.masterGain.connect(this.ctx.destination);
-      this.masterGain.gain.value = 0.5; // Default volume
+      this.masterGain.connect(limiter);
+      this.masterGain.gain.value = this.targetGain();
+      this.sfxGain = this.ctx.createGain();
+      this.sfxGain.connect(this.masterGain);
+      this.sfxGain.gain.value = this.busGain('sfx');
+      this.musicGain = this.ctx.createGain();
+      this.musicGain.connect(this.masterGain);
+      this.musicGain.gain.value = this.busGain('music');
+      if (this.musicTrack) this.startTrack(this.musicTrack);
     }
     if (this.ctx.state === 'suspended') {
       this.ctx.resume();
     }
   }
 
-  public setMute(mute: boolean) {
-    this.isMuted = mute;
-    if (this.ctx && this.masterGain) {
-      this.masterGain.gain.cancelScheduledValues(this.ctx.currentTime);
-      this.masterGain.gain.setValueAtTime(mute ? 0 : 0.5, this.ctx.currentTime);
+  private targetGain() {
+    return this.mixer.muted ? 0 : BASE_GAIN * this.mixer.volumes.master * (this.ducked ? DUCK_LEVEL : 1);
+  }
+
+  private busGain(bus: 'sfx' | 'music') {
+    return (bus === 'music' ? MUSIC_GAIN : 1) * this.mixer.volumes[bus];
+  }
+
+  /** Glides rather than jumps so ducking and the sliders do not click. */
+  private glide(node: GainNode | null, value: number) {
+    if (this.ctx && node) {
+      node.gain.cancelScheduledValues(this.ctx.currentTime);
+      node.gain.setTargetAtTime(value, this.ctx.currentTime, 0.05);
     }
   }
 
+  private applyGain() {
+    this.glide(this.masterGain, this.targetGain());
+  }
+
+  public setMute(mute: boolean) {
+    this.mixer = { ...this.mixer, muted: mute };
+    saveMixer(this.storage, this.mixer);
+    this.applyGain();
+  }
+
   public toggleMute(): boolean {
-    this.setMute(!this.isMuted);
-    return this.isMuted;
+    this.setMute(!this.mixer.muted);
+    return this.mixer.muted;
   }
 
   public getMuteState(): boolean {
-    return this.isMuted;
+    return this.mixer.muted;
   }
 
-  public playClick() {
-    if (this.isMuted) return;
+  /** Sets one bus from 0 to 1; every bus sits under `master`. */
+  public setBusVolume(bus: MixerBus, volume: number) {
+    this.mixer = { ...this.mixer, volumes: { ...this.mixer.volumes, [bus]: Math.min(1, Math.max(0, volume)) } };
+    saveMixer(this.storage, this.mixer);
+    if (bus === 'master') this.applyGain();
+    else if (bus === 'sfx') this.glide(this.sfxGain, this.busGain('sfx'));
+    else if (bus === 'music') this.glide(this.musicGain, this.busGain('music'));
+  }
+
+  public getBusVolume(bus: MixerBus): number {
+    return this.mixer.volumes[bus];
+  }
+
+  /** How loud spoken hints should be, 0 to 1: the voice bus under the master volume, silent when muted. */
+  public getVoiceVolume(): number {
+    return this.mixer.muted ? 0 : this.mixer.volumes.master * this.mixer.volumes.voice;
+  }
+
+  /**
+   * Crossfades to `track`, or keeps it playing where it is. Browsers only
+   * allow audio after a user gesture, so before the first one the track just
+   * waits for it.
+   */
+  public playMusic(track: MusicTrack) {
+    if (this.musicTrack === track) return;
+    this.musicTrack = track;
+    if (this.ctx) this.startTrack(track);
+    else if (!this.awaitingGesture && typeof window !== 'undefined') {
+      this.awaitingGesture = true;
+      window.addEventListener('pointerdown', () => this.init(), { once: true });
+    }
+  }
+
+  public stopMusic() {
+    this.musicTrack = null;
+    if (this.ctx) this.fadeOutMusic(this.ctx.currentTime);
+  }
+
+  /** 0-1, from `musicIntensity`: the game track's tempo and layer count follow it. */
+  public setMusicIntensity(intensity: number) {
+    this.musicIntensity = Math.min(1, Math.max(0, intensity));
+  }
+
+  private startTrack(track: MusicTrack) {
+    if (!this.ctx || !this.musicGain) return;
+    const t = this.ctx.currentTime;
+    this.fadeOutMusic(t);
+    const gain = this.ctx.createGain();
+    gain.gain.setValueAtTime(0, t);
+    gain.gain.linearRampToValueAtTime(1, t + CROSSFADE_S);
+    gain.connect(this.musicGain);
+    this.sequencers.push({ track, gain, bar: 0, step: 0, nextTime: t + 0.05, stopAt: null });
+    if (!this.musicTimer) this.musicTimer = setInterval(() => this.scheduleMusic(), SCHEDULER_MS);
+  }
+
+  private fadeOutMusic(t: number) {
+    this.sequencers.forEach(seq => {
+      if (seq.stopAt !== null) return;
+      seq.gain.gain.cancelScheduledValues(t);
+      seq.gain.gain.setValueAtTime(seq.gain.gain.value, t);
+      seq.gain.gain.linearRampToValueAtTime(0, t + CROSSFADE_S);
+      seq.stopAt = t + CROSSFADE_S;
+    });
+  }
+
+  private scheduleMusic() {
+    if (!this.ctx) return;
+    const t = this.ctx.currentTime;
+    this.sequencers = this.sequencers.filter(seq => {
+      if (seq.stopAt === null || seq.stopAt > t) return true;
+      seq.gain.disconnect();
+      return false;
+    });
+    if (this.sequencers.length === 0 && this.musicTimer) {
+      clearInterval(this.musicTimer); this.musicTimer = null;
+      return;
+    }
+    for (const seq of this.sequencers) {
+      // Timers stall in background tabs; pick up from now instead of replaying the backlog
+      if (seq.nextTime < t - 0.1) seq.nextTime = t + 0.05;
+      while (seq.nextTime < t + LOOKAHEAD_S) {
+        const stepDuration = 60 / tempoFor(seq.track, this.musicIntensity) / 4;
+        if (!this.mixer.muted) stepNotes(seq.track, seq.bar, seq.step, layerCount(this.musicIntensity)).forEach(note => this.playNote(note, seq.nextTime, stepDuration, seq.gain));
+        seq.nextTime += stepDuration;
+        if (++seq.step === STEPS_PER_BAR) { seq.step = 0; seq.bar++; }
+      }
+    }
+  }
+
+  private noise(): AudioBuffer {
+    if (!this.noiseBuffer) {
+      const ctx = this.ctx!;
+      this.noiseBuffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+      const data = this.noiseBuffer.getChannelData(0);
+      for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    }
+    return this.noiseBuffer;
+  }
+
+  /** A filtered noise hit, for the slaps and jingles. */
+  private hit(t: number, type: BiquadFilterType, frequency: number, length: number, peak: number, out: AudioNode) {
+    const ctx = this.ctx!;
+    const source = ctx.createBufferSource();
+    source.buffer = this.noise();
+    const filter = ctx.createBiquadFilter();
+    filter.type = type; filter.frequency.value = frequency;
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(peak, t);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + length);
+    source.connect(filter); filter.connect(gain); gain.connect(out);
+    source.start(t, Math.random() * 0.5); source.stop(t + length);
+  }
+
+  /** A pitched note through a lowpass, with a short attack and a release at its end. */
+  private tone(t: number, type: OscillatorType, frequency: number, length: number, peak: number, cutoff: number, out: AudioNode) {
+    const ctx = this.ctx!;
+    const osc = ctx.createOscillator();
+    osc.type = type; osc.frequency.value = frequency;
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass'; filter.frequency.value = cutoff;
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0, t);
+    gain.gain.linearRampToValueAtTime(peak, t + 0.01);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + length);
+    osc.connect(filter); filter.connect(gain); gain.connect(out);
+    osc.start(t); osc.stop(t + length);
+    return osc;
+  }
+
+  private playNote({ voice, midi, steps, velocity }: MusicNote, t: number, stepDuration: number, out: AudioNode) {
+    const ctx = this.ctx!;
+    const length = steps * stepDuration;
+    switch (voice) {
+      case 'dhut': {
+        // Kendang's low head: a thump that bends up as the palm lifts
+        const osc = ctx.createOscillator(); const gain = ctx.createGain();
+        osc.frequency.setValueAtTime(80, t);
+        osc.frequency.exponentialRampToValueAtTime(130, t + 0.12);
+        gain.gain.setValueAtTime(0.7 * velocity, t);
+        gain.gain.exponentialRampToValueAtTime(0.001, t + 0.3);
+        osc.connect(gain); gain.connect(out);
+        osc.start(t); osc.stop(t + 0.3);
+        break;
+      }
+      case 'tak':
+        this.hit(t, 'bandpass', 1800, 0.08, 0.5 * velocity, out);
+        this.tone(t, 'triangle', 330, 0.06, 0.3 * velocity, 2000, out);
+        break;
+      case 'ket': this.hit(t, 'bandpass', 3500, 0.04, 0.4 * velocity, out); break;
+      case 'tambourine': this.hit(t, 'highpass', 7000, 0.06, 0.3 * velocity, out); break;
+      case 'bass': this.tone(t, 'triangle', midiToFrequency(midi[0]), length * 0.9, 0.5 * velocity, 600, out); break;
+      case 'chord': midi.forEach(note => this.tone(t, 'square', midiToFrequency(note), 0.12, 0.08 * velocity, 1800, out)); break;
+      case 'suling': {
+        const osc = this.tone(t, 'sine', midiToFrequency(midi[0]), length, 0.25 * velocity, 4000, out);
+        // Breathy vibrato that sets in once the note is held
+        const lfo = ctx.createOscillator(); const depth = ctx.createGain();
+        lfo.frequency.value = 5.5;
+        depth.gain.setValueAtTime(0, t);
+        depth.gain.linearRampToValueAtTime(midiToFrequency(midi[0]) * 0.006, t + Math.min(0.2, length));
+        lfo.connect(depth); depth.connect(osc.frequency);
+        lfo.start(t); lfo.stop(t + length);
+        break;
+      }
+    }
+  }
+
+  /** Lowers the effects while a hint is spoken over them. */
+  public duck(on: boolean) {
+    if (this.ducked === on) return;
+    this.ducked = on;
+    this.applyGain();
+  }
+
+  /**
+   * Opens a voice on the SFX bus for an effect lasting `length` seconds, panned
+   * to `x` (0 to 1 across the screen) when given; null while muted. Going over
+   * the voice limit fades out the oldest effects still playing.
+   */
+  private startVoice(length: number, x?: number): Voice | null {
+    if (this.mixer.muted) return null;
     this.init();
-    if (!this.ctx || !this.masterGain) return;
+    if (!this.ctx || !this.sfxGain) return null;
+
+    const t = this.ctx.currentTime;
+    const output = this.ctx.createGain();
+    if (x === undefined) output.connect(this.sfxGain);
+    else {
+      const panner = this.ctx.createStereoPanner();
+      panner.pan.value = panFor(x);
+      output.connect(panner);
+      panner.connect(this.sfxGain);
+    }
+    const voice: Voice = { output, sources: [] };
+    this.voices.add(voice, t, t + length).forEach(stolen => {
+      stolen.output.gain.setTargetAtTime(0, t, STEAL_S / 4);
+      stolen.sources.forEach(source => source.stop(t + STEAL_S));
+    });
+    return voice;
+  }
+
+  /** Plays a sound from `SOUND_SET`, optionally panned, transposed and scaled. */
+  public play(name: SoundName, { x, pitch = 0, gain = 1 }: PlayOptions = {}) {
+    const sound = SOUND_SET[name];
+    const voice = this.startVoice(soundLength(sound), x);
+    if (!voice || !this.ctx) return;
+    const t = this.ctx.currentTime;
+    const ratio = pitchRatio(pitch);
+    sound.layers.forEach(layer => voice.sources.push(this.playLayer(layer, t + (layer.delay ?? 0), ratio, gain, voice.output)));
+  }
+
+  private playLayer(layer: SoundLayer, t: number, ratio: number, gain: number, out: AudioNode): AudioScheduledSourceNode {
+    const ctx = this.ctx!;
+    const end = t + layer.length;
+    const envelope = ctx.createGain();
+    const attack = layer.attack ?? 0;
+    if (attack > 0) {
+      envelope.gain.setValueAtTime(0, t);
+      envelope.gain.linearRampToValueAtTime(layer.peak * gain, t + attack);
+    } else envelope.gain.setValueAtTime(layer.peak * gain, t);
+    envelope.gain.exponentialRampToValueAtTime(0.001, end);
+    envelope.connect(out);
+
+    const filter = ctx.createBiquadFilter();
+    let source: AudioScheduledSourceNode;
+    if (layer.kind === 'tone') {
+      const osc = ctx.createOscillator();
+      osc.type = layer.wave;
+      osc.frequency.setValueAtTime(layer.from * ratio, t);
+      if (layer.to) osc.frequency.exponentialRampToValueAtTime(layer.to * ratio, end);
+      filter.type = 'lowpass';
+      // Without a cutoff the filter stays wide open
+      filter.frequency.value = layer.cutoff ? layer.cutoff * ratio : ctx.sampleRate / 2;
+      osc.start(t);
+      source = osc;
+    } else {
+      const noise = ctx.createBufferSource();
+      noise.buffer = this.noise();
+      noise.loop = true;
+      filter.type = layer.filter;
+      filter.frequency.setValueAtTime(layer.from * ratio, t);
+      if (layer.to) filter.frequency.exponentialRampToValueAtTime(layer.to * ratio, end);
+      if (layer.q) filter.Q.value = layer.q;
+      // A random offset into the shared noise keeps repeated hits from sounding identical
+      noise.start(t, Math.random() * 0.5);
+      source = noise;
+    }
+    source.connect(filter); filter.connect(envelope);
+    source.stop(end);
+    return source;
+  }
+
+  public playClick() {
+    const voice = this.startVoice(0.1);
+    if (!voice || !this.ctx) return;
     
     const t = this.ctx.currentTime;
     const osc = this.ctx.createOscillator();
     const gain = this.ctx.createGain();
     
     osc.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(voice.output);
     
     osc.type = 'sine';
     osc.frequency.setValueAtTime(800, t);
@@ -63,12 +400,12 @@ class SoundManager {
     
     osc.start();
     osc.stop(t + 0.1);
+    voice.sources.push(osc);
   }
 
   public playSwoosh() {
-    if (this.isMuted) return;
-    this.init();
-    if (!this.ctx || !this.masterGain) return;
+    const voice = this.startVoice(0.2);
+    if (!voice || !this.ctx) return;
 
     const t = this.ctx.currentTime;
     const bufferSize = this.ctx.sampleRate * 0.2;
@@ -94,108 +431,15 @@ class SoundManager {
 
     noise.connect(filter);
     filter.connect(gain);
-    gain.connect(this.masterGain);
-
-    noise.start();
-  }
-
-  public playSlice() {
-    if (this.isMuted) return;
-    this.init();
-    if (!this.ctx || !this.masterGain) return;
-
-    const t = this.ctx.currentTime;
-    
-    // Tone: Sawtooth drop
-    const osc = this.ctx.createOscillator();
-    osc.type = 'sawtooth';
-    osc.frequency.setValueAtTime(600, t);
-    osc.frequency.exponentialRampToValueAtTime(100, t + 0.15);
-    
-    const oscGain = this.ctx.createGain();
-    oscGain.gain.setValueAtTime(0.15, t);
-    oscGain.gain.exponentialRampToValueAtTime(0.01, t + 0.15);
-    
-    osc.connect(oscGain);
-    oscGain.connect(this.masterGain);
-    osc.start();
-    osc.stop(t + 0.15);
-
-    // Noise: Squish
-    const bufferSize = this.ctx.sampleRate * 0.15;
-    const buffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
-    const data = buffer.getChannelData(0);
-    for (let i = 0; i < bufferSize; i++) {
-        data[i] = (Math.random() * 2 - 1);
-    }
-    const noise = this.ctx.createBufferSource();
-    noise.buffer = buffer;
-    
-    const noiseFilter = this.ctx.createBiquadFilter();
-    noiseFilter.type = 'lowpass';
-    noiseFilter.frequency.setValueAtTime(1200, t);
-    noiseFilter.frequency.linearRampToValueAtTime(400, t + 0.15);
-    
-    const noiseGain = this.ctx.createGain();
-    noiseGain.gain.setValueAtTime(0.2, t);
-    noiseGain.gain.exponentialRampToValueAtTime(0.01, t + 0.15);
-    
-    noise.connect(noiseFilter);
-    noiseFilter.connect(noiseGain);
-    noiseGain.connect(this.masterGain);
-    noise.start();
-  }
-
-  public playBombExplosion() {
-    if (this.isMuted) return;
-    this.init();
-    if (!this.ctx || !this.masterGain) return;
-
-    const t = this.ctx.currentTime;
-    
-    // Low rumble
-    const osc = this.ctx.createOscillator();
-    osc.type = 'triangle';
-    osc.frequency.setValueAtTime(100, t);
-    osc.frequency.exponentialRampToValueAtTime(40, t + 0.4);
-    
-    const gain = this.ctx.createGain();
-    gain.gain.setValueAtTime(0.5, t);
-    gain.gain.exponentialRampToValueAtTime(0.01, t + 0.4);
-    
-    osc.connect(gain);
-    gain.connect(this.masterGain);
-    osc.start();
-    osc.stop(t + 0.4);
+    gain.connect(voice.output);
 
-    // White noise explosion
-    const bufferSize = this.ctx.sampleRate * 0.5;
-    const buffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
-    const data = buffer.getChannelData(0);
-    for (let i = 0; i < bufferSize; i++) {
-        data[i] = Math.random() * 2 - 1;
-    }
-    const noise = this.ctx.createBufferSource();
-    noise.buffer = buffer;
-    
-    const noiseFilter = this.ctx.createBiquadFilter();
-    noiseFilter.type = 'lowpass';
-    noiseFilter.frequency.value = 500;
-    
-    const noiseGain = this.ctx.createGain();
-    noiseGain.gain.setValueAtTime(0.4, t);
-    noiseGain.gain.exponentialRampToValueAtTime(0.01, t + 0.5);
-    
-    noise.connect(noiseFilter);
-    noiseFilter.connect(noiseGain);
-    noiseGain.connect(this.masterGain);
     noise.start();
+    voice.sources.push(noise);
   }
 
   public playLevelUp() {
-    if (this.isMuted) return;
-    this.init();
-    if (!this.ctx || !this.masterGain) return;
+    const voice = this.startVoice(0.7);
+    if (!voice || !this.ctx) return;
 
     const t = this.ctx.currentTime;
     
@@ -215,17 +459,17 @@ class SoundManager {
         gain.gain.exponentialRampToValueAtTime(0.01, startTime + 0.4);
         
         osc.connect(gain);
-        gain.connect(this.masterGain!);
+        gain.connect(voice.output);
         
         osc.start(startTime);
         osc.stop(startTime + 0.4);
+        voice.sources.push(osc);
     });
   }
 
   public playGameOver() {
-    if (this.isMuted) return;
-    this.init();
-    if (!this.ctx || !this.masterGain) return;
+    const voice = this.startVoice(1.1);
+    if (!voice || !this.ctx) return;
 
     const t = this.ctx.currentTime;
     
@@ -244,10 +488,11 @@ class SoundManager {
         gain.gain.exponentialRampToValueAtTime(0.01, startTime + 0.3);
         
         osc.connect(gain);
-        gain.connect(this.masterGain!);
+        gain.connect(voice.output);
         
         osc.start(startTime);
         osc.stop(startTime + 0.3);
+        voice.sources.push(osc);
     });
 
     // Final thump
@@ -259,9 +504,10 @@ class SoundManager {
     kickGain.gain.exponentialRampToValueAtTime(0.01, t + 1.1);
     
     kick.connect(kickGain);
-    kickGain.connect(this.masterGain);
+    kickGain.connect(voice.output);
     kick.start(t + 0.6);
     kick.stop(t + 1.1);
+    voice.sources.push(kick);
   }
 }
 
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { FruitType } from '../types';
+import { comboPitch, pitchRatio, sliceSound, SOUND_SET, soundLength } from './soundSets';
+
+describe('SOUND_SET', () => {
+  it('gives every fruit its own slice sound and the sambal bottle its blast', () => {
+    const fruits: FruitType[] = ['mango', 'guava', 'pineapple', 'sweet_mango'];
+    const sounds = fruits.map(type => SOUND_SET[sliceSound(type)]);
+    expect(new Set(sounds.map(sound => JSON.stringify(sound))).size).toBe(fruits.length);
+    expect(sliceSound('bomb')).toBe('bomb');
+  });
+
+  it('defines playable layers: audible, ending after they start, with filters and glides above zero', () => {
+    Object.values(SOUND_SET).forEach(sound => {
+      expect(sound.layers.length).toBeGreaterThan(0);
+      sound.layers.forEach(layer => {
+        expect(layer.peak).toBeGreaterThan(0);
+        expect(layer.length).toBeGreaterThan(layer.attack ?? 0);
+        // Exponential ramps cannot reach or cross zero
+        expect(layer.from).toBeGreaterThan(0);
+        if (layer.to !== undefined) expect(layer.to).toBeGreaterThan(0);
+      });
+    });
+    expect(soundLength(SOUND_SET.clear)).toBeCloseTo(0.92);
+  });
+});
+
+describe('comboPitch', () => {
+  it('climbs a whole tone per hit in a row up to an octave', () => {
+    expect(comboPitch(1)).toBe(0);
+    expect(comboPitch(2)).toBe(2);
+    expect(comboPitch(4)).toBe(6);
+    expect(comboPitch(20)).toBe(12);
+    expect(pitchRatio(12)).toBe(2);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { FruitType } from "../types";
+
+/**
+ * The games' sound effects as data: each is a few synthesized layers that
+ * `soundManager.play(name)` builds on the fly. A new event only needs an entry
+ * in `SOUND_SET`, no new method on the sound engine.
+ */
+
+interface LayerBase {
+  /** Seconds after the sound starts. */
+  delay?: number;
+  /** Seconds from the start of the layer to silence. */
+  length: number;
+  /** Seconds to reach `peak`; 0 starts at full level for a sharp hit. */
+  attack?: number;
+  /** Gain at the top of the envelope. */
+  peak: number;
+}
+
+/** An oscillator gliding from `from` to `to` Hz, optionally through a lowpass at `cutoff`. */
+export interface ToneLayer extends LayerBase {
+  kind: 'tone';
+  wave: OscillatorType;
+  from: number;
+  to?: number;
+  cutoff?: number;
+}
+
+/** White noise through a filter whose frequency glides from `from` to `to` Hz. */
+export interface NoiseLayer extends LayerBase {
+  kind: 'noise';
+  filter: BiquadFilterType;
+  from: number;
+  to?: number;
+  q?: number;
+}
+
+export type SoundLayer = ToneLayer | NoiseLayer;
+
+export interface SoundDef {
+  layers: SoundLayer[];
+}
+
+export interface PlayOptions {
+  /** Position across the screen, 0 at the left edge to 1 at the right; centered when omitted. */
+  x?: number;
+  /** Semitones to shift every tone and filter by. */
+  pitch?: number;
+  /** Scales every layer's peak. */
+  gain?: number;
+}
+
+/** `count` noise hits `every` seconds apart from `start`, for crunches and crackles. */
+const burst = (count: number, every: number, layer: Omit<NoiseLayer, 'kind' | 'delay'>, start = 0): NoiseLayer[] =>
+  Array.from({ length: count }, (_, i) => ({ kind: 'noise', delay: start + i * every, ...layer }));
+
+/** An arpeggio of `notes` Hz, `every` seconds apart. */
+const arpeggio = (notes: number[], every: number, layer: Omit<ToneLayer, 'kind' | 'delay' | 'from'>): ToneLayer[] =>
+  notes.map((from, i) => ({ kind: 'tone', delay: i * every, from, ...layer }));
+
+// Keeps the names as keys while typing every entry as a plain SoundDef
+const defineSounds = <Name extends string>(sounds: Record<Name, SoundDef>) => sounds;
+
+export const SOUND_SET = defineSounds({
+  // Green mango: a firm, tart snap
+  'slice.mango': { layers: [
+    { kind: 'tone', wave: 'sawtooth', from: 600, to: 110, length: 0.15, peak: 0.13, cutoff: 2400 },
+    { kind: 'noise', filter: 'lowpass', from: 1400, to: 400, length: 0.15, peak: 0.2 }
+  ] },
+  // Ripe mango: wet and juicy, with a sweet sparkle on top
+  'slice.sweet_mango': { layers: [
+    { kind: 'tone', wave: 'sine', from: 420, to: 90, length: 0.2, peak: 0.18 },
+    { kind: 'noise', filter: 'lowpass', from: 900, to: 200, length: 0.25, peak: 0.3 },
+    ...arpeggio([1319, 1760], 0.06, { wave: 'triangle', length: 0.18, attack: 0.01, peak: 0.06 })
+  ] },
+  // Guava: grainy, full of seeds
+  'slice.guava': { layers: [
+    { kind: 'tone', wave: 'triangle', from: 700, to: 160, length: 0.12, peak: 0.12 },
+    { kind: 'noise', filter: 'bandpass', from: 2200, to: 900, length: 0.12, peak: 0.22, q: 3 }
+  ] },
+  // Pineapple: a crunch through the rind
+  'slice.pineapple': { layers: [
+    { kind: 'tone', wave: 'square', from: 320, to: 90, length: 0.1, peak: 0.08, cutoff: 1500 },
+    ...burst(4, 0.025, { filter: 'highpass', from: 3000, to: 1800, length: 0.04, peak: 0.25 })
+  ] },
+  // Sliced fruits in a row; played higher the longer the combo
+  'combo': { layers: arpeggio([880, 1175], 0.05, { wave: 'triangle', length: 0.12, attack: 0.005, peak: 0.08 }) },
+  // A bottle of sambal going off: a thump and the sizzle of chili oil
+  'bomb': { layers: [
+    { kind: 'tone', wave: 'triangle', from: 100, to: 40, length: 0.4, peak: 0.5 },
+    { kind: 'noise', filter: 'lowpass', from: 600, to: 300, length: 0.5, peak: 0.4 },
+    { kind: 'noise', filter: 'highpass', from: 5000, to: 8000, delay: 0.05, length: 0.9, attack: 0.05, peak: 0.12 },
+    ...burst(5, 0.11, { filter: 'bandpass', from: 4000, length: 0.03, peak: 0.15, q: 4 }, 0.1)
+  ] },
+  // Slingshot: the rubber creaking as the ball is grabbed
+  'stretch': { layers: [
+    { kind: 'tone', wave: 'sawtooth', from: 90, to: 150, length: 0.3, attack: 0.08, peak: 0.06, cutoff: 700 }
+  ] },
+  // The band twanging back and the ball whooshing off
+  'release': { layers: [
+    { kind: 'tone', wave: 'triangle', from: 240, to: 110, length: 0.2, peak: 0.18 },
+    { kind: 'noise', filter: 'bandpass', from: 700, to: 1800, length: 0.18, attack: 0.03, peak: 0.1, q: 1 }
+  ] },
+  // Off a wall, or landing without a match
+  'bounce': { layers: [
+    { kind: 'tone', wave: 'sine', from: 420, to: 300, length: 0.07, peak: 0.15 }
+  ] },
+  // Bubbles popping; played higher with each pop in a row
+  'pop': { layers: [
+    { kind: 'tone', wave: 'sine', from: 700, to: 1400, length: 0.09, peak: 0.2 },
+    { kind: 'noise', filter: 'highpass', from: 4000, length: 0.03, peak: 0.08 }
+  ] },
+  // Cut-loose bubbles falling away
+  'drop': { layers: [
+    { kind: 'tone', wave: 'sine', from: 900, to: 180, length: 0.45, attack: 0.02, peak: 0.12 },
+    { kind: 'tone', wave: 'sine', from: 1200, to: 240, delay: 0.08, length: 0.4, attack: 0.02, peak: 0.08 }
+  ] },
+  // A cleared board
+  'clear': { layers: [
+    ...arpeggio([523.25, 659.25, 783.99, 1046.5, 1318.5], 0.08, { wave: 'triangle', length: 0.5, attack: 0.02, peak: 0.13 }),
+    { kind: 'noise', filter: 'highpass', from: 7000, delay: 0.32, length: 0.6, attack: 0.1, peak: 0.05 }
+  ] }
+});
+
+export type SoundName = keyof typeof SOUND_SET;
+
+/** Each fruit's own slice sound; cutting the sambal bottle sets it off. */
+export const sliceSound = (type: FruitType): SoundName => type === 'bomb' ? 'bomb' : `slice.${type}`;
+
+/** Semitones up for the `count`th hit in a row: a whole tone per hit from the second, up to an octave. */
+export const comboPitch = (count: number) => Math.min(Math.max(count - 1, 0), 6) * 2;
+
+export const pitchRatio = (semitones: number) => Math.pow(2, semitones / 12);
+
+/** Seconds from the start of a sound to the end of its last layer. */
+export const soundLength = ({ layers }: SoundDef) => Math.max(0, ...layers.map(layer => (layer.delay ?? 0) + layer.length));
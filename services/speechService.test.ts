@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SpeechAudio, SpeechManager, SpeechSynth } from './speechService';
+import { MemoryStorage } from './storageService';
+
+class FakeUtterance {
+  lang = ''; volume = 1; voice: SpeechSynthesisVoice | null = null;
+  onend: (() => void) | null = null; onerror: (() => void) | null = null;
+  constructor(readonly text: string) {}
+}
+
+const voice = (name: string, lang: string) => ({ name, lang, voiceURI: name, localService: true, default: false }) as SpeechSynthesisVoice;
+
+/** A synth that speaks until the test finishes the line. */
+const fakeSynth = (voices: SpeechSynthesisVoice[] = []) => {
+  const spoken: FakeUtterance[] = [];
+  const synth: SpeechSynth = {
+    speak: u => { spoken.push(u as unknown as FakeUtterance); },
+    cancel: vi.fn(),
+    getVoices: () => voices
+  };
+  const finish = () => spoken[spoken.length - 1].onend?.();
+  return { synth, spoken, finish };
+};
+
+const fakeAudio = (muted = false): SpeechAudio & { ducked: boolean } => ({
+  ducked: false,
+  getMuteState: () => muted,
+  getVoiceVolume: () => 0.5,
+  duck(on) { this.ducked = on; }
+});
+
+beforeEach(() => { vi.stubGlobal('SpeechSynthesisUtterance', FakeUtterance); });
+afterEach(() => { vi.unstubAllGlobals(); });
+
+describe('SpeechManager', () => {
+  it('speaks one line at a time and ducks the effects until the queue is empty', () => {
+    const { synth, spoken, finish } = fakeSynth();
+    const audio = fakeAudio();
+    const speech = new SpeechManager({ synth, audio, storage: null });
+
+    speech.say('Potong mangga!', { kind: 'sensei', locale: 'id' });
+    speech.say('Shoot red left', { kind: 'strategy', locale: 'en' });
+    expect(spoken.map(u => u.text)).toEqual(['Potong mangga!']);
+    expect(audio.ducked).toBe(true);
+
+    finish();
+    expect(spoken.map(u => u.text)).toEqual(['Potong mangga!', 'Shoot red left']);
+    expect(spoken[1]).toMatchObject({ lang: 'en-GB', volume: 0.5 });
+    finish();
+    expect(audio.ducked).toBe(false);
+    expect(speech.isSpeaking()).toBe(false);
+  });
+
+  it('replaces a waiting hint with a newer one of the same kind and drops lines that waited too long', () => {
+    const { synth, spoken, finish } = fakeSynth();
+    let now = 0;
+    const speech = new SpeechManager({ synth, audio: fakeAudio(), storage: null, now: () => now });
+
+    speech.say('first', { kind: 'sensei', locale: 'id' });
+    speech.say('stale', { kind: 'sensei', locale: 'id' });
+    speech.say('newest', { kind: 'sensei', locale: 'id' });
+    speech.say('old board', { kind: 'strategy', locale: 'id', maxAgeMs: 1000 });
+    now = 2000;
+    finish();
+    expect(spoken.map(u => u.text)).toEqual(['first', 'newest']);
+    finish();
+    expect(spoken).toHaveLength(2);
+  });
+
+  it('stays quiet when muted or switched off and cuts off the current line on stop', () => {
+    const { synth, spoken } = fakeSynth();
+    expect(new SpeechManager({ synth, audio: fakeAudio(true), storage: null }).say('hi', { kind: 'sensei', locale: 'id' })).toBe(false);
+
+    const audio = fakeAudio();
+    const speech = new SpeechManager({ synth, audio, storage: null });
+    speech.say('hi', { kind: 'sensei', locale: 'id' });
+    speech.setPrefs({ enabled: false });
+    expect(synth.cancel).toHaveBeenCalled();
+    expect(audio.ducked).toBe(false);
+    // The cancelled line's error event must not start anything else
+    spoken[0].onerror?.();
+    expect(speech.say('again', { kind: 'sensei', locale: 'id' })).toBe(false);
+    expect(spoken).toHaveLength(1);
+  });
+
+  it('picks a voice per language and remembers the choice', () => {
+    const voices = [voice('Google US', 'en-US'), voice('Damayanti', 'in_ID'), voice('Daniel', 'en-GB')];
+    const { synth, spoken } = fakeSynth(voices);
+    const storage = new MemoryStorage();
+
+    const speech = new SpeechManager({ synth, audio: fakeAudio(), storage });
+    expect(speech.voicesFor('en').map(v => v.name)).toEqual(['Daniel', 'Google US']);
+    expect(speech.voiceFor('id')?.name).toBe('Damayanti');
+    expect(speech.voiceFor('ms')).toBeNull();
+    speech.setPrefs({ voices: { en: 'Google US' } });
+
+    const reloaded = new SpeechManager({ synth, audio: fakeAudio(), storage });
+    reloaded.say('Slice it!', { kind: 'sensei', locale: 'en' });
+    expect(spoken[0].voice?.name).toBe('Google US');
+  });
+});
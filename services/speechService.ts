@@ -0,0 +1,166 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { INTL_TAGS, Locale } from "./i18n";
+import type { HintKind } from "./llmAdvisor";
+import { soundManager } from "./soundService";
+import type { KeyValueStorage } from "./storageService";
+
+/** The parts of `speechSynthesis` the speaker uses, so tests can stand in for the browser. */
+export type SpeechSynth = Pick<SpeechSynthesis, 'speak' | 'cancel' | 'getVoices'> & Partial<Pick<SpeechSynthesis, 'addEventListener' | 'removeEventListener'>>;
+
+/** What the speaker needs from the sound engine: silence when muted, the voice bus volume and ducking. */
+export interface SpeechAudio {
+  getMuteState(): boolean;
+  getVoiceVolume(): number;
+  duck(on: boolean): void;
+}
+
+export interface VoicePrefs {
+  enabled: boolean;
+  /** `voiceURI` picked per language; the first matching voice otherwise. */
+  voices: Partial<Record<Locale, string>>;
+}
+
+export const DEFAULT_VOICE_PREFS: VoicePrefs = { enabled: true, voices: {} };
+
+/** A hint still waiting after this long describes a board that has moved on. */
+export const DEFAULT_MAX_AGE_MS = 6000;
+
+export interface SayOptions {
+  kind: HintKind;
+  locale: Locale;
+  maxAgeMs?: number;
+}
+
+export interface SpeechManagerOptions {
+  synth?: SpeechSynth | null;
+  audio?: SpeechAudio;
+  storage?: KeyValueStorage | null;
+  now?: () => number;
+}
+
+interface QueuedLine {
+  text: string;
+  kind: HintKind;
+  locale: Locale;
+  expiresAt: number;
+}
+
+const STORAGE_KEY = 'abang-voice';
+
+// Voice tags come as id-ID, id_ID or, on older Android, the legacy in_ID
+const primaryTag = (lang: string) => {
+  const primary = lang.toLowerCase().split(/[-_]/)[0];
+  return primary === 'in' ? 'id' : primary;
+};
+
+/**
+ * Reads hints aloud with the Web Speech API. One line speaks at a time; a newer
+ * hint of the same kind replaces the one waiting, and lines that waited past
+ * their age are dropped. The effects are ducked while it talks, and the
+ * sound engine's mute and voice bus apply.
+ */
+export class SpeechManager {
+  private synth: SpeechSynth | null;
+  private audio: SpeechAudio;
+  private storage: KeyValueStorage | null;
+  private now: () => number;
+  private prefs: VoicePrefs;
+  private queue: QueuedLine[] = [];
+  private speaking: SpeechSynthesisUtterance | null = null;
+  private listeners = new Set<() => void>();
+
+  constructor(options: SpeechManagerOptions = {}) {
+    this.synth = options.synth !== undefined ? options.synth : (typeof speechSynthesis !== 'undefined' ? speechSynthesis : null);
+    this.audio = options.audio ?? soundManager;
+    this.storage = options.storage !== undefined ? options.storage : (typeof localStorage !== 'undefined' ? localStorage : null);
+    this.now = options.now ?? (() => Date.now());
+    this.prefs = this.load();
+  }
+
+  private load(): VoicePrefs {
+    try {
+      const saved = JSON.parse(this.storage?.getItem(STORAGE_KEY) || '{}');
+      return { ...DEFAULT_VOICE_PREFS, ...saved, voices: { ...saved.voices } };
+    } catch (e) { return { ...DEFAULT_VOICE_PREFS, voices: {} }; }
+  }
+
+  isSupported() { return this.synth !== null; }
+
+  getPrefs(): VoicePrefs { return { ...this.prefs, voices: { ...this.prefs.voices } }; }
+
+  setPrefs(changes: Partial<VoicePrefs>) {
+    this.prefs = { ...this.prefs, ...changes, voices: { ...this.prefs.voices, ...changes.voices } };
+    try { this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.prefs)); } catch (e) { /* storage unavailable */ }
+    if (!this.prefs.enabled) this.stop();
+    this.listeners.forEach(listener => listener());
+  }
+
+  /** Installed voices for a language, the ones for its home country first. */
+  voicesFor(locale: Locale): SpeechSynthesisVoice[] {
+    const voices = this.synth?.getVoices().filter(v => primaryTag(v.lang) === locale) ?? [];
+    const home = (v: SpeechSynthesisVoice) => v.lang.replace('_', '-') === INTL_TAGS[locale] ? 0 : 1;
+    return voices.sort((a, b) => home(a) - home(b));
+  }
+
+  /** The chosen voice for a language, or null to let the browser pick one from the utterance's `lang`. */
+  voiceFor(locale: Locale): SpeechSynthesisVoice | null {
+    const voices = this.voicesFor(locale);
+    return voices.find(v => v.voiceURI === this.prefs.voices[locale]) ?? voices[0] ?? null;
+  }
+
+  /** Queues a line; false when speech is off, muted or unsupported. */
+  say(text: string, { kind, locale, maxAgeMs = DEFAULT_MAX_AGE_MS }: SayOptions): boolean {
+    if (!this.synth || !this.prefs.enabled || this.audio.getMuteState() || !text.trim()) return false;
+    this.queue = this.queue.filter(line => line.kind !== kind);
+    this.queue.push({ text, kind, locale, expiresAt: this.now() + maxAgeMs });
+    if (!this.speaking) this.next();
+    return true;
+  }
+
+  /** Cuts off the current line and forgets the queue, e.g. on mute or when a game closes. */
+  stop() {
+    this.queue = [];
+    if (!this.speaking) return;
+    this.speaking = null;
+    this.synth?.cancel();
+    this.audio.duck(false);
+  }
+
+  isSpeaking() { return this.speaking !== null; }
+
+  /** Called when the prefs change or the browser finishes loading its voices. */
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    this.synth?.addEventListener?.('voiceschanged', listener);
+    return () => {
+      this.listeners.delete(listener);
+      this.synth?.removeEventListener?.('voiceschanged', listener);
+    };
+  }
+
+  private next() {
+    const now = this.now();
+    this.queue = this.queue.filter(line => line.expiresAt > now);
+    const line = this.queue.shift();
+    if (!line || !this.synth) {
+      this.speaking = null;
+      this.audio.duck(false);
+      return;
+    }
+    const utterance = new SpeechSynthesisUtterance(line.text);
+    utterance.lang = INTL_TAGS[line.locale];
+    utterance.voice = this.voiceFor(line.locale);
+    utterance.volume = this.audio.getVoiceVolume();
+    // stop() clears `speaking` first, so the cancelled line's error event is ignored
+    utterance.onend = utterance.onerror = () => { if (this.speaking === utterance) this.next(); };
+    this.speaking = utterance;
+    this.audio.duck(true);
+    this.synth.speak(utterance);
+  }
+}
+
+export const speechManager = new SpeechManager();
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { emptyStats, LocalStorageBackend, MemoryStorage, migrate, NewRun, RunRecord, StatsStore, TOP_RUNS } from './storageService';
+
+const memoryStore = () => {
+  const storage = new MemoryStorage();
+  return { storage, store: new StatsStore(async () => new LocalStorageBackend(storage)) };
+};
+
+const slicerRun = (score: number, overrides: Partial<NewRun> = {}): NewRun => ({
+  game: 'slicer', score, level: 2, rank: 'NOVICE', sliced: { mango: 3, guava: 1 }, bombsHit: 1, durationMs: 60000, ...overrides
+});
+
+describe('StatsStore', () => {
+  it('creates a default profile on first use', async () => {
+    const { store } = memoryStore();
+    const profile = await store.getActiveProfile();
+    expect(profile.name).toBe('Player 1');
+    expect(profile.stats).toEqual(emptyStats());
+    expect((await store.getActiveProfile()).id).toBe(profile.id);
+  });
+
+  it('folds each run into the lifetime stats of the active profile', async () => {
+    const { store } = memoryStore();
+    await store.recordRun(slicerRun(500));
+    await store.recordRun(slicerRun(900, { level: 4, sliced: { mango: 2 } }));
+    await store.recordRun({ game: 'slingshot', score: 1200, level: 3, rank: null, stars: 2, sliced: {}, bombsHit: 0, durationMs: 30000 });
+
+    const { stats } = await store.getActiveProfile();
+    expect(stats.runs).toBe(3);
+    expect(stats.totalScore).toBe(2600);
+    expect(stats.playTimeMs).toBe(150000);
+    expect(stats.bestScore).toEqual({ slicer: 900, slingshot: 1200 });
+    expect(stats.highestLevel).toEqual({ slicer: 4, slingshot: 3 });
+    expect(stats.sliced.mango).toBe(5);
+    expect(stats.sliced.guava).toBe(1);
+    expect(stats.bombsHit).toBe(2);
+  });
+
+  it('credits runs to whichever profile is active', async () => {
+    const { store } = memoryStore();
+    const first = await store.getActiveProfile();
+    await store.recordRun(slicerRun(100));
+    const second = await store.createProfile('Siti');
+    const run = await store.recordRun(slicerRun(200));
+
+    expect(run.profileId).toBe(second.id);
+    expect((await store.listProfiles()).map(p => [p.name, p.stats.runs])).toEqual([['Player 1', 1], ['Siti', 1]]);
+    await store.setActiveProfile(first.id);
+    expect((await store.getActiveProfile()).name).toBe('Player 1');
+  });
+
+  it('keeps the top 10 of each game, best first', async () => {
+    const { store } = memoryStore();
+    for (let i = 0; i < 12; i++) await store.recordRun(slicerRun(i * 100));
+    await store.recordRun({ ...slicerRun(99999), game: 'slingshot' });
+
+    const top = await store.getTopRuns('slicer');
+    expect(top).toHaveLength(TOP_RUNS);
+    expect(top[0].score).toBe(1100);
+    expect(top[TOP_RUNS - 1].score).toBe(200);
+  });
+
+  it('survives across instances and ignores corrupted data', async () => {
+    const { storage, store } = memoryStore();
+    await store.recordRun(slicerRun(300));
+    const reopened = new StatsStore(async () => new LocalStorageBackend(storage));
+    expect((await reopened.getTopRuns('slicer'))[0].score).toBe(300);
+
+    storage.setItem('abang-arcade:runs', '{not json');
+    expect(await reopened.getRuns()).toEqual([]);
+  });
+});
+
+describe('migrate', () => {
+  it('applies every missing step in order and stamps the target version', () => {
+    const old = { id: 'r1', score: 10 };
+    const migrated = migrate<RunRecord & { tags: string[], bonus: number }>(old, {
+      2: r => ({ ...r, tags: [] }),
+      4: r => ({ ...r, bonus: r.score * 2 })
+    }, 4);
+    expect(migrated).toMatchObject({ id: 'r1', schemaVersion: 4, tags: [], bonus: 20 });
+  });
+
+  it('leaves current and newer records alone', () => {
+    const step = { 2: (r: any) => ({ ...r, touched: true }) };
+    expect(migrate({ schemaVersion: 2 }, step, 2)).toEqual({ schemaVersion: 2 });
+    expect(migrate({ schemaVersion: 5 }, step, 2)).toEqual({ schemaVersion: 5 });
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ReplayGame } from '../engine/replay';
+import { FruitType } from '../types';
+
+/** Bump together with a new entry in RUN_MIGRATIONS / PROFILE_MIGRATIONS. */
+export const SCHEMA_VERSION = 1;
+export const TOP_RUNS = 10;
+
+const DB_NAME = 'abang-arcade';
+const DB_VERSION = 1;
+const LOCAL_PREFIX = 'abang-arcade:';
+const ACTIVE_PROFILE_KEY = 'activeProfile';
+const DEFAULT_PROFILE_NAME = 'Player 1';
+
+export type StoreName = 'runs' | 'profiles' | 'meta';
+const STORES: StoreName[] = ['runs', 'profiles', 'meta'];
+
+/** One finished game. Slicer runs fill `rank`, `sliced` and `bombsHit`; Slingshot runs fill `stars`. */
+export interface RunRecord {
+  schemaVersion: number;
+  id: string;
+  profileId: string;
+  game: ReplayGame;
+  score: number;
+  /** Highest level reached (Slicer) or the level played (Slingshot). */
+  level: number;
+  rank: string | null;
+  stars?: number;
+  sliced: Partial<Record<FruitType, number>>;
+  bombsHit: number;
+  durationMs: number;
+  playedAt: string;
+}
+
+export type NewRun = Omit<RunRecord, 'schemaVersion' | 'id' | 'profileId' | 'playedAt'>;
+
+export interface LifetimeStats {
+  runs: number;
+  totalScore: number;
+  playTimeMs: number;
+  bestScore: Record<ReplayGame, number>;
+  highestLevel: Record<ReplayGame, number>;
+  sliced: Record<FruitType, number>;
+  bombsHit: number;
+}
+
+export interface Profile {
+  schemaVersion: number;
+  id: string;
+  name: string;
+  createdAt: string;
+  stats: LifetimeStats;
+}
+
+interface MetaRecord {
+  id: string;
+  value: string;
+}
+
+/** Upgrades a record stored by an older build by one schema version. */
+export type Migration = (record: any) => any;
+
+/**
+ * Steps keyed by the version they upgrade *to*. Adding a field means bumping
+ * SCHEMA_VERSION and adding a step here that fills it in for older records;
+ * versions without a step of their own carry records over unchanged.
+ */
+export const RUN_MIGRATIONS: Record<number, Migration> = {};
+export const PROFILE_MIGRATIONS: Record<number, Migration> = {};
+
+/** Runs every step `record` is missing. Records from a newer build are returned untouched. */
+export const migrate = <T extends { schemaVersion: number }>(record: any, migrations: Record<number, Migration>, target = SCHEMA_VERSION): T => {
+  let current = { schemaVersion: 1, ...record };
+  for (let version = current.schemaVersion + 1; version <= target; version++) {
+    current = { ...(migrations[version] ? migrations[version](current) : current), schemaVersion: version };
+  }
+  return current as T;
+};
+
+export const emptyStats = (): LifetimeStats => ({
+  runs: 0, totalScore: 0, playTimeMs: 0,
+  bestScore: { slicer: 0, slingshot: 0 },
+  highestLevel: { slicer: 0, slingshot: 0 },
+  sliced: { guava: 0, mango: 0, pineapple: 0, sweet_mango: 0, bomb: 0 },
+  bombsHit: 0
+});
+
+/** Lifetime stats after adding one more run. */
+export const addRunToStats = (stats: LifetimeStats, run: NewRun): LifetimeStats => {
+  const sliced = { ...stats.sliced };
+  (Object.keys(run.sliced) as FruitType[]).forEach(type => { sliced[type] = (sliced[type] || 0) + (run.sliced[type] || 0); });
+  return {
+    runs: stats.runs + 1,
+    totalScore: stats.totalScore + run.score,
+    playTimeMs: stats.playTimeMs + run.durationMs,
+    bestScore: { ...stats.bestScore, [run.game]: Math.max(stats.bestScore[run.game], run.score) },
+    highestLevel: { ...stats.highestLevel, [run.game]: Math.max(stats.highestLevel[run.game], run.level) },
+    sliced,
+    bombsHit: stats.bombsHit + run.bombsHit
+  };
+};
+
+/** Best `limit` runs of `game`, highest score first; ties go to the earlier run. */
+export const rankRuns = (runs: RunRecord[], game: ReplayGame, limit = TOP_RUNS) =>
+  runs.filter(r => r.game === game).sort((a, b) => b.score - a.score || a.playedAt.localeCompare(b.playedAt)).slice(0, limit);
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Record storage keyed by `id`, one collection per store. */
+export interface StorageBackend {
+  readonly kind: 'indexeddb' | 'localstorage';
+  get<T extends { id: string }>(store: StoreName, id: string): Promise<T | undefined>;
+  getAll<T extends { id: string }>(store: StoreName): Promise<T[]>;
+  put<T extends { id: string }>(store: StoreName, value: T): Promise<void>;
+}
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+export class IndexedDbBackend implements StorageBackend {
+  readonly kind = 'indexeddb' as const;
+
+  private constructor(private db: IDBDatabase) {}
+
+  static open(name = DB_NAME): Promise<IndexedDbBackend> {
+    return new Promise((resolve, reject) => {
+      const req = indexedDB.open(name, DB_VERSION);
+      // Object stores only change with DB_VERSION; record fields are migrated on read
+      req.onupgradeneeded = () => STORES.forEach(store => { if (!req.result.objectStoreNames.contains(store)) req.result.createObjectStore(store, { keyPath: 'id' }); });
+      req.onsuccess = () => resolve(new IndexedDbBackend(req.result));
+      req.onerror = () => reject(req.error);
+      req.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+    });
+  }
+
+  get<T extends { id: string }>(store: StoreName, id: string) {
+    return request<T | undefined>(this.db.transaction(store).objectStore(store).get(id));
+  }
+
+  getAll<T extends { id: string }>(store: StoreName) {
+    return request<T[]>(this.db.transaction(store).objectStore(store).getAll());
+  }
+
+  async put<T extends { id: string }>(store: StoreName, value: T) {
+    await request(this.db.transaction(store, 'readwrite').objectStore(store).put(value));
+  }
+}
+
+/** The part of the Web Storage API the fallback backend needs. */
+export type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+/** Keeps everything in memory, for when the browser refuses both IndexedDB and localStorage. */
+export class MemoryStorage implements KeyValueStorage {
+  private items = new Map<string, string>();
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, value); }
+}
+
+/** Stores each collection as one JSON object under `abang-arcade:<store>`. */
+export class LocalStorageBackend implements StorageBackend {
+  readonly kind = 'localstorage' as const;
+
+  constructor(private storage: KeyValueStorage) {}
+
+  private read<T>(store: StoreName): Record<string, T> {
+    try { return JSON.parse(this.storage.getItem(LOCAL_PREFIX + store) || '{}'); } catch (e) { return {}; }
+  }
+
+  async get<T extends { id: string }>(store: StoreName, id: string): Promise<T | undefined> {
+    return this.read<T>(store)[id];
+  }
+
+  async getAll<T extends { id: string }>(store: StoreName) {
+    return Object.values(this.read<T>(store));
+  }
+
+  async put<T extends { id: string }>(store: StoreName, value: T) {
+    const all = this.read<T>(store); all[value.id] = value;
+    this.storage.setItem(LOCAL_PREFIX + store, JSON.stringify(all));
+  }
+}
+
+/** IndexedDB when the browser allows it, otherwise localStorage, otherwise memory. */
+export const openBackend = async (): Promise<StorageBackend> => {
+  if (typeof indexedDB !== 'undefined') {
+    try { return await IndexedDbBackend.open(); } catch (e) { console.warn('IndexedDB unavailable, falling back to localStorage', e); }
+  }
+  try {
+    const probe = LOCAL_PREFIX + 'probe';
+    localStorage.setItem(probe, '1'); localStorage.removeItem(probe);
+    return new LocalStorageBackend(localStorage);
+  } catch (e) {
+    return new LocalStorageBackend(new MemoryStorage());
+  }
+};
+
+/**
+ * Local high scores, runs and per-profile lifetime stats. Every read goes
+ * through the migrations so records written by older builds keep working.
+ */
+export class StatsStore {
+  private backend: Promise<StorageBackend> | null = null;
+
+  constructor(private openStorage: () => Promise<StorageBackend> = openBackend) {}
+
+  private storage() {
+    if (!this.backend) this.backend = this.openStorage();
+    return this.backend;
+  }
+
+  async listProfiles(): Promise<Profile[]> {
+    const profiles = await (await this.storage()).getAll<Profile>('profiles');
+    return profiles.map(p => migrate<Profile>(p, PROFILE_MIGRATIONS)).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /** The profile new runs are credited to, created on first use. */
+  async getActiveProfile(): Promise<Profile> {
+    const storage = await this.storage();
+    const active = await storage.get<MetaRecord>('meta', ACTIVE_PROFILE_KEY);
+    const stored = active && await storage.get<Profile>('profiles', active.value);
+    if (stored) return migrate<Profile>(stored, PROFILE_MIGRATIONS);
+    const existing = await this.listProfiles();
+    if (existing.length > 0) { await this.setActiveProfile(existing[0].id); return existing[0]; }
+    return this.createProfile(DEFAULT_PROFILE_NAME);
+  }
+
+  async setActiveProfile(id: string) {
+    await (await this.storage()).put<MetaRecord>('meta', { id: ACTIVE_PROFILE_KEY, value: id });
+  }
+
+  /** Adds a profile and makes it the active one. */
+  async createProfile(name: string): Promise<Profile> {
+    const profile: Profile = { schemaVersion: SCHEMA_VERSION, id: newId(), name: name.trim() || DEFAULT_PROFILE_NAME, createdAt: new Date().toISOString(), stats: emptyStats() };
+    await (await this.storage()).put('profiles', profile);
+    await this.setActiveProfile(profile.id);
+    return profile;
+  }
+
+  /** Saves a finished run for the active profile and folds it into that profile's lifetime stats. */
+  async recordRun(run: NewRun): Promise<RunRecord> {
+    const storage = await this.storage();
+    const profile = await this.getActiveProfile();
+    const record: RunRecord = { ...run, schemaVersion: SCHEMA_VERSION, id: newId(), profileId: profile.id, playedAt: new Date().toISOString() };
+    await storage.put('runs', record);
+    await storage.put('profiles', { ...profile, stats: addRunToStats(profile.stats, run) });
+    return record;
+  }
+
+  async getRuns(): Promise<RunRecord[]> {
+    const runs = await (await this.storage()).getAll<RunRecord>('runs');
+    return runs.map(r => migrate<RunRecord>(r, RUN_MIGRATIONS));
+  }
+
+  async getTopRuns(game: ReplayGame, limit = TOP_RUNS): Promise<RunRecord[]> {
+    return rankRuns(await this.getRuns(), game, limit);
+  }
+}
+
+export const statsStore = new StatsStore();
@@ -0,0 +1,17 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useMemo, useSyncExternalStore } from 'react';
+import { formatNumber, getLocale, MessageKey, MessageParams, subscribeLocale, translate } from './i18n';
+
+/** The current locale plus a translator bound to it; components re-render when the player switches language. */
+export const useI18n = () => {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale);
+  return useMemo(() => ({
+    locale,
+    t: (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+    formatNumber: (value: number) => formatNumber(locale, value)
+  }), [locale]);
+};
@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { getLocale, subscribeLocale } from './i18n';
+import { getVoiceCommandsEnabled, isSpeechRecognitionAvailable, subscribeVoiceCommands, VoiceCommand, VoiceCommandListener, WebSpeechSpotter } from './voiceCommands';
+
+/**
+ * Listens for voice commands while the calling game screen is mounted and
+ * `active`, and the player has switched them on. The microphone is released
+ * as soon as any of that stops being true.
+ */
+export const useVoiceCommands = (onCommand: (command: VoiceCommand) => void, active = true) => {
+  const enabled = useSyncExternalStore(subscribeVoiceCommands, getVoiceCommandsEnabled);
+  const locale = useSyncExternalStore(subscribeLocale, getLocale);
+  // The latest handler, so commands see the current game state without restarting recognition
+  const handler = useRef(onCommand);
+  handler.current = onCommand;
+
+  useEffect(() => {
+    if (!enabled || !active || !isSpeechRecognitionAvailable()) return;
+    const listener = new VoiceCommandListener(new WebSpeechSpotter(), command => handler.current(command));
+    listener.start(locale);
+    return () => listener.stop();
+  }, [enabled, active, locale]);
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { parseCommand, ScriptedSpotter, VoiceCommand, VoiceCommandListener } from './voiceCommands';
+
+describe('parseCommand', () => {
+  it('understands the commands in each language', () => {
+    expect(parseCommand('Mulai!', 'id')).toEqual({ type: 'start' });
+    expect(parseCommand('pause dulu bang', 'id')).toEqual({ type: 'pause' });
+    expect(parseCommand('lanjut', 'id')).toEqual({ type: 'resume' });
+    expect(parseCommand('ulang', 'id')).toEqual({ type: 'restart' });
+    expect(parseCommand('main lagi', 'id')).toEqual({ type: 'restart' });
+    expect(parseCommand('balik ke menu', 'id')).toEqual({ type: 'menu' });
+    expect(parseCommand('sambung', 'ms')).toEqual({ type: 'resume' });
+    expect(parseCommand('Restart please', 'en')).toEqual({ type: 'restart' });
+  });
+
+  it('switches color only after a color phrase, in the color names of the language', () => {
+    expect(parseCommand('ganti warna merah', 'id')).toEqual({ type: 'color', color: 'red' });
+    expect(parseCommand('tukar warna biru', 'ms')).toEqual({ type: 'color', color: 'blue' });
+    expect(parseCommand('switch to green', 'en')).toEqual({ type: 'color', color: 'green' });
+    expect(parseCommand('merah', 'id')).toBeNull();
+    expect(parseCommand('ganti warna red', 'id')).toBeNull();
+  });
+
+  it('matches whole words and ignores everything else', () => {
+    expect(parseCommand('permainan seru', 'id')).toBeNull();
+    expect(parseCommand('good shot', 'en')).toBeNull();
+    expect(parseCommand('', 'en')).toBeNull();
+  });
+});
+
+describe('VoiceCommandListener', () => {
+  it('turns injected transcripts into commands until stopped', () => {
+    const spotter = new ScriptedSpotter();
+    const heard: VoiceCommand[] = [];
+    const listener = new VoiceCommandListener(spotter, command => heard.push(command));
+
+    listener.start('id');
+    spotter.hear('halo bang');
+    spotter.hear('ganti warna kuning');
+    spotter.hear('jeda');
+    listener.stop();
+    spotter.hear('mulai');
+
+    expect(heard).toEqual([{ type: 'color', color: 'yellow' }, { type: 'pause' }]);
+    expect(spotter.listening).toBe(false);
+  });
+});
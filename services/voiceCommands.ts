@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BubbleColor } from "../types";
+import { COLOR_CONFIG } from "../engine/bubbleGrid";
+import { INTL_TAGS, Locale, translate } from "./i18n";
+
+export type VoiceCommand =
+  | { type: 'start' }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'restart' }
+  | { type: 'menu' }
+  | { type: 'color', color: BubbleColor };
+
+type KeywordCommand = Exclude<VoiceCommand['type'], 'color'>;
+
+// Checked in this order, so "main lagi" restarts rather than starts
+const KEYWORDS: Record<Locale, [KeywordCommand, string[]][]> = {
+  id: [['restart', ['ulang', 'ulangi', 'main lagi']], ['resume', ['lanjut', 'lanjutkan']], ['pause', ['jeda', 'pause', 'berhenti']], ['menu', ['menu', 'keluar']], ['start', ['mulai', 'main']]],
+  ms: [['restart', ['ulang', 'main semula']], ['resume', ['sambung', 'teruskan']], ['pause', ['jeda', 'pause', 'berhenti']], ['menu', ['menu', 'keluar']], ['start', ['mula', 'mulakan', 'main']]],
+  en: [['restart', ['restart', 'retry', 'again']], ['resume', ['resume', 'continue']], ['pause', ['pause', 'stop']], ['menu', ['menu', 'quit', 'exit']], ['start', ['start', 'play', 'go']]]
+};
+
+/** A color only counts after one of these, so a stray "merah" in conversation does not switch the ball. */
+const COLOR_PREFIXES: Record<Locale, string[]> = {
+  id: ['ganti warna', 'warna'],
+  ms: ['tukar warna', 'warna'],
+  en: ['switch to', 'colour', 'color']
+};
+
+const words = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+
+/** Index just past the first whole-word occurrence of `phrase`, or -1. */
+const findPhrase = (heard: string[], phrase: string) => {
+  const target = words(phrase);
+  for (let i = 0; i + target.length <= heard.length; i++) {
+    if (target.every((word, j) => heard[i + j] === word)) return i + target.length;
+  }
+  return -1;
+};
+
+/** The command in a transcript, matched on whole words in the player's language; null when there is none. */
+export const parseCommand = (transcript: string, locale: Locale): VoiceCommand | null => {
+  const heard = words(transcript);
+  for (const prefix of COLOR_PREFIXES[locale]) {
+    const end = findPhrase(heard, prefix);
+    if (end < 0) continue;
+    const rest = heard.slice(end);
+    const color = (Object.keys(COLOR_CONFIG) as BubbleColor[]).find(c => findPhrase(rest, translate(locale, `color.${c}`)) >= 0);
+    if (color) return { type: 'color', color };
+  }
+  for (const [type, phrases] of KEYWORDS[locale]) {
+    if (phrases.some(phrase => findPhrase(heard, phrase) >= 0)) return { type } as VoiceCommand;
+  }
+  return null;
+};
+
+/**
+ * Turns speech into transcripts. The browser's speech recognition where it has
+ * one; anything else (an on-device model, a test) can stand in.
+ */
+export interface KeywordSpotter {
+  start(locale: Locale, onTranscript: (transcript: string) => void): void;
+  stop(): void;
+}
+
+export const isSpeechRecognitionAvailable = () => typeof window !== 'undefined' && !!(window.SpeechRecognition || window.webkitSpeechRecognition);
+
+/** Continuous Web Speech recognition. Browsers end a session after a pause in speech, so it restarts until stopped. */
+export class WebSpeechSpotter implements KeywordSpotter {
+  private recognition: any = null;
+  private listening = false;
+
+  start(locale: Locale, onTranscript: (transcript: string) => void) {
+    this.stop();
+    const Recognition = window.SpeechRecognition || window.webkitSpeechRecognition;
+    const recognition = new Recognition();
+    recognition.lang = INTL_TAGS[locale];
+    recognition.continuous = true;
+    recognition.interimResults = false;
+    recognition.onresult = (e: any) => {
+      for (let i = e.resultIndex; i < e.results.length; i++) {
+        if (e.results[i].isFinal) onTranscript(e.results[i][0].transcript);
+      }
+    };
+    recognition.onerror = (e: any) => {
+      // Denied microphone: restarting would only fail again
+      if (e.error === 'not-allowed' || e.error === 'service-not-allowed') { console.warn('Voice commands unavailable:', e.error); this.listening = false; }
+    };
+    recognition.onend = () => { if (this.listening && this.recognition === recognition) recognition.start(); };
+    this.recognition = recognition; this.listening = true;
+    recognition.start();
+  }
+
+  stop() {
+    this.listening = false;
+    this.recognition?.abort();
+    this.recognition = null;
+  }
+}
+
+/** Hears whatever it is told to, e.g. transcripts injected by a test. */
+export class ScriptedSpotter implements KeywordSpotter {
+  private onTranscript: ((transcript: string) => void) | null = null;
+
+  start(_locale: Locale, onTranscript: (transcript: string) => void) { this.onTranscript = onTranscript; }
+  stop() { this.onTranscript = null; }
+
+  get listening() { return this.onTranscript !== null; }
+
+  hear(transcript: string) { this.onTranscript?.(transcript); }
+}
+
+/** Feeds a spotter's transcripts through `parseCommand`, dropping everything that is not a command. */
+export class VoiceCommandListener {
+  constructor(private spotter: KeywordSpotter, private onCommand: (command: VoiceCommand) => void) {}
+
+  start(locale: Locale) {
+    this.spotter.start(locale, transcript => {
+      const command = parseCommand(transcript, locale);
+      if (command) this.onCommand(command);
+    });
+  }
+
+  stop() { this.spotter.stop(); }
+}
+
+const STORAGE_KEY = 'abang-voice-commands';
+let enabled: boolean | null = null;
+const listeners = new Set<() => void>();
+
+/** Off until the player turns it on, since it asks for the microphone. */
+export const getVoiceCommandsEnabled = (): boolean => {
+  if (enabled !== null) return enabled;
+  try { return enabled = localStorage.getItem(STORAGE_KEY) === '1'; } catch (e) { return enabled = false; }
+};
+
+export const setVoiceCommandsEnabled = (on: boolean) => {
+  enabled = on;
+  try { localStorage.setItem(STORAGE_KEY, on ? '1' : '0'); } catch (e) { /* storage unavailable */ }
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeVoiceCommands = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
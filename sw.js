@@ -1,20 +1,107 @@
+/**
+ * Abang Arcade's service worker. The build replaces BUILD (see `serviceWorker`
+ * in vite.config.ts) with the bundle's files and a version derived from them,
+ * so each deploy precaches its own files and clears the caches of the last.
+ *
+ * - The app shell is served from the precache; pages fall back to it offline.
+ * - The hand tracker's code and wasm are part of the bundle. Its model, Tailwind
+ *   and the fonts come from the app or CDNs; they are cached on install as far as
+ *   the network allows, then stale-while-revalidate.
+ * - API calls (AI hints, the leaderboard) always go to the network; the game
+ *   falls back to its offline advisor without one.
+ * - A new version waits until the page asks it to take over (SKIP_WAITING).
+ */
+const BUILD = { version: 'dev', files: ['/', '/index.html', '/manifest.json'] };
 
-const CACHE_NAME = 'abang-ninja-v1';
-const ASSETS = [
-  '/',
-  '/index.html'
+const PREFIX = 'abang-arcade-';
+const SHELL_CACHE = `${PREFIX}shell-${BUILD.version}`;
+const RUNTIME_CACHE = `${PREFIX}runtime-${BUILD.version}`;
+// Caches from before the worker was versioned
+const LEGACY_CACHES = ['abang-ninja-v1'];
+
+const FONTS_CSS = 'https://fonts.googleapis.com/css2?family=Roboto:wght@400;500;700;900&display=swap';
+const CDN_ASSETS = [
+  'https://cdn.tailwindcss.com',
+  FONTS_CSS,
+  'https://cdn-icons-png.flaticon.com/512/415/415733.png',
+  // The hand model, from the app when it ships one, else from Google (see services/handTracker.ts)
+  '/models/hand_landmarker.task',
+  'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task'
 ];
+// Files from these hosts are cached as they are used; anything else is left to the network
+const RUNTIME_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'aistudiocdn.com', 'esm.sh', 'cdn-icons-png.flaticon.com', 'storage.googleapis.com'];
+
+/** Caches a CDN file, opaquely if its host does not allow CORS. Failures are ignored: the game still runs without them. */
+const precache = async (cache, url) => {
+  try {
+    const response = await fetch(url, { mode: 'cors' }).catch(() => fetch(url, { mode: 'no-cors' }));
+    // A missing /models file comes back as the app's index.html on hosts that rewrite unknown paths
+    const html = response.headers.get('content-type')?.includes('text/html');
+    if ((response.ok && !html) || response.type === 'opaque') await cache.put(url, response);
+  } catch (e) { /* offline or blocked */ }
+};
+
+/** The font files the Google Fonts stylesheet points at, which the browser would otherwise fetch on first render. */
+const precacheFonts = async (cache) => {
+  const response = await cache.match(FONTS_CSS);
+  if (!response || response.type === 'opaque') return;
+  const urls = [...(await response.text()).matchAll(/url\((https:[^)]+)\)/g)].map(match => match[1]);
+  await Promise.all(urls.map(url => precache(cache, url)));
+};
 
 self.addEventListener('install', (event) => {
-  event.waitUntil(
-    caches.open(CACHE_NAME).then((cache) => cache.addAll(ASSETS))
-  );
+  event.waitUntil((async () => {
+    const shell = await caches.open(SHELL_CACHE);
+    await shell.addAll(BUILD.files);
+    const runtime = await caches.open(RUNTIME_CACHE);
+    await Promise.all(CDN_ASSETS.map(url => precache(runtime, url)));
+    await precacheFonts(runtime);
+  })());
 });
 
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keep = [SHELL_CACHE, RUNTIME_CACHE];
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => (name.startsWith(PREFIX) || LEGACY_CACHES.includes(name)) && !keep.includes(name))
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+/** Answers from the cache when it can and refreshes the entry in the background. */
+const staleWhileRevalidate = async (event) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(event.request);
+  const refresh = fetch(event.request).then(response => {
+    if (response.ok || response.type === 'opaque') cache.put(event.request, response.clone());
+    return response;
+  });
+  event.waitUntil(refresh.catch(() => null));
+  return cached ?? refresh;
+};
+
 self.addEventListener('fetch', (event) => {
-  event.respondWith(
-    caches.match(event.request).then((response) => {
-      return response || fetch(event.request);
-    })
-  );
-});
\ No newline at end of file
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  const sameOrigin = url.origin === self.location.origin;
+  if (sameOrigin && url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    // Fresh HTML when online, so a deploy shows up on the next visit; the precached page offline
+    event.respondWith(fetch(request).catch(async () => (await caches.match(request)) ?? caches.match('/index.html')));
+    return;
+  }
+  if (!sameOrigin && !RUNTIME_HOSTS.includes(url.hostname)) return;
+
+  event.respondWith((async () => {
+    const shell = await caches.open(SHELL_CACHE);
+    return (await shell.match(request)) ?? staleWhileRevalidate(event);
+  })());
+});
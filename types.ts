@@ -23,6 +23,8 @@ export interface Fruit {
   rotationSpeed: number;
   isSliced: boolean;
   sliceAngle?: number;
+  slicedTime?: number; // Simulation time (ms) of the cut, drives the mash/separation animation
+  impactIntensity?: number; // Blade speed at the cut, clamped 10-40
 }
 
 export interface Particle {
@@ -48,6 +50,9 @@ export interface XPPoint {
 // Added BubbleColor and Bubble for Slingshot game
 export type BubbleColor = 'red' | 'blue' | 'green' | 'yellow' | 'purple' | 'orange';
 
+/** Cells only authored levels place: stones never pop, bombs blast their neighbors when a shot lands next to them. */
+export type SpecialBubble = 'stone' | 'bomb';
+
 export interface Bubble {
   id: string;
   row: number;
@@ -56,6 +61,28 @@ export interface Bubble {
   y: number;
   color: BubbleColor;
   active: boolean;
+  special?: SpecialBubble; // When set, `color` is ignored for matching and scoring
+}
+
+/** A bubble cut loose from the ceiling, falling off the board (visual only). */
+export interface FallingBubble {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  color: BubbleColor;
+  special?: SpecialBubble;
+}
+
+/** A reachable same-color cluster, summarized for the strategy prompt. */
+export interface TargetCandidate {
+  id: string;
+  color: BubbleColor;
+  size: number;
+  row: number;
+  col: number;
+  pointsPerBubble: number;
+  description: string;
 }
 
 export interface StrategicHint {
@@ -69,13 +96,37 @@ export interface StrategicHint {
   recommendedColor?: BubbleColor;
 }
 
+/** Why an AI request produced no usable hint. */
+export type AiErrorCode =
+  | 'missing_config'   // no key / endpoint configured
+  | 'timeout'          // an attempt exceeded its deadline
+  | 'aborted'          // cancelled by the caller (unmount, newer snapshot)
+  | 'network'          // the request never got an answer
+  | 'http'             // the backend answered with an error status
+  | 'bad_json'         // the reply was not JSON
+  | 'invalid_response'; // JSON that does not match the hint schema
+
+export interface AiFailure {
+  code: AiErrorCode;
+  message: string;
+}
+
+/** Tokens billed for a request, summed over its attempts when the backend reports them. */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
 export interface DebugInfo {
   latency: number;
   screenshotBase64?: string;
   promptContext: string;
   rawResponse: string;
   parsedResponse?: any;
-  error?: string;
+  error?: AiFailure;
+  /** Requests made, including retries. */
+  attempts?: number;
+  usage?: TokenUsage;
   timestamp: string;
 }
 
@@ -86,10 +137,7 @@ export interface AiResponse {
 
 declare global {
   interface Window {
-    Hands: any;
-    Camera: any;
-    drawConnectors: any;
-    drawLandmarks: any;
-    HAND_CONNECTIONS: any;
+    SpeechRecognition: any;
+    webkitSpeechRecognition: any;
   }
 }
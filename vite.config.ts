@@ -1,7 +1,53 @@
 
-import { defineConfig } from 'vite';
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig({
-  plugins: [react()],
+/**
+ * Emits `sw.js` with the bundle's file list and a version hashed from it, so
+ * each deploy precaches its own files and the worker drops the old caches.
+ */
+const serviceWorker = (): Plugin => ({
+  name: 'abang-service-worker',
+  apply: 'build',
+  generateBundle(_, bundle) {
+    const template = readFileSync('sw.js', 'utf8');
+    const emitted = Object.keys(bundle).filter(file => !file.endsWith('.map')).map(file => `/${file}`);
+    const files = [...new Set(['/', '/index.html', '/manifest.json', ...emitted])];
+    const version = createHash('sha256').update(template).update(files.join('\n')).digest('hex').slice(0, 12);
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source: template.replace(/^const BUILD = .*;$/m, `const BUILD = ${JSON.stringify({ version, files })};`) });
+  },
+});
+
+export default defineConfig(({ command, mode }) => {
+  const env = loadEnv(mode, process.cwd(), '');
+  // With a key and no explicit provider the browser goes through the AI proxy, which keeps the key server-side
+  const proxyUrl = env.AI_PROXY_URL ?? ((env.API_KEY || env.AI_PROXY_PROVIDER) && !env.AI_PROVIDER ? '/api' : '');
+  return {
+    plugins: [react(), serviceWorker()],
+    define: {
+      // Only inlined for an explicit AI_PROVIDER=gemini, which ships the key to the browser; left alone
+      // otherwise so a host that injects process.env.API_KEY at runtime keeps working
+      ...(env.API_KEY && env.AI_PROVIDER === 'gemini' && { 'process.env.API_KEY': JSON.stringify(env.API_KEY) }),
+      // Browser-side AI advisor selection, see services/aiAdvisor.ts. The proxy's AI_PROXY_* settings stay on the server
+      'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER ?? ''),
+      'process.env.AI_MODEL': JSON.stringify(env.AI_MODEL ?? ''),
+      'process.env.AI_BASE_URL': JSON.stringify(env.AI_BASE_URL ?? ''),
+      // Like API_KEY, only inlined when the browser is told to call an OpenAI-compatible server itself
+      'process.env.AI_API_KEY': JSON.stringify(env.AI_PROVIDER === 'openai' ? env.AI_API_KEY ?? '' : ''),
+      'process.env.AI_FIXTURES': JSON.stringify(env.AI_FIXTURES ?? ''),
+      'process.env.AI_PROXY_URL': JSON.stringify(proxyUrl),
+      // Request budget for model-backed advisors, see services/aiScheduler.ts
+      'process.env.AI_REQUESTS_PER_MINUTE': JSON.stringify(env.AI_REQUESTS_PER_MINUTE ?? ''),
+      // Empty leaves the leaderboard off; see server/main.ts for a local one
+      'process.env.LEADERBOARD_URL': JSON.stringify(env.LEADERBOARD_URL ?? ''),
+      // Only builds have a service worker; the dev server would serve the unfilled template
+      'process.env.SW_URL': JSON.stringify(command === 'build' ? '/sw.js' : ''),
+    },
+    server: {
+      // `npm run ai-proxy` serves /api/hint locally, like the Vercel function in production
+      proxy: { '/api': { target: `http://localhost:${env.AI_PROXY_PORT || 8789}`, xfwd: true } },
+    },
+  };
 });